@@ -0,0 +1,19 @@
+-- Create cache_entries table for the shared Postgres cache backend
+CREATE TABLE IF NOT EXISTS cache_entries (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for pruning expired entries
+CREATE INDEX IF NOT EXISTS idx_cache_entries_expires_at ON cache_entries(expires_at);
+
+-- Enable Row Level Security; only the service role reads and writes the cache
+ALTER TABLE cache_entries ENABLE ROW LEVEL SECURITY;
+
+-- Add comment for documentation
+COMMENT ON TABLE cache_entries IS 'Shared cache for search provider responses and other expensive lookups';
+COMMENT ON COLUMN cache_entries.key IS 'Namespaced cache key, e.g. search:exa:10:<query>';
+COMMENT ON COLUMN cache_entries.value IS 'Cached value, including its freshness deadline for stale-while-revalidate';
+COMMENT ON COLUMN cache_entries.expires_at IS 'When the entry may no longer be served, even as stale';
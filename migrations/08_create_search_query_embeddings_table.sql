@@ -0,0 +1,19 @@
+-- Create search_query_embeddings table for the semantic query cache
+CREATE TABLE IF NOT EXISTS search_query_embeddings (
+    search_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    enhanced_query TEXT NOT NULL,
+    embedding JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for recent-query lookups per user
+CREATE INDEX IF NOT EXISTS idx_search_query_embeddings_user_created ON search_query_embeddings(user_id, created_at DESC);
+
+-- Enable Row Level Security; the server reads and writes with the service role
+ALTER TABLE search_query_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Add comment for documentation
+COMMENT ON TABLE search_query_embeddings IS 'Embeddings of enhanced queries, used to reuse answers for paraphrased questions';
+COMMENT ON COLUMN search_query_embeddings.search_id IS 'Foreign key reference to searches.searchId';
+COMMENT ON COLUMN search_query_embeddings.embedding IS 'Query embedding as a JSON array of numbers';
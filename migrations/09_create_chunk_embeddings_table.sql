@@ -0,0 +1,45 @@
+-- Create chunk_embeddings table for the persistent RAG vector store (VECTOR_STORE=pgvector)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS chunk_embeddings (
+    url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    model TEXT NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1024) NOT NULL,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (url, content_hash, model)
+);
+
+-- Create indexes for nearest-neighbour search and per-page lookups
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_embedding ON chunk_embeddings USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_url ON chunk_embeddings(url);
+
+-- Nearest chunks to a query embedding, used by PgVectorStore.query
+CREATE OR REPLACE FUNCTION match_chunk_embeddings(
+    query_embedding vector(1024),
+    match_model TEXT,
+    match_count INT,
+    min_similarity FLOAT DEFAULT 0,
+    exclude_urls TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (url TEXT, content_hash TEXT, model TEXT, content TEXT, metadata JSONB, similarity FLOAT)
+LANGUAGE sql STABLE
+AS $$
+    SELECT c.url, c.content_hash, c.model, c.content, c.metadata, 1 - (c.embedding <=> query_embedding) AS similarity
+    FROM chunk_embeddings c
+    WHERE c.model = match_model
+      AND NOT (c.url = ANY(exclude_urls))
+      AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Enable Row Level Security; the server reads and writes with the service role
+ALTER TABLE chunk_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Add comment for documentation
+COMMENT ON TABLE chunk_embeddings IS 'Embeddings of scraped page chunks, reused across searches by the RAG step';
+COMMENT ON COLUMN chunk_embeddings.content_hash IS 'sha256 of the chunk text; a changed page gets new rows';
+COMMENT ON COLUMN chunk_embeddings.embedding IS 'jina-embeddings-v3 passage embedding (1024 dimensions)';
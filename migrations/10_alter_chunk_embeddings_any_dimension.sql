@@ -0,0 +1,64 @@
+-- Let chunk_embeddings hold vectors of any size, so every embedding provider
+-- (Jina, OpenAI-compatible, local ONNX) can share the table. Rows are told
+-- apart by model; vectors of different models are never compared.
+DROP INDEX IF EXISTS idx_chunk_embeddings_embedding;
+ALTER TABLE chunk_embeddings ALTER COLUMN embedding TYPE vector;
+
+-- Approximate nearest-neighbour indexes need a fixed size, so there is one
+-- partial index per model, on the embedding cast to the model's size. Add one
+-- like these for any other model in use (its ID as the embedding provider reports it).
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_jina_v3 ON chunk_embeddings
+    USING hnsw ((embedding::vector(1024)) vector_cosine_ops) WHERE model = 'jina-embeddings-v3';
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_openai_3_small ON chunk_embeddings
+    USING hnsw ((embedding::vector(1536)) vector_cosine_ops) WHERE model = 'openai:text-embedding-3-small';
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_minilm_l6 ON chunk_embeddings
+    USING hnsw ((embedding::vector(384)) vector_cosine_ops) WHERE model = 'local:Xenova/all-MiniLM-L6-v2';
+CREATE INDEX IF NOT EXISTS idx_chunk_embeddings_model ON chunk_embeddings(model);
+
+DROP FUNCTION IF EXISTS match_chunk_embeddings(vector, TEXT, INT, FLOAT, TEXT[]);
+
+-- Nearest chunks to a query embedding, used by PgVectorStore.query
+--
+-- The model's rows are selected in a subquery before any distance is
+-- computed, so vectors of other sizes are never compared. The model and size
+-- are written into the query as literals, so the planner matches the model's
+-- partial index above.
+CREATE OR REPLACE FUNCTION match_chunk_embeddings(
+    query_embedding vector,
+    match_model TEXT,
+    match_count INT,
+    min_similarity FLOAT DEFAULT 0,
+    exclude_urls TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (url TEXT, content_hash TEXT, model TEXT, content TEXT, metadata JSONB, similarity FLOAT)
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+    dimensions INT := vector_dims(query_embedding);
+BEGIN
+    RETURN QUERY EXECUTE format(
+        $query$
+        SELECT m.url, m.content_hash, m.model, m.content, m.metadata, m.similarity
+        FROM (
+            SELECT c.url, c.content_hash, c.model, c.content, c.metadata,
+                   1 - (c.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity
+            FROM (
+                SELECT * FROM chunk_embeddings
+                WHERE chunk_embeddings.model = %2$L
+                  AND vector_dims(chunk_embeddings.embedding) = %1$s
+                  AND NOT (chunk_embeddings.url = ANY($2))
+            ) c
+            ORDER BY c.embedding::vector(%1$s) <=> $1::vector(%1$s)
+            LIMIT $3
+        ) m
+        WHERE m.similarity >= $4
+        $query$,
+        dimensions,
+        match_model
+    )
+    USING query_embedding, exclude_urls, match_count, min_similarity;
+END;
+$$;
+
+COMMENT ON COLUMN chunk_embeddings.embedding IS 'Passage embedding from the provider named in model';
+COMMENT ON COLUMN chunk_embeddings.model IS 'Embedding provider ID, e.g. jina-embeddings-v3, openai:text-embedding-3-small or local:Xenova/all-MiniLM-L6-v2';
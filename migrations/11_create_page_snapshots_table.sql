@@ -0,0 +1,43 @@
+-- Create page_snapshots table for the scraped page archive (SNAPSHOT_STORE=postgres)
+CREATE TABLE IF NOT EXISTS page_snapshots (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    title TEXT,
+    format TEXT,
+    scraper TEXT,
+    blocks JSONB NOT NULL,
+    pages JSONB,
+    block_count INT NOT NULL,
+    UNIQUE (url, content_hash)
+);
+
+-- Create index for the latest snapshot and history of a page
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_url_last_seen ON page_snapshots(url, last_seen_at DESC);
+
+-- Snapshots each search's answer cited, by citation number
+CREATE TABLE IF NOT EXISTS snapshot_citations (
+    search_id TEXT NOT NULL,
+    citation_id INT NOT NULL,
+    snapshot_id TEXT NOT NULL REFERENCES page_snapshots(id),
+    url TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (search_id, citation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_citations_snapshot_id ON snapshot_citations(snapshot_id);
+
+-- Enable Row Level Security; the server reads and writes with the service role
+ALTER TABLE page_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_citations ENABLE ROW LEVEL SECURITY;
+
+-- Add comment for documentation
+COMMENT ON TABLE page_snapshots IS 'Content of scraped pages as extracted at the time, one row per URL and content';
+COMMENT ON COLUMN page_snapshots.id IS 'sha256 of the URL and content hash (32 hex characters)';
+COMMENT ON COLUMN page_snapshots.content_hash IS 'sha256 of the extracted content blocks; a changed page gets a new row';
+COMMENT ON COLUMN page_snapshots.fetched_at IS 'When the page was first scraped with this content';
+COMMENT ON COLUMN page_snapshots.last_seen_at IS 'When the page was last scraped with this content';
+COMMENT ON COLUMN page_snapshots.pages IS 'Page number of each block, for PDFs and Word documents';
+COMMENT ON TABLE snapshot_citations IS 'Snapshot each numbered citation of a search''s answer was taken from';
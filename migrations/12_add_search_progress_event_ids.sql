@@ -0,0 +1,12 @@
+-- Number the events streamed for each search so clients can resume a stream after the last event they received
+ALTER TABLE search_progress ADD COLUMN IF NOT EXISTS event_id BIGINT;
+ALTER TABLE search_progress ADD COLUMN IF NOT EXISTS error BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE search_progress ADD COLUMN IF NOT EXISTS error_type TEXT;
+
+-- Create index for replaying a search's events in order; also rejects an event recorded twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_progress_search_event ON search_progress(search_id, event_id);
+
+-- Add comment for documentation
+COMMENT ON COLUMN search_progress.event_id IS 'Order of the event among those streamed for the search (the SSE event ID); NULL for webhook updates';
+COMMENT ON COLUMN search_progress.error IS 'Whether the event reported an error';
+COMMENT ON COLUMN search_progress.error_type IS 'Type of error the event reported';
@@ -0,0 +1,11 @@
+-- Record which embedding provider produced each query embedding, so the
+-- semantic query cache only compares queries embedded by the same model.
+-- Existing rows were embedded with Jina, the only provider before this column.
+ALTER TABLE search_query_embeddings ADD COLUMN IF NOT EXISTS model TEXT NOT NULL DEFAULT 'jina-embeddings-v3';
+
+-- Recent-query lookups are per user and model
+DROP INDEX IF EXISTS idx_search_query_embeddings_user_created;
+CREATE INDEX IF NOT EXISTS idx_search_query_embeddings_user_model_created ON search_query_embeddings(user_id, model, created_at DESC);
+
+-- Add comment for documentation
+COMMENT ON COLUMN search_query_embeddings.model IS 'Embedding provider ID, e.g. jina-embeddings-v3, openai:text-embedding-3-small or local:Xenova/all-MiniLM-L6-v2';
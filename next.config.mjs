@@ -14,6 +14,9 @@ const nextConfig = {
     parallelServerBuildTraces: true,
     parallelServerCompiles: true,
   },
+  // Native ONNX runtime for local embeddings and pdf.js, which loads its
+  // worker module at runtime, are loaded from node_modules, not bundled
+  serverExternalPackages: ['@huggingface/transformers', 'onnxruntime-node', 'pdfjs-dist'],
   // Skip middleware completely for Vercel deployments
   skipMiddlewareUrlNormalize: true,
   skipTrailingSlashRedirect: true,
@@ -0,0 +1,120 @@
+/**
+ * Embedding backend retrieval benchmark
+ *
+ * Ranks a small labelled passage set for each query with every configured
+ * embedding provider (src/lib/embeddings) and with BM25 alone, the lexical
+ * fallback of the RAG step. Passages are grouped by topic with near-miss
+ * distractors, so a backend has to match meaning rather than shared words.
+ *
+ * Reports recall@1, recall@3, mean reciprocal rank and embedding time per
+ * backend. Backends without credentials are skipped; the local ONNX model
+ * downloads on first use unless LOCAL_EMBEDDINGS_MODEL_PATH is set.
+ *
+ * Usage: npm run bench:embeddings [-- jina openai local]
+ */
+
+import { performance } from 'perf_hooks';
+import { createEmbeddingProvider, EmbeddingProvider } from '../src/lib/embeddings';
+import { BM25Index, cosineSimilarity } from '../src/lib/retrieval';
+
+const PASSAGES = [
+  'Rust enforces memory safety at compile time through ownership: each value has a single owner and is freed when the owner goes out of scope.',
+  'The borrow checker allows either one mutable reference or any number of shared references to a value at a time.',
+  'Garbage-collected languages such as Java reclaim unused objects at runtime by tracing reachable references from roots.',
+  'Photosynthesis converts light energy into chemical energy, producing glucose and releasing oxygen as a by-product.',
+  'Chlorophyll absorbs mostly blue and red light and reflects green, which is why leaves look green.',
+  'Cellular respiration breaks down glucose in the mitochondria to produce ATP, consuming oxygen.',
+  'An index fund tracks a market benchmark such as the S&P 500 and usually charges lower fees than active funds.',
+  'Dollar-cost averaging invests a fixed amount at regular intervals regardless of price.',
+  'Bonds pay periodic interest and return the principal at maturity; their prices fall when interest rates rise.',
+  'HTTP 429 Too Many Requests tells a client it has sent too many requests in a given amount of time; a Retry-After header may say how long to wait.',
+  'A token bucket refills at a fixed rate and lets bursts through up to its capacity.',
+  'TLS certificates bind a public key to a domain name and are signed by a certificate authority.'
+];
+
+const QUERIES: Array<{ query: string; relevant: number }> = [
+  { query: 'how does Rust free memory without a garbage collector', relevant: 0 },
+  { query: 'can I have two mutable references to the same variable in Rust', relevant: 1 },
+  { query: 'why are plants green', relevant: 4 },
+  { query: 'what do plants make from sunlight', relevant: 3 },
+  { query: 'how do cells get energy from sugar', relevant: 5 },
+  { query: 'cheap passive way to invest in the whole stock market', relevant: 6 },
+  { query: 'what happens to my bond when rates go up', relevant: 8 },
+  { query: 'server says I am sending requests too fast', relevant: 9 },
+  { query: 'algorithm that allows short bursts but limits the average rate', relevant: 10 },
+  { query: 'who vouches that a website key really belongs to that site', relevant: 11 }
+];
+
+interface Scores {
+  recallAt1: number;
+  recallAt3: number;
+  mrr: number;
+}
+
+/**
+ * Retrieval metrics from one score list per query (higher is more relevant)
+ */
+function evaluate(scoresPerQuery: number[][]): Scores {
+  let hitsAt1 = 0;
+  let hitsAt3 = 0;
+  let reciprocalRanks = 0;
+
+  scoresPerQuery.forEach((scores, index) => {
+    const ranking = scores.map((score, passage) => ({ score, passage })).sort((a, b) => b.score - a.score);
+    const rank = ranking.findIndex(entry => entry.passage === QUERIES[index].relevant) + 1;
+    if (rank === 1) hitsAt1++;
+    if (rank <= 3) hitsAt3++;
+    reciprocalRanks += 1 / rank;
+  });
+
+  return {
+    recallAt1: hitsAt1 / QUERIES.length,
+    recallAt3: hitsAt3 / QUERIES.length,
+    mrr: reciprocalRanks / QUERIES.length
+  };
+}
+
+function report(label: string, scores: Scores, ms?: number) {
+  const time = ms === undefined ? '-' : `${Math.round(ms)}ms`;
+  console.log(
+    `${label.padEnd(44)} | ${scores.recallAt1.toFixed(2).padStart(4)} | ${scores.recallAt3.toFixed(2).padStart(4)} | ${scores.mrr.toFixed(3)} | ${time}`
+  );
+}
+
+async function benchmarkProvider(provider: EmbeddingProvider) {
+  const start = performance.now();
+  const passageEmbeddings = await provider.embed(PASSAGES, 'passage');
+  const queryEmbeddings = await provider.embed(QUERIES.map(entry => entry.query), 'query');
+  const ms = performance.now() - start;
+
+  const scores = queryEmbeddings.map(queryEmbedding =>
+    passageEmbeddings.map(passageEmbedding => cosineSimilarity(queryEmbedding, passageEmbedding))
+  );
+  report(provider.id, evaluate(scores), ms);
+}
+
+async function main() {
+  const backends = process.argv.slice(2).length > 0 ? process.argv.slice(2) : ['jina', 'openai', 'local'];
+
+  console.log(`${PASSAGES.length} passages, ${QUERIES.length} queries`);
+  console.log(`${'backend'.padEnd(44)} | R@1  | R@3  | MRR   | embed time`);
+
+  const bm25 = new BM25Index(PASSAGES);
+  report('bm25 (lexical fallback)', evaluate(QUERIES.map(entry => bm25.score(entry.query))));
+
+  for (const backend of backends) {
+    const provider = createEmbeddingProvider(backend);
+    if (!provider.isConfigured()) {
+      console.log(`${provider.id.padEnd(44)} | skipped (not configured)`);
+      continue;
+    }
+
+    try {
+      await benchmarkProvider(provider);
+    } catch (error) {
+      console.log(`${provider.id.padEnd(44)} | failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+main();
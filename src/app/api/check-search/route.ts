@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { auth } from "@/lib/auth"
+import { parseStructuredSummary } from "@/lib/mastra-vnext-utils/content-processing";
 
 export async function GET(request: Request) {
   try {
@@ -77,8 +78,11 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Search not found" }, { status: 404 });
     }
 
+    // Searches answered in the json format also get their answer parsed
+    const structuredSummary = typeof data.summary === 'string' ? parseStructuredSummary(data.summary) : null;
+
     // Return the search data
-    return NextResponse.json(data);
+    return NextResponse.json(structuredSummary ? { ...data, structuredSummary } : data);
   } catch (err) {
     console.error("Failed to check search:", err);
     return NextResponse.json({ error: "Something went wrong" }, { status: 500 });
@@ -9,9 +9,8 @@ import { createOrchestrationSystem } from '@/lib/mastra-vnext-utils/orchestratio
 import { createTaskManager } from '@/lib/mastra-vnext-utils/task-management';
 import { EventStreamWriter } from '@/lib/mastra-vnext-utils/stream-events';
 
-// Search provider implementations
-import { exaSearchProvider } from '@/lib/search-providers/exa-provider';
-import { jinaSearchProvider } from '@/lib/search-providers/jina-provider';
+// Shared search engine registry
+import { cachedEngineSearch, searchProviderRegistry } from '@/lib/search-providers';
 
 // Define a more specific type for the session object based on usage
 interface AppSession extends Session {
@@ -97,18 +96,26 @@ export async function POST(request: Request) {
           query
         );
 
-        // Register search providers
-        orchestrationSystem.registerSearchProvider({
-          name: 'exa',
-          provider: exaSearchProvider(process.env.EXA_API_KEY!),
-          enabled: true
-        });
-
-        orchestrationSystem.registerSearchProvider({
-          name: 'jina',
-          provider: jinaSearchProvider(process.env.JINA_API_KEY!),
-          enabled: true
-        });
+        // Register every configured general-purpose engine from the shared registry
+        for (const engine of searchProviderRegistry.listGeneral()) {
+          orchestrationSystem.registerSearchProvider({
+            name: engine.name,
+            provider: {
+              search: async (searchQuery: string, options: { limit?: number } = {}) => {
+                const results = await cachedEngineSearch(engine.name, searchQuery, { limit: options.limit });
+                return results.map(result => ({
+                  title: result.title,
+                  url: result.url,
+                  snippet: result.content,
+                  source: result.source,
+                  confidence: result.credibilityScore,
+                  relevance: result.relevanceScore
+                }));
+              }
+            },
+            enabled: true
+          });
+        }
 
         // Register agents
         orchestrationSystem.registerAgent({
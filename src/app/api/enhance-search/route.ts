@@ -2,8 +2,17 @@ import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 import {
   EventStreamWriter,
-  EventType
+  EventType,
+  createRuntimeContextFromSession,
+  parseStructuredSummary,
+  sanitizeAnswerHtml
 } from '@/lib/mastra-vnext-utils';
+import { qSearchWorkflow } from '@/lib/mastra-vnext-workflows';
+import { readStreamToText } from '@/lib/utils/streaming';
+import { parseChatModelName } from '@/lib/llm';
+import { snapshotStore } from '@/lib/snapshots';
+import { getSearchOwner } from '@/lib/storage';
+import { EVENT_PROTOCOL_HEADER, negotiateProtocolVersion } from '@/lib/event-protocol';
 
 // Use Node.js runtime for auth compatibility
 // TODO: Convert to Edge Runtime once auth is removed
@@ -12,6 +21,21 @@ export const runtime = 'nodejs';
 // Add comprehensive error handling and logging
 const DEBUG_MODE = process.env.NODE_ENV === 'development' || process.env.DEBUG_ENHANCE_SEARCH === 'true';
 
+// `workflow` runs the real qSearchWorkflow; `demo` replays the scripted events
+const SEARCH_MODES = ['workflow', 'demo'] as const;
+type SearchMode = typeof SEARCH_MODES[number];
+
+// `json` answers with a structuredAnswer object instead of a rendered text
+const SUMMARY_FORMATS = ['html', 'markdown', 'json'] as const;
+type SummaryFormat = typeof SUMMARY_FORMATS[number];
+
+interface EnhancedSearchResult {
+  summary: string | Record<string, any>;
+  searchId: string;
+  sources: Array<Record<string, any>>;
+  metadata: Record<string, any>;
+}
+
 // Validate environment to prevent circular dependency issues
 function validateEnvironment() {
   try {
@@ -45,7 +69,174 @@ async function getSafeUserId(): Promise<string> {
   }
 }
 
-// Simplified streaming implementation for Edge Runtime compatibility
+// Signed-in user ID, or null for anonymous callers (the mock user under auth bypass)
+async function getSafeSignedInUserId(): Promise<string | null> {
+  try {
+    const { getSignedInUserId } = await import('@/lib/utils/api-helpers');
+    return await getSignedInUserId();
+  } catch (authError) {
+    if (DEBUG_MODE) {
+      console.warn("[API Route] Auth not available, treating caller as anonymous:", authError);
+    }
+    return null;
+  }
+}
+
+/**
+ * Run the real qSearchWorkflow, forwarding every step event to the client
+ * through the EventStreamWriter. With `useCache` the workflow may answer from
+ * a recent search with a matching query; the result metadata then names it
+ * in `cachedSearchId`. `model` picks the chat model that writes the answer
+ * (CHAT_MODEL by default) and `format` how it is written; json answers are
+ * returned parsed.
+ */
+async function runSearchWorkflow(
+  writer: EventStreamWriter,
+  query: string,
+  searchId: string,
+  userId: string,
+  useCache: boolean,
+  model?: string,
+  format: SummaryFormat = 'html'
+): Promise<EnhancedSearchResult> {
+  const runtimeContext = createRuntimeContextFromSession(null, searchId, {
+    userId,
+    SCRAPYBARA_API_KEY: process.env.SCRAPYBARA_API_KEY || '',
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    semanticCache: useCache,
+    modelName: model,
+    summaryFormat: format
+  });
+
+  const run = qSearchWorkflow.createRun();
+
+  // Step events arrive faster than the throttled writer drains them, so chain
+  // the writes to keep them in emission order
+  let pendingWrites: Promise<void> = Promise.resolve();
+  run.watch(event => {
+    pendingWrites = pendingWrites
+      .then(() => writer.processEvent(event))
+      .catch(writeError => {
+        console.error('[API Route] Error forwarding workflow event:', writeError);
+      });
+  });
+
+  const runResult = await run.start({
+    inputData: { query, searchId, userId },
+    runtimeContext
+  });
+
+  // Flush any step events that are still queued before the final update
+  await pendingWrites;
+
+  if (runResult.status !== 'success') {
+    const failure = runResult.status === 'failed' ? runResult.error : `Workflow ${runResult.status}`;
+    throw failure instanceof Error ? failure : new Error(String(failure || 'Workflow did not complete'));
+  }
+
+  const { summary, metadata = {} } = runResult.result;
+  const { sources = [], grounding, ...resultMetadata } = metadata;
+
+  // The answer is generated while its stream is read; its summary_delta
+  // events reach the client before the final update
+  const summaryText = summary instanceof ReadableStream ? await readStreamToText(summary) : String(summary || '');
+  // Citations are checked once the answer is complete
+  const groundingReport = grounding ? await grounding : null;
+  await pendingWrites;
+
+  return {
+    summary: format === 'json' ? parseStructuredSummary(summaryText) ?? summaryText : summaryText,
+    searchId,
+    sources,
+    metadata: groundingReport ? { ...resultMetadata, grounding: groundingReport } : resultMetadata
+  };
+}
+
+/**
+ * Replay the scripted demo events. Useful for demos and for exercising the
+ * client without any provider API keys
+ */
+async function runScriptedDemo(
+  writer: EventStreamWriter,
+  query: string,
+  searchId: string
+): Promise<EnhancedSearchResult> {
+  await writer.sendManualUpdate(1, 'enhancing_running', {
+    description: 'Enhancing your search query...',
+    stepId: 'planning-query-enhancement'
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 800));
+
+  await writer.sendManualUpdate(1, 'enhancing_completed', {
+    description: 'Query enhancement completed',
+    stepId: 'planning-query-enhancement',
+    enhancedQuery: `Enhanced: ${query}`,
+    enhancedQueryLoaded: true
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  await writer.sendManualUpdate(2, 'searching_running', {
+    description: 'Searching multiple sources...',
+    stepId: 'exa-search'
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 1000));
+
+  await writer.sendManualUpdate(2, 'searching_completed', {
+    description: 'Search completed',
+    stepId: 'exa-search',
+    resultCount: 5,
+    provider: 'exa'
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  await writer.sendManualUpdate(3, 'reading_running', {
+    description: 'Reading and analyzing sources...',
+    stepId: 'scrape-webpage'
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 1200));
+
+  await writer.sendManualUpdate(3, 'reading_update', {
+    description: 'Content analysis in progress',
+    stepId: 'scrape-webpage',
+    link: 'https://example.com/source1',
+    contentBlocks: 3
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 800));
+
+  await writer.sendManualUpdate(5, 'wrapping_running', {
+    description: 'Synthesizing information...',
+    stepId: 'summary-step'
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 1000));
+
+  return {
+    summary: `Based on your search for "${query}", here's what I found:
+
+This is a demo response replaying scripted workflow events. Send \`mode: "workflow"\` (the default) to run the real search pipeline.
+
+Key findings:
+• The streaming pipeline is working correctly
+• Events are being processed and sent to the client
+• The EventStreamWriter is functioning as expected
+• The API route is handling requests properly`,
+    searchId,
+    sources: [],
+    metadata: {
+      enhancedQuery: `Enhanced: ${query}`,
+      searchPath: 'demo',
+      generationComplete: true,
+      testMode: true
+    }
+  };
+}
+
 export async function POST(request: Request) {
   try {
     // Validate environment first
@@ -60,24 +251,69 @@ export async function POST(request: Request) {
       console.log("[API Route] POST request received");
     }
 
-    const { query, searchId } = await request.json();
+    const { query, searchId, mode = 'workflow', useCache = true, model, format = 'html' } = await request.json();
 
     if (!query) {
       console.error("[API Route] Missing query parameter");
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
 
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json({
+        error: `Invalid mode "${mode}". Expected one of: ${SEARCH_MODES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || !parseChatModelName(model))) {
+      return NextResponse.json({
+        error: `Invalid model "${model}". Expected a gemini, anthropic, openai or fake model, e.g. "anthropic:claude-3-5-sonnet-latest"`
+      }, { status: 400 });
+    }
+
+    if (!SUMMARY_FORMATS.includes(format)) {
+      return NextResponse.json({
+        error: `Invalid format "${format}". Expected one of: ${SUMMARY_FORMATS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const searchMode = mode as SearchMode;
+
     if (DEBUG_MODE) {
-      console.log(`[API Route] Processing query: "${query}" with searchId: ${searchId}`);
+      console.log(`[API Route] Processing query: "${query}" with searchId: ${searchId} (mode: ${searchMode})`);
     }
 
-    // Determine user ID using safe auth helper (for future use)
+    // Clients state the newest event protocol version they understand
+    const protocolVersion = negotiateProtocolVersion(request.headers.get(EVENT_PROTOCOL_HEADER));
+
+    // Determine user ID using safe auth helper
     const user_id = await getSafeUserId();
 
     if (DEBUG_MODE) {
       console.log(`[API Route] Using user ID: ${user_id}`);
     }
 
+    // Searches of signed-in users are recorded as they start, so only their
+    // owner can follow their events through /api/search-stream. Anonymous
+    // callers all share the mock user ID, so their events are not recorded
+    // and they cannot write to a search someone else owns.
+    const ownerId = await getSafeSignedInUserId();
+    const recordedSearchId = ownerId ? searchId : undefined;
+
+    if (searchId) {
+      const owner = await getSearchOwner(searchId);
+      if (owner && owner !== ownerId) {
+        return NextResponse.json({ error: "Search not found" }, { status: 404 });
+      }
+      if (!owner && ownerId) {
+        const { error: dbError } = await supabase
+          .from('searches')
+          .upsert({ searchId, user_id: ownerId, query, completed: false }, { onConflict: 'searchId', ignoreDuplicates: true });
+        if (dbError) {
+          console.error('[API Route] Error recording search start:', dbError);
+        }
+      }
+    }
+
     const stream = new ReadableStream({
       async start(controller) {
         // Create a proper WritableStream for EventStreamWriter
@@ -93,120 +329,48 @@ export async function POST(request: Request) {
           }
         });
 
-        const writer = new EventStreamWriter(writableStream);
+        // Events are recorded under the search ID, so /api/search-stream can resume them
+        const writer = new EventStreamWriter(writableStream, protocolVersion, recordedSearchId);
 
         try {
-          console.log(`[API Route] Starting workflow for query: "${query}" with searchId: ${searchId}`);
+          console.log(`[API Route] Starting ${searchMode} search for query: "${query}" with searchId: ${searchId}`);
 
           // Send initial workflow started event
           await writer.sendWorkflowStarted(query, searchId);
 
-          // For now, create a comprehensive test response to verify streaming works
-          // TODO: Fix the actual workflow execution once Mastra API is properly configured
-
-          console.warn('[API Route] Using test implementation - workflow execution needs proper configuration');
-
-          // Send realistic test events to verify the streaming pipeline
-          await writer.sendManualUpdate(1, 'enhancing_running', {
-            description: 'Enhancing your search query...',
-            stepId: 'planning-query-enhancement'
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 800));
-
-          await writer.sendManualUpdate(1, 'enhancing_completed', {
-            description: 'Query enhancement completed',
-            stepId: 'planning-query-enhancement',
-            enhancedQuery: `Enhanced: ${query}`,
-            enhancedQueryLoaded: true
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 500));
-
-          await writer.sendManualUpdate(2, 'searching_running', {
-            description: 'Searching multiple sources...',
-            stepId: 'exa-search'
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 1000));
-
-          await writer.sendManualUpdate(2, 'searching_completed', {
-            description: 'Search completed',
-            stepId: 'exa-search',
-            resultCount: 5,
-            provider: 'exa'
-          });
+          const result = searchMode === 'demo'
+            ? await runScriptedDemo(writer, query, searchId)
+            : await runSearchWorkflow(writer, query, searchId, user_id, useCache !== false, model, format);
 
-          await new Promise(resolve => setTimeout(resolve, 500));
-
-          await writer.sendManualUpdate(3, 'reading_running', {
-            description: 'Reading and analyzing sources...',
-            stepId: 'scrape-webpage'
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 1200));
-
-          await writer.sendManualUpdate(3, 'reading_update', {
-            description: 'Content analysis in progress',
-            stepId: 'scrape-webpage',
-            link: 'https://example.com/source1',
-            contentBlocks: 3
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 800));
-
-          await writer.sendManualUpdate(5, 'wrapping_running', {
-            description: 'Synthesizing information...',
-            stepId: 'summary-step'
-          });
-
-          await new Promise(resolve => setTimeout(resolve, 1000));
-
-          // Create a comprehensive test result
-          const result = {
-            summary: `Based on your search for "${query}", here's what I found:
-
-This is a test response demonstrating the streaming functionality. The actual search workflow needs to be properly configured with the Mastra framework.
-
-Key findings:
-• The streaming pipeline is working correctly
-• Events are being processed and sent to the client
-• The EventStreamWriter is functioning as expected
-• The API route is handling requests properly
-
-Next steps:
-1. Configure the actual Mastra workflow execution
-2. Set up proper search providers (Exa, Jina)
-3. Implement content scraping and RAG processing
-4. Add real-time event handling from workflow steps
-
-This test confirms that the infrastructure is ready for the full implementation.`,
-            searchId: searchId,
-            metadata: {
-              enhancedQuery: `Enhanced: ${query}`,
-              searchPath: 'test_implementation',
-              generationComplete: true,
-              testMode: true
-            }
-          };
+          // HTML answers are rendered as is, so cached and demo answers are sanitized too
+          if (format === 'html' && typeof result.summary === 'string') {
+            result.summary = sanitizeAnswerHtml(result.summary);
+          }
 
-          console.log(`[API Route] Workflow completed successfully:`, result);
+          console.log(`[API Route] Search completed with ${result.sources.length} sources (path: ${result.metadata.searchPath})`);
+          if (result.metadata.cachedAnswer) {
+            console.log(`[API Route] Answered from cached search ${result.metadata.cachedSearchId}`);
+          }
 
           // Store the completed search in the database
           try {
             const { error: dbError } = await supabase
               .from('searches')
-              .insert({
+              .upsert({
                 searchId,
                 user_id,
                 query,
                 enhanced_query: result.metadata?.enhancedQuery || query,
-                sources: JSON.stringify([]), // Will be populated by actual workflow
-                summary: result.summary || 'Search completed successfully',
+                sources: JSON.stringify(result.sources),
+                summary: typeof result.summary === 'string'
+                  ? result.summary || 'Search completed successfully'
+                  : JSON.stringify(result.summary),
                 completed: true,
                 completed_at: new Date().toISOString(),
-                search_approach: 'enhanced_search_workflow'
-              });
+                search_approach: searchMode === 'demo'
+                  ? 'scripted_demo'
+                  : result.metadata.cachedAnswer ? 'semantic_cache' : 'enhanced_search_workflow'
+              }, { onConflict: 'searchId' });
 
             if (dbError) {
               console.error('[API Route] Error storing search in database:', dbError);
@@ -220,6 +384,21 @@ This test confirms that the infrastructure is ready for the full implementation.
             console.log('[API Route] Continuing without database storage');
           }
 
+          // Record the page snapshots the answer cited, so it can be audited later
+          try {
+            const citations: Array<Record<string, any>> = result.metadata.citations || [];
+            await snapshotStore.recordCitations(citations
+              .filter(citation => citation.snapshotId)
+              .map(citation => ({
+                searchId,
+                citationId: citation.id,
+                snapshotId: citation.snapshotId,
+                url: citation.url
+              })));
+          } catch (citationError) {
+            console.error('[API Route] Exception recording cited snapshots:', citationError);
+          }
+
           // Send workflow completion event
           await writer.sendWorkflowCompleted(searchId, result);
 
@@ -239,6 +418,7 @@ This test confirms that the infrastructure is ready for the full implementation.
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        [EVENT_PROTOCOL_HEADER]: String(protocolVersion),
       },
     });
   } catch (err) {
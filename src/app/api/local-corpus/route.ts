@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { localCorpusIndex } from "@/lib/search-providers/local-corpus";
+import { getSignedInUserId } from "@/lib/utils/api-helpers";
+
+// File system access requires the Node.js runtime
+export const runtime = 'nodejs';
+
+/**
+ * Indexing status without the server's file paths: the corpus directory and
+ * the files that failed are reduced to a count
+ */
+function publicStatus() {
+  const { directory: _directory, errors, ...status } = localCorpusIndex.getStatus();
+  return { ...status, errorCount: errors.length };
+}
+
+/**
+ * GET /api/local-corpus
+ * Report the local document corpus indexing status to a signed-in user
+ */
+export async function GET() {
+  if (!await getSignedInUserId()) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  return NextResponse.json(publicStatus());
+}
+
+/**
+ * POST /api/local-corpus
+ * Let a signed-in user re-index files that changed since the last scan and report the new status
+ */
+export async function POST() {
+  if (!await getSignedInUserId()) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  if (!localCorpusIndex.isConfigured()) {
+    return NextResponse.json(
+      { error: "Local corpus is not configured. Set LOCAL_CORPUS_DIR to enable it." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await localCorpusIndex.reindex();
+    return NextResponse.json(publicStatus());
+  } catch (error) {
+    console.error("[Local Corpus API] Re-index failed:", error);
+    return NextResponse.json(
+      { error: "Re-index failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { EVENT_PROTOCOL_HEADER, encodeStreamEvent, negotiateProtocolVersion } from "@/lib/event-protocol";
+import { searchEventLog } from "@/lib/search-progress";
+import { getSearchOwner } from "@/lib/storage";
+import { getSignedInUserId } from "@/lib/utils/api-helpers";
+
+// The event log is shared with the search running in this Node.js process
+export const runtime = 'nodejs';
+
+// Comments sent while a search is quiet, so proxies keep the connection open
+const HEARTBEAT_MS = 15000;
+
+// Delay browsers wait before reconnecting a dropped stream
+const RETRY_MS = 2000;
+
+/**
+ * GET /api/search-stream?searchId=<id>
+ *
+ * Server-Sent Events stream of a search's events: replays those after the
+ * `Last-Event-ID` header (or `lastEventId` parameter, 0 for all), then sends
+ * new ones as the search emits them. Each event's `id` is its SSE ID, so a
+ * reconnecting EventSource resumes where it left off. Clients that can't send
+ * the `X-Event-Protocol` header may pass `protocol=<version>`.
+ *
+ * Callers must be signed in, and only the user who started the search may
+ * follow it; other searches are answered as not found.
+ *
+ * The stream ends with an `end` event after the search's final event, or
+ * when it sent nothing for five minutes; clients should not reconnect then.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const searchId = searchParams.get('searchId');
+
+  if (!searchId) {
+    return NextResponse.json({ error: "searchId is required" }, { status: 400 });
+  }
+
+  const userId = await getSignedInUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (await getSearchOwner(searchId) !== userId) {
+    return NextResponse.json({ error: "Search not found" }, { status: 404 });
+  }
+
+  const lastEventId = Number(request.headers.get('Last-Event-ID') ?? searchParams.get('lastEventId') ?? 0);
+  if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+    return NextResponse.json({ error: "Last-Event-ID must be a non-negative integer" }, { status: 400 });
+  }
+
+  const protocolVersion = negotiateProtocolVersion(
+    request.headers.get(EVENT_PROTOCOL_HEADER) ?? searchParams.get('protocol')
+  );
+
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+  request.signal.addEventListener('abort', () => disconnected.abort());
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      const heartbeat = setInterval(() => {
+        try {
+          send(': keep-alive\n\n');
+        } catch {} // The client is gone; the follow loop stops on abort
+      }, HEARTBEAT_MS);
+
+      try {
+        send(`retry: ${RETRY_MS}\n\n`);
+
+        for await (const event of searchEventLog.follow(searchId, lastEventId, { signal: disconnected.signal })) {
+          const encoded = encodeStreamEvent(event, protocolVersion);
+          // Events the client's version has no equivalent of still advance its Last-Event-ID
+          send(encoded ? `id: ${event.id}\ndata: ${JSON.stringify(encoded)}\n\n` : `id: ${event.id}\n\n`);
+        }
+
+        if (!disconnected.signal.aborted) {
+          send('event: end\ndata: {}\n\n');
+        }
+      } catch (error) {
+        if (!disconnected.signal.aborted) {
+          console.error(`[Search Stream] Error streaming search ${searchId}:`, error);
+        }
+      } finally {
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {} // Already closed by the client
+      }
+    },
+    cancel() {
+      disconnected.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      [EVENT_PROTOCOL_HEADER]: String(protocolVersion),
+    },
+  });
+}
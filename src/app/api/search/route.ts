@@ -2,13 +2,22 @@ import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { auth } from "@/lib/auth";
 import { getAuthenticatedUserId } from "@/lib/utils/api-helpers";
-import { workingSearchProvider } from "@/lib/search-providers/working-search-implementation";
+import { haloOrchestrator } from "@/lib/orchestration/halo-search-framework";
 import { performanceMonitor } from "@/lib/monitoring/performance-monitor";
 
 // Use Node.js runtime for auth compatibility  
 // TODO: Convert to Edge Runtime once auth is removed
 export const runtime = 'nodejs';
 
+/**
+ * GET /api/search
+ * Report HALO's learning insights and the health of each search engine,
+ * probing engines with a health endpoint (SearXNG /healthz) when stale
+ */
+export async function GET() {
+  return NextResponse.json(await haloOrchestrator.getSystemStatus());
+}
+
 export async function POST(request: Request) {
   try {
     const { query, category } = await request.json();
@@ -29,8 +38,8 @@ export async function POST(request: Request) {
     console.log(`[Search API] Starting HALO search for query: "${query}", category: ${category}`);
 
     try {
-      // Use working search provider with actual API integration
-      const searchResult = await workingSearchProvider.executeSearch(query);
+      // HALO resolves its engines from the shared search provider registry
+      const searchResult = await haloOrchestrator.executeSearch(query);
 
       // Store search in database
       const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -66,7 +75,7 @@ export async function POST(request: Request) {
       });
 
     } catch (searchError) {
-      console.error("[Search API] Working search provider error:", searchError);
+      console.error("[Search API] HALO search error:", searchError);
       
       // Fallback to mock results if HALO fails
       const mockResults = [
@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { detectSnapshotChange, snapshotStore } from "@/lib/snapshots";
+import { crawlPolicy, resolveCrawlPolicyConfig, resolveScrapingConfig, scrapeLocally } from "@/lib/scraping";
+import { isLocalDocumentUrl, localCorpusIndex } from "@/lib/search-providers/local-corpus";
+import { archiveSnapshot, localScrapedPage, scrapedPageOutput } from "@/lib/mastra-vnext-steps/scrape-webpage-step";
+import { RateLimitManager } from "@/lib/rate-limiter";
+import { getSearchOwner, ownsAnySearch } from "@/lib/storage";
+import { getSignedInUserId } from "@/lib/utils/api-helpers";
+
+// Scraping and the local corpus require the Node.js runtime
+export const runtime = 'nodejs';
+
+// A refresh scrapes every page a search cited, so each user gets a few a minute
+const REFRESH_QUOTA = { capacity: 3, refillPerSecond: 3 / 60, maxWaitMs: 0 };
+const refreshLimiter = new RateLimitManager({});
+
+/**
+ * Scrape a page now and archive it, so the change check compares against
+ * its current content. Web pages are fetched directly under the crawl policy.
+ */
+async function archiveCurrentPage(url: string): Promise<void> {
+  if (isLocalDocumentUrl(url)) {
+    const document = await localCorpusIndex.readDocument(url);
+    await archiveSnapshot(scrapedPageOutput(url, {
+      content: document.text,
+      scraper: 'local-corpus',
+      title: document.title,
+      format: document.format,
+      pages: document.pages
+    }), 'local-corpus');
+    return;
+  }
+
+  const scraping = resolveScrapingConfig();
+  const decision = await crawlPolicy.admit(url, { config: resolveCrawlPolicyConfig(), scraping });
+  if (!decision.allowed) {
+    throw new Error(decision.message);
+  }
+
+  let bytes = 0;
+  try {
+    const result = await scrapeLocally(url, scraping);
+    bytes = result.bytes;
+    await archiveSnapshot(scrapedPageOutput(url, localScrapedPage(result)), 'local');
+  } finally {
+    decision.release(bytes);
+  }
+}
+
+/**
+ * GET /api/snapshots
+ *
+ * - `?id=<snapshotId>`: the archived snapshot and whether its page changed since
+ * - `?url=<url>`: the snapshots archived for a page, most recently seen first
+ * - `?searchId=<searchId>`: the snapshots a search's answer cited, by
+ *   citation number, each with whether its page changed since; with
+ *   `refresh=true` the cited pages are scraped again first
+ *
+ * Signed-in users only see the snapshots their own searches cited, and
+ * pages cited by them. Refreshes are limited to REFRESH_QUOTA per user.
+ *
+ * Changes are detected against the latest archived snapshot of the page.
+ * Pages first read through Scrapybara may differ when refreshed by a direct
+ * fetch even if unchanged.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+  const url = searchParams.get('url');
+  const searchId = searchParams.get('searchId');
+
+  const userId = await getSignedInUserId();
+  if (!userId) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    if (id) {
+      const snapshot = await ownsAnySearch(userId, await snapshotStore.citingSearches({ snapshotId: id }))
+        ? await snapshotStore.get(id)
+        : null;
+      if (!snapshot) {
+        return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+      }
+      return NextResponse.json({ snapshot, change: await detectSnapshotChange(snapshotStore, id) });
+    }
+
+    if (url) {
+      if (!await ownsAnySearch(userId, await snapshotStore.citingSearches({ url }))) {
+        return NextResponse.json({ error: "No snapshots of this page were cited by your searches" }, { status: 404 });
+      }
+      return NextResponse.json({ url, snapshots: await snapshotStore.history(url) });
+    }
+
+    if (searchId) {
+      const citations = await getSearchOwner(searchId) === userId ? await snapshotStore.citations(searchId) : [];
+      if (citations.length === 0) {
+        return NextResponse.json({ error: "No cited snapshots recorded for this search" }, { status: 404 });
+      }
+
+      const refreshErrors = new Map<string, string>();
+      if (searchParams.get('refresh') === 'true') {
+        const refreshKey = `snapshot-refresh:${userId}`;
+        refreshLimiter.setQuota(refreshKey, REFRESH_QUOTA);
+        if (!await refreshLimiter.acquire(refreshKey)) {
+          const retryAfter = Math.ceil(refreshLimiter.getWaitTime(refreshKey) / 1000);
+          return NextResponse.json(
+            { error: "Too many snapshot refreshes, try again later" },
+            { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+          );
+        }
+
+        for (const pageUrl of new Set(citations.map(citation => citation.url))) {
+          try {
+            await archiveCurrentPage(pageUrl);
+          } catch (error) {
+            console.warn(`[Snapshots API] Could not refresh ${pageUrl}:`, error);
+            refreshErrors.set(pageUrl, error instanceof Error ? error.message : String(error));
+          }
+        }
+      }
+
+      return NextResponse.json({
+        searchId,
+        citations: await Promise.all(citations.map(async citation => ({
+          citationId: citation.citationId,
+          ...await detectSnapshotChange(snapshotStore, citation.snapshotId),
+          url: citation.url,
+          ...(refreshErrors.has(citation.url) ? { refreshError: refreshErrors.get(citation.url) } : {})
+        })))
+      });
+    }
+
+    return NextResponse.json({ error: "One of id, url or searchId is required" }, { status: 400 });
+  } catch (error) {
+    console.error("[Snapshots API] Lookup failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Snapshot lookup failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -17,6 +17,7 @@ import {
   parseStreamChunk,
   createErrorFromChunk
 } from "@/components/vnext-event-adapter";
+import { EVENT_PROTOCOL_HEADER, EVENT_PROTOCOL_VERSION } from "@/lib/event-protocol";
 
 interface SearchResultsProps {
   searchId: string;
@@ -173,6 +174,7 @@ export function SearchResults({ searchId }: SearchResultsProps) {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            [EVENT_PROTOCOL_HEADER]: String(EVENT_PROTOCOL_VERSION),
           },
           body: JSON.stringify({ query: queryValue, searchId }),
         });
@@ -1,9 +1,10 @@
 "use client"
 
-import React, { useEffect, useState, useCallback } from 'react'
+import React, { useEffect, useState, useCallback, useRef } from 'react'
 import { SearchResultsDisplay } from '@/components/search-results-display'
 import { Loader2, Wifi, WifiOff } from 'lucide-react'
-import { SSEMessage } from '@/lib/utils/sse'
+import { SSEClient, SSEMessage } from '@/lib/utils/sse'
+import { EVENT_PROTOCOL_HEADER, EVENT_PROTOCOL_VERSION, EventType, parseStreamEvent } from '@/lib/event-protocol'
 
 interface SearchResult {
   id: string
@@ -38,6 +39,12 @@ interface SimpleSearchResultsProps {
   searchId: string
 }
 
+// Session storage key marking a search this tab started and hasn't seen finish
+const streamMarkerKey = (searchId: string) => `search-stream:${searchId}`
+
+// Events after which the search sends nothing more
+const FINAL_EVENT_TYPES: string[] = [EventType.WORKFLOW_COMPLETED, EventType.WORKFLOW_FAILED, EventType.ERROR]
+
 export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
   const [searchData, setSearchData] = useState<SearchResponse | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -45,6 +52,10 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
   const [streamingProgress, setStreamingProgress] = useState<SSEMessage[]>([])
   const [isStreaming, setIsStreaming] = useState(false)
   const [streamConnected, setStreamConnected] = useState(false)
+  // Resume point of the event stream, and whether the search's final event arrived
+  const lastEventIdRef = useRef(0)
+  const finishedRef = useRef(false)
+  const streamClientRef = useRef<SSEClient | null>(null)
 
   // Fetch search data from API
   const fetchSearchData = useCallback(async () => {
@@ -91,9 +102,20 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
 
   // Handle streaming progress updates
   const handleStreamMessage = useCallback((message: SSEMessage) => {
+    if (message.id) {
+      // Already shown before the stream was resumed
+      if (message.id <= lastEventIdRef.current) return;
+      lastEventIdRef.current = message.id;
+    }
+
     console.log('[Search Results] Stream message:', message);
     setStreamingProgress(prev => [...prev, message]);
 
+    if (FINAL_EVENT_TYPES.includes(message.type)) {
+      finishedRef.current = true;
+      sessionStorage.removeItem(streamMarkerKey(searchId));
+    }
+
     if (message.type === 'workflow_completed') {
       setIsStreaming(false);
       setIsLoading(false);
@@ -102,7 +124,32 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
         fetchSearchData();
       }, 1000);
     }
-  }, [fetchSearchData]);
+  }, [searchId, fetchSearchData]);
+
+  // Follow a running search's events from the search-stream endpoint, after
+  // the last event already received
+  const resumeStreamingSearch = useCallback((afterEventId: number) => {
+    streamClientRef.current?.disconnect();
+    setIsStreaming(true);
+    setStreamConnected(false);
+
+    const client = new SSEClient(
+      `/api/search-stream?searchId=${encodeURIComponent(searchId)}&protocol=${EVENT_PROTOCOL_VERSION}`,
+      {
+        lastEventId: afterEventId,
+        onOpen: () => setStreamConnected(true),
+        onError: () => setStreamConnected(false),
+        onMessage: handleStreamMessage,
+        onEnd: () => {
+          setStreamConnected(false);
+          setIsStreaming(false);
+          setIsLoading(false);
+        }
+      }
+    );
+    streamClientRef.current = client;
+    client.connect();
+  }, [searchId, handleStreamMessage]);
 
   // Start streaming search
   const startStreamingSearch = useCallback(async () => {
@@ -111,11 +158,15 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
       setStreamConnected(false);
       
       const query = localStorage.getItem(searchId) || searchId.replace(/^search_\d+_/, '').replace(/_/g, ' ') || 'search query';
+
+      // Marks the search as running, so a reload follows it instead of starting it again
+      sessionStorage.setItem(streamMarkerKey(searchId), 'started');
       
       const response = await fetch('/api/enhance-search', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [EVENT_PROTOCOL_HEADER]: String(EVENT_PROTOCOL_VERSION),
         },
         body: JSON.stringify({ 
           query,
@@ -134,6 +185,7 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
       setStreamConnected(true);
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      let buffer = '';
 
       try {
         while (true) {
@@ -144,29 +196,39 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
             break;
           }
 
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim());
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
           
-          for (const line of lines) {
-            try {
-              const message: SSEMessage = JSON.parse(line);
+          for (const line of lines.filter(line => line.trim())) {
+            const message = parseStreamEvent(line);
+            if (message) {
               handleStreamMessage(message);
-            } catch (parseError) {
+            } else {
               console.warn('[Search Results] Failed to parse chunk:', line);
             }
           }
         }
+      } catch (readError) {
+        // The connection dropped mid-search, e.g. when the network changed
+        console.warn('[Search Results] Stream interrupted:', readError);
       } finally {
         reader.releaseLock();
         setStreamConnected(false);
       }
+
+      // The search keeps running on the server: follow it from the last event received
+      if (!finishedRef.current) {
+        resumeStreamingSearch(lastEventIdRef.current);
+      }
     } catch (err) {
       console.error('Streaming error:', err);
+      sessionStorage.removeItem(streamMarkerKey(searchId));
       setError(err instanceof Error ? err.message : 'Streaming failed');
       setIsStreaming(false);
       setStreamConnected(false);
     }
-  }, [searchId, handleStreamMessage]);
+  }, [searchId, handleStreamMessage, resumeStreamingSearch]);
 
   useEffect(() => {
     const initialize = async () => {
@@ -189,6 +251,12 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
           return;
         }
 
+        // A search this tab started before a reload is still running: replay its events
+        if (sessionStorage.getItem(streamMarkerKey(searchId))) {
+          resumeStreamingSearch(0);
+          return;
+        }
+
         // Start streaming search if no existing data
         await startStreamingSearch();
         
@@ -202,7 +270,11 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
     if (searchId) {
       initialize()
     }
-  }, [searchId, fetchSearchData, startStreamingSearch])
+
+    return () => {
+      streamClientRef.current?.disconnect()
+    }
+  }, [searchId, fetchSearchData, startStreamingSearch, resumeStreamingSearch])
 
   if (isLoading || isStreaming) {
     return (
@@ -244,7 +316,7 @@ export function SimpleSearchResults({ searchId }: SimpleSearchResultsProps) {
                     <p className="text-sm font-medium capitalize text-text">
                       {progress.type.replace(/_/g, ' ')}
                     </p>
-                    {progress.payload?.message && (
+                    {typeof progress.payload.message === 'string' && (
                       <p className="text-xs text-muted">
                         {progress.payload.message}
                       </p>
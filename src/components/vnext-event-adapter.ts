@@ -5,6 +5,7 @@
  * to the format expected by the search results UI components.
  */
 // @ts-nocheck
+import { EventType, StreamChunk, parseStreamEvent } from "@/lib/event-protocol";
 
 // Type definitions for UI components
 export interface SearchStep {
@@ -29,44 +30,9 @@ export interface SearchStep {
   streamUrl?: string;
 }
 
-export interface StreamChunk {
-  step: number;
-  type: string;
-  payload: any;
-  error?: boolean;
-  errorType?: string;
-}
-
-export enum EventType {
-  // Workflow Events
-  WORKFLOW_STARTED = 'workflow_started',
-  WORKFLOW_COMPLETED = 'workflow_completed',
-  WORKFLOW_FAILED = 'workflow_failed',
-  
-  // Step Events
-  ENHANCING_RUNNING = 'enhancing_running',
-  ENHANCING_COMPLETED = 'enhancing_completed',
-  SEARCHING_RUNNING = 'searching_running',
-  SEARCHING_COMPLETED = 'searching_completed',
-  READING_RUNNING = 'reading_running',
-  READING_COMPLETED = 'reading_completed',
-  READING_UPDATE = 'reading_update',
-  WRAPPING_RUNNING = 'wrapping_running',
-  WRAPPING_COMPLETED = 'wrapping_completed',
-  
-  // Progress Events
-  PROGRESS_UPDATE = 'progress_update',
-  
-  // Error Events
-  ERROR = 'error',
-  
-  // Link Events
-  LINK_SCRAPED = 'link_scraped',
-  
-  // Search Events
-  RESULTS_FOUND = 'results_found',
-  BRANCH_SELECTED = 'branch_selected',
-}
+// Events and their types are defined by the stream protocol shared with the server
+export { EventType };
+export type { StreamChunk };
 
 /**
  * Process a stream chunk to update the UI state
@@ -79,7 +45,7 @@ export function processStreamChunk(
   setCurrentStep: (step: number) => void,
   enhancedQuery: string | null,
   setEnhancedQuery: (query: string | null) => void,
-  setResult: (result: string | null) => void,
+  setResult: React.Dispatch<React.SetStateAction<string | null>>,
   setAnswerLoading: (loading: boolean) => void,
   setShowAnswer: (show: boolean) => void,
   receivedStep4: React.MutableRefObject<boolean>,
@@ -279,8 +245,12 @@ export function processStreamChunk(
           });
         }
         
-        // Update answer loading state and content
-        if (chunk.payload?.summary) {
+        // Update answer loading state and content: deltas are appended to
+        // the answer, the summary step's completed event replaces it whole
+        if (chunk.type === EventType.SUMMARY_DELTA && typeof chunk.payload.delta === 'string') {
+          const delta = chunk.payload.delta;
+          setResult(previous => (previous || '') + delta);
+        } else if (chunk.payload?.summary) {
           setResult(chunk.payload.summary);
         }
         
@@ -298,18 +268,15 @@ export function processStreamChunk(
 
 /**
  * Process a stream chunk from the raw text format
+ *
+ * Chunks are validated against the event protocol; invalid chunks are dropped.
  */
 export function parseStreamChunk(
   part: string
 ): StreamChunk | null {
   if (!part) return null;
   
-  try {
-    return JSON.parse(part) as StreamChunk;
-  } catch (error) {
-    console.error("Error parsing stream chunk:", error, part);
-    return null;
-  }
+  return parseStreamEvent(part);
 }
 
 /**
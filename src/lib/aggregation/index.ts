@@ -1,5 +1,6 @@
 import { Step, WorkflowContext } from '../mastra';
 import { SearchResult } from '../mastra/types';
+import { RankFusion, RankingConfig, resolveRankingConfig } from './ranking';
 
 export class AggregationStep implements Step {
   getName(): string {
@@ -7,22 +8,26 @@ export class AggregationStep implements Step {
   }
 
   async execute(context: WorkflowContext): Promise<void> {
-    const exaResults = context.get('exaResults') || [];
-    const firecrawlResults = context.get('firecrawlResults') || [];
+    const engineResults: Record<string, SearchResult[]> = context.get('engineResults') || {};
+    const rankingConfig = resolveRankingConfig(context.get('rankingConfig'));
 
-    const allResults = [...exaResults, ...firecrawlResults];
+    const allResults = Object.values(engineResults).flat();
 
     const uniqueResults = this.deduplicateResults(allResults);
 
-    const rankedResults = this.rankResults(uniqueResults);
+    const rankedResults = this.rankResults(uniqueResults, engineResults, rankingConfig);
 
     context.set('aggregatedResults', rankedResults);
   }
 
+  private normalizeUrl(url: string): string {
+    return url.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/$/, '');
+  }
+
   private deduplicateResults(results: SearchResult[]): SearchResult[] {
     const uniqueUrls = new Set<string>();
     return results.filter(result => {
-      const normalizedUrl = result.url.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/$/, '');
+      const normalizedUrl = this.normalizeUrl(result.url);
       if (!uniqueUrls.has(normalizedUrl)) {
         uniqueUrls.add(normalizedUrl);
         return true;
@@ -31,9 +36,24 @@ export class AggregationStep implements Step {
     });
   }
 
-  private rankResults(results: SearchResult[]): SearchResult[] {
-    // For now, we'll just return the results in the order they were received.
-    // A more sophisticated ranking algorithm will be implemented later.
-    return results;
+  /**
+   * Order results by fusing every engine's ranking, attaching the explanation to each result
+   */
+  private rankResults(
+    results: SearchResult[],
+    engineResults: Record<string, SearchResult[]>,
+    config: RankingConfig
+  ): SearchResult[] {
+    const fusion = new RankFusion(config);
+    for (const [engine, engineList] of Object.entries(engineResults)) {
+      fusion.addRankedList(engine, engineList, result => this.normalizeUrl(result.url));
+    }
+
+    return results
+      .map(result => ({
+        ...result,
+        rankingExplanation: fusion.explain([this.normalizeUrl(result.url)])
+      }))
+      .sort((a, b) => b.rankingExplanation.fusedScore - a.rankingExplanation.fusedScore);
   }
 }
@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chooseBands,
+  findNearDuplicateClusters,
+  jaccardSimilarity,
+  minHashSignature,
+  shingleText,
+  SNIPPET_NEAR_DUPLICATE_CONFIG
+} from './near-duplicates';
+
+const ORIGINAL = 'Heat pumps move heat from the outside air into the house, even in cold weather.';
+const REWORDED = 'Heat pumps move heat from the outside air into a house, even in cold weather!';
+const UNRELATED = 'The stock market closed higher today after the central bank held interest rates.';
+
+test('shingles ignore case, punctuation and spacing', () => {
+  assert.deepEqual(shingleText('Heat  Pumps!', 3), shingleText('heat pumps', 3));
+  assert.equal(jaccardSimilarity(shingleText(ORIGINAL, 3), shingleText(ORIGINAL, 3)), 1);
+  assert.equal(jaccardSimilarity(new Set(), shingleText(ORIGINAL, 3)), 0);
+});
+
+test('MinHash signatures agree in proportion to the Jaccard similarity', () => {
+  const seeds = Uint32Array.from({ length: 256 }, (_, index) => (index + 1) * 2654435761 >>> 0);
+  const a = shingleText(ORIGINAL, 3);
+  const b = shingleText(REWORDED, 3);
+  const signatureA = minHashSignature(a, seeds);
+  const signatureB = minHashSignature(b, seeds);
+
+  const agreement = signatureA.filter((value, index) => value === signatureB[index]).length / seeds.length;
+  assert.ok(Math.abs(agreement - jaccardSimilarity(a, b)) < 0.15, `${agreement} vs ${jaccardSimilarity(a, b)}`);
+});
+
+test('chooseBands keeps the S-curve midpoint below the threshold', () => {
+  const { bands, rows } = chooseBands(128, 0.65);
+
+  assert.ok(bands * rows <= 128);
+  assert.ok(Math.pow(1 / bands, 1 / rows) <= 0.65 * 0.9);
+  assert.ok(rows > 1);
+});
+
+test('findNearDuplicateClusters groups near-duplicates, led by the earliest text', () => {
+  const clusters = findNearDuplicateClusters([UNRELATED, ORIGINAL, 'short', REWORDED, ORIGINAL]);
+
+  assert.deepEqual(clusters, [[0], [1, 3, 4], [2]]);
+});
+
+test('findNearDuplicateClusters never matches texts below the minimum length', () => {
+  const clusters = findNearDuplicateClusters(['same text', 'same text'], SNIPPET_NEAR_DUPLICATE_CONFIG);
+
+  assert.deepEqual(clusters, [[0], [1]]);
+});
@@ -0,0 +1,247 @@
+/**
+ * Near-duplicate detection with MinHash signatures and locality-sensitive hashing
+ *
+ * Each text is reduced to a fixed-size MinHash signature of its character
+ * shingles. Signatures are split into bands and hashed into buckets, so only
+ * texts sharing a bucket are compared, instead of every pair. Candidate pairs
+ * are confirmed with the exact shingle Jaccard similarity before they are
+ * clustered.
+ */
+
+export interface NearDuplicateConfig {
+  /** Jaccard similarity at or above which two texts are near-duplicates */
+  threshold: number;
+  /** Characters per shingle; longer shingles make texts look less alike */
+  shingleSize: number;
+  /** Hash functions per MinHash signature */
+  numHashes: number;
+  /** Texts shorter than this never match anything */
+  minLength: number;
+}
+
+/** Defaults for result snippets and titles */
+export const SNIPPET_NEAR_DUPLICATE_CONFIG: NearDuplicateConfig = {
+  threshold: 0.65,
+  shingleSize: 3,
+  numHashes: 128,
+  minLength: 20
+};
+
+/** Defaults for full scraped page bodies, where trigrams are too common to tell pages apart */
+export const BODY_NEAR_DUPLICATE_CONFIG: NearDuplicateConfig = {
+  threshold: 0.65,
+  shingleSize: 5,
+  numHashes: 128,
+  minLength: 200
+};
+
+/**
+ * Near-duplicate configuration from environment defaults plus per-call overrides
+ *
+ * Reads SEARCH_DEDUP_THRESHOLD, and SEARCH_DEDUP_SHINGLE_SIZE or
+ * SEARCH_DEDUP_BODY_SHINGLE_SIZE depending on what is being compared.
+ */
+export function resolveNearDuplicateConfig(
+  overrides: Partial<NearDuplicateConfig> = {},
+  target: 'snippet' | 'body' = 'snippet'
+): NearDuplicateConfig {
+  const defaults = target === 'body' ? BODY_NEAR_DUPLICATE_CONFIG : SNIPPET_NEAR_DUPLICATE_CONFIG;
+  const envThreshold = Number(process.env.SEARCH_DEDUP_THRESHOLD);
+  const envShingleSize = Number(
+    target === 'body' ? process.env.SEARCH_DEDUP_BODY_SHINGLE_SIZE : process.env.SEARCH_DEDUP_SHINGLE_SIZE
+  );
+
+  return {
+    threshold: overrides.threshold ?? (envThreshold > 0 && envThreshold <= 1 ? envThreshold : defaults.threshold),
+    shingleSize: overrides.shingleSize ?? (envShingleSize >= 1 ? Math.floor(envShingleSize) : defaults.shingleSize),
+    numHashes: overrides.numHashes ?? defaults.numHashes,
+    minLength: overrides.minLength ?? defaults.minLength
+  };
+}
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, used to derive independent hash functions from one seed each
+ */
+function mix32(value: number): number {
+  value ^= value >>> 16;
+  value = Math.imul(value, 0x85ebca6b);
+  value ^= value >>> 13;
+  value = Math.imul(value, 0xc2b2ae35);
+  value ^= value >>> 16;
+  return value >>> 0;
+}
+
+/**
+ * Deterministic seeds so signatures are stable across runs and processes
+ */
+function createSeeds(count: number): Uint32Array {
+  const seeds = new Uint32Array(count);
+  let state = 0x9e3779b9;
+  for (let i = 0; i < count; i++) {
+    state = (state + 0x6d2b79f5) >>> 0;
+    seeds[i] = mix32(state);
+  }
+  return seeds;
+}
+
+/**
+ * Hashed character shingles of a text
+ */
+export function shingleText(text: string, shingleSize: number): Set<number> {
+  const normalized = normalizeText(text);
+  const shingles = new Set<number>();
+  for (let i = 0; i + shingleSize <= normalized.length; i++) {
+    shingles.add(hashString(normalized.substring(i, i + shingleSize)));
+  }
+  return shingles;
+}
+
+/**
+ * MinHash signature of a shingle set
+ */
+export function minHashSignature(shingles: Set<number>, seeds: Uint32Array): Uint32Array {
+  const signature = new Uint32Array(seeds.length).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < seeds.length; i++) {
+      const hashed = mix32(shingle ^ seeds[i]);
+      if (hashed < signature[i]) {
+        signature[i] = hashed;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Exact Jaccard similarity of two shingle sets
+ */
+export function jaccardSimilarity(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const shingle of smaller) {
+    if (larger.has(shingle)) {
+      intersection++;
+    }
+  }
+
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Band layout for a signature length and threshold
+ *
+ * Picks the most rows per band (fewest candidate pairs) whose S-curve
+ * midpoint (1/bands)^(1/rows) stays comfortably below the threshold, so
+ * pairs at the threshold still collide in some band with high probability.
+ */
+export function chooseBands(numHashes: number, threshold: number): { bands: number; rows: number } {
+  let best = { bands: numHashes, rows: 1 };
+  for (let rows = 1; rows <= numHashes; rows++) {
+    const bands = Math.floor(numHashes / rows);
+    if (Math.pow(1 / bands, 1 / rows) > threshold * 0.9) break;
+    best = { bands, rows };
+  }
+  return best;
+}
+
+/**
+ * Group near-duplicate texts into clusters
+ *
+ * Returns clusters of indices into `texts`. Every index appears in exactly
+ * one cluster, clusters are ordered by their first member and members are in
+ * ascending order, so the first member of a cluster is the earliest text.
+ * Similarity is transitive: if A matches B and B matches C, all three share
+ * a cluster.
+ */
+export function findNearDuplicateClusters(
+  texts: string[],
+  config: NearDuplicateConfig = SNIPPET_NEAR_DUPLICATE_CONFIG
+): number[][] {
+  const parent = texts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const seeds = createSeeds(config.numHashes);
+  const { bands, rows } = chooseBands(config.numHashes, config.threshold);
+  const shingleSets: (Set<number> | undefined)[] = texts.map(text =>
+    text.length >= config.minLength ? shingleText(text, config.shingleSize) : undefined
+  );
+
+  const buckets = new Map<string, number[]>();
+  shingleSets.forEach((shingles, index) => {
+    if (!shingles || shingles.size === 0) return;
+
+    const signature = minHashSignature(shingles, seeds);
+    for (let band = 0; band < bands; band++) {
+      const key = `${band}:${signature.subarray(band * rows, (band + 1) * rows).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    }
+  });
+
+  // Confirm each candidate pair once with the exact similarity
+  const checked = new Set<string>();
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i];
+        const b = bucket[j];
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA === rootB) continue;
+
+        const pairKey = `${a}:${b}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        // The smallest index stays the root, so each cluster is led by its earliest text
+        if (jaccardSimilarity(shingleSets[a]!, shingleSets[b]!) >= config.threshold) {
+          parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  texts.forEach((_, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(index);
+    } else {
+      clusters.set(root, [index]);
+    }
+  });
+
+  return Array.from(clusters.values()).sort((a, b) => a[0] - b[0]);
+}
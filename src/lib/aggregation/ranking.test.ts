@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RANKING_CONFIG, fuseRankedLists, RankFusion } from './ranking';
+
+interface Result {
+  url: string;
+  score?: number;
+}
+
+const key = (result: Result) => result.url;
+
+test('RRF ranks results returned by several providers above single-provider ones', () => {
+  const fused = fuseRankedLists<Result>({
+    exa: [{ url: 'a' }, { url: 'b' }, { url: 'c' }],
+    jina: [{ url: 'c' }, { url: 'd' }]
+  }, key, undefined, DEFAULT_RANKING_CONFIG);
+
+  assert.deepEqual(fused.map(({ item }) => item.url), ['c', 'a', 'b', 'd']);
+  const c = fused[0].explanation;
+  assert.equal(c.strategy, 'rrf');
+  assert.equal(c.fusedScore, 1 / 63 + 1 / 61);
+  assert.deepEqual(c.contributions.map(({ provider, rank }) => [provider, rank]), [['jina', 1], ['exa', 3]]);
+});
+
+test('RRF contributions are scaled by provider weight', () => {
+  const fused = fuseRankedLists<Result>({
+    exa: [{ url: 'a' }],
+    searxng: [{ url: 'b' }]
+  }, key, undefined, { ...DEFAULT_RANKING_CONFIG, providerWeights: { searxng: 2 } });
+
+  assert.equal(fused[0].item.url, 'b');
+  assert.equal(fused[0].explanation.fusedScore, 2 / 61);
+});
+
+test('weighted sum normalizes provider scores and falls back to rank position', () => {
+  const fusion = new RankFusion({ ...DEFAULT_RANKING_CONFIG, strategy: 'weighted_sum' });
+  fusion.addRankedList<Result>('exa', [{ url: 'a', score: 0.9 }, { url: 'b', score: 0.5 }, { url: 'c', score: 0.1 }], key, result => result.score);
+  fusion.addRankedList<Result>('jina', [{ url: 'b' }, { url: 'c' }], key);
+
+  assert.equal(fusion.explain(['a']).fusedScore, 1);
+  assert.equal(fusion.explain(['b']).fusedScore, 0.5 + 1);
+  assert.equal(fusion.explain(['c']).fusedScore, 0 + 0.5);
+});
+
+test('explain merges the best rank of every key of a result', () => {
+  const fusion = new RankFusion();
+  fusion.addRankedList<Result>('exa', [{ url: 'x' }, { url: 'a' }], key);
+  fusion.addRankedList<Result>('exa2', [{ url: 'a2' }], key);
+
+  const explanation = fusion.explain(['a', 'a2']);
+  assert.deepEqual(explanation.contributions.map(({ provider, rank }) => [provider, rank]), [['exa2', 1], ['exa', 2]]);
+});
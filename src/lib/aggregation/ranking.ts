@@ -0,0 +1,208 @@
+/**
+ * Cross-provider rank fusion
+ *
+ * Combines the ranked result lists of several search providers into one
+ * ranking. Every fused result carries a RankingExplanation listing which
+ * providers returned it, at which rank, and how much each contributed.
+ */
+
+export type FusionStrategy = 'rrf' | 'weighted_sum';
+
+export interface RankingConfig {
+  strategy: FusionStrategy;
+  /** RRF damping constant; larger values flatten the gap between top ranks */
+  rrfK: number;
+  /** Trust weight per provider name (lowercase); unlisted providers use defaultWeight */
+  providerWeights: Record<string, number>;
+  defaultWeight: number;
+}
+
+export interface RankingContribution {
+  provider: string;
+  /** 1-based position in the provider's own result list */
+  rank: number;
+  /** Raw score reported by the provider, when it reports one */
+  score?: number;
+  weight: number;
+  contribution: number;
+}
+
+export interface RankingExplanation {
+  strategy: FusionStrategy;
+  fusedScore: number;
+  contributions: RankingContribution[];
+}
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  strategy: 'rrf',
+  rrfK: 60,
+  providerWeights: {},
+  defaultWeight: 1
+};
+
+/**
+ * Ranking configuration from environment defaults plus per-call overrides
+ *
+ * Reads SEARCH_FUSION_STRATEGY, SEARCH_RRF_K and SEARCH_PROVIDER_WEIGHTS
+ * (a JSON object such as {"exa": 1.2, "searxng": 0.8}).
+ */
+export function resolveRankingConfig(overrides: Partial<RankingConfig> = {}): RankingConfig {
+  const envStrategy = process.env.SEARCH_FUSION_STRATEGY;
+  const envRrfK = Number(process.env.SEARCH_RRF_K);
+
+  let envWeights: Record<string, number> = {};
+  if (process.env.SEARCH_PROVIDER_WEIGHTS) {
+    try {
+      envWeights = JSON.parse(process.env.SEARCH_PROVIDER_WEIGHTS);
+    } catch {
+      console.warn('⚠️  SEARCH_PROVIDER_WEIGHTS is not valid JSON, ignoring it');
+    }
+  }
+
+  const providerWeights: Record<string, number> = {};
+  for (const [provider, weight] of Object.entries({ ...envWeights, ...overrides.providerWeights })) {
+    providerWeights[provider.toLowerCase()] = weight;
+  }
+
+  return {
+    strategy: overrides.strategy
+      ?? (envStrategy === 'rrf' || envStrategy === 'weighted_sum' ? envStrategy : DEFAULT_RANKING_CONFIG.strategy),
+    rrfK: overrides.rrfK ?? (envRrfK > 0 ? envRrfK : DEFAULT_RANKING_CONFIG.rrfK),
+    providerWeights,
+    defaultWeight: overrides.defaultWeight ?? DEFAULT_RANKING_CONFIG.defaultWeight
+  };
+}
+
+interface ProviderList {
+  length: number;
+  minScore: number;
+  maxScore: number;
+  hasScores: boolean;
+}
+
+/**
+ * Accumulates ranked provider lists and explains the fused rank of any result
+ *
+ * Results are identified by caller-supplied keys (normalized URLs), so a
+ * result merged from several URLs can be explained from all of them.
+ */
+export class RankFusion {
+  private config: RankingConfig;
+  private lists: Map<string, ProviderList> = new Map();
+  private ranks: Map<string, Map<string, { rank: number; score?: number }>> = new Map();
+
+  constructor(config: RankingConfig = DEFAULT_RANKING_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Record one provider's results in ranked order (best first)
+   */
+  addRankedList<T>(
+    provider: string,
+    items: T[],
+    getKey: (item: T) => string,
+    getScore?: (item: T) => number | undefined
+  ): void {
+    const scores = getScore
+      ? items.map(getScore).filter((score): score is number => typeof score === 'number')
+      : [];
+
+    this.lists.set(provider, {
+      length: items.length,
+      minScore: scores.length > 0 ? Math.min(...scores) : 0,
+      maxScore: scores.length > 0 ? Math.max(...scores) : 0,
+      hasScores: scores.length === items.length && items.length > 0
+    });
+
+    items.forEach((item, index) => {
+      const key = getKey(item);
+      if (!this.ranks.has(key)) {
+        this.ranks.set(key, new Map());
+      }
+
+      // Keep the provider's best rank when it returned the same key twice
+      const providerRanks = this.ranks.get(key)!;
+      if (!providerRanks.has(provider)) {
+        providerRanks.set(provider, { rank: index + 1, score: getScore?.(item) });
+      }
+    });
+  }
+
+  /**
+   * Fused score and per-provider breakdown for a result known by one or more keys
+   */
+  explain(keys: string[]): RankingExplanation {
+    const best = new Map<string, { rank: number; score?: number }>();
+
+    for (const key of keys) {
+      for (const [provider, entry] of this.ranks.get(key) || []) {
+        const current = best.get(provider);
+        if (!current || entry.rank < current.rank) {
+          best.set(provider, entry);
+        }
+      }
+    }
+
+    const contributions: RankingContribution[] = Array.from(best.entries()).map(([provider, { rank, score }]) => {
+      const weight = this.config.providerWeights[provider.toLowerCase()] ?? this.config.defaultWeight;
+      return {
+        provider,
+        rank,
+        score,
+        weight,
+        contribution: weight * this.baseContribution(provider, rank, score)
+      };
+    });
+
+    contributions.sort((a, b) => b.contribution - a.contribution);
+
+    return {
+      strategy: this.config.strategy,
+      fusedScore: contributions.reduce((sum, c) => sum + c.contribution, 0),
+      contributions
+    };
+  }
+
+  private baseContribution(provider: string, rank: number, score?: number): number {
+    if (this.config.strategy === 'rrf') {
+      return 1 / (this.config.rrfK + rank);
+    }
+
+    // Weighted sum: min-max normalize the provider's scores, or fall back to rank position
+    const list = this.lists.get(provider)!;
+    if (list.hasScores && score !== undefined) {
+      return list.maxScore > list.minScore ? (score - list.minScore) / (list.maxScore - list.minScore) : 1;
+    }
+    return 1 - (rank - 1) / Math.max(list.length, 1);
+  }
+}
+
+/**
+ * Fuse ranked provider lists into one list of unique items, best first
+ *
+ * The first item seen for a key is kept as its representative.
+ */
+export function fuseRankedLists<T>(
+  lists: Record<string, T[]>,
+  getKey: (item: T) => string,
+  getScore?: (item: T) => number | undefined,
+  config: RankingConfig = resolveRankingConfig()
+): { item: T; explanation: RankingExplanation }[] {
+  const fusion = new RankFusion(config);
+  const representatives = new Map<string, T>();
+
+  for (const [provider, items] of Object.entries(lists)) {
+    fusion.addRankedList(provider, items, getKey, getScore);
+    for (const item of items) {
+      const key = getKey(item);
+      if (!representatives.has(key)) {
+        representatives.set(key, item);
+      }
+    }
+  }
+
+  return Array.from(representatives.entries())
+    .map(([key, item]) => ({ item, explanation: fusion.explain([key]) }))
+    .sort((a, b) => b.explanation.fusedScore - a.explanation.fusedScore);
+}
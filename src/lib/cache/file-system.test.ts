@@ -0,0 +1,44 @@
+import test, { after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FileSystemCache } from './file-system';
+
+const directory = mkdtempSync(path.join(tmpdir(), 'sevensearch-cache-'));
+
+after(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+test('FileSystemCache stores entries across instances and expires them', async () => {
+  await new FileSystemCache(directory).set('key', { answer: 42 });
+  await new FileSystemCache(directory).set('expired', 'value', -1);
+
+  const cache = new FileSystemCache(directory);
+  assert.deepEqual(await cache.get('key'), { answer: 42 });
+  assert.equal(await cache.get('missing'), null);
+  assert.equal(await cache.get('expired'), null);
+
+  await cache.delete('key');
+  assert.equal(await cache.get('key'), null);
+});
+
+test('FileSystemCache keeps one complete file under concurrent writes of a key', async () => {
+  const cache = new FileSystemCache(directory);
+  const values = Array.from({ length: 20 }, (_, index) => 'x'.repeat(10000 + index));
+
+  await Promise.all(values.map(value => cache.set('contended', value)));
+
+  assert.ok(values.includes(await cache.get('contended')));
+  assert.deepEqual(readdirSync(directory).filter(name => name.endsWith('.tmp')), []);
+});
+
+test('FileSystemCache prune removes only expired entries', async () => {
+  const cache = new FileSystemCache(directory);
+  await cache.set('fresh', 'value');
+  await cache.set('stale', 'value', -1);
+
+  assert.equal(await cache.prune(), 1);
+  assert.equal(await cache.get('fresh'), 'value');
+});
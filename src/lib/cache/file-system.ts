@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import type { CacheProvider } from './index';
+
+interface FileCacheEntry {
+  key: string;
+  value: any;
+  expiry: number;
+}
+
+/**
+ * Cache backed by one JSON file per key, so entries survive restarts of a
+ * single server. File names are hashes of the key; the key itself is stored
+ * in the file and checked on read.
+ */
+export class FileSystemCache implements CacheProvider {
+  constructor(private directory: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<any | null> {
+    let entry: FileCacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`⚠️  Unreadable cache file for ${key}:`, error.message);
+      }
+      return null;
+    }
+
+    if (entry.key !== key) return null;
+
+    if (entry.expiry < Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: any, ttl = 3600): Promise<void> {
+    const entry: FileCacheEntry = { key, value, expiry: Date.now() + ttl * 1000 };
+    const filePath = this.filePath(key);
+    // Unique per write, so concurrent writers of one key never share a temp file
+    const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+
+    // Write then rename so concurrent readers never see a partial file
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.filePath(key)).catch((error: any) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  /**
+   * Remove every expired entry, returning how many were removed
+   */
+  async prune(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const entry: FileCacheEntry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        if (entry.expiry < Date.now()) {
+          await fs.unlink(filePath);
+          removed++;
+        }
+      } catch {
+        // Skip files removed or rewritten while pruning
+      }
+    }
+
+    return removed;
+  }
+}
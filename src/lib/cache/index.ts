@@ -1,3 +1,9 @@
+import path from 'path';
+import { LRUMemoryCache } from './lru';
+import { FileSystemCache } from './file-system';
+import { PostgresCache } from './postgres';
+import { NamespacedCache, NamespacedCacheOptions } from './namespaced';
+
 export interface CacheProvider {
   get(key: string): Promise<any | null>;
   set(key: string, value: any, ttl?: number): Promise<void>;
@@ -28,3 +34,50 @@ export class MemoryCache implements CacheProvider {
     this.cache.delete(key);
   }
 }
+
+export { LRUMemoryCache, FileSystemCache, PostgresCache, NamespacedCache };
+export type { NamespacedCacheOptions };
+export {
+  SemanticQueryCache,
+  semanticQueryCache,
+  resolveSemanticCacheConfig,
+  DEFAULT_SEMANTIC_CACHE_CONFIG
+} from './semantic-query-cache';
+export type { SemanticCacheConfig, SemanticCacheHit } from './semantic-query-cache';
+
+export type CacheBackend = 'memory' | 'lru' | 'fs' | 'postgres';
+
+/**
+ * Create the cache backend selected by CACHE_BACKEND (default: lru)
+ *
+ * `fs` writes to CACHE_DIR (default .cache/sevensearch), `lru` keeps at most
+ * CACHE_MAX_ENTRIES entries and `postgres` uses the cache_entries table.
+ */
+export function createCacheProvider(backend: string = process.env.CACHE_BACKEND || 'lru'): CacheProvider {
+  switch (backend as CacheBackend) {
+    case 'memory':
+      return new MemoryCache();
+    case 'fs':
+      return new FileSystemCache(process.env.CACHE_DIR || path.join(process.cwd(), '.cache', 'sevensearch'));
+    case 'postgres':
+      return new PostgresCache();
+    case 'lru':
+      return new LRUMemoryCache(Number(process.env.CACHE_MAX_ENTRIES) || 1000);
+    default:
+      console.warn(`⚠️  Unknown CACHE_BACKEND "${backend}", using lru`);
+      return new LRUMemoryCache(Number(process.env.CACHE_MAX_ENTRIES) || 1000);
+  }
+}
+
+/**
+ * Freshness of cached search provider responses, from SEARCH_CACHE_TTL and
+ * SEARCH_CACHE_STALE_TTL (seconds)
+ */
+export const SEARCH_CACHE_OPTIONS: NamespacedCacheOptions = {
+  ttl: Number(process.env.SEARCH_CACHE_TTL) || 3600,
+  staleTtl: Number(process.env.SEARCH_CACHE_STALE_TTL) || 86400
+};
+
+// Export singleton instances
+export const sharedCache = createCacheProvider();
+export const searchCache = new NamespacedCache(sharedCache, 'search', SEARCH_CACHE_OPTIONS);
@@ -0,0 +1,26 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { LRUMemoryCache } from './lru';
+
+test('LRUMemoryCache evicts the least recently used entry', async () => {
+  const cache = new LRUMemoryCache(2);
+  await cache.set('a', 1);
+  await cache.set('b', 2);
+
+  // Reading `a` makes `b` the least recently used
+  assert.equal(await cache.get('a'), 1);
+  await cache.set('c', 3);
+
+  assert.equal(cache.size, 2);
+  assert.equal(await cache.get('b'), null);
+  assert.equal(await cache.get('a'), 1);
+  assert.equal(await cache.get('c'), 3);
+});
+
+test('LRUMemoryCache drops expired entries on read', async () => {
+  const cache = new LRUMemoryCache();
+  await cache.set('gone', 'value', -1);
+
+  assert.equal(await cache.get('gone'), null);
+  assert.equal(cache.size, 0);
+});
@@ -0,0 +1,44 @@
+import type { CacheProvider } from './index';
+
+/**
+ * Size-bounded in-memory cache that evicts the least recently used entry
+ * once it holds more than `maxEntries` keys
+ */
+export class LRUMemoryCache implements CacheProvider {
+  private cache: Map<string, { value: any; expiry: number }> = new Map();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  async get(key: string): Promise<any | null> {
+    const item = this.cache.get(key);
+    if (!item) return null;
+
+    if (item.expiry < Date.now()) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.cache.delete(key);
+    this.cache.set(key, item);
+    return item.value;
+  }
+
+  async set(key: string, value: any, ttl = 3600): Promise<void> {
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiry: Date.now() + ttl * 1000 });
+
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+}
@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { LRUMemoryCache } from './lru';
+import { NamespacedCache } from './namespaced';
+
+test('getOrFetch shares one fetch between concurrent misses', async () => {
+  const cache = new NamespacedCache(new LRUMemoryCache(), 'test-dedup', { ttl: 60, staleTtl: 0 });
+  let fetches = 0;
+  const fetcher = async () => {
+    fetches++;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return 'value';
+  };
+
+  const values = await Promise.all([cache.getOrFetch('key', fetcher), cache.getOrFetch('key', fetcher)]);
+
+  assert.deepEqual(values, ['value', 'value']);
+  assert.equal(fetches, 1);
+  // Fresh entries are served without fetching
+  assert.equal(await cache.getOrFetch('key', fetcher), 'value');
+  assert.equal(fetches, 1);
+});
+
+test('getOrFetch serves a stale entry and refreshes it in the background', async () => {
+  const backend = new LRUMemoryCache();
+  const cache = new NamespacedCache(backend, 'test-stale', { ttl: 60, staleTtl: 60 });
+  // Past its fresh period but within the stale period
+  await cache.set('key', 'old', { ttl: -1, staleTtl: 120 });
+
+  let release!: () => void;
+  const refreshed = new Promise<void>(resolve => { release = resolve; });
+  const value = await cache.getOrFetch('key', async () => {
+    release();
+    return 'new';
+  });
+
+  assert.equal(value, 'old');
+  await refreshed;
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(await cache.get('key'), 'new');
+  // Keys are stored under the namespace
+  assert.ok(await backend.get('test-stale:key'));
+});
+
+test('getOrFetch fetches again once the stale period is over', async () => {
+  const cache = new NamespacedCache(new LRUMemoryCache(), 'test-expired');
+  await cache.set('key', 'old', { ttl: -2, staleTtl: 1 });
+
+  assert.equal(await cache.getOrFetch('key', async () => 'new'), 'new');
+});
@@ -0,0 +1,113 @@
+import type { CacheProvider } from './index';
+import { performanceMonitor } from '../monitoring/performance-monitor';
+
+export interface NamespacedCacheOptions {
+  /** Seconds an entry is served as fresh */
+  ttl: number;
+  /** Further seconds an expired entry is still served while it is refreshed in the background */
+  staleTtl: number;
+}
+
+interface NamespacedEntry<T> {
+  value: T;
+  freshUntil: number;
+}
+
+/**
+ * A namespace of keys on a cache backend with stale-while-revalidate reads
+ *
+ * Keys are stored as `${namespace}:${key}`, so several namespaces can share
+ * one backend. Every getOrFetch is counted as a hit, stale hit or miss in
+ * performanceMonitor's cache statistics.
+ */
+export class NamespacedCache {
+  private inFlight: Map<string, Promise<any>> = new Map();
+
+  constructor(
+    private backend: CacheProvider,
+    readonly namespace: string,
+    private options: NamespacedCacheOptions = { ttl: 3600, staleTtl: 0 }
+  ) {}
+
+  private key(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  private async read<T>(key: string): Promise<NamespacedEntry<T> | null> {
+    try {
+      const entry = await this.backend.get(this.key(key));
+      return entry && typeof entry.freshUntil === 'number' ? entry : null;
+    } catch (error) {
+      console.warn(`⚠️  Cache read failed for ${this.key(key)}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cached value for a key, fresh or stale, or null
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    return entry ? entry.value : null;
+  }
+
+  async set<T>(key: string, value: T, options: Partial<NamespacedCacheOptions> = {}): Promise<void> {
+    const { ttl, staleTtl } = { ...this.options, ...options };
+    const entry: NamespacedEntry<T> = { value, freshUntil: Date.now() + ttl * 1000 };
+
+    try {
+      await this.backend.set(this.key(key), entry, ttl + staleTtl);
+    } catch (error) {
+      console.warn(`⚠️  Cache write failed for ${this.key(key)}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.backend.delete(this.key(key));
+  }
+
+  /**
+   * Return the cached value for a key, fetching it on a miss
+   *
+   * A stale entry is returned immediately and refreshed in the background.
+   * Concurrent fetches of the same key share one request.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: Partial<NamespacedCacheOptions> = {}
+  ): Promise<T> {
+    const entry = await this.read<T>(key);
+
+    if (entry && entry.freshUntil > Date.now()) {
+      performanceMonitor.recordCacheEvent(this.namespace, 'hit');
+      return entry.value;
+    }
+
+    if (entry) {
+      performanceMonitor.recordCacheEvent(this.namespace, 'stale');
+      this.refresh(key, fetcher, options).catch(error => {
+        console.warn(`⚠️  Background refresh failed for ${this.key(key)}:`, error);
+      });
+      return entry.value;
+    }
+
+    performanceMonitor.recordCacheEvent(this.namespace, 'miss');
+    return this.refresh(key, fetcher, options);
+  }
+
+  private refresh<T>(key: string, fetcher: () => Promise<T>, options: Partial<NamespacedCacheOptions>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = fetcher()
+      .then(async value => {
+        await this.set(key, value, options);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+}
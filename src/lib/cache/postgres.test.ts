@@ -0,0 +1,74 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PostgresCache } from './postgres';
+
+interface Row {
+  key: string;
+  value: unknown;
+  expires_at: string;
+}
+
+/**
+ * The part of the Supabase query builder PostgresCache uses, over an in-memory table
+ */
+function fakeClient(rows: Map<string, Row>, failWith?: string): SupabaseClient {
+  const result = <T>(data: T) => Promise.resolve(failWith ? { data: null, error: { message: failWith } } : { data, error: null });
+
+  const table = {
+    select: () => ({
+      eq: (_column: string, key: string) => ({
+        maybeSingle: () => result(rows.get(key) ?? null)
+      })
+    }),
+    upsert: (row: Row) => {
+      if (!failWith) rows.set(row.key, row);
+      return result(null);
+    },
+    delete: () => ({
+      eq: (_column: string, key: string) => {
+        if (!failWith) rows.delete(key);
+        return result(null);
+      },
+      lt: (_column: string, cutoff: string) => {
+        for (const [key, row] of rows) {
+          if (row.expires_at < cutoff) rows.delete(key);
+        }
+        return result(null);
+      }
+    })
+  };
+
+  return { from: () => table } as unknown as SupabaseClient;
+}
+
+test('PostgresCache stores values with their expiry and deletes expired ones on read', async () => {
+  const rows = new Map<string, Row>();
+  const cache = new PostgresCache(fakeClient(rows));
+
+  await cache.set('key', { answer: 42 }, 60);
+  assert.deepEqual(await cache.get('key'), { answer: 42 });
+  assert.ok(new Date(rows.get('key')!.expires_at).getTime() > Date.now());
+
+  await cache.set('expired', 'value', -1);
+  assert.equal(await cache.get('expired'), null);
+  assert.equal(rows.has('expired'), false);
+});
+
+test('PostgresCache prune removes expired rows', async () => {
+  const rows = new Map<string, Row>();
+  const cache = new PostgresCache(fakeClient(rows));
+  await cache.set('fresh', 'value', 60);
+  await cache.set('stale', 'value', -60);
+
+  await cache.prune();
+  assert.deepEqual([...rows.keys()], ['fresh']);
+});
+
+test('PostgresCache treats database errors as misses', async () => {
+  const cache = new PostgresCache(fakeClient(new Map(), 'connection refused'));
+
+  await cache.set('key', 'value');
+  assert.equal(await cache.get('key'), null);
+  await cache.delete('key');
+});
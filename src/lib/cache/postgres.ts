@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { CacheProvider } from './index';
+
+/**
+ * Cache stored in a Postgres table through Supabase, shared by every server
+ * instance. See migrations/07_create_cache_entries_table.sql.
+ *
+ * Database errors are logged and treated as misses so a cache outage never
+ * fails a search.
+ */
+export class PostgresCache implements CacheProvider {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private table: string = 'cache_entries'
+  ) {}
+
+  async get(key: string): Promise<any | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️  Cache read failed for ${key}:`, error.message);
+      return null;
+    }
+    if (!data) return null;
+
+    if (new Date(data.expires_at).getTime() < Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    return data.value;
+  }
+
+  async set(key: string, value: any, ttl = 3600): Promise<void> {
+    const { error } = await this.client
+      .from(this.table)
+      .upsert({
+        key,
+        value,
+        expires_at: new Date(Date.now() + ttl * 1000).toISOString()
+      });
+
+    if (error) {
+      console.warn(`⚠️  Cache write failed for ${key}:`, error.message);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.client.from(this.table).delete().eq('key', key);
+
+    if (error) {
+      console.warn(`⚠️  Cache delete failed for ${key}:`, error.message);
+    }
+  }
+
+  /**
+   * Remove every expired entry
+   */
+  async prune(): Promise<void> {
+    const { error } = await this.client
+      .from(this.table)
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.warn('⚠️  Cache prune failed:', error.message);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { performanceMonitor } from '../monitoring/performance-monitor';
+import { EmbeddingProvider, getEmbeddingProvider } from '../embeddings';
+import { cosineSimilarity } from '../retrieval';
+
+export interface SemanticCacheConfig {
+  /** Cosine similarity between enhanced queries needed to reuse an answer */
+  threshold: number;
+  /** Only searches completed within this many milliseconds are reused */
+  maxAgeMs: number;
+  /** Most recent query embeddings compared per lookup */
+  candidateLimit: number;
+}
+
+export const DEFAULT_SEMANTIC_CACHE_CONFIG: SemanticCacheConfig = {
+  threshold: 0.92,
+  maxAgeMs: 24 * 60 * 60 * 1000,
+  candidateLimit: 200
+};
+
+/**
+ * An earlier completed search whose enhanced query matches the current one
+ */
+export interface SemanticCacheHit {
+  searchId: string;
+  similarity: number;
+  enhancedQuery: string;
+  summary: string;
+  sources: Array<Record<string, any>>;
+  completedAt: string;
+}
+
+/**
+ * Semantic cache configuration from environment defaults plus per-call overrides
+ *
+ * Reads SEMANTIC_CACHE_THRESHOLD and SEMANTIC_CACHE_MAX_AGE_HOURS.
+ */
+export function resolveSemanticCacheConfig(overrides: Partial<SemanticCacheConfig> = {}): SemanticCacheConfig {
+  const envThreshold = Number(process.env.SEMANTIC_CACHE_THRESHOLD);
+  const envMaxAgeHours = Number(process.env.SEMANTIC_CACHE_MAX_AGE_HOURS);
+
+  return {
+    threshold: overrides.threshold
+      ?? (envThreshold > 0 && envThreshold <= 1 ? envThreshold : DEFAULT_SEMANTIC_CACHE_CONFIG.threshold),
+    maxAgeMs: overrides.maxAgeMs
+      ?? (envMaxAgeHours > 0 ? envMaxAgeHours * 60 * 60 * 1000 : DEFAULT_SEMANTIC_CACHE_CONFIG.maxAgeMs),
+    candidateLimit: overrides.candidateLimit ?? DEFAULT_SEMANTIC_CACHE_CONFIG.candidateLimit
+  };
+}
+
+/**
+ * Reuses answers of completed searches for paraphrased questions
+ *
+ * Enhanced queries are embedded and stored in search_query_embeddings
+ * (migrations/08_create_search_query_embeddings_table.sql) when a search
+ * starts. A lookup compares the new query with the user's recent query
+ * embeddings and returns the closest earlier search that completed within
+ * the freshness window. Answers are only reused for the same user, and
+ * only compared with queries embedded by the same embedding provider
+ * (EMBEDDING_PROVIDER).
+ *
+ * Lookups and writes never throw: any failure is logged and treated as a miss.
+ */
+export class SemanticQueryCache {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private embedder: EmbeddingProvider = getEmbeddingProvider()
+  ) {}
+
+  isEnabled(): boolean {
+    return process.env.SEMANTIC_CACHE_ENABLED !== 'false' && this.embedder.isConfigured();
+  }
+
+  /**
+   * Embed an enhanced query for similarity matching against other queries
+   */
+  async embedQuery(query: string): Promise<number[]> {
+    const [embedding] = await this.embedder.embed([query], 'matching');
+    return embedding;
+  }
+
+  /**
+   * Closest completed search for the query embedding, or null
+   */
+  async lookup(
+    embedding: number[],
+    userId: string,
+    config: SemanticCacheConfig = resolveSemanticCacheConfig()
+  ): Promise<SemanticCacheHit | null> {
+    try {
+      const cutoff = new Date(Date.now() - config.maxAgeMs).toISOString();
+
+      const { data: candidates, error } = await this.client
+        .from('search_query_embeddings')
+        .select('search_id, enhanced_query, embedding')
+        .eq('user_id', userId)
+        .eq('model', this.embedder.id)
+        .gte('created_at', cutoff)
+        .order('created_at', { ascending: false })
+        .limit(config.candidateLimit);
+
+      if (error) throw new Error(error.message);
+
+      const matches = (candidates || [])
+        .map(candidate => ({ ...candidate, similarity: cosineSimilarity(embedding, candidate.embedding) }))
+        .filter(candidate => candidate.similarity >= config.threshold)
+        .sort((a, b) => b.similarity - a.similarity);
+
+      if (matches.length === 0) {
+        performanceMonitor.recordCacheEvent('semantic', 'miss');
+        return null;
+      }
+
+      // The closest match may still be running or may have failed; take the best completed one
+      const { data: searches, error: searchError } = await this.client
+        .from('searches')
+        .select('searchId, summary, sources, completed_at')
+        .in('searchId', matches.map(match => match.search_id))
+        .eq('completed', true)
+        .gte('completed_at', cutoff);
+
+      if (searchError) throw new Error(searchError.message);
+
+      for (const match of matches) {
+        const search = (searches || []).find(row => row.searchId === match.search_id);
+        if (!search) continue;
+
+        performanceMonitor.recordCacheEvent('semantic', 'hit');
+        return {
+          searchId: search.searchId,
+          similarity: match.similarity,
+          enhancedQuery: match.enhanced_query,
+          summary: search.summary || '',
+          sources: typeof search.sources === 'string' ? JSON.parse(search.sources) : search.sources || [],
+          completedAt: search.completed_at
+        };
+      }
+
+      performanceMonitor.recordCacheEvent('semantic', 'miss');
+      return null;
+    } catch (error) {
+      console.warn('⚠️  Semantic cache lookup failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the query embedding of a search so later paraphrases can find it
+   */
+  async record(searchId: string, userId: string, enhancedQuery: string, embedding: number[]): Promise<void> {
+    const { error } = await this.client
+      .from('search_query_embeddings')
+      .upsert({
+        search_id: searchId,
+        user_id: userId,
+        enhanced_query: enhancedQuery,
+        embedding,
+        model: this.embedder.id
+      });
+
+    if (error) {
+      console.warn(`⚠️  Failed to store query embedding for ${searchId}:`, error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const semanticQueryCache = new SemanticQueryCache();
@@ -0,0 +1,63 @@
+import { JinaEmbeddingProvider } from './jina';
+import { OpenAICompatibleEmbeddingProvider } from './openai-compatible';
+import { LocalOnnxEmbeddingProvider } from './local-onnx';
+
+export { JinaEmbeddingProvider, OpenAICompatibleEmbeddingProvider, LocalOnnxEmbeddingProvider };
+export type { OpenAICompatibleEmbeddingOptions } from './openai-compatible';
+export type { LocalOnnxEmbeddingOptions } from './local-onnx';
+
+/**
+ * What a text is embedded for; providers with task-specific models or
+ * prefixes embed queries and passages differently
+ */
+export type EmbeddingTask = 'query' | 'passage' | 'matching';
+
+export interface EmbeddingProvider {
+  /**
+   * Model identity stored with every vector; vectors from providers with
+   * different IDs are never compared
+   */
+  readonly id: string;
+  readonly dimensions?: number;
+  isConfigured(): boolean;
+  /** One embedding per text, in input order */
+  embed(texts: string[], task: EmbeddingTask): Promise<number[][]>;
+}
+
+export type EmbeddingBackend = 'jina' | 'openai' | 'local';
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER (default: jina)
+ */
+export function createEmbeddingProvider(backend: string = process.env.EMBEDDING_PROVIDER || 'jina'): EmbeddingProvider {
+  switch (backend as EmbeddingBackend) {
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider();
+    case 'local':
+      return new LocalOnnxEmbeddingProvider();
+    case 'jina':
+      return new JinaEmbeddingProvider();
+    default:
+      console.warn(`⚠️  Unknown EMBEDDING_PROVIDER "${backend}", using jina`);
+      return new JinaEmbeddingProvider();
+  }
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Shared provider for a backend name, or the configured default without one
+ *
+ * Lets a single search pick its backend (e.g. `embeddingProvider` in the
+ * runtime context) while every search using a backend shares one instance,
+ * so the local model is loaded once.
+ */
+export function getEmbeddingProvider(backend?: string): EmbeddingProvider {
+  const name = backend || process.env.EMBEDDING_PROVIDER || 'jina';
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createEmbeddingProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
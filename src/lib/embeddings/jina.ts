@@ -0,0 +1,58 @@
+import type { EmbeddingProvider, EmbeddingTask } from './index';
+
+const JINA_EMBEDDINGS_API = 'https://api.jina.ai/v1/embeddings';
+
+const JINA_TASKS: Record<EmbeddingTask, string> = {
+  query: 'retrieval.query',
+  passage: 'retrieval.passage',
+  matching: 'text-matching'
+};
+
+/**
+ * Jina AI embeddings (jina-embeddings-v3 by default) with task-specific adapters
+ */
+export class JinaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private apiKey: string | undefined = process.env.JINA_API_KEY,
+    private model: string = 'jina-embeddings-v3',
+    readonly dimensions: number = 1024
+  ) {
+    // The bare model name, so vectors stored before other providers existed stay usable
+    this.id = model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async embed(texts: string[], task: EmbeddingTask): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(JINA_EMBEDDINGS_API, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        task: JINA_TASKS[task],
+        dimensions: this.dimensions
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Jina embeddings API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!data?.data) {
+      throw new Error('Invalid response from Jina embeddings API');
+    }
+    return data.data.map((item: any) => item.embedding);
+  }
+}
@@ -0,0 +1,79 @@
+import type { EmbeddingProvider, EmbeddingTask } from './index';
+
+export interface LocalOnnxEmbeddingOptions {
+  /** Hugging Face model ID with ONNX weights */
+  model?: string;
+  /** Directory holding pre-downloaded models; remote downloads are disabled when set */
+  modelPath?: string;
+  /** Prefix added to queries, for models trained with one (bge: "Represent this sentence for searching relevant passages: ") */
+  queryPrefix?: string;
+  batchSize?: number;
+}
+
+/**
+ * Sentence embeddings computed in-process on the CPU with an ONNX model
+ * through @huggingface/transformers (all-MiniLM-L6-v2 by default, 384
+ * dimensions). Needs no API key, so the pipeline runs in CI and on-prem.
+ *
+ * The model is downloaded on first use unless LOCAL_EMBEDDINGS_MODEL_PATH
+ * points at a directory of pre-downloaded models. Defaults come from
+ * LOCAL_EMBEDDINGS_MODEL and LOCAL_EMBEDDINGS_MODEL_PATH.
+ */
+export class LocalOnnxEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private model: string;
+  private modelPath: string | undefined;
+  private queryPrefix: string;
+  private batchSize: number;
+  private extractor: Promise<any> | null = null;
+
+  constructor(options: LocalOnnxEmbeddingOptions = {}) {
+    this.model = options.model || process.env.LOCAL_EMBEDDINGS_MODEL || 'Xenova/all-MiniLM-L6-v2';
+    this.modelPath = options.modelPath || process.env.LOCAL_EMBEDDINGS_MODEL_PATH;
+    this.queryPrefix = options.queryPrefix || '';
+    this.batchSize = options.batchSize || 32;
+    this.id = `local:${this.model}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Load the feature-extraction pipeline once; concurrent callers share the load
+   */
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const transformers = await import('@huggingface/transformers');
+        if (this.modelPath) {
+          transformers.env.localModelPath = this.modelPath;
+          transformers.env.allowRemoteModels = false;
+        }
+        return transformers.pipeline('feature-extraction', this.model, { dtype: 'fp32' });
+      })();
+
+      // Let a failed load be retried on the next call
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[], task: EmbeddingTask): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.getExtractor();
+    const prefix = task === 'query' ? this.queryPrefix : '';
+    const embeddings: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize).map(text => prefix + text);
+      const output = await extractor(batch, { pooling: 'mean', normalize: true });
+      embeddings.push(...(output.tolist() as number[][]));
+    }
+
+    return embeddings;
+  }
+}
@@ -0,0 +1,83 @@
+import type { EmbeddingProvider, EmbeddingTask } from './index';
+
+export interface OpenAICompatibleEmbeddingOptions {
+  /** API root, e.g. https://api.openai.com/v1 or a self-hosted server such as vLLM or Ollama */
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  /** Requested output size, for models that support shortening */
+  dimensions?: number;
+  /** Text prepended per task, for models trained with prefixes (e5: "query: ", "passage: ") */
+  prefixes?: Partial<Record<EmbeddingTask, string>>;
+  /** Most inputs sent in one request */
+  batchSize?: number;
+}
+
+/**
+ * Embeddings from any endpoint implementing the OpenAI `/embeddings` API
+ *
+ * Defaults come from EMBEDDINGS_BASE_URL, EMBEDDINGS_API_KEY (or
+ * OPENAI_API_KEY), EMBEDDINGS_MODEL and EMBEDDINGS_DIMENSIONS.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions?: number;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private model: string;
+  private prefixes: Partial<Record<EmbeddingTask, string>>;
+  private batchSize: number;
+
+  constructor(options: OpenAICompatibleEmbeddingOptions = {}) {
+    this.baseUrl = (options.baseUrl || process.env.EMBEDDINGS_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.apiKey = options.apiKey ?? process.env.EMBEDDINGS_API_KEY ?? process.env.OPENAI_API_KEY;
+    this.model = options.model || process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small';
+    this.dimensions = options.dimensions ?? (Number(process.env.EMBEDDINGS_DIMENSIONS) || undefined);
+    this.prefixes = options.prefixes || {};
+    this.batchSize = options.batchSize || 256;
+    this.id = `openai:${this.model}${this.dimensions ? `@${this.dimensions}` : ''}`;
+  }
+
+  /**
+   * Configured with an API key, or with a custom endpoint (self-hosted servers often need none)
+   */
+  isConfigured(): boolean {
+    return !!this.apiKey || !!process.env.EMBEDDINGS_BASE_URL;
+  }
+
+  async embed(texts: string[], task: EmbeddingTask): Promise<number[][]> {
+    const prefix = this.prefixes[task] || '';
+    const embeddings: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize).map(text => prefix + text);
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: batch,
+          ...(this.dimensions ? { dimensions: this.dimensions } : {})
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embeddings API error (${this.baseUrl}): ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (!data?.data) {
+        throw new Error(`Invalid response from embeddings API (${this.baseUrl})`);
+      }
+
+      // Results carry their input index; order by it rather than trusting response order
+      const ordered = [...data.data].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0));
+      embeddings.push(...ordered.map((item: any) => item.embedding));
+    }
+
+    return embeddings;
+  }
+}
@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  encodeStreamEvent,
+  EVENT_PROTOCOL_VERSION,
+  EventProtocolError,
+  EventType,
+  LEGACY_EVENT_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  parseStreamEvent,
+  validateStreamEvent
+} from './index';
+
+test('negotiateProtocolVersion answers legacy clients with version 1', () => {
+  for (const requested of [null, undefined, '', 'abc', '0', -3]) {
+    assert.equal(negotiateProtocolVersion(requested), LEGACY_EVENT_PROTOCOL_VERSION, String(requested));
+  }
+});
+
+test('negotiateProtocolVersion caps newer clients at this build\'s version', () => {
+  assert.equal(negotiateProtocolVersion('2'), 2);
+  assert.equal(negotiateProtocolVersion(EVENT_PROTOCOL_VERSION + 5), EVENT_PROTOCOL_VERSION);
+});
+
+test('encodeStreamEvent downgrades events newer than the client\'s version', () => {
+  const warning = { id: 4, step: 3, type: EventType.WARNING, payload: { message: 'Slow provider' } };
+
+  assert.deepEqual(encodeStreamEvent(warning, 2), { v: 2, ...warning });
+  assert.deepEqual(encodeStreamEvent(warning, 1), {
+    id: 4,
+    step: 3,
+    type: EventType.PROGRESS_UPDATE,
+    payload: { progress: 0, message: 'Slow provider', stepId: undefined }
+  });
+  assert.equal(encodeStreamEvent({ step: 2, type: EventType.STEP_SKIPPED, payload: { reason: 'robots' } }, 1), null);
+});
+
+test('summary deltas and verified answers are only sent from version 3', () => {
+  const delta = { step: 5, type: EventType.SUMMARY_DELTA, payload: { delta: 'Heat', loading: true } };
+
+  assert.equal(encodeStreamEvent(delta, 2), null);
+  assert.deepEqual(encodeStreamEvent(delta, 3), { v: 3, ...delta });
+});
+
+test('validateStreamEvent checks payloads of protocol events only', () => {
+  assert.throws(
+    () => validateStreamEvent({ step: 1, type: EventType.RESULTS_FOUND, payload: { query: 'q' } }),
+    (error: unknown) => error instanceof EventProtocolError && /resultCount/.test(error.message)
+  );
+  assert.deepEqual(
+    validateStreamEvent({ step: 1, type: 'custom_diagnostic', payload: { anything: true } }),
+    { step: 1, type: 'custom_diagnostic', payload: { anything: true } }
+  );
+});
+
+test('validateStreamEvent checks the payloads of step diagnostic events', () => {
+  const fallback = { step: 3, type: EventType.SCRAPER_FALLBACK, payload: { url: 'https://example.com', from: 'local', to: 'scrapybara', reason: 'Page needs JavaScript' } };
+
+  assert.deepEqual(validateStreamEvent(fallback), fallback);
+  assert.throws(
+    () => validateStreamEvent({ step: 5, type: EventType.STREAM_ERROR, payload: { phase: 'streaming' } }),
+    (error: unknown) => error instanceof EventProtocolError && /error/.test(error.message)
+  );
+  assert.throws(
+    () => validateStreamEvent({ step: 3, type: EventType.EARLIER_PASSAGES_RECALLED, payload: { count: '2' } }),
+    EventProtocolError
+  );
+  assert.throws(() => validateStreamEvent({ step: 1 }), /Invalid unknown event/);
+});
+
+test('parseStreamEvent lets unknown events of newer versions through', () => {
+  const newer = { v: EVENT_PROTOCOL_VERSION + 1, step: 1, type: EventType.RESULTS_FOUND, payload: {} };
+
+  assert.deepEqual(parseStreamEvent(JSON.stringify(newer)), newer);
+  assert.equal(parseStreamEvent(JSON.stringify({ ...newer, v: EVENT_PROTOCOL_VERSION })), null);
+  assert.equal(parseStreamEvent('not json'), null);
+});
@@ -0,0 +1,471 @@
+import { z } from 'zod';
+
+/**
+ * Stream Event Protocol
+ *
+ * The events the search API streams to the browser, shared by the server's
+ * EventStreamWriter and the client's event adapter. Each event is one JSON
+ * line `{ v, id, step, type, payload, error?, errorType? }`: `type` picks the
+ * payload schema, `step` the client step (0-5) it belongs to. `id` numbers a
+ * search's events in the order they were sent, so a client can resume its
+ * stream after the last event it received (see lib/search-progress).
+ *
+ * Versions:
+ * - 1: the unversioned chunks sent before the protocol was versioned
+ * - 2: adds `v` to each event and the `warning` and `step_skipped` events
+ * - 3: adds the `summary_delta` and `answer_verified` events
+ *
+ * A client states the highest version it understands in the
+ * `X-Event-Protocol` request header; the server answers with the negotiated
+ * version in the same response header and encodes every event for it.
+ * Clients without the header get version 1, where events they don't know are
+ * sent as `progress_update`s or left out. Events of types outside the
+ * protocol, such as the diagnostic events of single steps, are extension
+ * events: only their envelope is validated and clients may ignore them.
+ */
+
+/** Protocol version this build speaks */
+export const EVENT_PROTOCOL_VERSION = 3;
+
+/** Version of clients that don't negotiate one */
+export const LEGACY_EVENT_PROTOCOL_VERSION = 1;
+
+/** Request and response header carrying the protocol version */
+export const EVENT_PROTOCOL_HEADER = 'X-Event-Protocol';
+
+/**
+ * Event types of the stream protocol
+ */
+export enum EventType {
+  // Workflow Events
+  WORKFLOW_STARTED = 'workflow_started',
+  WORKFLOW_COMPLETED = 'workflow_completed',
+  WORKFLOW_FAILED = 'workflow_failed',
+  WORKFLOW_SUSPENDED = 'workflow_suspended',
+  WORKFLOW_RESUMED = 'workflow_resumed',
+  WORKFLOW_AWAITING_USER_INPUT = 'workflow_awaiting_user_input',
+
+  // Step Events (`<phase>_<status>`, see STEP_PHASES and STEP_STATUSES)
+  ENHANCING_RUNNING = 'enhancing_running',
+  ENHANCING_COMPLETED = 'enhancing_completed',
+  SEARCHING_RUNNING = 'searching_running',
+  SEARCHING_COMPLETED = 'searching_completed',
+  READING_RUNNING = 'reading_running',
+  READING_COMPLETED = 'reading_completed',
+  READING_UPDATE = 'reading_update',
+  WRAPPING_RUNNING = 'wrapping_running',
+  WRAPPING_COMPLETED = 'wrapping_completed',
+  STEP_SKIPPED = 'step_skipped',
+
+  // Progress Events
+  PROGRESS_UPDATE = 'progress_update',
+  SUMMARY_DELTA = 'summary_delta',
+
+  // Error Events
+  ERROR = 'error',
+  WARNING = 'warning',
+
+  // Custom Events
+  LINK_SCRAPED = 'link_scraped',
+  RESULTS_FOUND = 'results_found',
+  BRANCH_SELECTED = 'branch_selected',
+  ANSWER_VERIFIED = 'answer_verified',
+
+  // Diagnostic Events of single steps
+  SCRAPER_FALLBACK = 'scraper_fallback',
+  SCRAPING_RETRY = 'scraping_retry',
+  DUPLICATES_COLLAPSED = 'duplicates_collapsed',
+  EMBEDDINGS_GENERATED = 'embeddings_generated',
+  QUERY_EMBEDDINGS_GENERATED = 'query_embeddings_generated',
+  EARLIER_PASSAGES_RECALLED = 'earlier_passages_recalled',
+  PASSAGES_RERANKED = 'passages_reranked',
+  SUMMARY_PREPARATION = 'summary_preparation',
+  STREAM_ERROR = 'stream_error'
+}
+
+/** Client phases a workflow step is shown in */
+export const STEP_PHASES = ['enhancing', 'searching', 'reading', 'interactive', 'wrapping', 'unknown'] as const;
+
+/** Statuses a workflow step reports */
+export const STEP_STATUSES = ['running', 'completed', 'success', 'failed', 'suspended', 'waiting'] as const;
+
+export type StepPhase = typeof STEP_PHASES[number];
+export type StepStatus = typeof STEP_STATUSES[number];
+
+export type StepEventType = `${StepPhase}_${StepStatus}`;
+
+const STEP_EVENT_TYPES = STEP_PHASES.flatMap(phase =>
+  STEP_STATUSES.map(status => `${phase}_${status}` as StepEventType)
+) as [StepEventType, ...StepEventType[]];
+
+/**
+ * Fields every event has, whatever its type
+ */
+export const streamEventEnvelopeSchema = z.object({
+  v: z.number().int().positive().optional(),
+  id: z.number().int().positive().optional(),
+  step: z.number().int().min(0),
+  type: z.string().min(1),
+  payload: z.record(z.unknown()),
+  error: z.boolean().optional(),
+  errorType: z.string().optional()
+});
+
+/** An event as built before validation, or an extension event */
+export type StreamChunk = z.infer<typeof streamEventEnvelopeSchema>;
+
+// Payloads keep fields they don't declare, so newer servers can add fields
+const payload = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+export const workflowStartedPayload = payload({
+  query: z.string(),
+  searchId: z.string()
+});
+
+export const workflowCompletedPayload = payload({
+  searchId: z.string().optional(),
+  metadata: z.record(z.any()).optional(),
+  success: z.boolean().optional()
+});
+
+export const workflowFailedPayload = payload({
+  searchId: z.string().optional(),
+  message: z.string().optional()
+});
+
+export const workflowSuspendedPayload = payload({
+  searchId: z.string().optional(),
+  suspendedStep: z.string(),
+  suspendReason: z.string().optional(),
+  suspendData: z.record(z.any()).optional()
+});
+
+export const workflowResumedPayload = payload({
+  searchId: z.string(),
+  resumedStep: z.string(),
+  resumedAt: z.string(),
+  description: z.string()
+});
+
+export const workflowAwaitingUserInputPayload = payload({
+  searchId: z.string().optional(),
+  suspendedStep: z.string(),
+  suspendData: z.record(z.any()),
+  description: z.string(),
+  suspendedAt: z.string()
+});
+
+export const stepPayload = payload({
+  stepId: z.string().optional(),
+  status: z.string().optional(),
+  description: z.string().optional(),
+  message: z.string().optional(),
+  enhancedQuery: z.string().optional(),
+  resultCount: z.number().optional(),
+  provider: z.string().optional()
+});
+
+export const readingUpdatePayload = payload({
+  stepId: z.string().optional(),
+  link: z.string(),
+  contentBlocks: z.number().optional()
+});
+
+export const stepSkippedPayload = payload({
+  url: z.string().optional(),
+  reason: z.string(),
+  message: z.string()
+});
+
+export const progressUpdatePayload = payload({
+  progress: z.number(),
+  message: z.string(),
+  stepId: z.string().optional()
+});
+
+export const summaryDeltaPayload = payload({
+  /** Text generated since the previous delta, to append to the answer */
+  delta: z.string(),
+  loading: z.boolean()
+});
+
+export const errorPayload = payload({
+  message: z.string()
+});
+
+export const warningPayload = payload({
+  message: z.string(),
+  reason: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const linkScrapedPayload = payload({
+  url: z.string(),
+  status: z.enum(['started', 'completed', 'failed', 'skipped']),
+  contentCount: z.number().optional(),
+  reason: z.string().optional(),
+  error: z.string().optional(),
+  depth: z.number().optional(),
+  relevance: z.number().optional(),
+  snapshotId: z.string().optional()
+});
+
+export const resultsFoundPayload = payload({
+  resultCount: z.number(),
+  query: z.string().optional()
+});
+
+export const branchSelectedPayload = payload({
+  branchId: z.string(),
+  condition: z.string(),
+  selected: z.boolean(),
+  description: z.string()
+});
+
+export const answerVerifiedPayload = payload({
+  claimCount: z.number(),
+  supportedCount: z.number(),
+  uncitedCount: z.number(),
+  claims: z.array(z.record(z.any())),
+  flaggedClaims: z.array(z.record(z.any())),
+  judge: z.string().optional(),
+  judgeError: z.string().optional()
+});
+
+export const scraperFallbackPayload = payload({
+  url: z.string(),
+  from: z.string(),
+  to: z.string(),
+  reason: z.string()
+});
+
+export const scrapingRetryPayload = payload({
+  url: z.string(),
+  retryCount: z.number(),
+  maxRetries: z.number(),
+  error: z.string().optional()
+});
+
+export const duplicatesCollapsedPayload = payload({
+  count: z.number(),
+  duplicates: z.array(payload({
+    url: z.string(),
+    duplicateOf: z.string()
+  }))
+});
+
+export const embeddingsGeneratedPayload = payload({
+  count: z.number(),
+  reused: z.number().optional(),
+  documentCount: z.number().optional()
+});
+
+export const queryEmbeddingsGeneratedPayload = payload({
+  count: z.number(),
+  provider: z.string().optional(),
+  queries: z.array(z.string()).optional()
+});
+
+export const earlierPassagesRecalledPayload = payload({
+  count: z.number()
+});
+
+export const passagesRerankedPayload = payload({
+  reranker: z.string(),
+  queries: z.array(z.string()),
+  passages: z.array(payload({
+    url: z.string(),
+    title: z.string().optional(),
+    headingPath: z.array(z.string()).optional(),
+    preview: z.string(),
+    retrievalRank: z.number(),
+    retrievalScore: z.number().optional(),
+    rank: z.number(),
+    rerankScore: z.number(),
+    bestQuery: z.number(),
+    kept: z.boolean()
+  }))
+});
+
+export const summaryPreparationPayload = payload({
+  textCount: z.number(),
+  format: z.string(),
+  query: z.string(),
+  model: z.string()
+});
+
+export const streamErrorPayload = payload({
+  error: z.string(),
+  phase: z.string(),
+  model: z.string().optional()
+});
+
+/**
+ * Schema of an event of the given type
+ */
+function eventSchema<K extends EventType, T extends z.ZodTypeAny>(type: K, payloadSchema: T) {
+  return streamEventEnvelopeSchema.extend({
+    type: z.literal(type),
+    payload: payloadSchema
+  });
+}
+
+/** Status changes of workflow steps, one type per client phase and status */
+const stepEventSchema = streamEventEnvelopeSchema.extend({
+  type: z.enum(STEP_EVENT_TYPES),
+  payload: stepPayload
+});
+
+/**
+ * Every event of the protocol, by type
+ */
+export const streamEventSchema = z.discriminatedUnion('type', [
+  eventSchema(EventType.WORKFLOW_STARTED, workflowStartedPayload),
+  eventSchema(EventType.WORKFLOW_COMPLETED, workflowCompletedPayload),
+  eventSchema(EventType.WORKFLOW_FAILED, workflowFailedPayload),
+  eventSchema(EventType.WORKFLOW_SUSPENDED, workflowSuspendedPayload),
+  eventSchema(EventType.WORKFLOW_RESUMED, workflowResumedPayload),
+  eventSchema(EventType.WORKFLOW_AWAITING_USER_INPUT, workflowAwaitingUserInputPayload),
+  stepEventSchema,
+  eventSchema(EventType.READING_UPDATE, readingUpdatePayload),
+  eventSchema(EventType.STEP_SKIPPED, stepSkippedPayload),
+  eventSchema(EventType.PROGRESS_UPDATE, progressUpdatePayload),
+  eventSchema(EventType.SUMMARY_DELTA, summaryDeltaPayload),
+  eventSchema(EventType.ERROR, errorPayload),
+  eventSchema(EventType.WARNING, warningPayload),
+  eventSchema(EventType.LINK_SCRAPED, linkScrapedPayload),
+  eventSchema(EventType.RESULTS_FOUND, resultsFoundPayload),
+  eventSchema(EventType.BRANCH_SELECTED, branchSelectedPayload),
+  eventSchema(EventType.ANSWER_VERIFIED, answerVerifiedPayload),
+  eventSchema(EventType.SCRAPER_FALLBACK, scraperFallbackPayload),
+  eventSchema(EventType.SCRAPING_RETRY, scrapingRetryPayload),
+  eventSchema(EventType.DUPLICATES_COLLAPSED, duplicatesCollapsedPayload),
+  eventSchema(EventType.EMBEDDINGS_GENERATED, embeddingsGeneratedPayload),
+  eventSchema(EventType.QUERY_EMBEDDINGS_GENERATED, queryEmbeddingsGeneratedPayload),
+  eventSchema(EventType.EARLIER_PASSAGES_RECALLED, earlierPassagesRecalledPayload),
+  eventSchema(EventType.PASSAGES_RERANKED, passagesRerankedPayload),
+  eventSchema(EventType.SUMMARY_PREPARATION, summaryPreparationPayload),
+  eventSchema(EventType.STREAM_ERROR, streamErrorPayload)
+]);
+
+export type StreamEvent = z.infer<typeof streamEventSchema>;
+
+/**
+ * Protocol version each event type was introduced in; others are version 1.
+ * The diagnostic events were sent as extension events before they had
+ * schemas, so every version keeps receiving them.
+ */
+const EVENT_TYPE_VERSIONS: Partial<Record<string, number>> = {
+  [EventType.STEP_SKIPPED]: 2,
+  [EventType.WARNING]: 2,
+  [EventType.SUMMARY_DELTA]: 3,
+  [EventType.ANSWER_VERIFIED]: 3
+};
+
+/**
+ * Whether the type is one of the protocol's event types
+ */
+export function isProtocolEventType(type: string): boolean {
+  return streamEventSchema.optionsMap.has(type);
+}
+
+/**
+ * Error raised for an event that doesn't match its type's schema
+ */
+export class EventProtocolError extends Error {
+  constructor(public type: string, public issues: z.ZodIssue[]) {
+    super(`Invalid ${type} event: ${issues.map(issue => `${issue.path.join('.') || 'event'} ${issue.message}`).join('; ')}`);
+    this.name = 'EventProtocolError';
+  }
+}
+
+/**
+ * Validate an event against its type's schema
+ *
+ * Extension events are only checked against the envelope.
+ * @throws EventProtocolError when the event is invalid
+ */
+export function validateStreamEvent(event: unknown): StreamChunk {
+  const envelope = streamEventEnvelopeSchema.safeParse(event);
+  if (!envelope.success) {
+    const type = typeof event === 'object' && event !== null && 'type' in event && typeof event.type === 'string'
+      ? event.type
+      : 'unknown';
+    throw new EventProtocolError(type || 'unknown', envelope.error.issues);
+  }
+  if (!isProtocolEventType(envelope.data.type)) {
+    return envelope.data;
+  }
+
+  const result = streamEventSchema.safeParse(event);
+  if (!result.success) {
+    throw new EventProtocolError(envelope.data.type, result.error.issues);
+  }
+  return result.data;
+}
+
+/**
+ * Protocol version to stream in, from the version a client asked for
+ *
+ * No or an unreadable version is a legacy client; newer versions than this
+ * build's are answered with this build's.
+ */
+export function negotiateProtocolVersion(requested: string | number | null | undefined): number {
+  const version = typeof requested === 'number' ? requested : parseInt(requested ?? '', 10);
+  if (!Number.isInteger(version) || version < LEGACY_EVENT_PROTOCOL_VERSION) {
+    return LEGACY_EVENT_PROTOCOL_VERSION;
+  }
+  return Math.min(version, EVENT_PROTOCOL_VERSION);
+}
+
+/**
+ * Encode a validated event for a client speaking the given version
+ *
+ * Events the client's version doesn't know are sent as a `progress_update`
+ * with their message, or not at all (null) when they have none.
+ */
+export function encodeStreamEvent(event: StreamChunk, version: number): StreamChunk | null {
+  const { v: _v, ...chunk } = event;
+
+  if ((EVENT_TYPE_VERSIONS[chunk.type] ?? LEGACY_EVENT_PROTOCOL_VERSION) > version) {
+    if (typeof chunk.payload.message !== 'string') return null;
+    return encodeStreamEvent({
+      ...(chunk.id ? { id: chunk.id } : {}),
+      step: chunk.step,
+      type: EventType.PROGRESS_UPDATE,
+      payload: { progress: 0, message: chunk.payload.message, stepId: chunk.payload.stepId }
+    }, version);
+  }
+
+  return version >= 2 ? { v: version, ...chunk } : chunk;
+}
+
+/**
+ * Parse and validate one line of the event stream
+ *
+ * Events of a newer protocol version than this build's are let through
+ * unvalidated when they don't match, so clients degrade instead of losing
+ * them; anything else invalid is dropped (null) with a warning.
+ */
+export function parseStreamEvent(line: string): StreamChunk | null {
+  if (!line.trim()) return null;
+
+  let event: unknown;
+  try {
+    event = JSON.parse(line);
+  } catch (error) {
+    console.error('[EventProtocol] Error parsing stream event:', error, line);
+    return null;
+  }
+
+  try {
+    return validateStreamEvent(event);
+  } catch (error) {
+    const envelope = streamEventEnvelopeSchema.safeParse(event);
+    if (envelope.success && (envelope.data.v ?? LEGACY_EVENT_PROTOCOL_VERSION) > EVENT_PROTOCOL_VERSION) {
+      return envelope.data;
+    }
+    console.warn('[EventProtocol] Dropping invalid stream event:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
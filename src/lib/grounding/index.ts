@@ -0,0 +1,220 @@
+import { extractCitedSentences } from '../mastra-vnext-utils/content-processing';
+import { getChatModel } from '../llm';
+import { lexicalSupport } from './lexical';
+import { LlmGroundingJudge } from './llm-judge';
+import { NliGroundingJudge } from './nli-judge';
+
+export { lexicalSupport, LlmGroundingJudge, NliGroundingJudge };
+export type { LexicalSupport } from './lexical';
+
+/**
+ * Second opinion on whether passages support a claim, beyond word overlap
+ */
+export interface GroundingJudge {
+  readonly id: string;
+  isConfigured(): boolean;
+  /** Support of the claim by the passages, 0 (none) to 1 (fully supported) */
+  judge(claim: string, passages: string[]): Promise<number>;
+}
+
+export type GroundingJudgeBackend = 'none' | 'llm' | 'nli';
+
+export interface GroundingConfig {
+  /** Claims scoring at least this are supported */
+  supportThreshold: number;
+  /** Claims scoring at least this (but below supportThreshold) are partially supported */
+  partialThreshold: number;
+  /** Weight of the judge's score against the lexical score when a judge is used */
+  judgeWeight: number;
+  /** Cited claims sent to the judge; later ones are scored lexically only */
+  maxJudgedClaims: number;
+}
+
+export const DEFAULT_GROUNDING_CONFIG: GroundingConfig = {
+  supportThreshold: 0.5,
+  partialThreshold: 0.25,
+  judgeWeight: 0.7,
+  maxJudgedClaims: 20
+};
+
+export type ClaimStatus = 'supported' | 'partial' | 'unsupported' | 'invalid_citation';
+
+export interface VerifiedClaim {
+  /** Position of the sentence in the answer */
+  index: number;
+  sentence: string;
+  citationIds: number[];
+  status: ClaimStatus;
+  /** Combined support score (0-1) */
+  score: number;
+  lexicalScore: number;
+  judgeScore?: number;
+  /** Cited passage that supports the sentence best */
+  bestCitationId?: number;
+  /** Numbers in the sentence missing from every cited passage */
+  missingNumbers?: string[];
+}
+
+export interface GroundingReport {
+  judge?: string;
+  /** Sentences with at least one citation */
+  claimCount: number;
+  supportedCount: number;
+  /** Sentences without citations; they are not verified */
+  uncitedCount: number;
+  claims: VerifiedClaim[];
+  /** Unsupported claims and claims citing a passage that does not exist */
+  flaggedClaims: VerifiedClaim[];
+  judgeError?: string;
+}
+
+/**
+ * Grounding configuration from environment defaults plus per-call overrides
+ *
+ * Reads GROUNDING_SUPPORT_THRESHOLD.
+ */
+export function resolveGroundingConfig(overrides: Partial<GroundingConfig> = {}): GroundingConfig {
+  const envThreshold = Number(process.env.GROUNDING_SUPPORT_THRESHOLD);
+  const supportThreshold = overrides.supportThreshold
+    ?? (envThreshold > 0 && envThreshold <= 1 ? envThreshold : DEFAULT_GROUNDING_CONFIG.supportThreshold);
+
+  return {
+    supportThreshold,
+    partialThreshold: overrides.partialThreshold
+      ?? Math.min(DEFAULT_GROUNDING_CONFIG.partialThreshold, supportThreshold / 2),
+    judgeWeight: overrides.judgeWeight ?? DEFAULT_GROUNDING_CONFIG.judgeWeight,
+    maxJudgedClaims: overrides.maxJudgedClaims ?? DEFAULT_GROUNDING_CONFIG.maxJudgedClaims
+  };
+}
+
+/**
+ * Create the grounding judge selected by GROUNDING_JUDGE (default: none, lexical checks only)
+ *
+ * `llm` asks GROUNDING_JUDGE_MODEL (or the default chat model); `nli` runs a local NLI model.
+ */
+export function createGroundingJudge(backend: string = process.env.GROUNDING_JUDGE || 'none'): GroundingJudge | null {
+  switch (backend as GroundingJudgeBackend) {
+    case 'llm':
+      return new LlmGroundingJudge(getChatModel(process.env.GROUNDING_JUDGE_MODEL));
+    case 'nli':
+      return new NliGroundingJudge();
+    case 'none':
+      return null;
+    default:
+      console.warn(`⚠️  Unknown GROUNDING_JUDGE "${backend}", using lexical checks only`);
+      return null;
+  }
+}
+
+const judges = new Map<string, GroundingJudge | null>();
+
+/**
+ * Shared judge for a backend name, or the configured default without one
+ */
+export function getGroundingJudge(backend?: string): GroundingJudge | null {
+  const name = backend || process.env.GROUNDING_JUDGE || 'none';
+  if (!judges.has(name)) {
+    judges.set(name, createGroundingJudge(name));
+  }
+  return judges.get(name)!;
+}
+
+function statusFor(score: number, config: GroundingConfig): ClaimStatus {
+  if (score >= config.supportThreshold) return 'supported';
+  if (score >= config.partialThreshold) return 'partial';
+  return 'unsupported';
+}
+
+/**
+ * Check every cited sentence of an answer against the passages it cites
+ *
+ * `sources` are the passages the answer was written from, where citation
+ * [n] refers to `sources[n - 1]`. Sentences without citations are counted
+ * but not verified.
+ */
+export async function verifyAnswer(
+  answer: string,
+  sources: string[],
+  judge: GroundingJudge | null = null,
+  config: GroundingConfig = resolveGroundingConfig()
+): Promise<GroundingReport> {
+  const sentences = extractCitedSentences(answer).map(({ sentence, citationIds }, index) => ({ text: sentence, citationIds, index }));
+  const report = await verifyClaims(sentences.filter(sentence => sentence.citationIds.length > 0), sources, judge, config);
+  return { ...report, uncitedCount: sentences.filter(sentence => sentence.citationIds.length === 0).length };
+}
+
+/**
+ * Check claims against the passages they cite
+ *
+ * Each claim is scored by word overlap with its best cited passage and,
+ * with a judge, by the judge as well. Claims keep their `index` (their
+ * position in the caller's list unless given).
+ */
+export async function verifyClaims(
+  statements: Array<{ text: string; citationIds: number[]; index?: number }>,
+  sources: string[],
+  judge: GroundingJudge | null = null,
+  config: GroundingConfig = resolveGroundingConfig()
+): Promise<GroundingReport> {
+  const claims: VerifiedClaim[] = statements.map(({ text: sentence, citationIds, index: position }, i) => {
+    const index = position ?? i;
+
+    // A claim citing nothing has no support
+    if (citationIds.length === 0) {
+      return { index, sentence, citationIds, status: 'unsupported', score: 0, lexicalScore: 0 };
+    }
+
+    const valid = citationIds.filter(id => id >= 1 && id <= sources.length);
+    if (valid.length < citationIds.length) {
+      return { index, sentence, citationIds, status: 'invalid_citation', score: 0, lexicalScore: 0 };
+    }
+
+    let best = { id: valid[0], score: -1, missingNumbers: [] as string[] };
+    for (const id of valid) {
+      const support = lexicalSupport(sentence, sources[id - 1]);
+      if (support.score > best.score) best = { id, ...support };
+    }
+
+    return {
+      index,
+      sentence,
+      citationIds,
+      status: statusFor(best.score, config),
+      score: best.score,
+      lexicalScore: best.score,
+      bestCitationId: best.id,
+      ...(best.missingNumbers.length > 0 ? { missingNumbers: best.missingNumbers } : {})
+    };
+  });
+
+  let judgeError: string | undefined;
+  const activeJudge = judge && judge.isConfigured() ? judge : null;
+
+  if (activeJudge) {
+    const judged = claims.filter(claim => claim.status !== 'invalid_citation').slice(0, config.maxJudgedClaims);
+    try {
+      const scores = await Promise.all(judged.map(claim =>
+        activeJudge.judge(claim.sentence, claim.citationIds.map(id => sources[id - 1]))
+      ));
+      judged.forEach((claim, i) => {
+        claim.judgeScore = scores[i];
+        claim.score = config.judgeWeight * scores[i] + (1 - config.judgeWeight) * claim.lexicalScore;
+        claim.status = statusFor(claim.score, config);
+      });
+    } catch (error) {
+      // Keep the lexical verdicts
+      judgeError = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Grounding judge ${activeJudge.id} failed, using lexical checks only:`, judgeError);
+    }
+  }
+
+  return {
+    ...(activeJudge ? { judge: activeJudge.id } : {}),
+    claimCount: claims.length,
+    supportedCount: claims.filter(claim => claim.status === 'supported').length,
+    uncitedCount: 0,
+    claims,
+    flaggedClaims: claims.filter(claim => claim.status === 'unsupported' || claim.status === 'invalid_citation'),
+    ...(judgeError ? { judgeError } : {})
+  };
+}
@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { lexicalSupport } from './lexical';
+
+const PASSAGE = 'Air source heat pumps typically reach a coefficient of performance between 2.5 and 4.';
+
+test('lexicalSupport is the share of claim terms the passage covers', () => {
+  assert.deepEqual(lexicalSupport('Heat pumps reach a coefficient of performance of 4.', PASSAGE), {
+    score: 1,
+    missingNumbers: []
+  });
+  assert.equal(lexicalSupport('Heat pumps are noisy', PASSAGE).score, 2 / 3);
+});
+
+test('lexicalSupport matches inflected forms', () => {
+  assert.equal(lexicalSupport('The pump reaches performance', PASSAGE).score, 1);
+});
+
+test('lexicalSupport caps claims with numbers the passage lacks', () => {
+  const support = lexicalSupport('Heat pumps reach a coefficient of performance of 16.', PASSAGE);
+
+  assert.deepEqual(support.missingNumbers, ['16']);
+  assert.equal(support.score, 0.2);
+});
+
+test('lexicalSupport gives claims without terms no support', () => {
+  assert.deepEqual(lexicalSupport('It is what it is.', PASSAGE), { score: 0, missingNumbers: [] });
+});
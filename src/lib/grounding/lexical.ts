@@ -0,0 +1,46 @@
+import { tokenize } from '../retrieval/bm25';
+
+/**
+ * Crude English suffix stripping so "purrs" matches "purring"
+ */
+function stem(token: string): string {
+  if (/^\d/.test(token) || token.length <= 4) return token;
+  return token.replace(/(ing|edly|ed|ies|es|s|ly)$/, '');
+}
+
+function terms(text: string): Set<string> {
+  return new Set(tokenize(text).map(stem));
+}
+
+export interface LexicalSupport {
+  /** Share of the claim's terms found in the passage (0-1) */
+  score: number;
+  /** Numbers in the claim that the passage does not contain */
+  missingNumbers: string[];
+}
+
+/**
+ * How much of a claim a passage covers word for word
+ *
+ * A claim with a number the passage does not mention is capped below the
+ * partial-support level, since a wrong figure is the commonest hallucination
+ * that word overlap alone would miss.
+ */
+export function lexicalSupport(claim: string, passage: string): LexicalSupport {
+  const claimTerms = terms(claim);
+  if (claimTerms.size === 0) return { score: 0, missingNumbers: [] };
+
+  const passageTerms = terms(passage);
+  let covered = 0;
+  for (const term of claimTerms) {
+    if (passageTerms.has(term)) covered++;
+  }
+
+  const missingNumbers = [...claimTerms].filter(term => /^\d/.test(term) && !passageTerms.has(term));
+  const score = covered / claimTerms.size;
+
+  return {
+    score: missingNumbers.length > 0 ? Math.min(score, 0.2) : score,
+    missingNumbers
+  };
+}
@@ -0,0 +1,49 @@
+import type { ChatModel } from '../llm';
+import type { GroundingJudge } from './index';
+
+const VERDICT_SCORES: Record<string, number> = {
+  supported: 1,
+  partial: 0.5,
+  unsupported: 0
+};
+
+/**
+ * Asks a chat model whether the cited passages support a claim
+ */
+export class LlmGroundingJudge implements GroundingJudge {
+  readonly id: string;
+
+  constructor(private model: ChatModel) {
+    this.id = `llm:${model.id}`;
+  }
+
+  isConfigured(): boolean {
+    return this.model.isConfigured();
+  }
+
+  async judge(claim: string, passages: string[]): Promise<number> {
+    let reply = '';
+    const tokens = this.model.stream([
+      {
+        role: 'system',
+        content: 'You check whether a claim is supported by the given source passages. ' +
+          'Reply with one word: "supported" if the passages state or directly imply the claim, ' +
+          '"partial" if they support only part of it, or "unsupported" otherwise.'
+      },
+      {
+        role: 'user',
+        content: `Passages:\n\n${passages.map((passage, index) => `(${index + 1}) ${passage}`).join('\n\n')}\n\nClaim: ${claim}`
+      }
+    ], { temperature: 0, maxTokens: 5 });
+
+    for await (const token of tokens) {
+      reply += token;
+    }
+
+    const verdict = reply.toLowerCase().match(/unsupported|partial|supported/);
+    if (!verdict) {
+      throw new Error(`Unexpected grounding verdict from ${this.model.id}: ${reply.substring(0, 50)}`);
+    }
+    return VERDICT_SCORES[verdict[0]];
+  }
+}
@@ -0,0 +1,84 @@
+import type { GroundingJudge } from './index';
+
+/**
+ * The part of a sequence classification model's config naming its outputs,
+ * which transformers.js leaves out of PretrainedConfig
+ */
+interface ClassificationConfig {
+  id2label?: Record<string, string>;
+}
+
+/**
+ * Natural language inference judge computed in-process on the CPU with an
+ * ONNX model through @huggingface/transformers (nli-deberta-v3-xsmall by
+ * default). A claim's support is the probability that the best cited
+ * passage entails it. Defaults come from LOCAL_NLI_MODEL and
+ * LOCAL_NLI_MODEL_PATH.
+ */
+export class NliGroundingJudge implements GroundingJudge {
+  readonly id: string;
+  private loaded: Promise<{ tokenizer: any; model: any; entailment: number }> | null = null;
+
+  constructor(
+    private model: string = process.env.LOCAL_NLI_MODEL || 'Xenova/nli-deberta-v3-xsmall',
+    private modelPath: string | undefined = process.env.LOCAL_NLI_MODEL_PATH
+  ) {
+    this.id = `nli:${model}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Load the tokenizer and model once; concurrent callers share the load
+   */
+  private load(): Promise<{ tokenizer: any; model: any; entailment: number }> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const transformers = await import('@huggingface/transformers');
+        if (this.modelPath) {
+          transformers.env.localModelPath = this.modelPath;
+          transformers.env.allowRemoteModels = false;
+        }
+        const [tokenizer, model] = await Promise.all([
+          transformers.AutoTokenizer.from_pretrained(this.model),
+          transformers.AutoModelForSequenceClassification.from_pretrained(this.model, { dtype: 'fp32' })
+        ]);
+
+        // Label order differs between NLI models
+        const labels = (model.config as ClassificationConfig).id2label || {};
+        const entailment = Object.entries(labels).find(([, label]) => /entail/i.test(label));
+        if (!entailment) {
+          throw new Error(`${this.model} has no entailment label`);
+        }
+        return { tokenizer, model, entailment: Number(entailment[0]) };
+      })();
+
+      // Let a failed load be retried on the next call
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+
+  async judge(claim: string, passages: string[]): Promise<number> {
+    if (passages.length === 0) return 0;
+
+    const { tokenizer, model, entailment } = await this.load();
+    const inputs = tokenizer(passages, {
+      text_pair: new Array(passages.length).fill(claim),
+      padding: true,
+      truncation: true
+    });
+    const { logits } = await model(inputs);
+
+    // Softmax per passage; the best-supporting passage decides
+    return Math.max(...(logits.tolist() as number[][]).map(row => {
+      const max = Math.max(...row);
+      const exps = row.map(value => Math.exp(value - max));
+      return exps[entailment] / exps.reduce((sum, value) => sum + value, 0);
+    }));
+  }
+}
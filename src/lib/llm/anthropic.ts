@@ -0,0 +1,59 @@
+import type { ChatMessage, ChatModel, ChatOptions } from './index';
+import { readEventData } from './sse';
+
+const ANTHROPIC_MESSAGES_API = 'https://api.anthropic.com/v1/messages';
+
+/**
+ * Anthropic Claude models through the streaming Messages API
+ */
+export class AnthropicChatModel implements ChatModel {
+  readonly id: string;
+
+  constructor(
+    private model: string = 'claude-3-5-sonnet-latest',
+    private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY
+  ) {
+    this.id = `anthropic:${model}`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+
+    const response = await fetch(ANTHROPIC_MESSAGES_API, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey!,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: options.maxTokens || 2048,
+        temperature: options.temperature,
+        ...(system ? { system } : {}),
+        messages: messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role, content: message.content })),
+        stream: true
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`);
+    }
+
+    for await (const data of readEventData(response)) {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'stream failed'}`);
+      }
+    }
+  }
+}
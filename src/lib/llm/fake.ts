@@ -0,0 +1,90 @@
+import type { ChatMessage, ChatModel, ChatOptions } from './index';
+
+export interface FakeChatModelOptions {
+  /**
+   * Fixed reply, or a function of the conversation; defaults to an extractive
+   * answer from the prompt's sources (as JSON when JSON is requested)
+   */
+  response?: string | ((messages: ChatMessage[]) => string);
+  /** Pause between streamed words, to exercise streaming clients */
+  delayMs?: number;
+}
+
+/**
+ * First sentence of each numbered source in the prompt, with its number
+ */
+function sourceSentences(messages: ChatMessage[]): Array<{ id: number; sentence: string }> {
+  const prompt = [...messages].reverse().find(message => message.role === 'user' && /^\[\d+\]/m.test(message.content))?.content || '';
+
+  return [...prompt.matchAll(/^\[(\d+)\][^\n]*\n([^\n]+)/gm)].map(([, id, text]) => ({
+    id: Number(id),
+    sentence: (text.match(/^[^.!?]*[.!?]?/) || [text])[0].trim()
+  }));
+}
+
+/**
+ * Deterministic answer built from the numbered sources in the prompt: the
+ * first sentence of each source, cited by its number
+ */
+function extractiveAnswer(messages: ChatMessage[]): string {
+  const sources = sourceSentences(messages);
+
+  if (sources.length === 0) {
+    return 'No sources were provided.';
+  }
+
+  return sources.map(({ id, sentence }) => `${sentence} [${id}]`).join(' ');
+}
+
+/**
+ * The extractive answer as the JSON object requested with `responseFormat: 'json'`
+ */
+function extractiveStructuredAnswer(messages: ChatMessage[]): string {
+  const sources = sourceSentences(messages);
+  const claims = sources.map(({ id, sentence }) => ({ text: sentence, citationIds: [id] }));
+
+  return JSON.stringify({
+    sections: [{
+      heading: 'Answer',
+      content: extractiveAnswer(messages),
+      citationIds: sources.map(({ id }) => id)
+    }],
+    keyPoints: claims.slice(0, 3),
+    claims,
+    confidence: {
+      score: sources.length > 0 ? 0.5 : 0,
+      rationale: 'Extractive answer from the first sentence of each source'
+    },
+    followUpQuestions: []
+  });
+}
+
+/**
+ * Chat model for tests and keyless local runs: streams a reproducible reply
+ * word by word without calling any API
+ */
+export class FakeChatModel implements ChatModel {
+  readonly id = 'fake';
+
+  constructor(private options: FakeChatModelOptions = {}) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const {
+      response = options.responseFormat === 'json' ? extractiveStructuredAnswer : extractiveAnswer,
+      delayMs = 0
+    } = this.options;
+    const reply = typeof response === 'function' ? response(messages) : response;
+
+    for (const word of reply.match(/\S+\s*/g) || []) {
+      if (options.signal?.aborted) return;
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      yield word;
+    }
+  }
+}
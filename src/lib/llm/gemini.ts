@@ -0,0 +1,47 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ChatMessage, ChatModel, ChatOptions } from './index';
+
+/**
+ * Google Gemini chat models through @google/generative-ai
+ */
+export class GeminiChatModel implements ChatModel {
+  readonly id: string;
+
+  constructor(
+    private model: string = 'gemini-1.5-flash',
+    private apiKey: string | undefined = process.env.GEMINI_API_KEY
+  ) {
+    this.id = `gemini:${model}`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const model = new GoogleGenerativeAI(this.apiKey!).getGenerativeModel({
+      model: this.model,
+      ...(system ? { systemInstruction: system } : {})
+    });
+
+    const result = await model.generateContentStream({
+      contents: messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        })),
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxTokens,
+        ...(options.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {})
+      }
+    });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { GeminiChatModel } from './gemini';
+import { AnthropicChatModel } from './anthropic';
+import { OpenAICompatibleChatModel } from './openai-compatible';
+import { FakeChatModel } from './fake';
+
+export { GeminiChatModel, AnthropicChatModel, OpenAICompatibleChatModel, FakeChatModel };
+export type { OpenAICompatibleChatOptions } from './openai-compatible';
+export type { FakeChatModelOptions } from './fake';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** `json` asks providers with a JSON mode to reply with a JSON object only */
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export interface ChatModel {
+  /** `provider:model`, reported with generated answers */
+  readonly id: string;
+  isConfigured(): boolean;
+  /** Reply text as it is generated */
+  stream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string>;
+}
+
+export type ChatProvider = 'gemini' | 'anthropic' | 'openai' | 'fake';
+
+const CHAT_PROVIDERS: ChatProvider[] = ['gemini', 'anthropic', 'openai', 'fake'];
+
+export const DEFAULT_CHAT_MODEL = 'gemini:gemini-1.5-flash';
+
+/**
+ * Provider and model of a model name: `provider:model` (e.g.
+ * `anthropic:claude-3-5-sonnet-latest`, `openai:llama3.1` for a self-hosted
+ * server), or a bare name whose provider is recognisable (`gemini-…`,
+ * `claude-…`, `gpt-…`, `fake`). Returns null for anything else.
+ */
+export function parseChatModelName(name: string): { provider: ChatProvider; model?: string } | null {
+  const separator = name.indexOf(':');
+  if (separator > 0) {
+    const provider = name.slice(0, separator) as ChatProvider;
+    const model = name.slice(separator + 1) || undefined;
+    return CHAT_PROVIDERS.includes(provider) ? { provider, model } : null;
+  }
+
+  if (name === 'fake') return { provider: 'fake' };
+  if (name.startsWith('gemini')) return { provider: 'gemini', model: name };
+  if (name.startsWith('claude')) return { provider: 'anthropic', model: name };
+  if (/^(gpt|o\d)/.test(name)) return { provider: 'openai', model: name };
+  return null;
+}
+
+/**
+ * Create a chat model from a model name (default: CHAT_MODEL, then gemini-1.5-flash)
+ *
+ * `apiKey` overrides the provider's key from the environment.
+ */
+export function createChatModel(name: string = process.env.CHAT_MODEL || DEFAULT_CHAT_MODEL, apiKey?: string): ChatModel {
+  let parsed = parseChatModelName(name);
+  if (!parsed) {
+    console.warn(`⚠️  Unknown chat model "${name}", using ${DEFAULT_CHAT_MODEL}`);
+    parsed = parseChatModelName(DEFAULT_CHAT_MODEL)!;
+  }
+
+  switch (parsed.provider) {
+    case 'anthropic':
+      return new AnthropicChatModel(parsed.model, apiKey || process.env.ANTHROPIC_API_KEY);
+    case 'openai':
+      return new OpenAICompatibleChatModel({ model: parsed.model, apiKey });
+    case 'fake':
+      return new FakeChatModel();
+    case 'gemini':
+      return new GeminiChatModel(parsed.model, apiKey || process.env.GEMINI_API_KEY);
+  }
+}
+
+const models = new Map<string, ChatModel>();
+
+/**
+ * Chat model for one request: `modelName` from the runtime context, or the
+ * configured default without one. Models using environment keys are shared;
+ * a request-supplied `apiKey` always gets its own instance.
+ */
+export function getChatModel(name?: string, apiKey?: string): ChatModel {
+  const modelName = name || process.env.CHAT_MODEL || DEFAULT_CHAT_MODEL;
+  if (apiKey) return createChatModel(modelName, apiKey);
+
+  let model = models.get(modelName);
+  if (!model) {
+    model = createChatModel(modelName);
+    models.set(modelName, model);
+  }
+  return model;
+}
@@ -0,0 +1,64 @@
+import type { ChatMessage, ChatModel, ChatOptions } from './index';
+import { readEventData } from './sse';
+
+export interface OpenAICompatibleChatOptions {
+  /** API root, e.g. https://api.openai.com/v1 or a self-hosted server such as vLLM or Ollama */
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Chat models behind any endpoint implementing the OpenAI `/chat/completions` API
+ *
+ * Defaults come from CHAT_BASE_URL and CHAT_API_KEY (or OPENAI_API_KEY).
+ */
+export class OpenAICompatibleChatModel implements ChatModel {
+  readonly id: string;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private model: string;
+
+  constructor(options: OpenAICompatibleChatOptions = {}) {
+    this.baseUrl = (options.baseUrl || process.env.CHAT_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.apiKey = options.apiKey ?? process.env.CHAT_API_KEY ?? process.env.OPENAI_API_KEY;
+    this.model = options.model || 'gpt-4o-mini';
+    this.id = `openai:${this.model}`;
+  }
+
+  /**
+   * Configured with an API key, or with a custom endpoint (self-hosted servers often need none)
+   */
+  isConfigured(): boolean {
+    return !!this.apiKey || !!process.env.CHAT_BASE_URL;
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        stream: true
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completions API error: ${response.status} ${response.statusText}`);
+    }
+
+    for await (const data of readEventData(response)) {
+      if (data === '[DONE]') break;
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
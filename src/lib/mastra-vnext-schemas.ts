@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { streamEventSchema } from './event-protocol';
 
 /**
  * vNext Workflow Schemas
@@ -17,6 +18,20 @@ export const userQueryInput = z.object({
 });
 
 // Common types
+export const rankingExplanation = z.object({
+  strategy: z.enum(['rrf', 'weighted_sum']).describe('Fusion strategy that produced the fused score'),
+  fusedScore: z.number().describe('Combined score across providers'),
+  contributions: z.array(
+    z.object({
+      provider: z.string().describe('Provider that returned the result'),
+      rank: z.number().describe('1-based rank within that provider\'s results'),
+      score: z.number().optional().describe('Score reported by the provider'),
+      weight: z.number().describe('Trust weight applied to the provider'),
+      contribution: z.number().describe('Share of the fused score from this provider'),
+    })
+  ).describe('Per-provider breakdown of the fused score'),
+});
+
 export const searchResultItem = z.object({
   id: z.string().optional().describe('Unique ID for this search result'),
   url: z.string().describe('URL of the search result'),
@@ -33,6 +48,7 @@ export const searchResultItem = z.object({
       score: z.number().describe('Relevance score for this highlight'),
     })
   ).optional().describe('Highlighted passages from the result'),
+  rankingExplanation: rankingExplanation.optional().describe('Why the result holds its place in the fused ranking'),
 });
 
 export const searchResults = z.array(searchResultItem);
@@ -64,6 +80,7 @@ export const searchProviderOutput = z.object({
 export const aggregationInput = z.object({
   exaResults: searchProviderOutput.describe('Results from Exa search provider'),
   jinaResults: searchProviderOutput.describe('Results from Jina AI search provider'),
+  additionalResults: z.array(searchProviderOutput).optional().describe('Results from any other registered search providers'),
   planningOutput: planningOutput.describe('Output from the planning step'),
 });
 
@@ -81,6 +98,18 @@ export const webScrapingOutput = z.object({
   link: z.string().describe('URL that was scraped'),
   content: z.array(z.string()).describe('Extracted content chunks from the page'),
   error: z.boolean().optional().describe('Indicates if an error occurred during scraping'),
+  title: z.string().optional().describe('Title of the page or document'),
+  format: z.enum(['html', 'markdown', 'text', 'pdf', 'docx']).optional().describe('Format the content was extracted from'),
+  pages: z.array(z.number().int().positive()).optional().describe('Page each content block was taken from, in the same order, for paged documents'),
+  skipped: z.enum(['robots', 'page_budget', 'byte_budget', 'invalid_url']).optional().describe('Why the crawl policy skipped the URL, when it did'),
+  links: z.array(
+    z.object({
+      url: z.string().describe('Absolute URL of the link'),
+      text: z.string().describe('Anchor text of the link'),
+    })
+  ).optional().describe('Links in the page content, followed by the deep crawl'),
+  depth: z.number().int().positive().optional().describe('Links followed from a search result to reach the page, for deep-crawled pages'),
+  snapshotId: z.string().optional().describe('Archived snapshot of the content as scraped'),
 });
 
 // Step 5: RAG - Embeddings & Semantic Search Schemas
@@ -90,13 +119,41 @@ export const ragInput = z.object({
   subQuestions: z.array(z.string()).optional().describe('Sub-questions for multi-query matching'),
 });
 
+// Step 4b: Deep Crawl Schemas
+export const deepCrawlInput = ragInput.extend({
+  originalQuery: z.string().optional().describe('Query as entered by the user, which decides whether it is research'),
+});
+
+export const deepCrawlOutput = ragInput;
+
+export const retrievedPassage = z.object({
+  text: z.string().describe('Passage text'),
+  url: z.string().describe('Page the passage was taken from'),
+  title: z.string().optional().describe('Title of the page'),
+  headingPath: z.array(z.string()).describe('Headings the passage sits under, outermost first'),
+  kind: z.enum(['text', 'table', 'code']).optional().describe('Kind of content in the passage'),
+  chunkIndex: z.number().optional().describe('Position of the passage within its page'),
+  page: z.number().optional().describe('Page of the document the passage was taken from, for PDFs and Word documents'),
+  snapshotId: z.string().optional().describe('Archived snapshot of the page the passage was taken from'),
+  score: z.number().optional().describe('Retrieval score'),
+  rerankScore: z.number().optional().describe('Cross-encoder relevance to the query or a sub-question (0-1), when reranked'),
+});
+
 export const ragOutput = z.object({
   relevantTexts: z.array(z.string()).describe('Most relevant text chunks for the query'),
+  passages: z.array(retrievedPassage).optional().describe('The relevant chunks with their source and heading path, in the same order'),
+});
+
+// Step 5b: Reranking Schemas
+export const rerankInput = ragOutput.extend({
+  enhancedQuery: z.string().describe('Enhanced query the passages are scored against'),
+  subQuestions: z.array(z.string()).optional().describe('Sub-questions the passages are also scored against'),
 });
 
 // Step 6: Summary Generation Schemas
 export const summaryInput = z.object({
   relevantTexts: z.array(z.string()).describe('Most relevant text chunks for generating summary'),
+  passages: z.array(retrievedPassage).optional().describe('Sources of the relevant chunks, used for citations'),
   planningOutput: planningOutput.describe('Planning output for context'),
 });
 
@@ -105,6 +162,57 @@ export const summaryOutput = z.object({
   generationComplete: z.boolean().describe('Indicates if generation is complete'),
 });
 
+// Structured (json) answer schemas
+const citationIds = z.array(z.number().int().positive()).describe('Numbers of the sources supporting the text');
+
+export const structuredAnswerDraft = z.object({
+  sections: z.array(z.object({
+    heading: z.string().describe('Section heading'),
+    content: z.string().describe('Section text in Markdown, citing sources inline as [n]'),
+    citationIds,
+  })).min(1).describe('The answer, split into sections'),
+  keyPoints: z.array(z.object({
+    text: z.string().describe('One-sentence takeaway'),
+    citationIds,
+  })).describe('Most important takeaways'),
+  claims: z.array(z.object({
+    text: z.string().describe('A single factual statement made in the answer'),
+    citationIds,
+  })).describe('Factual statements of the answer with the sources supporting each'),
+  confidence: z.object({
+    score: z.number().min(0).max(1).describe('How well the sources answer the question (0-1)'),
+    rationale: z.string().optional().describe('Why the sources do or do not settle the question'),
+  }),
+  followUpQuestions: z.array(z.string()).describe('Questions the user may want to ask next'),
+});
+
+export const structuredAnswer = structuredAnswerDraft.extend({
+  query: z.string().describe('Question that was answered'),
+  claims: z.array(z.object({
+    text: z.string(),
+    citationIds,
+    grounding: z.enum(['supported', 'partial', 'unsupported', 'invalid_citation']).optional().describe('Result of checking the claim against its cited sources'),
+  })),
+  confidence: z.object({
+    score: z.number().min(0).max(1),
+    level: z.enum(['low', 'medium', 'high']),
+    rationale: z.string().optional(),
+  }),
+  sources: z.array(z.object({
+    id: z.number().describe('Number the answer cites the source by'),
+    url: z.string(),
+    title: z.string().optional(),
+    headingPath: z.array(z.string()).describe('Section of the page the passage was taken from'),
+    page: z.number().optional().describe('Page of the document the passage was taken from'),
+    snapshotId: z.string().optional().describe('Archived snapshot of the page as it was read'),
+    kind: z.enum(['text', 'table', 'code']).optional(),
+    retrievalScore: z.number().optional(),
+    rerankScore: z.number().optional(),
+  })).describe('Passages the answer was written from'),
+  model: z.string().describe('Chat model that wrote the answer'),
+  generatedAt: z.string().describe('ISO timestamp of generation'),
+});
+
 // Workflow Output Schema
 export const workflowOutput = z.object({
   summary: z.any().describe('Generated summary as a ReadableStream'),
@@ -112,15 +220,24 @@ export const workflowOutput = z.object({
   metadata: z.record(z.string(), z.any()).optional().describe('Additional metadata about the search'),
 });
 
-// Event Schema for Streaming Updates
-export const streamChunkOutput = z.object({
-  step: z.number().describe('Step number in the workflow'),
-  type: z.string().describe('Type of update (e.g., planning_enhancing, searching, error)'),
-  payload: z.any().optional().describe('Additional data related to the update'),
-  error: z.boolean().optional().describe('Indicates if this is an error update'),
-  errorType: z.string().optional().describe('Type of error if applicable'),
+// Semantic Cache Schemas
+export const semanticCacheOutput = planningOutput.extend({
+  cachedAnswer: workflowOutput.optional().describe('Answer reused from an earlier search with a matching query'),
 });
 
+// Research Schemas (searching and reading for queries the cache cannot answer)
+export const researchInput = semanticCacheOutput.extend({
+  originalQuery: z.string().optional().describe('Query as entered by the user'),
+});
+
+export const researchOutput = ragOutput.extend({
+  searchPath: z.enum(['complex', 'standard']).describe('Whether DeepSearch or the search providers found the sources'),
+  sources: searchResults.describe('Search results the passages were read from'),
+});
+
+// Event Schema for Streaming Updates, one payload schema per event type
+export const streamChunkOutput = streamEventSchema;
+
 // Deep Search branches
 export const deepSearchInput = z.object({
   query: z.string().describe('Enhanced query for deep search'),
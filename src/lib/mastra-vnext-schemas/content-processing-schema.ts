@@ -13,7 +13,8 @@ export const contentProcessingInputSchema = z.object({
   // Processing options
   options: z.object({
     // Processing mode determines the default code used for processing
-    mode: z.enum(['clean', 'extract-entities', 'summarize', 'analyze', 'custom']).default('clean'),
+    // 'chunk' splits content into heading-aware chunks locally, without a sandbox
+    mode: z.enum(['clean', 'extract-entities', 'summarize', 'analyze', 'chunk', 'custom']).default('clean'),
     
     // Optional custom code to execute instead of predefined processing modes
     customCode: z.string().optional(),
@@ -58,6 +59,16 @@ export const contentQualitySchema = z.object({
   relevanceScore: z.number().optional(),
 });
 
+/**
+ * Schema for chunk metadata from 'chunk' mode
+ */
+export const chunkMetadataSchema = z.object({
+  headingPath: z.array(z.string()),
+  kind: z.enum(['text', 'table', 'code']),
+  chunkIndex: z.number(),
+  tokenCount: z.number(),
+});
+
 /**
  * Schema for content processing output
  */
@@ -79,6 +90,9 @@ export const contentProcessingOutputSchema = z.object({
     
     // Content quality metrics
     quality: contentQualitySchema.optional(),
+
+    // Chunk metadata, in the same order as the chunks (chunk mode)
+    chunks: z.array(chunkMetadataSchema).optional(),
   }).optional(),
   
   // Execution statistics
@@ -119,7 +133,8 @@ const contentProcessingSchemas = {
   codeExecutionOutputSchema,
   entitySchema,
   contentStructureSchema,
-  contentQualitySchema
+  contentQualitySchema,
+  chunkMetadataSchema
 };
 
 export default contentProcessingSchemas;
\ No newline at end of file
@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { streamEventSchema } from '../event-protocol';
 
 // User query input schema
 export const userQueryInput = z.object({
@@ -92,16 +93,8 @@ export const workflowOutput = z.object({
   }),
 });
 
-// Stream chunk schema
-export const streamChunkSchema = z.object({
-  type: z.string().optional(),
-  step: z.number().optional(),
-  status: z.string().optional(),
-  data: z.any().optional(),
-  error: z.boolean().optional(),
-  errorMessage: z.string().optional(),
-  errorType: z.string().optional(),
-});
+// Stream chunk schema, one payload schema per event type (see lib/event-protocol)
+export const streamChunkSchema = streamEventSchema;
 
 // Stream chunk output schema
 export const streamChunkOutput = streamChunkSchema;
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import { getRuntimeContextValues } from '../mastra-vnext-utils/runtime-context';
 import axios from 'axios';
 import {
   aggregationInput,
@@ -7,21 +9,26 @@ import {
   searchProviderOutput,
   planningOutput as planningOutputSchema
 } from '../mastra-vnext-schemas';
+import { RankFusion, resolveRankingConfig } from '../aggregation/ranking';
+import { findNearDuplicateClusters, resolveNearDuplicateConfig } from '../aggregation/near-duplicates';
 
 /**
  * Aggregates and deduplicates search results from multiple providers,
  * with advanced capabilities for semantic deduplication, result merging,
- * and relevance-based reranking.
+ * and relevance-based reranking. The final order fuses every provider's
+ * ranking (plus the reranker's, when available) and each result carries a
+ * rankingExplanation of how it got there.
  */
 export const aggregateAndDeduplicateSearchResultsStep = createStep({
   id: 'aggregate-deduplicate',
   description: 'Aggregates and deduplicates search results from multiple providers',
   inputSchema: aggregationInput,
   outputSchema: aggregationOutput,
-  async execute({ inputData, runtimeContext, emitter }) {
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
     try {
-      const { exaResults, jinaResults, planningOutput } = inputData;
-      const { JINA_API_KEY, searchId } = runtimeContext.getAll();
+      const { exaResults, jinaResults, additionalResults = [], planningOutput } = inputData;
+      const { JINA_API_KEY, searchId, rankingConfig, dedupConfig } = getRuntimeContextValues(runtimeContext);
+      const fusion = new RankFusion(resolveRankingConfig(rankingConfig));
 
       console.log(`[Step: aggregate-deduplicate] Started for searchId: ${searchId}`);
       
@@ -58,6 +65,13 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
         allResults.push(...taggedJinaResults);
       }
 
+      for (const providerOutput of additionalResults) {
+        allResults.push(...providerOutput.results.map(result => ({
+          ...result,
+          provider: result.provider || providerOutput.searchProvider
+        })));
+      }
+
       // Early exit if no results
       if (allResults.length === 0) {
         console.log(`[Step: aggregate-deduplicate] No results to aggregate`);
@@ -113,6 +127,23 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
         }
       };
 
+      // Record each provider's own ranking before results are merged
+      const providerLists: Record<string, any[]> = {
+        exa: exaResults?.results || [],
+        jina: jinaResults?.results || []
+      };
+      for (const providerOutput of additionalResults) {
+        providerLists[providerOutput.searchProvider.toLowerCase()] = providerOutput.results;
+      }
+      for (const [provider, results] of Object.entries(providerLists)) {
+        fusion.addRankedList(
+          provider,
+          results.filter(result => result.url && result.url.trim() !== ''),
+          result => normalizeUrl(result.url),
+          result => result.score
+        );
+      }
+
       // First pass: collect unique URLs and merge duplicates using normalized URLs
       const urlToResultMap = new Map();
       const originalCount = allResults.length;
@@ -256,8 +287,11 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
         });
 
         try {
-          // Create clusters of similar content
-          const contentClusters = detectContentDuplicates(dedupedResults);
+          // Cluster results whose snippets are near-duplicates (MinHash/LSH over character shingles)
+          const contentClusters = findNearDuplicateClusters(
+            dedupedResults.map(r => r.snippet || r.title || ''),
+            resolveNearDuplicateConfig(dedupConfig)
+          );
 
           // Merge results within each cluster
           const mergedResults: any[] = [];
@@ -316,88 +350,6 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
         }
       }
 
-      // Function to detect content duplicates
-      function detectContentDuplicates(results: any[]): number[][] {
-        // Function to compute Jaccard similarity between two documents
-        function jaccardSimilarity(a: string, b: string): number {
-          // Extract trigrams (3-character sequences) from strings
-          const extractTrigrams = (text: string): Set<string> => {
-            const normalized = text.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
-            const trigrams = new Set<string>();
-            for (let i = 0; i < normalized.length - 2; i++) {
-              trigrams.add(normalized.substring(i, i + 3));
-            }
-            return trigrams;
-          };
-
-          const trigramsA = extractTrigrams(a);
-          const trigramsB = extractTrigrams(b);
-
-          // Early exit for performance
-          if (trigramsA.size === 0 || trigramsB.size === 0) {
-            return 0;
-          }
-
-          // Find intersection size
-          let intersection = 0;
-          for (const trigram of trigramsA) {
-            if (trigramsB.has(trigram)) {
-              intersection++;
-            }
-          }
-
-          // Calculate Jaccard similarity
-          const union = trigramsA.size + trigramsB.size - intersection;
-          return union > 0 ? intersection / union : 0;
-        }
-
-        // Build content for comparison - prioritize snippet over title
-        const contents = results.map(r => r.snippet || r.title || '');
-
-        // Build similarity matrix
-        const similarityMatrix: number[][] = [];
-        for (let i = 0; i < contents.length; i++) {
-          similarityMatrix[i] = [];
-          for (let j = 0; j < contents.length; j++) {
-            if (i === j) {
-              similarityMatrix[i][j] = 1.0;  // Self-similarity is 1
-            } else if (j < i) {
-              similarityMatrix[i][j] = similarityMatrix[j][i];  // Matrix is symmetric
-            } else {
-              // Only compute for non-empty content
-              if (contents[i].length > 20 && contents[j].length > 20) {
-                similarityMatrix[i][j] = jaccardSimilarity(contents[i], contents[j]);
-              } else {
-                similarityMatrix[i][j] = 0;
-              }
-            }
-          }
-        }
-
-        // Cluster using a similarity threshold
-        const SIMILARITY_THRESHOLD = 0.65;
-        const clusters: number[][] = [];
-        const visited = new Set<number>();
-
-        for (let i = 0; i < contents.length; i++) {
-          if (visited.has(i)) continue;
-
-          const cluster: number[] = [i];
-          visited.add(i);
-
-          for (let j = 0; j < contents.length; j++) {
-            if (i !== j && !visited.has(j) && similarityMatrix[i][j] >= SIMILARITY_THRESHOLD) {
-              cluster.push(j);
-              visited.add(j);
-            }
-          }
-
-          clusters.push(cluster);
-        }
-
-        return clusters;
-      }
-
       // If we have Jina API key, try to rerank results for better relevance
       if (JINA_API_KEY && dedupedResults.length > 0 && planningOutput.enhancedQuery) {
         await emitter.emit('watch', {
@@ -467,70 +419,38 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
           const rerankerData = await rerank();
 
           if (rerankerData && rerankerData.results) {
-            // Update scores and create index mapping of reranked results
-            const rerankedScores = new Map<number, number>();
-
-            rerankerData.results.forEach((rerankedResult: any) => {
-              const originalIndex = rerankedResult.index;
-              if (originalIndex >= 0 && originalIndex < dedupedResults.length) {
-                rerankedScores.set(originalIndex, rerankedResult.score);
-              }
-            });
-
-            // Apply new scores
-            dedupedResults.forEach((result, index) => {
-              if (rerankedScores.has(index)) {
-                result.score = rerankedScores.get(index);
-              }
-            });
-
-            // Sort by score (descending)
-            dedupedResults.sort((a, b) => {
-              if (!a.score) return 1;
-              if (!b.score) return -1;
-              return b.score - a.score;
-            });
+            // The reranker's ordering becomes one more ranked list in the fusion
+            const rerankedEntries = rerankerData.results
+              .filter((rerankedResult: any) => rerankedResult.index >= 0 && rerankedResult.index < dedupedResults.length)
+              .map((rerankedResult: any) => ({
+                result: dedupedResults[rerankedResult.index],
+                score: rerankedResult.relevance_score ?? rerankedResult.score
+              }))
+              .sort((a: any, b: any) => (b.score || 0) - (a.score || 0));
+
+            fusion.addRankedList(
+              'reranker',
+              rerankedEntries,
+              (entry: any) => normalizeUrl(entry.result.url),
+              (entry: any) => entry.score
+            );
 
             console.log(`[Step: aggregate-deduplicate] Successfully reranked results`);
           }
         } catch (error) {
+          // Fusion still orders results from the provider rankings alone
           console.error(`[Step: aggregate-deduplicate] Error during Jina reranking:`, error);
-
-          // Fall back to basic relevance sorting if reranking fails
-          dedupedResults.sort((a, b) => {
-            // First sort by score if available
-            if (a.score !== undefined && b.score !== undefined) {
-              return b.score - a.score;
-            }
-
-            // Then by presence of snippet and title
-            const aHasContent = !!a.snippet && !!a.title;
-            const bHasContent = !!b.snippet && !!b.title;
-
-            if (aHasContent && !bHasContent) return -1;
-            if (!aHasContent && bHasContent) return 1;
-
-            // Finally by recency if available
-            if (a.publishedDate && b.publishedDate) {
-              try {
-                return new Date(b.publishedDate).getTime() - new Date(a.publishedDate).getTime();
-              } catch (e) {
-                // If date parsing fails, don't sort by date
-              }
-            }
-
-            return 0;
-          });
         }
-      } else {
-        // Default sorting if no Jina API key or no results
-        dedupedResults.sort((a, b) => {
-          if (!a.score) return 1;
-          if (!b.score) return -1;
-          return b.score - a.score;
-        });
       }
 
+      // Fuse provider rankings into the final order; merged results count every URL they absorbed
+      dedupedResults.forEach(result => {
+        const keys = [result.url, ...(result.associatedUrls || []), ...(result.clusters || [])].map(normalizeUrl);
+        result.rankingExplanation = fusion.explain(keys);
+        result.score = result.rankingExplanation.fusedScore;
+      });
+      dedupedResults.sort((a, b) => b.rankingExplanation.fusedScore - a.rankingExplanation.fusedScore);
+
       // Calculate stats
       const sourceStats = {
         totalProviders: 0,
@@ -539,9 +459,14 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
         deduplicatedCount: originalCount - dedupedResults.length
       };
 
+      const additionalCounts = Object.fromEntries(
+        additionalResults.map(output => [output.searchProvider, output.results.length])
+      );
+
       sourceStats.totalProviders =
         (sourceStats.exa > 0 ? 1 : 0) +
-        (sourceStats.jina > 0 ? 1 : 0);
+        (sourceStats.jina > 0 ? 1 : 0) +
+        Object.values(additionalCounts).filter(count => count > 0).length;
 
       console.log(`[Step: aggregate-deduplicate] Aggregated ${dedupedResults.length} unique results from ${sourceStats.totalProviders} sources (removed ${sourceStats.deduplicatedCount} duplicates)`);
 
@@ -555,9 +480,11 @@ export const aggregateAndDeduplicateSearchResultsStep = createStep({
             payload: {
               totalResults: dedupedResults.length,
               deduplicatedCount: sourceStats.deduplicatedCount,
+              rankingStrategy: dedupedResults[0]?.rankingExplanation?.strategy,
               providers: {
                 exa: sourceStats.exa,
-                jina: sourceStats.jina
+                jina: sourceStats.jina,
+                ...additionalCounts
               }
             }
           }
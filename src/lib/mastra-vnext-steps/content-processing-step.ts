@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { createStep } from '../mastra-vnext-utils/step';
 import { EventStreamWriter } from '../mastra-vnext-utils/stream-events';
 import { CodeInterpreter } from '../utils/e2b-adapter.mjs';
+import { chunkDocument, resolveChunkingConfig } from '../retrieval';
 
 /**
  * Content processing input schema
@@ -16,7 +17,8 @@ const contentProcessingInputSchema = z.object({
   // Processing options
   options: z.object({
     // Processing mode determines the default code used for processing
-    mode: z.enum(['clean', 'extract-entities', 'summarize', 'analyze', 'custom']).default('clean'),
+    // 'chunk' splits content into heading-aware chunks locally, without a sandbox
+    mode: z.enum(['clean', 'extract-entities', 'summarize', 'analyze', 'chunk', 'custom']).default('clean'),
     
     // Optional custom code to execute instead of predefined processing modes
     customCode: z.string().optional(),
@@ -67,6 +69,14 @@ const contentProcessingOutputSchema = z.object({
       informationDensity: z.number().optional(),
       relevanceScore: z.number().optional(),
     }).optional(),
+
+    // Chunk metadata, in the same order as the chunks (chunk mode)
+    chunks: z.array(z.object({
+      headingPath: z.array(z.string()),
+      kind: z.enum(['text', 'table', 'code']),
+      chunkIndex: z.number(),
+      tokenCount: z.number(),
+    })).optional(),
   }).optional(),
   
   // Execution statistics
@@ -262,7 +272,8 @@ const processingCodeTemplates: Record<string, string> = {
  * Content Processing Step
  * 
  * Processes content using E2B Code Interpreter for text cleaning, entity extraction,
- * summarization, analysis, or custom processing logic
+ * summarization, analysis, or custom processing logic. The 'chunk' mode splits
+ * content with the RAG chunker instead and does not need a sandbox.
  */
 export const contentProcessingStep = createStep({
   id: 'content-processing-step',
@@ -279,6 +290,33 @@ export const contentProcessingStep = createStep({
       const { content, options = {}, sourceInfo } = inputData;
       const { mode = 'clean', customCode, params = {} } = options;
       
+      // Chunking is done in-process with the same chunker as the RAG step
+      if (mode === 'chunk') {
+        const startTime = Date.now();
+        const chunks = chunkDocument(content, resolveChunkingConfig(params));
+        const headings = [...new Set(chunks.map(chunk => chunk.metadata.headingPath.join(' > ')).filter(Boolean))];
+        const executionTime = Date.now() - startTime;
+
+        await events.emitCompleted({
+          message: `Content split into ${chunks.length} chunks`,
+          executionTime,
+          chunkCount: chunks.length,
+          sourceInfo,
+        });
+
+        return {
+          processedContent: chunks.map(chunk => chunk.text),
+          metadata: {
+            chunks: chunks.map(chunk => chunk.metadata),
+            structure: { headings },
+          },
+          stats: {
+            executionTime,
+            processingMode: mode,
+          }
+        };
+      }
+      
       // Get API key from runtime context
       const apiKey = runtimeContext.get('E2B_API_KEY');
       
@@ -0,0 +1,320 @@
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import {
+  deepCrawlInput,
+  deepCrawlOutput
+} from '../mastra-vnext-schemas';
+import { EventStreamWriter, EventType, getRuntimeContextValues } from '../mastra-vnext-utils';
+import {
+  CrawlPolicyConfig,
+  DeepCrawlConfig,
+  PageLink,
+  ScrapingConfig,
+  crawlPolicy,
+  fetchPage,
+  isSameSite,
+  normalizeCrawlUrl,
+  parseSitemap,
+  resolveCrawlPolicyConfig,
+  resolveDeepCrawlConfig,
+  resolveScrapingConfig,
+  scoreLink,
+  scrapeLocally,
+  shouldDeepCrawl
+} from '../scraping';
+import { archiveSnapshot, localScrapedPage, scrapedPageOutput } from './scrape-webpage-step';
+
+// Sitemap entries scored per site; the rest of a large sitemap is ignored
+const MAX_SITEMAP_URLS = 2000;
+
+/**
+ * A link waiting to be crawled
+ */
+interface CrawlCandidate extends PageLink {
+  depth: number;
+  relevance: number;
+  /** Page (or sitemap) the link was found on */
+  foundOn: string;
+  /** Search result the crawl started from */
+  result: string;
+  source: 'link' | 'sitemap';
+}
+
+type StepEvents = ReturnType<typeof EventStreamWriter.createStepEventHelpers>;
+
+/**
+ * Deep Crawl Step
+ *
+ * For research queries, follows links from the scraped search results to
+ * pages they point to: in-content links of the results and, optionally, the
+ * entries of their sites' sitemaps. Links are scored against the enhanced
+ * query and sub-questions by the share of terms they mention, and only those
+ * reaching `minRelevance` are crawled, best first, until `maxPages` extra
+ * pages were read. Crawled pages' own links are followed up to `maxDepth`
+ * links away from the result, on the result's site unless `sameSite` is off.
+ *
+ * Pages are fetched directly under the crawl policy, so robots.txt, host
+ * politeness and the search's budget apply. Each link's progress is emitted
+ * as `link_scraped` events with its depth and relevance. Crawled pages are
+ * archived as snapshots and appended to the scraped contents for the RAG step.
+ *
+ * `deepCrawlConfig` in the runtime context overrides the configuration; the
+ * mode decides whether the crawl runs (DEEP_CRAWL, research queries only by
+ * default).
+ */
+export const deepCrawlStep = createStep({
+  id: 'deep-crawl',
+  description: 'Follows relevant links and sitemap entries from the top results of research queries',
+  inputSchema: deepCrawlInput,
+  outputSchema: deepCrawlOutput,
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
+    const events = EventStreamWriter.createStepEventHelpers(emitter, 'deep-crawl');
+    const { searchId, scrapingConfig, crawlPolicyConfig, deepCrawlConfig } = getRuntimeContextValues(runtimeContext);
+    const { scrapedContents, enhancedQuery, subQuestions, originalQuery } = inputData;
+    const unchanged = { scrapedContents, enhancedQuery, subQuestions };
+
+    const config = resolveDeepCrawlConfig(deepCrawlConfig);
+    if (!shouldDeepCrawl(config, originalQuery || enhancedQuery)) {
+      await events.emitCompleted({
+        skipped: true,
+        message: config.mode === 'off' ? 'Deep crawling is off' : 'Not a research query'
+      });
+      return unchanged;
+    }
+
+    const seeds = scrapedContents.filter(doc => !doc.error && normalizeCrawlUrl(doc.link));
+    if (seeds.length === 0) {
+      await events.emitCompleted({ skipped: true, message: 'No scraped results to crawl from' });
+      return unchanged;
+    }
+
+    await events.emitRunning({
+      message: `Following relevant links from ${seeds.length} results`,
+      maxDepth: config.maxDepth,
+      maxPages: config.maxPages
+    });
+
+    try {
+      const crawler = new LinkCrawler(
+        [enhancedQuery, ...(subQuestions || [])],
+        config,
+        resolveScrapingConfig(scrapingConfig),
+        resolveCrawlPolicyConfig(crawlPolicyConfig),
+        searchId,
+        events
+      );
+
+      for (const doc of scrapedContents) {
+        crawler.markVisited(doc.link);
+      }
+      for (const seed of seeds) {
+        crawler.enqueue(seed.links || [], { depth: 1, foundOn: seed.link, result: seed.link, source: 'link' });
+      }
+      if (config.useSitemaps) {
+        await crawler.enqueueSitemaps(seeds.map(seed => seed.link));
+      }
+
+      const crawled = await crawler.run();
+
+      await events.emitCompleted({
+        message: `Crawled ${crawled.length} more pages`,
+        pagesCrawled: crawled.length,
+        linksConsidered: crawler.linksConsidered,
+        linksQueued: crawler.linksQueued
+      });
+
+      return {
+        scrapedContents: [...scrapedContents, ...crawled],
+        enhancedQuery,
+        subQuestions
+      };
+    } catch (error) {
+      console.error(`[Step: deep-crawl] Error crawling links:`, error);
+      await events.emitCustom(EventType.WARNING, {
+        message: 'Deep crawl failed, answering from the search results only',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return unchanged;
+    }
+  }
+});
+
+/**
+ * Best-first crawl over the links of the search results
+ */
+class LinkCrawler {
+  linksConsidered = 0;
+  linksQueued = 0;
+  private visited = new Set<string>();
+  private frontier: CrawlCandidate[] = [];
+
+  constructor(
+    private queries: string[],
+    private config: DeepCrawlConfig,
+    private scraping: ScrapingConfig,
+    private policy: CrawlPolicyConfig,
+    private searchId: string | undefined,
+    private events: StepEvents
+  ) {}
+
+  markVisited(url: string): void {
+    const normalized = normalizeCrawlUrl(url);
+    if (normalized) this.visited.add(normalized);
+  }
+
+  /**
+   * Queue the links relevant enough to crawl
+   */
+  enqueue(links: PageLink[], origin: Pick<CrawlCandidate, 'depth' | 'foundOn' | 'result' | 'source'>): void {
+    if (origin.depth > this.config.maxDepth) return;
+
+    for (const link of links) {
+      this.linksConsidered++;
+      if (this.visited.has(link.url)) continue;
+      if (this.config.sameSite && !isSameSite(link.url, origin.result)) continue;
+
+      const relevance = scoreLink(link, this.queries);
+      if (relevance < this.config.minRelevance) continue;
+
+      // Mark queued links visited so another page linking them doesn't queue them twice
+      this.visited.add(link.url);
+      this.frontier.push({ ...link, ...origin, relevance });
+      this.linksQueued++;
+    }
+  }
+
+  /**
+   * Queue relevant entries of the sitemaps of the results' sites
+   *
+   * A sitemap index is followed to its most relevant child sitemap.
+   */
+  async enqueueSitemaps(results: string[]): Promise<void> {
+    const sites = new Map<string, string>();
+    for (const result of results) {
+      const origin = new URL(result).origin;
+      if (!sites.has(origin)) sites.set(origin, result);
+    }
+
+    await Promise.all([...sites.values()].map(async result => {
+      try {
+        const [sitemapUrl] = await crawlPolicy.sitemaps(result, this.policy, this.scraping);
+        let sitemap = await this.fetchSitemap(sitemapUrl);
+
+        if (sitemap && sitemap.sitemaps.length > 0) {
+          const [child] = sitemap.sitemaps
+            .map(url => ({ url, relevance: scoreLink({ url, text: '' }, this.queries) }))
+            .sort((a, b) => b.relevance - a.relevance);
+          sitemap = await this.fetchSitemap(child.url);
+        }
+
+        if (sitemap) {
+          const entries = sitemap.urls
+            .slice(0, MAX_SITEMAP_URLS)
+            .map(url => normalizeCrawlUrl(url))
+            .filter((url): url is string => !!url)
+            .map(url => ({ url, text: '' }));
+          this.enqueue(entries, { depth: 1, foundOn: sitemapUrl, result, source: 'sitemap' });
+        }
+      } catch (error) {
+        console.warn(`[Step: deep-crawl] Could not read the sitemap for ${result}:`, error instanceof Error ? error.message : error);
+      }
+    }));
+  }
+
+  /**
+   * Crawl the most relevant queued links, a few at a time, until the page
+   * limit is reached or no relevant links are left
+   */
+  async run() {
+    const crawled: Array<ReturnType<typeof scrapedPageOutput> & { depth: number; snapshotId: string }> = [];
+
+    while (crawled.length < this.config.maxPages && this.frontier.length > 0) {
+      this.frontier.sort((a, b) => b.relevance - a.relevance || a.depth - b.depth);
+      const batch = this.frontier.splice(0, Math.min(this.config.concurrency, this.config.maxPages - crawled.length));
+
+      const pages = await Promise.all(batch.map(candidate => this.crawl(candidate)));
+
+      for (const [index, page] of pages.entries()) {
+        if (!page) continue;
+        const candidate = batch[index];
+        crawled.push(page);
+        this.enqueue(page.links || [], { depth: candidate.depth + 1, foundOn: page.link, result: candidate.result, source: 'link' });
+      }
+
+      await this.events.emitProgress(
+        Math.round(100 * crawled.length / this.config.maxPages),
+        `Crawled ${crawled.length} of up to ${this.config.maxPages} linked pages`
+      );
+    }
+
+    return crawled;
+  }
+
+  /**
+   * Fetch a sitemap under the crawl policy
+   */
+  private async fetchSitemap(url: string): Promise<ReturnType<typeof parseSitemap> | null> {
+    const decision = await crawlPolicy.admit(url, { searchId: this.searchId, config: this.policy, scraping: this.scraping });
+    if (!decision.allowed) return null;
+
+    let bytes = 0;
+    try {
+      const page = await fetchPage(url, { ...this.scraping, maxBytes: Math.min(this.scraping.maxBytes, decision.remainingBytes) });
+      bytes = page.body.length;
+      return parseSitemap(page.body.toString('utf8'));
+    } finally {
+      decision.release(bytes);
+    }
+  }
+
+  /**
+   * Scrape a linked page directly, reporting its progress
+   */
+  private async crawl(candidate: CrawlCandidate) {
+    const { url, depth, relevance, foundOn, source } = candidate;
+    const details = { url, depth, relevance: Number(relevance.toFixed(2)), foundOn, source };
+
+    await this.events.emitCustom(EventType.LINK_SCRAPED, { ...details, status: 'started' });
+
+    const decision = await crawlPolicy.admit(url, { searchId: this.searchId, config: this.policy, scraping: this.scraping });
+    if (!decision.allowed) {
+      await this.events.emitCustom(EventType.STEP_SKIPPED, { url, reason: decision.reason, message: decision.message });
+      await this.events.emitCustom(EventType.LINK_SCRAPED, { ...details, status: 'skipped', reason: decision.reason });
+      return null;
+    }
+
+    let bytes = 0;
+    try {
+      const result = await scrapeLocally(url, { ...this.scraping, maxBytes: Math.min(this.scraping.maxBytes, decision.remainingBytes) });
+      bytes = result.bytes;
+      this.markVisited(result.url);
+
+      // Linked pages aren't sent to Scrapybara, so pages needing JavaScript are left out
+      if (result.format === 'html' && (result.needsJavaScript || result.textLength < this.scraping.minTextLength)) {
+        throw new Error(result.needsJavaScript ? 'Page needs JavaScript' : `Only ${result.textLength} characters extracted`);
+      }
+
+      const page = { ...await archiveSnapshot(scrapedPageOutput(url, localScrapedPage(result)), 'local'), depth };
+      await this.events.emitCustom(EventType.LINK_SCRAPED, {
+        ...details,
+        status: 'completed',
+        snapshotId: page.snapshotId,
+        contentCount: page.content.length,
+        preview: page.content[0]?.substring(0, 100) + '...'
+      });
+      return page;
+    } catch (error) {
+      console.warn(`[Step: deep-crawl] Could not crawl ${url}:`, error instanceof Error ? error.message : error);
+      await this.events.emitCustom(EventType.LINK_SCRAPED, {
+        ...details,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    } finally {
+      decision.release(bytes);
+    }
+  }
+}
+
+export default deepCrawlStep;
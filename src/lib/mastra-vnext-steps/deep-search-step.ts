@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { createStep } from '../mastra-vnext-utils/step';
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
 import { EventStreamWriter } from '../mastra-vnext-utils/stream-events';
 import { extractThinkSections, extractCitations } from '../utils/content-processing';
 import { searchWithJinaDeepSearch, searchWithJina } from '../search-providers/jina';
@@ -46,12 +47,11 @@ const deepSearchOutputSchema = z.object({
  */
 export const deepSearchStep = createStep({
   id: 'deep-search',
-  name: 'Deep Search',
   description: 'Perform deep semantic search with reasoning for complex queries',
   inputSchema: deepSearchInputSchema,
   outputSchema: deepSearchOutputSchema,
   
-  async execute({ inputData, runtimeContext, emitter }) {
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
     // Create event helpers for standardized event emission
     const events = EventStreamWriter.createStepEventHelpers(emitter, 'deep-search');
     
@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import { getRuntimeContextValues } from '../mastra-vnext-utils/runtime-context';
+import { searchProviderInput, searchProviderOutput, searchResultItem } from '../mastra-vnext-schemas';
+import { cachedEngineSearch, searchProviderRegistry, SearchResult } from '../search-providers';
+import { RateLimitExceededError } from '../rate-limiter';
+
+type SearchResultItem = z.infer<typeof searchResultItem>;
+
+interface EngineSearchStepConfig {
+  /** Step ID used in workflow graphs and step events */
+  id: string;
+  /** Name of the engine in the shared search provider registry */
+  engine: string;
+  /** Provider label attached to results and event payloads */
+  providerName: string;
+  description: string;
+  /** Skip quietly instead of failing when the engine is not configured */
+  optional?: boolean;
+}
+
+/**
+ * Map a registry search result onto the workflow's search result item
+ */
+function toSearchResultItem(result: SearchResult, provider: string, scoreWeight: number = 1): SearchResultItem {
+  const snippetFromHighlights = result.highlights && result.highlights.length > 0
+    ? result.highlights.join(' ... ')
+    : undefined;
+
+  return {
+    id: result.id,
+    url: result.url,
+    title: result.title || 'Untitled',
+    snippet: snippetFromHighlights || result.content.substring(0, 300),
+    rawContent: result.content || undefined,
+    score: result.relevanceScore * scoreWeight,
+    provider,
+    author: result.author,
+    publishedDate: result.publishedDate,
+    highlights: result.highlights?.map(text => ({ text, score: scoreWeight }))
+  };
+}
+
+/**
+ * Create a search provider step backed by an engine from the shared
+ * search provider registry
+ *
+ * The step searches the enhanced query plus up to two sub-questions, merges
+ * the sub-question results by URL and sorts everything by score. Repeated
+ * queries are served from the shared search cache.
+ */
+export function createEngineSearchStep({ id, engine, providerName, description, optional = false }: EngineSearchStepConfig) {
+  return createStep({
+    id,
+    description,
+    inputSchema: searchProviderInput,
+    outputSchema: searchProviderOutput,
+    async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
+      const { enhancedQuery, subQuestions = [], numResults } = inputData;
+      const { searchId } = getRuntimeContextValues(runtimeContext);
+
+      console.log(`[Step: ${id}] Started for searchId: ${searchId}, query: ${enhancedQuery}`);
+
+      // Emit status update event
+      await emitter.emit('watch', {
+        type: 'watch',
+        payload: {
+          currentStep: {
+            id,
+            status: 'running',
+            payload: { provider: providerName, query: enhancedQuery }
+          }
+        },
+        eventTimestamp: new Date()
+      });
+
+      const registeredEngine = searchProviderRegistry.get(engine);
+      if (optional && (!registeredEngine || !registeredEngine.isConfigured())) {
+        console.log(`[Step: ${id}] Search engine ${engine} is not configured, skipping`);
+
+        await emitter.emit('watch', {
+          type: 'watch',
+          payload: {
+            currentStep: {
+              id,
+              status: 'completed',
+              payload: { provider: providerName, count: 0, results: [], skipped: true }
+            }
+          },
+          eventTimestamp: new Date()
+        });
+
+        return { searchProvider: providerName, results: [] };
+      }
+
+      if (!registeredEngine || !registeredEngine.isConfigured()) {
+        console.error(`[Step: ${id}] Search engine ${engine} is not registered or not configured`);
+
+        // Emit error event
+        await emitter.emit('watch', {
+          type: 'watch',
+          payload: {
+            currentStep: {
+              id,
+              status: 'failed',
+              payload: { provider: providerName, message: `Search engine ${engine} is not configured` }
+            }
+          },
+          eventTimestamp: new Date()
+        });
+
+        return { searchProvider: providerName, results: [] };
+      }
+
+      let searchResults: SearchResultItem[] = [];
+
+      try {
+        // Execute main query search
+        const mainResults = await cachedEngineSearch(engine, enhancedQuery, {
+          limit: numResults || 5
+        });
+        searchResults = mainResults.map(result => toSearchResultItem(result, providerName));
+
+        console.log(`[Step: ${id}] Found ${searchResults.length} results from main query`);
+
+        // Process subquestions if provided (limit to 2 to control API usage)
+        if (subQuestions.length > 0) {
+          const subQuestionResults = await Promise.allSettled(
+            subQuestions.slice(0, 2).map(async (question, index) => {
+              console.log(`[Step: ${id}] Executing subquery ${index + 1}: "${question}"`);
+
+              const subResults = await cachedEngineSearch(engine, question, {
+                limit: Math.max(2, Math.floor((numResults || 5) / 2))
+              });
+
+              // Reduce score slightly for subqueries
+              return subResults.map(result => toSearchResultItem(result, `${providerName}-Sub`, 0.9));
+            })
+          );
+
+          const subResults = subQuestionResults
+            .filter((result): result is PromiseFulfilledResult<SearchResultItem[]> => result.status === 'fulfilled')
+            .flatMap(result => result.value);
+
+          // Deduplicate by URL before adding to main results
+          const existingUrls = new Set(searchResults.map(r => r.url));
+          const uniqueSubResults = subResults.filter(r => !existingUrls.has(r.url));
+
+          console.log(`[Step: ${id}] Found ${uniqueSubResults.length} additional results from subqueries`);
+
+          searchResults = [...searchResults, ...uniqueSubResults];
+        }
+
+        // Sort by score
+        searchResults.sort((a, b) => (b.score || 0) - (a.score || 0));
+
+        console.log(`[Step: ${id}] Final result count: ${searchResults.length}`);
+
+        // Emit completion event
+        await emitter.emit('watch', {
+          type: 'watch',
+          payload: {
+            currentStep: {
+              id,
+              status: 'completed',
+              payload: {
+                provider: providerName,
+                count: searchResults.length,
+                results: searchResults.map(r => r.url).slice(0, 5) // Send only top 5 URLs to reduce payload size
+              }
+            }
+          },
+          eventTimestamp: new Date()
+        });
+      } catch (error: any) {
+        console.error(`[Step: ${id}] Error during ${providerName} search:`, error);
+
+        // Emit error event
+        await emitter.emit('watch', {
+          type: 'watch',
+          payload: {
+            currentStep: {
+              id,
+              status: 'failed',
+              payload: {
+                provider: providerName,
+                message: `Failed to fetch results from ${providerName}.`,
+                error: error.message,
+                rateLimited: error instanceof RateLimitExceededError
+              }
+            }
+          },
+          eventTimestamp: new Date()
+        });
+      }
+
+      return {
+        searchProvider: providerName,
+        results: searchResults,
+      };
+    },
+  });
+}
@@ -5,11 +5,16 @@
  */
 
 export { planningAndQueryEnhancementStep } from './planning-query-enhancement-step';
+export { semanticCacheStep, cachedAnswerStep } from './semantic-cache-step';
+export { createEngineSearchStep } from './engine-search-step';
 export { exaSearchStep } from './exa-search-step';
 export { jinaSearchStep } from './jina-search-step';
+export { localCorpusSearchStep } from './local-corpus-search-step';
 export { aggregateAndDeduplicateSearchResultsStep } from './aggregate-deduplicate-step';
 export { default as scrapeWebpageStep } from './scrape-webpage-step';
+export { deepCrawlStep } from './deep-crawl-step';
 export { ragStep } from './rag-step';
+export { rerankStep } from './rerank-step';
 export { deepSearchStep } from './deep-search-step';
 export { summaryStep } from './summary-step';
 
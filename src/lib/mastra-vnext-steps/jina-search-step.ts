@@ -1,234 +1,14 @@
-import { z } from 'zod';
-import { createStep } from '@mastra/core/workflows';
-import axios from 'axios';
-import {
-  searchProviderInput,
-  searchProviderOutput
-} from '../mastra-vnext-schemas';
+import { createEngineSearchStep } from './engine-search-step';
 
 /**
  * Jina Search Step
  * 
- * Performs web search using Jina's search API, which provides high-quality
- * semantic search results optimized for relevance.
+ * Performs web search using the registered Jina engine, which provides
+ * high-quality semantic search results optimized for relevance.
  */
-export const jinaSearchStep = createStep({
+export const jinaSearchStep = createEngineSearchStep({
   id: 'jina-search',
+  engine: 'jina',
+  providerName: 'Jina',
   description: 'Performs web search using Jina AI search API',
-  inputSchema: searchProviderInput,
-  outputSchema: searchProviderOutput,
-  async execute({ inputData, runtimeContext, emitter }) {
-    const { enhancedQuery, numResults, subQuestions = [] } = inputData;
-    const { JINA_API_KEY, searchId } = runtimeContext.getAll();
-
-    console.log(`[Step: jina-search] Started for searchId: ${searchId}, query: ${enhancedQuery}`);
-    
-    // Emit status update event
-    await emitter.emit('watch', {
-      type: 'watch',
-      payload: {
-        currentStep: {
-          id: 'jina-search',
-          status: 'running',
-          payload: { provider: 'Jina', query: enhancedQuery }
-        }
-      },
-      eventTimestamp: new Date()
-    });
-
-    // Production API endpoint for Jina search
-    const JINA_SEARCH_API = 'https://api.jina.ai/v1/search';
-    
-    let searchResults: z.infer<typeof searchProviderOutput>['results'] = [];
-
-    try {
-      // Set up headers for Jina API
-      const headers = {
-        'Authorization': `Bearer ${JINA_API_KEY}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      };
-      
-      // Jina Search API request parameters
-      const requestBody = {
-        query: enhancedQuery,
-        limit: numResults || 5,
-        type: 'web',
-        include_content: true,
-        safe_search: true
-      };
-      
-      // Execute search request
-      const response = await axios.post(JINA_SEARCH_API, requestBody, { headers });
-      
-      if (response.data && response.data.results) {
-        searchResults = response.data.results.map((result: any) => {
-          return {
-            id: result.id || result.url,
-            url: result.url,
-            title: result.title || 'Untitled',
-            snippet: result.snippet || (result.content ? result.content.substring(0, 200) + '...' : ''),
-            rawContent: result.content,
-            score: result.score || 1.0,
-            provider: 'Jina',
-            author: result.author,
-            publishedDate: result.published_date,
-            highlights: result.highlights ? result.highlights.map((highlight: string) => ({
-              text: highlight,
-              score: 1.0
-            })) : undefined
-          };
-        });
-      }
-      
-      console.log(`[Step: jina-search] Found ${searchResults.length} results from Jina.`);
-      
-      // Execute sub-question searches if provided
-      if (subQuestions.length > 0) {
-        // Process each sub-question in parallel
-        const subQuestionResults = await Promise.all(
-          subQuestions.slice(0, 2).map(async (question) => {
-            try {
-              const subResponse = await axios.post(JINA_SEARCH_API, {
-                query: question,
-                limit: Math.max(2, Math.floor((numResults || 5) / 2)),
-                type: 'web',
-                include_content: true,
-                safe_search: true
-              }, { headers });
-              
-              if (subResponse.data && subResponse.data.results) {
-                return subResponse.data.results.map((result: any) => ({
-                  id: result.id || result.url,
-                  url: result.url,
-                  title: result.title || 'Untitled',
-                  snippet: result.snippet || (result.content ? result.content.substring(0, 200) + '...' : ''),
-                  rawContent: result.content,
-                  score: (result.score || 1.0) * 0.9, // Slightly lower weight for sub-questions
-                  provider: 'Jina-Sub',
-                  author: result.author,
-                  publishedDate: result.published_date,
-                  highlights: result.highlights ? result.highlights.map((highlight: string) => ({
-                    text: highlight,
-                    score: 0.9
-                  })) : undefined
-                }));
-              }
-              return [];
-            } catch (error) {
-              console.error(`[Step: jina-search] Error in sub-question search: ${error}`);
-              return [];
-            }
-          })
-        );
-        
-        // Flatten sub-question results
-        const flattenedSubResults = subQuestionResults.flat();
-        
-        // Deduplicate by URL
-        const urlSet = new Set(searchResults.map(r => r.url));
-        const uniqueSubResults = flattenedSubResults.filter(r => !urlSet.has(r.url));
-        
-        // Add unique sub-results
-        searchResults = [...searchResults, ...uniqueSubResults];
-      }
-      
-      // Sort results by score (descending)
-      searchResults.sort((a, b) => (b.score || 0) - (a.score || 0));
-      
-      // Emit completion event
-      await emitter.emit('watch', {
-        type: 'watch',
-        payload: {
-          currentStep: {
-            id: 'jina-search',
-            status: 'completed',
-            payload: { 
-              provider: 'Jina', 
-              count: searchResults.length, 
-              results: searchResults.map(r => r.url)
-            }
-          }
-        },
-        eventTimestamp: new Date()
-      });
-    } catch (error) {
-      console.error(`[Step: jina-search] Error during Jina search:`, error);
-      
-      // Try a fallback approach with simpler parameters
-      try {
-        const fallbackResponse = await axios.post(JINA_SEARCH_API, {
-          query: enhancedQuery,
-          limit: numResults || 5,
-          type: 'web',
-          include_content: false,
-        }, { 
-          headers: {
-            'Authorization': `Bearer ${JINA_API_KEY}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        });
-        
-        if (fallbackResponse.data && fallbackResponse.data.results) {
-          searchResults = fallbackResponse.data.results.map((result: any) => ({
-            id: result.id || result.url,
-            url: result.url,
-            title: result.title || 'Untitled',
-            snippet: result.snippet || '',
-            rawContent: undefined,
-            score: result.score || 1.0,
-            provider: 'Jina',
-            author: undefined,
-            publishedDate: undefined,
-            highlights: undefined
-          }));
-          
-          console.log(`[Step: jina-search] Found ${searchResults.length} results with fallback approach.`);
-          
-          // Emit completion event with fallback flag
-          await emitter.emit('watch', {
-            type: 'watch',
-            payload: {
-              currentStep: {
-                id: 'jina-search',
-                status: 'completed',
-                payload: { 
-                  provider: 'Jina', 
-                  count: searchResults.length, 
-                  results: searchResults.map(r => r.url),
-                  fallback: true
-                }
-              }
-            },
-            eventTimestamp: new Date()
-          });
-        }
-      } catch (fallbackError) {
-        console.error(`[Step: jina-search] Fallback search also failed: ${fallbackError}`);
-        
-        // Emit error event
-        await emitter.emit('watch', {
-          type: 'watch',
-          payload: {
-            currentStep: {
-              id: 'jina-search',
-              status: 'failed',
-              payload: { 
-                provider: 'Jina', 
-                message: 'Failed to fetch results from Jina.',
-                error: error instanceof Error ? error.message : String(error)
-              }
-            }
-          },
-          eventTimestamp: new Date()
-        });
-      }
-    }
-
-    return {
-      searchProvider: 'Jina',
-      results: searchResults,
-    };
-  },
-});
\ No newline at end of file
+});
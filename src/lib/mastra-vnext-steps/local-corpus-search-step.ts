@@ -0,0 +1,16 @@
+import { createEngineSearchStep } from './engine-search-step';
+
+/**
+ * Local Corpus Search Step
+ * 
+ * Searches the configured directory of internal documents. Results carry
+ * file:// URLs that the scrape step reads straight from disk. The step is a
+ * no-op when no corpus directory is configured.
+ */
+export const localCorpusSearchStep = createEngineSearchStep({
+  id: 'local-corpus-search',
+  engine: 'local_corpus',
+  providerName: 'LocalDocs',
+  description: 'Searches the local document corpus with BM25 and embeddings',
+  optional: true,
+});
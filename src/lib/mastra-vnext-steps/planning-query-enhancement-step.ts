@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import { getRuntimeContextValues } from '../mastra-vnext-utils/runtime-context';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import {
   planningInput,
@@ -18,9 +20,9 @@ export const planningAndQueryEnhancementStep = createStep({
   description: 'Analyzes and enhances user queries for better search results',
   inputSchema: planningInput,
   outputSchema: planningOutput,
-  async execute({ inputData, mastra, runtimeContext, emitter }) {
+  async execute({ inputData, mastra, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
     const { originalQuery } = inputData;
-    const { GEMINI_API_KEY, searchId, userId } = runtimeContext.getAll();
+    const { GEMINI_API_KEY, searchId, userId } = getRuntimeContextValues(runtimeContext);
 
     console.log(`[Step: planning-query-enhancement] Started for searchId: ${searchId}, query: "${originalQuery}"`);
     
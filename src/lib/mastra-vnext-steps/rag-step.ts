@@ -1,52 +1,85 @@
 import { z } from 'zod';
 import { createStep } from '@mastra/core/workflows';
-import axios from 'axios';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
 import {
   ragInput,
   ragOutput
 } from '../mastra-vnext-schemas';
-import { EventStreamWriter, EventType } from '../mastra-vnext-utils';
-
-/**
- * Cosine similarity calculation between two vectors
- */
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  if (vecA.length !== vecB.length || vecA.length === 0) return 0;
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
-  }
-  if (normA === 0 || normB === 0) return 0;
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
+import { EventStreamWriter, EventType, getRuntimeContextValues } from '../mastra-vnext-utils';
+import { findNearDuplicateClusters, resolveNearDuplicateConfig } from '../aggregation/near-duplicates';
+import {
+  BM25Index,
+  chunkDocument,
+  ChunkEmbedding,
+  cosineSimilarity,
+  fuseScores,
+  hashChunkContent,
+  resolveChunkingConfig,
+  resolveHybridRetrievalConfig,
+  RetrievalCandidate,
+  RetrievalMode,
+  selectByMMR,
+  vectorStore
+} from '../retrieval';
+import { getEmbeddingProvider } from '../embeddings';
 
 /**
  * RAG (Retrieval-Augmented Generation) Step for Mastra vNext
  * 
- * This step uses Jina embeddings API to perform semantic search over
- * scraped content chunks, finding the most relevant text for the search query.
+ * This step ranks scraped content chunks for the search query by fusing
+ * embedding similarity with BM25 scores, then picks passages by maximal
+ * marginal relevance so the top passages are not all from one page. When
+ * embeddings are unavailable it falls back to lexical (BM25) retrieval only.
+ * Mirrored and syndicated pages are collapsed to one copy before embedding,
+ * and each page is chunked along its headings, paragraphs and sentences
+ * (`chunking` in the runtime context overrides the sizes). Selected passages
+ * keep their URL and heading path for citations.
+ * Weights and MMR settings come from `retrievalConfig` in the runtime context,
+ * and `embeddingProvider` (jina, openai or local) picks the embedding backend.
+ *
+ * Chunk embeddings are kept in the shared vector store, keyed by URL and
+ * content hash, so a page scraped again is not re-embedded. Passages from
+ * pages scraped in earlier searches are retrieved alongside this search's
+ * pages unless `recallEarlierPages: false` is set in the runtime context.
  * 
  * Event handling is done through the vNext emitter pattern for consistent
  * event streaming to the client.
  */
 export const ragStep = createStep({
   id: 'rag-step',
-  description: 'Generates embeddings and performs semantic search on scraped content',
+  description: 'Generates embeddings and performs hybrid semantic and lexical search on scraped content',
   inputSchema: ragInput,
   outputSchema: ragOutput,
-  async execute({ inputData, runtimeContext, emitter }) {
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
     // Create event helpers for standardized event emission
     const events = EventStreamWriter.createStepEventHelpers(emitter, 'rag-step');
     
     try {
-      const { enhancedQuery, subQuestions, scrapedContents } = inputData;
-      const { JINA_API_KEY, searchId, userId } = runtimeContext.getAll();
+      const { enhancedQuery, subQuestions } = inputData;
+      const { searchId, userId, dedupConfig, recallEarlierPages, retrievalConfig, chunking, embeddingProvider } = getRuntimeContextValues(runtimeContext);
       
       console.log(`[Step: rag-step] Started for searchId: ${searchId}`);
+
+      // Keep the first (highest-ranked) page of each near-duplicate cluster of page bodies
+      const bodyClusters = findNearDuplicateClusters(
+        inputData.scrapedContents.map(doc => (doc.error ? '' : doc.content.join('\n'))),
+        resolveNearDuplicateConfig(dedupConfig, 'body')
+      );
+      const scrapedContents = bodyClusters.map(cluster => inputData.scrapedContents[cluster[0]]);
+      const collapsedDuplicates = bodyClusters
+        .filter(cluster => cluster.length > 1)
+        .flatMap(cluster => cluster.slice(1).map(index => ({
+          url: inputData.scrapedContents[index].link,
+          duplicateOf: inputData.scrapedContents[cluster[0]].link
+        })));
+
+      if (collapsedDuplicates.length > 0) {
+        console.log(`[Step: rag-step] Collapsed ${collapsedDuplicates.length} near-duplicate documents`);
+        await events.emitCustom("duplicates_collapsed", {
+          count: collapsedDuplicates.length,
+          duplicates: collapsedDuplicates
+        });
+      }
       
       // Emit running status event
       await events.emitRunning({ 
@@ -54,26 +87,15 @@ export const ragStep = createStep({
         documentCount: scrapedContents.length
       });
       
-      // Create search-specific vector store for this operation
-      // This is per-search so we don't need persistence across queries
-      const vectorStore: Array<{
-        id: string;
-        text: string;
-        embedding: number[];
-        metadata: {
-          url: string;
-          title?: string;
-          sourceIndex: number;
-        };
-      }> = [];
-
-      // Configuration for Jina.ai Embeddings API
-      const JINA_EMBEDDINGS_API = "https://api.jina.ai/v1/embeddings";
-      const headers = {
-        "Authorization": `Bearer ${JINA_API_KEY}`,
-        "Content-Type": "application/json",
-        "Accept": "application/json"
-      };
+      // Passages of this search's pages; embeddings come from the shared store when already known
+      const passages: Array<{ text: string; url: string; embedding?: number[]; metadata: Record<string, any> }> = [];
+      let reusedEmbeddings = 0;
+      let newEmbeddingTokens = 0;
+      const chunkingConfig = resolveChunkingConfig(chunking);
+
+      // Without a configured embedding provider every passage is ranked lexically (BM25)
+      const embedder = getEmbeddingProvider(embeddingProvider);
+      const embeddingsAvailable = embedder.isConfigured();
       
       // Emit progress update for starting embeddings generation
       await events.emitProgress(10, "Starting embeddings generation");
@@ -81,73 +103,89 @@ export const ragStep = createStep({
       // Process document content and generate embeddings
       let processedDocs = 0;
       for (const doc of scrapedContents) {
-        // Skip if document has no content
-        const contentBlocks = doc.content.filter(block => block.trim().length > 0);
+        // Split the page on headings, paragraphs and sentences; skip it if nothing is left
+        const title = doc.title || doc.link.split('/').pop() || doc.link;
+        const chunks = chunkDocument(doc.content, chunkingConfig, doc.pages);
+        const contentBlocks = chunks.map(chunk => chunk.text);
         if (contentBlocks.length === 0) continue;
 
-        try {
-          // Emit custom event for processing specific document
-          await events.emitCustom(EventType.PROGRESS_UPDATE, {
-            message: `Processing document ${++processedDocs}/${scrapedContents.length}`,
-            url: doc.link
-          });
-          
-          // Use Jina's embeddings API to generate embeddings for all content blocks at once
-          const response = await axios.post(JINA_EMBEDDINGS_API, {
-            model: "jina-embeddings-v3",
-            input: contentBlocks,
-            task: "retrieval.passage", // Optimized for document content
-            dimensions: 1024 // Full dimension for maximum quality
-          }, { headers });
-
-          // Extract embeddings from response and add to vector store
-          if (response.data && response.data.data) {
-            response.data.data.forEach((item: any, index: number) => {
-              vectorStore.push({
-                id: `${doc.link}#${vectorStore.length}`,
-                text: contentBlocks[index],
-                embedding: item.embedding,
-                metadata: {
-                  url: doc.link,
-                  title: doc.link.split('/').pop() || doc.link,
-                  sourceIndex: index
-                },
-              });
+        // Emit custom event for processing specific document
+        await events.emitCustom(EventType.PROGRESS_UPDATE, {
+          progress: Math.round(100 * ++processedDocs / scrapedContents.length),
+          message: `Processing document ${processedDocs}/${scrapedContents.length}`,
+          url: doc.link
+        });
+
+        const keys = contentBlocks.map(text => ({ url: doc.link, contentHash: hashChunkContent(text) }));
+        const stored = new Map<string, ChunkEmbedding>();
+
+        if (embeddingsAvailable) {
+          try {
+            (await vectorStore.getMany(keys, embedder.id)).forEach(chunk => stored.set(chunk.contentHash, chunk));
+            const missing = contentBlocks
+              .map((text, index) => ({ text, index }))
+              .filter(block => !stored.has(keys[block.index].contentHash));
+
+            if (missing.length > 0) {
+              // Embed all new content blocks of the document at once
+              const embeddings = await embedder.embed(missing.map(block => block.text), 'passage');
+
+              const embedded: ChunkEmbedding[] = embeddings.map((embedding, i) => ({
+                ...keys[missing[i].index],
+                text: missing[i].text,
+                embedding,
+                model: embedder.id,
+                metadata: { title, snapshotId: doc.snapshotId, ...chunks[missing[i].index].metadata }
+              }));
+              await vectorStore.upsert(embedded);
+              embedded.forEach(chunk => stored.set(chunk.contentHash, chunk));
+              newEmbeddingTokens += missing.reduce((sum, block) => sum + chunks[block.index].metadata.tokenCount, 0);
+            }
+
+            reusedEmbeddings += contentBlocks.length - missing.length;
+          } catch (error) {
+            console.error(`[Step: rag-step] Error generating embedding for content from ${doc.link}:`, error);
+            // Emit custom event for embedding error
+            await events.emitCustom(EventType.WARNING, {
+              message: `Failed to generate embeddings for document ${doc.link}, matching it lexically`,
+              error: error instanceof Error ? error.message : String(error)
             });
-            
-            // Update progress based on documents processed
-            const progress = 10 + Math.floor((processedDocs / scrapedContents.length) * 40);
-            await events.emitProgress(progress, 
-              `Generated embeddings for ${vectorStore.length} content blocks`);
+            // The document's passages are still ranked by BM25
           }
-        } catch (error) {
-          console.error(`[Step: rag-step] Error generating embedding for content from ${doc.link}:`, error);
-          // Emit custom event for embedding error
-          await events.emitCustom(EventType.WARNING, {
-            message: `Failed to generate embeddings for document ${doc.link}`,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          // Continue with other documents even if one fails
         }
+
+        contentBlocks.forEach((text, index) => passages.push({
+          text,
+          url: doc.link,
+          embedding: stored.get(keys[index].contentHash)?.embedding,
+          metadata: { title, snapshotId: doc.snapshotId, ...chunks[index].metadata }
+        }));
+
+        // Update progress based on documents processed
+        const progress = 10 + Math.floor((processedDocs / scrapedContents.length) * 40);
+        await events.emitProgress(progress,
+          `Prepared ${passages.length} content blocks`);
       }
 
-      console.log(`[Step: rag-step] Generated ${vectorStore.length} embeddings for content blocks.`);
+      const embeddedPassages = passages.filter(passage => passage.embedding).length;
+      console.log(`[Step: rag-step] Have ${embeddedPassages}/${passages.length} content block embeddings (${reusedEmbeddings} reused from earlier searches).`);
       
       // Emit event for embeddings generation completion
       await events.emitCustom("embeddings_generated", { 
-        count: vectorStore.length,
+        count: embeddedPassages,
+        reused: reusedEmbeddings,
         documentCount: scrapedContents.length
       });
       
       // Update progress
-      await events.emitProgress(50, "Embeddings generated, starting semantic search");
+      await events.emitProgress(50, "Embeddings generated, starting retrieval");
 
-      // If no embeddings were generated, return empty result
-      if (vectorStore.length === 0) {
-        console.warn(`[Step: rag-step] No content embeddings generated, returning empty result.`);
+      // If there is no content at all, return empty result
+      if (passages.length === 0) {
+        console.warn(`[Step: rag-step] No content to search, returning empty result.`);
         await events.emitCompleted({ 
           relevantTextCount: 0,
-          message: "No content embeddings could be generated"
+          message: "No content could be extracted from the scraped pages"
         });
         return {
           relevantTexts: [],
@@ -158,129 +196,167 @@ export const ragStep = createStep({
       const queryTexts = [enhancedQuery, ...(subQuestions || []).slice(0, 3)];
       let queryEmbeddings: number[][] = [];
       
-      try {
-        // Emit progress update
-        await events.emitProgress(60, "Generating query embeddings");
-        
-        // Use Jina's embeddings API with query-specific parameters
-        const queryResponse = await axios.post(JINA_EMBEDDINGS_API, {
-          model: "jina-embeddings-v3",
-          input: queryTexts,
-          task: "retrieval.query", // Optimized for search queries
-          dimensions: 1024
-        }, { headers });
-
-        if (queryResponse.data && queryResponse.data.data) {
-          queryEmbeddings = queryResponse.data.data.map((item: any) => item.embedding);
+      if (embeddedPassages > 0) {
+        try {
+          // Emit progress update
+          await events.emitProgress(60, "Generating query embeddings");
+          
+          // Queries are embedded with the provider's query settings
+          queryEmbeddings = await embedder.embed(queryTexts, 'query');
           
           // Emit custom event for query embeddings
-          await events.emitCustom("query_embeddings_generated", {
+          await events.emitCustom(EventType.QUERY_EMBEDDINGS_GENERATED, {
             count: queryEmbeddings.length,
+            provider: embedder.id,
             queries: queryTexts.map(q => q.substring(0, 50) + (q.length > 50 ? '...' : ''))
           });
-        } else {
-          throw new Error("Invalid response from Jina embeddings API");
+        } catch (error) {
+          console.error(`[Step: rag-step] Error generating query embeddings:`, error);
+          
+          // Emit warning event but continue with lexical retrieval
+          await events.emitCustom(EventType.WARNING, {
+            message: 'Failed to generate query embeddings, falling back to lexical (BM25) retrieval',
+            error: error instanceof Error ? error.message : String(error)
+          });
         }
-      } catch (error) {
-        console.error(`[Step: rag-step] Error generating query embeddings:`, error);
-        
-        // Fallback to main query only with a random embedding if needed
-        queryEmbeddings = [Array(1024).fill(0).map(() => Math.random())];
-        
-        // Emit warning event but continue with fallback
-        await events.emitCustom(EventType.WARNING, {
-          message: 'Failed to generate proper query embeddings, using fallback approach',
-          error: error instanceof Error ? error.message : String(error)
-        });
       }
 
+      // Lexical-only retrieval is the fallback whenever query embeddings are unavailable
+      const retrievalMode: RetrievalMode = queryEmbeddings.length > 0 ? 'hybrid' : 'lexical';
+      const config = resolveHybridRetrievalConfig(retrievalConfig);
+
       // Emit progress update
-      await events.emitProgress(70, "Running semantic search");
+      await events.emitProgress(70, retrievalMode === 'hybrid' ? "Running hybrid search" : "Running lexical search");
       
-      // Configuration for similarity search
-      const similarityThreshold = 0.65; // Lower threshold to ensure we get enough relevant content
-      const topK = 8; // Get more chunks to ensure comprehensive coverage
-      const uniqueUrls = new Set<string>();
-      const allRelevantChunks: Array<{text: string, url: string, similarity: number}> = [];
-
-      // Perform similarity search for each query embedding
-      for (let i = 0; i < queryEmbeddings.length; i++) {
-        const queryEmbedding = queryEmbeddings[i];
+      // Passages must reach this similarity, or share a term with a query, to be considered
+      const similarityThreshold = 0.65;
+
+      // One candidate per distinct passage text
+      const candidates: RetrievalCandidate[] = [];
+      const seenTexts = new Set<string>();
+      const addCandidate = (candidate: RetrievalCandidate) => {
+        // Normalize text for deduplication (lowercase, trim whitespace)
+        const normalizedText = candidate.text.toLowerCase().trim();
+        if (seenTexts.has(normalizedText)) return;
+        seenTexts.add(normalizedText);
+        candidates.push(candidate);
+      };
+
+      for (const passage of passages) {
+        addCandidate({
+          ...passage,
+          dense: passage.embedding && retrievalMode === 'hybrid'
+            ? Math.max(...queryEmbeddings.map(queryEmbedding => cosineSimilarity(queryEmbedding, passage.embedding!)))
+            : undefined,
+          lexical: 0
+        });
+      }
+
+      // Passages from pages scraped in earlier searches
+      let recalledChunks = 0;
+      if (recallEarlierPages !== false && retrievalMode === 'hybrid') {
+        const searchUrls = [...new Set(passages.map(passage => passage.url))];
+        try {
+          for (const queryEmbedding of queryEmbeddings) {
+            const earlierMatches = await vectorStore.query(queryEmbedding, {
+              model: embedder.id,
+              topK: 3,
+              minSimilarity: similarityThreshold,
+              excludeUrls: searchUrls
+            });
+            const before = candidates.length;
+            earlierMatches.forEach(match => addCandidate({
+              text: match.text,
+              url: match.url,
+              metadata: match.metadata,
+              dense: match.similarity,
+              lexical: 0
+            }));
+            recalledChunks += candidates.length - before;
+          }
+        } catch (error) {
+          console.error(`[Step: rag-step] Error recalling passages from earlier searches:`, error);
+
+          // The passages of this search are enough to answer from
+          await events.emitCustom(EventType.WARNING, {
+            message: 'Failed to recall passages from earlier searches, using this search\'s pages only',
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      if (recalledChunks > 0) {
+        await events.emitCustom(EventType.EARLIER_PASSAGES_RECALLED, { count: recalledChunks });
+      }
+
+      // BM25 over the same passages; each query keeps its best lexical match per passage
+      const bm25 = new BM25Index(candidates.map(candidate => candidate.text));
+      for (let i = 0; i < queryTexts.length; i++) {
         const queryText = queryTexts[i];
-        
-        // Calculate similarity scores for all vectors
-        const scoredResults = vectorStore.map(vector => ({
-          text: vector.text,
-          url: vector.metadata.url,
-          similarity: cosineSimilarity(queryEmbedding, vector.embedding),
-        }));
+        const lexicalScores = bm25.score(queryText);
+        lexicalScores.forEach((score, index) => {
+          candidates[index].lexical = Math.max(candidates[index].lexical, score);
+        });
+
+        const queryMatches = candidates.filter((candidate, index) =>
+          lexicalScores[index] > 0 ||
+          (queryEmbeddings[i] && candidate.embedding && cosineSimilarity(queryEmbeddings[i], candidate.embedding) >= similarityThreshold)
+        ).length;
 
-        // Sort by similarity score (highest first)
-        scoredResults.sort((a, b) => b.similarity - a.similarity);
-        
-        // Add top results to all relevant chunks
-        const topResults = scoredResults
-          .filter(result => result.similarity >= similarityThreshold)
-          .slice(0, topK);
-          
-        allRelevantChunks.push(...topResults);
-        
-        // Track unique sources
-        topResults.forEach(result => uniqueUrls.add(result.url));
-        
         // Emit custom event for query results
         await events.emitCustom(EventType.RESULTS_FOUND, {
           query: queryText.substring(0, 50) + (queryText.length > 50 ? '...' : ''),
-          resultCount: topResults.length,
+          resultCount: queryMatches,
           queryIndex: i
         });
       }
 
       // Emit progress update
-      await events.emitProgress(85, "Deduplicating results");
-      
-      // De-duplicate and select most relevant chunks
-      const deduplicatedChunks: string[] = [];
-      const seenTexts = new Set<string>();
-      
-      // Sort all chunks by similarity
-      allRelevantChunks.sort((a, b) => b.similarity - a.similarity);
-      
-      // Take top unique chunks
-      for (const chunk of allRelevantChunks) {
-        // Normalize text for deduplication (lowercase, trim whitespace)
-        const normalizedText = chunk.text.toLowerCase().trim();
-        
-        // Skip if we've seen this text before
-        if (seenTexts.has(normalizedText)) continue;
-        
-        // Add to results
-        deduplicatedChunks.push(chunk.text);
-        seenTexts.add(normalizedText);
-        
-        // Limit to top 10 chunks for performance
-        if (deduplicatedChunks.length >= 10) break;
-      }
+      await events.emitProgress(85, "Selecting diverse passages");
+
+      // Fuse dense and lexical scores, then pick diverse passages by maximal marginal relevance
+      const relevantCandidates = candidates.filter(candidate =>
+        candidate.lexical > 0 || (candidate.dense ?? 0) >= similarityThreshold
+      );
+      const fused = fuseScores(relevantCandidates, config, retrievalMode);
+      const selected = selectByMMR(fused.slice(0, config.topK * 5), config);
+      const selectedTexts = selected.map(passage => passage.text);
+      const selectedPassages = selected.map(passage => ({
+        text: passage.text,
+        url: passage.url,
+        title: passage.metadata?.title,
+        headingPath: passage.metadata?.headingPath || [],
+        kind: passage.metadata?.kind,
+        chunkIndex: passage.metadata?.chunkIndex,
+        page: passage.metadata?.page,
+        snapshotId: passage.metadata?.snapshotId,
+        score: passage.score
+      }));
+      const uniqueUrls = new Set(selected.map(passage => passage.url));
 
-      console.log(`[Step: rag-step] Found ${deduplicatedChunks.length} relevant text chunks from ${uniqueUrls.size} sources.`);
+      console.log(`[Step: rag-step] Found ${selectedTexts.length} relevant text chunks from ${uniqueUrls.size} sources (${retrievalMode} retrieval).`);
 
       // Log usage information for tracking and monitoring
+      const queryEmbeddingTokens = retrievalMode === 'hybrid' ? queryTexts.length * 100 : 0;
       const tokenUsage = {
-        contentEmbeddings: vectorStore.length * 1000, // Approximate tokens for content
-        queryEmbeddings: queryTexts.length * 100, // Approximate tokens for queries
-        totalTokens: vectorStore.length * 1000 + queryTexts.length * 100
+        contentEmbeddings: newEmbeddingTokens, // Approximate tokens for newly embedded content
+        queryEmbeddings: queryEmbeddingTokens, // Approximate tokens for queries
+        totalTokens: newEmbeddingTokens + queryEmbeddingTokens
       };
 
       // Emit completion event with all relevant info
       await events.emitProgress(100, "Semantic search completed");
       await events.emitCompleted({
-        relevantTextCount: deduplicatedChunks.length,
+        relevantTextCount: selectedTexts.length,
         sourceCount: uniqueUrls.size,
+        retrievalMode,
+        embeddingProvider: embedder.id,
         usage: tokenUsage
       });
 
       return {
-        relevantTexts: deduplicatedChunks,
+        relevantTexts: selectedTexts,
+        passages: selectedPassages,
       };
     } catch (error) {
       console.error(`[Step: rag-step] Error during semantic search:`, error);
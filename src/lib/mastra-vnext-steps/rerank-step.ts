@@ -0,0 +1,105 @@
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import {
+  rerankInput,
+  ragOutput
+} from '../mastra-vnext-schemas';
+import { EventStreamWriter, EventType, getRuntimeContextValues } from '../mastra-vnext-utils';
+import { getReranker, rerankItems, resolveRerankConfig } from '../reranking';
+
+/**
+ * Rerank Step for Mastra vNext
+ *
+ * Scores each passage picked by the RAG step against the enhanced query and
+ * the first sub-questions with a cross-encoder, keeps its best score, then
+ * reorders the passages and trims them to `topN` before summarization.
+ * Passages scoring below `minScore` for every question are dropped.
+ *
+ * The reranker comes from `reranker` in the runtime context (jina, local or
+ * none) and defaults to RERANKER; `rerankConfig` overrides the limits. Without
+ * a reranker, or when scoring fails, the RAG passages pass through unchanged.
+ * Every passage's scores are emitted as a `passages_reranked` event so the
+ * client can show why a passage was kept.
+ */
+export const rerankStep = createStep({
+  id: 'rerank-step',
+  description: 'Reorders and trims retrieved passages by cross-encoder relevance',
+  inputSchema: rerankInput,
+  outputSchema: ragOutput,
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
+    const events = EventStreamWriter.createStepEventHelpers(emitter, 'rerank-step');
+    const { reranker: rerankerBackend, rerankConfig } = getRuntimeContextValues(runtimeContext);
+    const { relevantTexts, passages, enhancedQuery, subQuestions } = inputData;
+    const unchanged = { relevantTexts, passages };
+
+    const reranker = rerankerBackend === false ? null : getReranker(rerankerBackend);
+    if (!reranker || !reranker.isConfigured()) {
+      await events.emitCompleted({ skipped: true, message: 'Reranking is not configured' });
+      return unchanged;
+    }
+
+    if (!passages || passages.length === 0) {
+      await events.emitCompleted({ skipped: true, message: 'No passages to rerank' });
+      return unchanged;
+    }
+
+    const config = resolveRerankConfig(rerankConfig);
+    const queries = [enhancedQuery, ...(subQuestions || []).slice(0, config.maxSubQuestions)];
+
+    await events.emitRunning({
+      message: `Checking ${passages.length} passages against ${queries.length} questions`,
+      reranker: reranker.id
+    });
+
+    try {
+      const ranked = await rerankItems(reranker, queries, passages);
+
+      // Trim to topN, dropping passages below minScore but never all of them
+      const kept = ranked
+        .slice(0, config.topN)
+        .filter((entry, rank) => rank === 0 || entry.score >= config.minScore);
+      const keptPassages = kept.map(entry => ({ ...entry.item, rerankScore: entry.score }));
+
+      await events.emitCustom('passages_reranked', {
+        reranker: reranker.id,
+        queries: queries.map(q => q.substring(0, 50) + (q.length > 50 ? '...' : '')),
+        passages: ranked.map((entry, rank) => ({
+          url: entry.item.url,
+          title: entry.item.title,
+          headingPath: entry.item.headingPath,
+          preview: entry.item.text.substring(0, 120),
+          retrievalRank: entry.originalRank + 1,
+          retrievalScore: entry.item.score,
+          rank: rank + 1,
+          rerankScore: entry.score,
+          bestQuery: entry.bestQuery,
+          kept: kept.includes(entry)
+        }))
+      });
+
+      console.log(`[Step: rerank-step] Kept ${keptPassages.length}/${passages.length} passages (${reranker.id}).`);
+
+      await events.emitCompleted({
+        reranker: reranker.id,
+        passageCount: passages.length,
+        keptCount: keptPassages.length,
+        topScore: kept[0]?.score
+      });
+
+      return {
+        relevantTexts: keptPassages.map(passage => passage.text),
+        passages: keptPassages,
+      };
+    } catch (error) {
+      console.error(`[Step: rerank-step] Error reranking passages:`, error);
+
+      // Summarize the RAG passages as they are rather than failing the search
+      await events.emitCustom(EventType.WARNING, {
+        message: 'Failed to rerank passages, keeping retrieval order',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await events.emitCompleted({ skipped: true, reranker: reranker.id, message: 'Reranking failed' });
+      return unchanged;
+    }
+  },
+});
@@ -1,11 +1,28 @@
 import { z } from 'zod';
 import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
 import axios from 'axios';
 import {
   webScrapingInput,
   webScrapingOutput
 } from '../mastra-vnext-schemas';
-import { EventStreamWriter, EventType } from '../mastra-vnext-utils';
+import { EventStreamWriter, EventType, getRuntimeContextValues } from '../mastra-vnext-utils';
+import { isLocalDocumentUrl, localCorpusIndex } from '../search-providers/local-corpus';
+import { DocumentFormat, DocumentPage } from '../utils/document-text';
+import { snapshotStore } from '../snapshots';
+import {
+  CrawlSkip,
+  LocalScrapeResult,
+  PageLink,
+  Scraper,
+  ScrapingConfig,
+  crawlPolicy,
+  extractMarkdownLinks,
+  planScrape,
+  resolveCrawlPolicyConfig,
+  resolveScrapingConfig,
+  scrapeLocally
+} from '../scraping';
 
 /**
  * ScrapybaraClient - Wrapper for Scrapybara's browser automation
@@ -102,21 +119,33 @@ class ScrapybaraClient {
 /**
  * Scrape Webpage Step
  * 
- * Uses Scrapybara to intelligently scrape web pages based on the query.
- * It employs Claude to navigate and extract relevant content from web pages.
+ * Fetches pages directly and extracts their main content (see lib/scraping).
+ * Pages that need JavaScript go to Scrapybara, which employs Claude to
+ * navigate and extract the content relevant to the query; domains can be
+ * pinned to either scraper. Whichever scraper fails, the other one is tried.
+ *
+ * Web pages are only scraped when the crawl policy admits them: URLs
+ * disallowed by robots.txt or beyond the search's page and byte budget are
+ * skipped, and requests to each host are spaced and limited.
+ *
+ * Every scraped page is archived as a snapshot (see lib/snapshots) whose ID
+ * is returned with the content, so answers can name what they cited.
+ *
+ * `scrapingConfig` and `crawlPolicyConfig` in the runtime context override
+ * the scraping and crawl policy configuration.
  */
 export const scrapeWebpageStep = createStep({
   id: 'scrape-webpage',
   description: 'Scrapes and extracts content from target web pages',
   inputSchema: webScrapingInput,
   outputSchema: webScrapingOutput,
-  execute: async ({ inputData, runtimeContext, emitter }) => {
+  execute: async ({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) => {
     // Create event helpers for this step
     const events = EventStreamWriter.createStepEventHelpers(emitter, 'scrape-webpage');
 
     try {
       const { targetUrl, originalQuery } = inputData;
-      const { SCRAPYBARA_API_KEY, ANTHROPIC_API_KEY, searchId } = runtimeContext.getAll();
+      const { SCRAPYBARA_API_KEY, ANTHROPIC_API_KEY, searchId, scrapingConfig, crawlPolicyConfig } = getRuntimeContextValues(runtimeContext);
 
       // Validate the URL
       try {
@@ -154,103 +183,44 @@ export const scrapeWebpageStep = createStep({
         query: originalQuery
       });
 
-      // Verify API keys
-      if (!SCRAPYBARA_API_KEY) {
-        throw new Error("Missing Scrapybara API key");
-      }
-
-      // Initialize client
-      const client = new ScrapybaraClient({
-        apiKey: SCRAPYBARA_API_KEY,
-        anthropicApiKey: ANTHROPIC_API_KEY
-      });
-
-      // Create comprehensive instructions for content extraction
-      const instructions = generateScrapingInstructions(originalQuery || "");
-
-      // Execute scraping with timeout and retry logic
-      const timeoutMs = 45000; // 45 seconds
-      const MAX_RETRIES = 2;
+      let scraped: ScrapedPage;
 
-      let scrapedContent = "";
-      let retryCount = 0;
-      let lastError = null;
-
-      // Emit progress update
-      await events.emitProgress(10, "Starting scraping process");
+      if (isLocalDocumentUrl(targetUrl)) {
+        // Local corpus documents are read straight from disk
+        await events.emitProgress(10, "Reading local document");
+        const document = await localCorpusIndex.readDocument(targetUrl);
+        scraped = { content: document.text, scraper: 'local-corpus', title: document.title, format: document.format, pages: document.pages };
+        await events.emitProgress(40, "Read local document");
+      } else {
+        const config = resolveScrapingConfig(scrapingConfig);
+        const decision = await crawlPolicy.admit(targetUrl, {
+          searchId,
+          config: resolveCrawlPolicyConfig(crawlPolicyConfig),
+          scraping: config
+        });
+        if (!decision.allowed) {
+          return await skipUrl(targetUrl, decision, events);
+        }
 
-      while (retryCount <= MAX_RETRIES) {
+        let bytes = 0;
         try {
-          // Emit progress update for attempt
-          const progress = 10 + 30 * (retryCount / (MAX_RETRIES + 1));
-          await events.emitProgress(progress, `Scraping attempt ${retryCount + 1}`);
-
-          // Create a timeout promise
-          const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error("Scraping operation timed out")), timeoutMs);
-          });
-
-          // Build the scrape options
-          const scrapeOptions = {
-            modelName: "claude-3-sonnet-20240229",
-            temperature: 0.2,
-            maxRetries: 1, // Scrapybara's internal retries
-            maxTokens: 6000,
-            maxScrolls: 5,
-            waitForSelectors: ['article', '.content', '.post', 'main', '#content', '.article', 'body'],
-            extractMetadata: true
-          };
-
-          // Race between scraping and timeout
-          const scrapePromise = client.act(targetUrl, instructions, scrapeOptions);
-          scrapedContent = await Promise.race([scrapePromise, timeoutPromise]);
-
-          // If we got here, scraping succeeded
-          await events.emitProgress(40, "Successfully scraped page content");
-          break;
-
-        } catch (error: any) {
-          lastError = error;
-          retryCount++;
-
-          // Log retry attempt
-          console.warn(`[Step: scrape-webpage] Retry ${retryCount}/${MAX_RETRIES} for ${targetUrl}: ${error.message}`);
-
-          // Only retry if:
-          // 1. We haven't exceeded max retries
-          // 2. Error is retryable (timeout, network, or HTTP 5xx)
-          const isRetryable =
-            error.message.includes("timed out") ||
-            error.message.includes("Network error") ||
-            error.message.includes("HTTP error 5");
-
-          if (retryCount > MAX_RETRIES || !isRetryable) {
-            throw error;
-          }
-
-          // Emit retry event
-          await events.emitCustom("scraping_retry", {
-            retryCount,
-            maxRetries: MAX_RETRIES,
-            url: targetUrl,
-            error: error.message
-          });
-
-          // Wait before retrying (exponential backoff)
-          await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
+          // Don't download more than is left of the search's byte budget
+          scraped = await scrapePage(targetUrl, originalQuery || "", {
+            SCRAPYBARA_API_KEY,
+            ANTHROPIC_API_KEY
+          }, { ...config, maxBytes: Math.min(config.maxBytes, decision.remainingBytes) }, events);
+          bytes = scraped.bytes ?? 0;
+        } finally {
+          decision.release(bytes);
         }
       }
-
-      // If we had an error and exhausted retries, throw the last error
-      if (!scrapedContent && lastError) {
-        throw lastError;
-      }
+      const { scraper, format } = scraped;
 
       // Emit progress update
       await events.emitProgress(60, "Processing extracted content");
 
-      // Process the extracted content
-      const contentBlocks = processScrapedContent(scrapedContent);
+      const output = await archiveSnapshot(scrapedPageOutput(targetUrl, scraped), scraper);
+      const contentBlocks = output.content;
 
       // Emit progress update for completion
       await events.emitProgress(100, "Content extraction complete");
@@ -278,6 +248,10 @@ export const scrapeWebpageStep = createStep({
         link: targetUrl,
         contentBlocks: contentBlocks.length,
         contentPreview: contentBlocks[0]?.substring(0, 100) + '...',
+        scraper,
+        format,
+        pageCount: scraped.pages?.length,
+        snapshotId: output.snapshotId,
         status: "completed"
       });
 
@@ -289,11 +263,7 @@ export const scrapeWebpageStep = createStep({
         preview: contentBlocks[0]?.substring(0, 100) + '...'
       });
 
-      return {
-        link: targetUrl,
-        content: contentBlocks,
-        error: false
-      };
+      return output;
     } catch (error) {
       console.error(`[Step: scrape-webpage] Error scraping webpage ${inputData.targetUrl}:`, error);
 
@@ -338,6 +308,286 @@ export const scrapeWebpageStep = createStep({
   }
 });
 
+/**
+ * Report a URL the crawl policy skipped, returning it as an unscraped page
+ */
+async function skipUrl(
+  targetUrl: string,
+  skip: CrawlSkip,
+  events: ReturnType<typeof EventStreamWriter.createStepEventHelpers>
+) {
+  console.warn(`[Step: scrape-webpage] Skipping ${targetUrl}: ${skip.message}`);
+
+  await events.emitCustom(EventType.STEP_SKIPPED, {
+    url: targetUrl,
+    reason: skip.reason,
+    message: skip.message
+  });
+  await events.emitCustom(EventType.WARNING, {
+    message: `Skipped ${targetUrl}: ${skip.message}`,
+    reason: skip.reason
+  });
+  await events.emitCustom(EventType.LINK_SCRAPED, {
+    url: targetUrl,
+    status: 'skipped',
+    reason: skip.reason
+  });
+
+  return {
+    link: targetUrl,
+    content: [`Skipped ${targetUrl}: ${skip.message}`],
+    error: true,
+    skipped: skip.reason
+  };
+}
+
+/**
+ * Content of a scraped page with how it was obtained
+ */
+export interface ScrapedPage {
+  content: string;
+  scraper: Scraper | 'local-corpus';
+  title?: string;
+  format?: DocumentFormat;
+  /** Text of each page, for paged documents */
+  pages?: DocumentPage[];
+  /** Bytes downloaded to scrape the page, counted against the search's budget */
+  bytes?: number;
+  /** Links in the page's content, for deep crawling */
+  links?: PageLink[];
+}
+
+/**
+ * Step output for a scraped page: its content split into blocks, with the
+ * page of each block for paged documents
+ */
+export function scrapedPageOutput(link: string, scraped: ScrapedPage) {
+  const { title, format, links } = scraped;
+  const { blocks, pages } = scraped.pages
+    ? processDocumentPages(scraped.pages)
+    : { blocks: processScrapedContent(scraped.content), pages: undefined };
+
+  return {
+    link,
+    content: blocks,
+    error: false,
+    ...(title ? { title } : {}),
+    ...(format ? { format } : {}),
+    ...(pages ? { pages } : {}),
+    ...(links && links.length > 0 ? { links } : {})
+  };
+}
+
+/**
+ * Archive a scraped page's content, adding the snapshot ID to its output
+ */
+export async function archiveSnapshot<T extends ReturnType<typeof scrapedPageOutput>>(output: T, scraper: ScrapedPage['scraper']) {
+  const snapshot = await snapshotStore.save({
+    url: output.link,
+    title: output.title,
+    format: output.format,
+    scraper,
+    blocks: output.content,
+    pages: output.pages
+  });
+  return { ...output, snapshotId: snapshot.id };
+}
+
+/**
+ * Directly extracted content as Markdown, under the page title
+ */
+function formatLocalContent(result: LocalScrapeResult): string {
+  if (!result.title || /^#\s/.test(result.text)) {
+    return result.text;
+  }
+  return `# ${result.title}\n\n${result.text}`;
+}
+
+export function localScrapedPage(result: LocalScrapeResult): ScrapedPage {
+  return {
+    content: result.format === 'html' ? formatLocalContent(result) : result.text,
+    scraper: 'local',
+    title: result.title,
+    format: result.format,
+    pages: result.pages,
+    bytes: result.bytes,
+    links: result.links
+  };
+}
+
+/**
+ * Scrape a web page with the scrapers planned for it, falling back to the
+ * next one when a scraper fails or a direct fetch finds a page that needs
+ * JavaScript
+ */
+async function scrapePage(
+  targetUrl: string,
+  originalQuery: string,
+  apiKeys: { SCRAPYBARA_API_KEY?: string; ANTHROPIC_API_KEY?: string },
+  config: ScrapingConfig,
+  events: ReturnType<typeof EventStreamWriter.createStepEventHelpers>
+): Promise<ScrapedPage> {
+  const { scrapers, reason } = planScrape(targetUrl, config, !!apiKeys.SCRAPYBARA_API_KEY);
+  console.log(`[Step: scrape-webpage] Scraping ${targetUrl} with ${scrapers.join(' then ')} (${reason})`);
+
+  let localResult: LocalScrapeResult | null = null;
+  let lastError: unknown = null;
+
+  for (const [index, scraper] of scrapers.entries()) {
+    const next = scrapers[index + 1];
+    let fallbackReason: string;
+
+    try {
+      if (scraper === 'scrapybara') {
+        const content = await scrapeWithScrapybara(targetUrl, originalQuery, apiKeys, events);
+        return {
+          content,
+          scraper,
+          bytes: (localResult?.bytes ?? 0) + Buffer.byteLength(content),
+          links: extractMarkdownLinks(content, targetUrl)
+        };
+      }
+
+      await events.emitProgress(10, "Fetching page");
+      localResult = await scrapeLocally(targetUrl, config);
+      await events.emitProgress(40, "Extracted main content");
+
+      // Documents are complete as extracted; short HTML pages may need a browser
+      const thin = localResult.format === 'html'
+        && (localResult.needsJavaScript || localResult.textLength < config.minTextLength);
+      if (!thin || !next) {
+        return localScrapedPage(localResult);
+      }
+      fallbackReason = localResult.needsJavaScript ? 'Page needs JavaScript' : `Only ${localResult.textLength} characters extracted`;
+    } catch (error) {
+      lastError = error;
+      fallbackReason = error instanceof Error ? error.message : String(error);
+      if (!next) break;
+    }
+
+    console.warn(`[Step: scrape-webpage] ${scraper} scraping of ${targetUrl} fell short (${fallbackReason}), trying ${next}`);
+    await events.emitCustom("scraper_fallback", {
+      url: targetUrl,
+      from: scraper,
+      to: next,
+      reason: fallbackReason
+    });
+  }
+
+  // A thin direct extraction beats no content when Scrapybara failed too
+  if (localResult && localResult.textLength > 0) {
+    return localScrapedPage(localResult);
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`Could not scrape ${targetUrl}`);
+}
+
+/**
+ * Scrape a web page through Scrapybara with timeout and retry handling
+ */
+async function scrapeWithScrapybara(
+  targetUrl: string,
+  originalQuery: string,
+  apiKeys: { SCRAPYBARA_API_KEY?: string; ANTHROPIC_API_KEY?: string },
+  events: ReturnType<typeof EventStreamWriter.createStepEventHelpers>
+): Promise<string> {
+  const { SCRAPYBARA_API_KEY, ANTHROPIC_API_KEY } = apiKeys;
+
+  // Verify API keys
+  if (!SCRAPYBARA_API_KEY) {
+    throw new Error("Missing Scrapybara API key");
+  }
+
+  // Initialize client
+  const client = new ScrapybaraClient({
+    apiKey: SCRAPYBARA_API_KEY,
+    anthropicApiKey: ANTHROPIC_API_KEY
+  });
+
+  // Create comprehensive instructions for content extraction
+  const instructions = generateScrapingInstructions(originalQuery);
+
+  // Execute scraping with timeout and retry logic
+  const timeoutMs = 45000; // 45 seconds
+  const MAX_RETRIES = 2;
+
+  let scrapedContent = "";
+  let retryCount = 0;
+  let lastError = null;
+
+  // Emit progress update
+  await events.emitProgress(10, "Starting scraping process");
+
+  while (retryCount <= MAX_RETRIES) {
+    try {
+      // Emit progress update for attempt
+      const progress = 10 + 30 * (retryCount / (MAX_RETRIES + 1));
+      await events.emitProgress(progress, `Scraping attempt ${retryCount + 1}`);
+
+      // Create a timeout promise
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error("Scraping operation timed out")), timeoutMs);
+      });
+
+      // Build the scrape options
+      const scrapeOptions = {
+        modelName: "claude-3-sonnet-20240229",
+        temperature: 0.2,
+        maxRetries: 1, // Scrapybara's internal retries
+        maxTokens: 6000,
+        maxScrolls: 5,
+        waitForSelectors: ['article', '.content', '.post', 'main', '#content', '.article', 'body'],
+        extractMetadata: true
+      };
+
+      // Race between scraping and timeout
+      const scrapePromise = client.act(targetUrl, instructions, scrapeOptions);
+      scrapedContent = await Promise.race([scrapePromise, timeoutPromise]);
+
+      // If we got here, scraping succeeded
+      await events.emitProgress(40, "Successfully scraped page content");
+      break;
+
+    } catch (error: any) {
+      lastError = error;
+      retryCount++;
+
+      // Log retry attempt
+      console.warn(`[Step: scrape-webpage] Retry ${retryCount}/${MAX_RETRIES} for ${targetUrl}: ${error.message}`);
+
+      // Only retry if:
+      // 1. We haven't exceeded max retries
+      // 2. Error is retryable (timeout, network, or HTTP 5xx)
+      const isRetryable =
+        error.message.includes("timed out") ||
+        error.message.includes("Network error") ||
+        error.message.includes("HTTP error 5");
+
+      if (retryCount > MAX_RETRIES || !isRetryable) {
+        throw error;
+      }
+
+      // Emit retry event
+      await events.emitCustom("scraping_retry", {
+        retryCount,
+        maxRetries: MAX_RETRIES,
+        url: targetUrl,
+        error: error.message
+      });
+
+      // Wait before retrying (exponential backoff)
+      await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
+    }
+  }
+
+  // If we had an error and exhausted retries, throw the last error
+  if (!scrapedContent && lastError) {
+    throw lastError;
+  }
+
+  return scrapedContent;
+}
+
 /**
  * Generate detailed instructions for Claude scraping based on query
  */
@@ -423,6 +673,23 @@ function processScrapedContent(content: string): string[] {
   return processedBlocks;
 }
 
+/**
+ * Content blocks of a paged document, each with the page it was taken from
+ */
+function processDocumentPages(documentPages: DocumentPage[]): { blocks: string[]; pages: number[] } {
+  const blocks: string[] = [];
+  const pages: number[] = [];
+
+  for (const page of documentPages) {
+    for (const block of processScrapedContent(page.text)) {
+      blocks.push(block);
+      pages.push(page.pageNumber);
+    }
+  }
+
+  return { blocks, pages };
+}
+
 /**
  * Split very long content blocks into smaller, logically separated chunks
  */
@@ -0,0 +1,110 @@
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import {
+  planningOutput,
+  semanticCacheOutput,
+  workflowOutput
+} from '../mastra-vnext-schemas';
+import { EventStreamWriter, getRuntimeContextValues, parseStructuredSummary } from '../mastra-vnext-utils';
+import { resolveSemanticCacheConfig, semanticQueryCache } from '../cache';
+
+/**
+ * Semantic Cache Step for Mastra vNext
+ *
+ * Embeds the enhanced query from the planning step and looks for an earlier
+ * completed search by the same user with a near-identical query. On a hit
+ * the earlier answer is attached as `cachedAnswer` and the workflow skips
+ * searching; on a miss the query embedding is stored so later paraphrases
+ * can reuse this search.
+ *
+ * Set `semanticCache: false` in the runtime context to opt a search out. A
+ * cached answer in another format than `summaryFormat` (json or text) counts
+ * as a miss.
+ */
+export const semanticCacheStep = createStep({
+  id: 'semantic-cache',
+  description: 'Reuses the answer of a recent search with a matching query',
+  inputSchema: planningOutput,
+  outputSchema: semanticCacheOutput,
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
+    const events = EventStreamWriter.createStepEventHelpers(emitter, 'semantic-cache');
+    const { searchId, userId, semanticCache, semanticCacheConfig, summaryFormat } = getRuntimeContextValues(runtimeContext);
+
+    if (semanticCache === false || !semanticQueryCache.isEnabled()) {
+      await events.emitCompleted({
+        cacheHit: false,
+        skipped: true,
+        message: semanticCache === false ? 'Semantic cache disabled for this search' : 'Semantic cache is not configured'
+      });
+      return inputData;
+    }
+
+    await events.emitRunning({ message: 'Checking for a recent answer to this question...' });
+
+    let embedding: number[];
+    try {
+      embedding = await semanticQueryCache.embedQuery(inputData.enhancedQuery);
+    } catch (error) {
+      console.warn(`[Step: semantic-cache] Could not embed query, skipping cache:`, error);
+      await events.emitCompleted({ cacheHit: false, skipped: true, message: 'Query embedding failed' });
+      return inputData;
+    }
+
+    const found = await semanticQueryCache.lookup(embedding, userId, resolveSemanticCacheConfig(semanticCacheConfig));
+    const hit = found && (parseStructuredSummary(found.summary) !== null) === (summaryFormat === 'json') ? found : null;
+
+    if (!hit) {
+      await semanticQueryCache.record(searchId, userId, inputData.enhancedQuery, embedding);
+      await events.emitCompleted({ cacheHit: false });
+      return inputData;
+    }
+
+    console.log(`[Step: semantic-cache] Reusing answer of search ${hit.searchId} (similarity ${hit.similarity.toFixed(3)})`);
+
+    await events.emitCompleted({
+      cacheHit: true,
+      cachedSearchId: hit.searchId,
+      similarity: hit.similarity
+    });
+
+    return {
+      ...inputData,
+      cachedAnswer: {
+        summary: hit.summary,
+        searchId,
+        metadata: {
+          enhancedQuery: inputData.enhancedQuery,
+          searchPath: 'cached',
+          generationComplete: true,
+          sources: hit.sources,
+          cachedAnswer: true,
+          cachedSearchId: hit.searchId,
+          cachedQuery: hit.enhancedQuery,
+          cacheSimilarity: hit.similarity,
+          cachedAt: hit.completedAt
+        }
+      }
+    };
+  },
+});
+
+/**
+ * Returns the answer found by the semantic cache step as the workflow output
+ */
+export const cachedAnswerStep = createStep({
+  id: 'cached-answer',
+  description: 'Returns a cached answer from an earlier search',
+  inputSchema: semanticCacheOutput,
+  outputSchema: workflowOutput,
+  async execute({ inputData, [EMITTER_SYMBOL]: emitter }) {
+    const events = EventStreamWriter.createStepEventHelpers(emitter, 'cached-answer');
+    const cachedAnswer = inputData.cachedAnswer!;
+
+    await events.emitCompleted({
+      cachedSearchId: cachedAnswer.metadata?.cachedSearchId,
+      sourceCount: cachedAnswer.metadata?.sources?.length || 0
+    });
+
+    return cachedAnswer;
+  },
+});
@@ -1,31 +1,42 @@
 import { z } from 'zod';
-import { createStep } from '../mastra-vnext-utils/step';
-import { EventStreamWriter } from '../mastra-vnext-utils/stream-events';
+import { createStep } from '@mastra/core/workflows';
+import { EMITTER_SYMBOL } from '@mastra/core/workflows/_constants';
+import { EventStreamWriter, StepEventEmitter } from '../mastra-vnext-utils/stream-events';
+import { getRuntimeContextValues } from '../mastra-vnext-utils/runtime-context';
+import { sanitizeAnswerHtml, sanitizeHtmlStream } from '../mastra-vnext-utils/content-processing';
+import { retrievedPassage, structuredAnswer, structuredAnswerDraft } from '../mastra-vnext-schemas';
+import { createReadableStreamFromAsyncGenerator } from '../utils/streaming';
+import { ChatMessage, ChatModel, getChatModel } from '../llm';
+import { GroundingReport, getGroundingJudge, resolveGroundingConfig, verifyAnswer, verifyClaims } from '../grounding';
 import { TransformStream } from 'stream/web';
 import { TextEncoder } from 'util';
 
 // Schema definitions
 const summaryInputSchema = z.object({
   relevantTexts: z.array(z.string()).nonempty(),
+  passages: z.array(retrievedPassage).optional(),
   planningOutput: z.object({
     enhancedQuery: z.string(),
     subQuestions: z.array(z.string()).optional(),
     plan: z.string().optional(),
   }),
-  format: z.enum(['markdown', 'html']).optional().default('html'),
+  // Defaults to `summaryFormat` from the runtime context, then html
+  format: z.enum(['markdown', 'html', 'json']).optional(),
   maxLength: z.number().optional(),
   includeCitations: z.boolean().optional().default(true),
+  additionalInstructions: z.string().optional(),
 });
 
 const summaryOutputSchema = z.object({
   summary: z.instanceof(ReadableStream),
   generationComplete: z.boolean(),
+  grounding: z.instanceof(Promise).optional(),
 });
 
 /**
- * Creates a stream of HTML content for the summary
+ * Creates a stream of the summary content, wrapped in the answer markup for HTML
  */
-function createSummaryStream(content: string, format: 'markdown' | 'html' = 'html'): ReadableStream {
+function createSummaryStream(content: string, format: 'markdown' | 'html' | 'json' = 'html'): ReadableStream {
   const encoder = new TextEncoder();
   
   if (format === 'html') {
@@ -43,7 +54,7 @@ function createSummaryStream(content: string, format: 'markdown' | 'html' = 'htm
       }
     });
   } else {
-    // Return raw markdown 
+    // Return raw markdown or JSON
     return new ReadableStream({
       start(controller) {
         controller.enqueue(encoder.encode(content));
@@ -53,60 +64,302 @@ function createSummaryStream(content: string, format: 'markdown' | 'html' = 'htm
   }
 }
 
+type RetrievedPassage = z.infer<typeof retrievedPassage>;
+type StructuredAnswer = z.infer<typeof structuredAnswer>;
+type StructuredAnswerDraft = z.infer<typeof structuredAnswerDraft>;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Where in its page a passage was taken from: its section and, for paged
+ * documents, the page number ("Results › Costs, p. 14")
+ */
+function passageLocation(passage: RetrievedPassage, separator = ' › '): string {
+  return [
+    passage.headingPath.join(separator),
+    passage.page !== undefined ? `p. ${passage.page}` : ''
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Citation list entries, one per passage: page title or URL plus the
+ * section (and page of documents) the passage was taken from
+ */
+function renderCitations(passages: RetrievedPassage[]): string {
+  return passages.map((passage, index) => {
+    const location = passageLocation(passage);
+    const section = location ? ` — ${escapeHtml(location)}` : '';
+    return `<li id="citation-${index + 1}"><a href="${escapeHtml(passage.url)}">${escapeHtml(passage.title || passage.url)}</a>${section}</li>`;
+  }).join('');
+}
+
+/**
+ * Markdown citation list, one numbered entry per passage
+ */
+function renderMarkdownCitations(passages: RetrievedPassage[]): string {
+  return passages.map((passage, index) => {
+    const location = passageLocation(passage);
+    const section = location ? ` — ${location}` : '';
+    return `${index + 1}. [${passage.title || passage.url}](${passage.url})${section}`;
+  }).join('\n');
+}
+
+/**
+ * Chat messages asking the model to answer from the numbered sources
+ */
+function buildSummaryMessages(options: {
+  query: string;
+  subQuestions: string[];
+  plan: string;
+  sources: string;
+  format: 'markdown' | 'html' | 'json';
+  maxLength?: number;
+  includeCitations: boolean;
+  additionalInstructions?: string;
+}): ChatMessage[] {
+  if (options.format === 'json') {
+    return buildStructuredAnswerMessages(options);
+  }
+
+  const instructions = [
+    'You write answers for a research search engine.',
+    'Answer the question using only the numbered sources. If they disagree, or do not cover part of the question, say so rather than guessing.',
+    options.includeCitations
+      ? 'Cite the sources supporting each claim inline by number, like [1] or [2][3]. Do not add a list of references; it is appended for you.'
+      : 'Do not cite sources or add references.',
+    options.format === 'html'
+      ? 'Format the answer as an HTML fragment using only <h2>, <h3>, <p>, <ul>, <ol>, <li>, <strong>, <em>, <code> and <pre>. Do not use Markdown or wrap the answer in <html> or <body>.'
+      : 'Format the answer in Markdown.',
+    options.maxLength ? `Keep the answer under ${options.maxLength} words.` : ''
+  ].filter(Boolean).join('\n');
+
+  const userMessage = [
+    `Question: ${options.query}`,
+    options.subQuestions.length > 0 ? `Points to cover:\n${options.subQuestions.map(question => `- ${question}`).join('\n')}` : '',
+    options.plan ? `Research plan: ${options.plan}` : '',
+    options.additionalInstructions ? `Reviewer instructions: ${options.additionalInstructions}` : '',
+    `Sources:\n\n${options.sources}`
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    { role: 'system', content: instructions },
+    { role: 'user', content: userMessage }
+  ];
+}
+
+/**
+ * Shape of the JSON object requested for `json` answers, as shown to the model
+ */
+const STRUCTURED_ANSWER_EXAMPLE = `{
+  "sections": [{ "heading": string, "content": string (Markdown, citing sources inline as [n]), "citationIds": number[] }],
+  "keyPoints": [{ "text": string (one sentence), "citationIds": number[] }],
+  "claims": [{ "text": string (one factual statement), "citationIds": number[] }],
+  "confidence": { "score": number (0-1, how well the sources answer the question), "rationale": string },
+  "followUpQuestions": string[]
+}`;
+
 /**
- * Stream generator for LLM responses
+ * Chat messages asking for the answer as a JSON object (see structuredAnswerDraft)
+ */
+function buildStructuredAnswerMessages(options: {
+  query: string;
+  subQuestions: string[];
+  plan: string;
+  sources: string;
+  maxLength?: number;
+  includeCitations: boolean;
+  additionalInstructions?: string;
+}): ChatMessage[] {
+  const instructions = [
+    'You write answers for a research search engine.',
+    'Answer the question using only the numbered sources. If they disagree, or do not cover part of the question, say so rather than guessing.',
+    `Reply with a single JSON object and nothing else, shaped like:\n${STRUCTURED_ANSWER_EXAMPLE}`,
+    'Split the answer into one or more sections. List every factual statement of the answer under "claims".',
+    options.includeCitations
+      ? 'Give each section, key point and claim the numbers of the sources supporting it in "citationIds".'
+      : 'Leave every "citationIds" empty.',
+    options.maxLength ? `Keep the sections under ${options.maxLength} words in total.` : ''
+  ].filter(Boolean).join('\n');
+
+  const userMessage = [
+    `Question: ${options.query}`,
+    options.subQuestions.length > 0 ? `Points to cover:\n${options.subQuestions.map(question => `- ${question}`).join('\n')}` : '',
+    options.plan ? `Research plan: ${options.plan}` : '',
+    options.additionalInstructions ? `Reviewer instructions: ${options.additionalInstructions}` : '',
+    `Sources:\n\n${options.sources}`
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    { role: 'system', content: instructions },
+    { role: 'user', content: userMessage }
+  ];
+}
+
+/**
+ * Ask the model for a structured answer and validate it
+ *
+ * Models sometimes wrap the object in prose or code fences, so the outermost
+ * braces are parsed. An invalid reply is sent back once with the validation
+ * errors before giving up.
+ */
+async function requestStructuredAnswer(model: ChatModel, messages: ChatMessage[]): Promise<StructuredAnswerDraft> {
+  let conversation = messages;
+  let lastError = '';
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    let reply = '';
+    for await (const chunk of model.stream(conversation, { temperature: 0.2, maxTokens: 4096, responseFormat: 'json' })) {
+      reply += chunk;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(reply.match(/\{[\s\S]*\}/)?.[0] ?? reply);
+    } catch (parseError) {
+      lastError = `Reply is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`;
+    }
+
+    if (parsed !== undefined) {
+      const result = structuredAnswerDraft.safeParse(parsed);
+      if (result.success) return result.data;
+      lastError = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: reply },
+      { role: 'user', content: `That reply does not match the requested JSON shape (${lastError}). Reply again with the corrected JSON object only.` }
+    ];
+  }
+
+  throw new Error(`Invalid structured answer from ${model.id}: ${lastError}`);
+}
+
+/**
+ * Confidence bucket shown to readers
+ */
+function confidenceLevel(score: number): 'low' | 'medium' | 'high' {
+  if (score >= 0.75) return 'high';
+  if (score >= 0.4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Turn inline [n] markers of an HTML answer into links to the citation list
+ *
+ * Text ending in a possibly unfinished marker ("[", "[1") is held back until
+ * the next chunk shows whether it is one.
+ */
+async function* linkCitations(chunks: AsyncIterable<string>, citationCount: number): AsyncGenerator<string> {
+  let pending = '';
+  const link = (text: string) => text.replace(/\[(\d+)\]/g, (marker, id) =>
+    Number(id) >= 1 && Number(id) <= citationCount
+      ? `<a href="#citation-${id}" data-citation="${id}">[${id}]</a>`
+      : marker
+  );
+
+  for await (const chunk of chunks) {
+    pending += chunk;
+    const partial = pending.match(/\[\d*$/);
+    const ready = partial ? pending.slice(0, partial.index) : pending;
+    pending = partial ? partial[0] : '';
+    if (ready) yield link(ready);
+  }
+
+  if (pending) yield link(pending);
+}
+
+/**
+ * Pass through chunks of text while keeping a copy of everything passed
+ */
+async function* collectText(chunks: AsyncIterable<string>, collected: { text: string }): AsyncGenerator<string> {
+  for await (const chunk of chunks) {
+    collected.text += chunk;
+    yield chunk;
+  }
+}
+
+/**
+ * Pass summary bytes through to the client while reporting them as step
+ * events: `summary_delta` events carry the text generated since the last one,
+ * which clients append to render the answer as it is written, and the
+ * completed event carries the whole answer.
  */
 function createStreamingTransformer(
-  emitter: EventEmitter,
+  emitter: StepEventEmitter,
   stepId: string,
   startEvent: any = {}
 ): TransformStream<Uint8Array, Uint8Array> {
-  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
   let buffer = '';
+  let delta = '';
+  let lastDeltaUpdate = 0;
   let lastProgressUpdate = Date.now();
   let totalChunks = 0;
   const events = EventStreamWriter.createStepEventHelpers(emitter, stepId);
   
-  // Report progress every 500ms
+  // Send new text at most every 250ms and report progress every 500ms
+  const DELTA_INTERVAL = 250;
   const PROGRESS_INTERVAL = 500;
+
+  const emitDelta = async () => {
+    if (!delta) return;
+    await events.emitCustom('summary_delta', { delta, loading: true });
+    delta = '';
+    lastDeltaUpdate = Date.now();
+  };
   
   // Emit initial running status
   events.emitRunning(startEvent);
   
   return new TransformStream({
     async transform(chunk, controller) {
-      const text = new TextDecoder().decode(chunk);
+      const text = decoder.decode(chunk, { stream: true });
       buffer += text;
+      delta += text;
       totalChunks++;
       
       // Pass through the chunk
       controller.enqueue(chunk);
       
-      // Report progress periodically
       const now = Date.now();
+      if (now - lastDeltaUpdate > DELTA_INTERVAL) {
+        await emitDelta();
+      }
+
+      // Report progress periodically
       if (now - lastProgressUpdate > PROGRESS_INTERVAL) {
         lastProgressUpdate = now;
         await events.emitProgress(
-          Math.min(95, Math.floor(25 + (totalChunks / 20) * 70)), // Estimate progress 25%-95%
+          Math.min(95, Math.floor(25 + (totalChunks / 200) * 70)), // Estimate progress 25%-95%
           "Generating summary..."
         );
-        
-        // Also emit a custom event with the latest buffer content
-        await events.emitCustom('summary_progress', {
-          chunkCount: totalChunks,
-          recentText: buffer.substring(buffer.length - 100) // Last 100 chars
-        });
       }
     },
-    async flush(controller) {
+    async flush() {
+      const rest = decoder.decode();
+      buffer += rest;
+      delta += rest;
+      await emitDelta();
+
       // Emit final progress
       await events.emitProgress(100, "Summary generation complete");
       
-      // Emit completion event
+      // The completed event repeats the full answer after its deltas: clients
+      // speaking protocol versions 1 and 2 don't receive summary_delta events,
+      // and the answer reaches them only here
       await events.emitCompleted({
         message: "Summary generated successfully",
         chunkCount: totalChunks,
-        contentLength: buffer.length
+        contentLength: buffer.length,
+        summary: buffer,
+        loading: false
       });
     }
   });
@@ -115,42 +368,91 @@ function createStreamingTransformer(
 /**
  * Native vNext Summary Step
  * 
- * Generates a comprehensive summary from relevant texts using an LLM.
- * Supports streaming to provide real-time updates to the client.
+ * Generates an answer from the relevant texts with a chat model, citing them
+ * by number. The answer is streamed: tokens are returned in the summary
+ * stream as the model produces them and reported as `summary_delta` events.
+ *
+ * The model comes from `modelName` in the runtime context (e.g.
+ * `anthropic:claude-3-5-sonnet-latest`, `openai:gpt-4o-mini`, `fake`),
+ * defaulting to CHAT_MODEL; `apiKey` overrides the provider's key.
+ *
+ * Once the answer is written, each cited sentence is checked against the
+ * passages it cites (see lib/grounding) and the report is emitted as an
+ * `answer_verified` event. `grounding` resolves to the same report after the
+ * summary stream has been read, or to null when nothing was verified.
+ * `verifyCitations: false` in the runtime context skips the check and
+ * `groundingJudge` (none, llm or nli) picks the judge.
+ *
+ * With the `json` format the model is asked for a structured answer instead
+ * (sections, key points, claims with their citations, confidence and
+ * follow-up questions), validated against `structuredAnswerDraft` and
+ * completed with the source table. The stream then holds a single JSON
+ * `structuredAnswer`, whose claims are verified before it is sent.
  */
 export const summaryStep = createStep({
   id: 'summary-step',
-  name: 'Summary Generation',
   description: 'Creates a comprehensive answer from relevant texts with citations',
   inputSchema: summaryInputSchema,
   outputSchema: summaryOutputSchema,
   
-  async execute({ inputData, runtimeContext, emitter }) {
+  async execute({ inputData, runtimeContext, [EMITTER_SYMBOL]: emitter }) {
     const events = EventStreamWriter.createStepEventHelpers(emitter, 'summary-step');
+    const { summaryFormat } = getRuntimeContextValues(runtimeContext);
+    // Error answers are written in the requested format too
+    const format: 'markdown' | 'html' | 'json' = inputData.format ?? summaryFormat ?? 'html';
     
     try {
       // Extract inputs
-      const { relevantTexts, planningOutput, format = 'html', maxLength, includeCitations = true } = inputData;
+      const {
+        relevantTexts,
+        passages = [],
+        planningOutput,
+        maxLength,
+        includeCitations = true,
+        additionalInstructions
+      } = inputData;
       const { enhancedQuery, subQuestions = [], plan = '' } = planningOutput;
       
       // Get relevant configuration from context
-      const { modelName, apiKey, searchId } = runtimeContext.getAll();
+      const { modelName, apiKey, searchId, verifyCitations, groundingJudge, groundingConfig } = getRuntimeContextValues(runtimeContext);
+      const model = getChatModel(modelName, apiKey);
+      if (!model.isConfigured()) {
+        throw new Error(`Chat model ${model.id} is not configured (missing API key)`);
+      }
       
       // Emit initial running status
       await events.emitRunning({
         message: "Starting summary generation",
         textCount: relevantTexts.length,
-        format
+        format,
+        model: model.id
       });
       
       // Emit progress update
       await events.emitProgress(10, "Analyzing content for summary");
       
       // Create content for the summary prompt
-      const combinedTexts = relevantTexts.slice(0, 10).join('\n\n---\n\n');
+      // Number each text so the answer can cite it; the passage gives its page and section
+      const citedPassages = passages.slice(0, 10);
+      const combinedTexts = relevantTexts.slice(0, 10).map((text, index) => {
+        const passage = passages[index];
+        const location = passage ? passageLocation(passage, ' > ') : '';
+        const source = passage ? ` ${passage.url}${location ? ` (${location})` : ''}` : '';
+        return `[${index + 1}]${source}\n${text}`;
+      }).join('\n\n---\n\n');
       
       // Extract the search query for the prompt
       const query = enhancedQuery || 'Generate a comprehensive answer';
+      const messages = buildSummaryMessages({
+        query,
+        subQuestions,
+        plan,
+        sources: combinedTexts,
+        format,
+        maxLength,
+        includeCitations,
+        additionalInstructions
+      });
       
       // Emit progress update before starting the LLM call
       await events.emitProgress(20, "Preparing to generate summary");
@@ -159,83 +461,170 @@ export const summaryStep = createStep({
       await events.emitCustom('summary_preparation', {
         textCount: relevantTexts.length,
         format,
-        query
+        query,
+        model: model.id
       });
       
       // Emit progress update
       await events.emitProgress(25, "Starting summary generation");
-      
-      try {
-        // In this implementation, we'll create a mock stream for demonstration
-        // In a real implementation, you would:
-        // 1. Call your LLM service with streaming enabled
-        // 2. Pipe the LLM response through the transformer
-        // 3. Return the transformed stream
-        
-        // Mock implementation for testing the events and UI
-        const summaryContent = `
-          <h2>Answer Summary</h2>
-          <p>Based on the provided texts, here is a comprehensive answer to your query about "${query}":</p>
-          <p>The analysis of multiple sources indicates that there are several key points to consider...</p>
-          ${
-            includeCitations 
-              ? '<p>According to <a href="#citation-1" data-citation="1">[1]</a>, further research suggests...</p>' 
-              : '<p>Further research suggests...</p>'
-          }
-          <p>In conclusion, the evidence supports that...</p>
-          ${
-            includeCitations 
-              ? '<div class="citations"><h3>Citations</h3><ol><li id="citation-1">First source, retrieved from example.com</li></ol></div>' 
-              : ''
+
+      // Settled by generateAnswer once the whole answer has been verified
+      let resolveGrounding: (report: GroundingReport | null) => void = () => {};
+      const grounding = new Promise<GroundingReport | null>(resolve => {
+        resolveGrounding = resolve;
+      });
+
+      // Checks the model's text (without wrapper or citation list) against the cited passages
+      const verifyGrounding = async (answerText: string) => {
+        if (verifyCitations === false || !includeCitations || citedPassages.length === 0 || !answerText) {
+          resolveGrounding(null);
+          return;
+        }
+
+        try {
+          const report = await verifyAnswer(
+            answerText,
+            relevantTexts.slice(0, 10),
+            getGroundingJudge(groundingJudge),
+            resolveGroundingConfig(groundingConfig)
+          );
+          await events.emitCustom('answer_verified', report);
+          resolveGrounding(report);
+        } catch (verifyError) {
+          console.error(`[Step: summary-step] Error verifying citations:`, verifyError);
+          resolveGrounding(null);
+        }
+      };
+
+      // The structured answer as a single JSON chunk, its claims already verified
+      async function* generateStructuredAnswer(): AsyncGenerator<string> {
+        try {
+          const draft = await requestStructuredAnswer(model, messages);
+          const answer: StructuredAnswer = {
+            ...draft,
+            query,
+            confidence: { ...draft.confidence, level: confidenceLevel(draft.confidence.score) },
+            sources: includeCitations
+              ? citedPassages.map((passage, index) => ({
+                id: index + 1,
+                url: passage.url,
+                title: passage.title,
+                headingPath: passage.headingPath,
+                page: passage.page,
+                snapshotId: passage.snapshotId,
+                kind: passage.kind,
+                retrievalScore: passage.score,
+                rerankScore: passage.rerankScore
+              }))
+              : [],
+            model: model.id,
+            generatedAt: new Date().toISOString()
+          };
+
+          if (verifyCitations !== false && includeCitations && citedPassages.length > 0 && answer.claims.length > 0) {
+            try {
+              const report = await verifyClaims(
+                answer.claims,
+                relevantTexts.slice(0, 10),
+                getGroundingJudge(groundingJudge),
+                resolveGroundingConfig(groundingConfig)
+              );
+              answer.claims = answer.claims.map((claim, index) => ({ ...claim, grounding: report.claims[index].status }));
+              await events.emitCustom('answer_verified', report);
+              resolveGrounding(report);
+            } catch (verifyError) {
+              console.error(`[Step: summary-step] Error verifying claims:`, verifyError);
+              resolveGrounding(null);
+            }
+          } else {
+            resolveGrounding(null);
           }
-        `;
-        
-        // Create the base stream with the content
-        const baseStream = createSummaryStream(summaryContent, format);
-        
-        // Create the transformer that will handle progress updates
-        const transformer = createStreamingTransformer(
-          emitter, 
-          'summary-step', 
-          { 
-            message: "Generating summary in real-time", 
-            format 
+
+          yield JSON.stringify(answer);
+        } catch (generationError) {
+          console.error(`[Step: summary-step] Error generating structured answer from ${model.id}:`, generationError);
+          const message = generationError instanceof Error ? generationError.message : String(generationError);
+
+          await events.emitCustom('stream_error', {
+            error: message,
+            phase: 'structured',
+            model: model.id
+          });
+
+          resolveGrounding(null);
+          yield JSON.stringify({ error: message });
+        }
+      }
+
+      // The answer in display order: wrapper, model tokens, citation list
+      async function* generateAnswer(): AsyncGenerator<string> {
+        if (format === 'json') {
+          yield* generateStructuredAnswer();
+          return;
+        }
+
+        const answer = { text: '' };
+
+        if (format === 'html') {
+          yield '<div class="answer-container"><div class="answer-content">';
+        }
+
+        try {
+          const tokens = collectText(model.stream(messages, { temperature: 0.3, maxTokens: 2048 }), answer);
+          if (format === 'html') {
+            // The model's markup is untrusted; only allowlisted tags reach the client
+            const html = sanitizeHtmlStream(tokens);
+            yield* includeCitations ? linkCitations(html, citedPassages.length) : html;
+          } else {
+            yield* tokens;
           }
-        );
-        
-        // Create the final stream by piping through the transformer
-        const transformedStream = baseStream.pipeThrough(transformer);
-        
-        // Return the result
-        return { 
-          summary: transformedStream,
-          generationComplete: true
-        };
-        
-      } catch (streamError) {
-        console.error("Error during summary stream generation:", streamError);
-        
-        // Emit failure for the streaming specifically
-        await events.emitCustom('stream_error', {
-          error: streamError.message,
-          phase: 'streaming'
-        });
-        
-        // Create an error stream as fallback
-        const errorContent = `
-          <div class="error-container">
-            <h2 class="text-xl font-bold mb-4 text-red-600">Summary Generation Error</h2>
-            <p class="mb-2">We encountered an error while generating your summary: ${streamError.message}</p>
-            <p class="mb-2">Please try again or simplify your query.</p>
-          </div>
-        `;
-        
-        // Return error content in a stream
-        return {
-          summary: createSummaryStream(errorContent, 'html'),
-          generationComplete: false
-        };
+        } catch (streamError) {
+          console.error(`[Step: summary-step] Error streaming from ${model.id}:`, streamError);
+          const message = streamError instanceof Error ? streamError.message : String(streamError);
+
+          await events.emitCustom('stream_error', {
+            error: message,
+            phase: 'streaming',
+            model: model.id
+          });
+
+          yield format === 'html'
+            ? `<p class="text-red-600">The answer was cut short by an error: ${escapeHtml(message)}</p>`
+            : `\n\n_The answer was cut short by an error: ${message}_`;
+        }
+
+        if (includeCitations && citedPassages.length > 0) {
+          yield format === 'html'
+            ? sanitizeAnswerHtml(`<div class="citations"><h3>Citations</h3><ol>${renderCitations(citedPassages)}</ol></div>`)
+            : `\n\n## Citations\n\n${renderMarkdownCitations(citedPassages)}\n`;
+        }
+
+        if (format === 'html') {
+          yield '</div></div>';
+        }
+
+        await verifyGrounding(answer.text);
       }
+
+      console.log(`[Step: summary-step] Streaming answer for searchId ${searchId} from ${model.id}`);
+
+      // Create the transformer that reports the answer as it is generated
+      const transformer = createStreamingTransformer(
+        emitter, 
+        'summary-step', 
+        { 
+          message: "Generating summary in real-time", 
+          format,
+          model: model.id
+        }
+      );
+
+      // Tokens are generated as the returned stream is read
+      return {
+        summary: createReadableStreamFromAsyncGenerator(generateAnswer()).pipeThrough(transformer),
+        generationComplete: true,
+        grounding
+      };
       
     } catch (error) {
       console.error("Summary step failed:", error);
@@ -251,17 +640,20 @@ export const summaryStep = createStep({
       const errorContent = `
         <div class="error-container">
           <h2 class="text-xl font-bold mb-4 text-red-600">Summary Generation Error</h2>
-          <p class="mb-2">We encountered an error: ${errorMessage}</p>
+          <p class="mb-2">We encountered an error: ${escapeHtml(errorMessage)}</p>
           <p class="mb-2">Please try again with a different query.</p>
         </div>
       `;
       
       return {
-        summary: createSummaryStream(errorContent, 'html'),
-        generationComplete: false
+        summary: format === 'json'
+          ? createSummaryStream(JSON.stringify({ error: errorMessage }), 'json')
+          : createSummaryStream(format === 'html' ? errorContent : `_Summary generation failed: ${errorMessage}_`, format),
+        generationComplete: false,
+        grounding: Promise.resolve(null)
       };
     }
   }
 });
 
-export default summaryStep;
\ No newline at end of file
+export default summaryStep;
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeAnswerHtml, sanitizeHtmlStream } from './content-processing';
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<string> {
+  yield* chunks;
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+}
+
+test('sanitizeAnswerHtml keeps the answer markup and removes scripts and handlers', () => {
+  const html = sanitizeAnswerHtml(
+    '<h2>Answer</h2><p onclick="steal()">Cats purr <strong>[1]</strong>.</p>' +
+    '<script>alert(1)</script><img src=x onerror="alert(1)"><iframe src="https://example.com"></iframe>'
+  );
+
+  assert.equal(html, '<h2>Answer</h2><p>Cats purr <strong>[1]</strong>.</p>');
+});
+
+test('sanitizeAnswerHtml keeps citation links but not javascript: URLs', () => {
+  assert.equal(
+    sanitizeAnswerHtml('<a href="#citation-1" data-citation="1">[1]</a>'),
+    '<a href="#citation-1" data-citation="1">[1]</a>'
+  );
+  assert.equal(
+    sanitizeAnswerHtml('<li id="citation-1"><a href="javascript:alert(1)">Source</a></li>'),
+    '<li id="citation-1"><a>Source</a></li>'
+  );
+});
+
+test('sanitizeHtmlStream holds back elements until they are closed', async () => {
+  const chunks = await collect(sanitizeHtmlStream(chunksOf(
+    '<p>Cats ', 'purr.</p><ul><li>One</li>', '<li>Two</li></ul><p>Tail'
+  )));
+
+  assert.deepEqual(chunks, ['<p>Cats purr.</p>', '<ul><li>One</li><li>Two</li></ul>', '<p>Tail</p>']);
+});
+
+test('sanitizeHtmlStream removes tags split across chunks', async () => {
+  const chunks = await collect(sanitizeHtmlStream(chunksOf(
+    '<p>Safe</p><scr', 'ipt>alert(1)</scr', 'ipt><img src=x one', 'rror="alert(1)"><p>More</p>'
+  )));
+
+  assert.equal(chunks.join(''), '<p>Safe</p><p>More</p>');
+});
+
+test('sanitizeHtmlStream sends text outside elements as it arrives', async () => {
+  const chunks = await collect(sanitizeHtmlStream(chunksOf(
+    'Cats purr ', 'when content &am', 'p; calm <str', 'ong>[1]</strong>.'
+  )));
+
+  assert.deepEqual(chunks, ['Cats purr ', 'when content ', '&amp; calm ', '<strong>[1]</strong>', '.']);
+});
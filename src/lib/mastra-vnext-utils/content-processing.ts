@@ -5,6 +5,9 @@
  * extracting structured information, and cleaning HTML.
  */
 
+import sanitizeHtml from 'sanitize-html';
+import { Parser } from 'htmlparser2';
+
 /**
  * Extract "think" sections from AI-generated text
  * These sections are typically enclosed in <think> tags and represent 
@@ -77,6 +80,61 @@ export function extractCitations(text: string): Array<{ id: string, text: string
   return citations;
 }
 
+/**
+ * Split a generated answer into sentences with the [n] markers attached to each
+ * 
+ * HTML tags are stripped first. A marker placed after the closing punctuation
+ * ("... purr. [1]") belongs to the sentence before it. Markers are removed
+ * from the returned sentence text.
+ * 
+ * @param text The answer text (HTML or Markdown)
+ * @returns One entry per sentence, in order
+ */
+export function extractCitedSentences(text: string): Array<{ sentence: string, citationIds: number[] }> {
+  const plain = text
+    .replace(/<\/(p|li|h[1-6]|div|pre|tr)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"');
+
+  const sentences: Array<{ sentence: string, citationIds: number[] }> = [];
+  const markerRegex = /\[(\d+)\]/g;
+
+  for (const line of plain.split(/\n+/)) {
+    // Markdown headings and list bullets are not part of the sentence
+    const content = line.replace(/^\s*(#{1,6}\s+|[-*+]\s+|\d+\.\s+)/, '');
+    const pieces = content.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [];
+
+    for (const piece of pieces) {
+      // Leading markers close the previous sentence
+      const leading = piece.match(/^(\s*\[\d+\])+/);
+      if (leading && sentences.length > 0) {
+        const previous = sentences[sentences.length - 1];
+        for (const match of leading[0].matchAll(markerRegex)) {
+          previous.citationIds.push(Number(match[1]));
+        }
+      }
+
+      const rest = leading && sentences.length > 0 ? piece.slice(leading[0].length) : piece;
+      const citationIds = [...rest.matchAll(markerRegex)].map(match => Number(match[1]));
+      const sentence = rest.replace(markerRegex, '').replace(/\s+([.,;:!?])/g, '$1').replace(/\s+/g, ' ').trim();
+      if (/[\p{L}\p{N}]/u.test(sentence)) {
+        sentences.push({ sentence, citationIds });
+      } else if (citationIds.length > 0 && sentences.length > 0) {
+        sentences[sentences.length - 1].citationIds.push(...citationIds);
+      }
+    }
+  }
+
+  for (const entry of sentences) {
+    entry.citationIds = [...new Set(entry.citationIds)];
+  }
+  return sentences;
+}
+
 /**
  * Extract URL from a citation text if present
  * 
@@ -89,6 +147,123 @@ function extractUrlFromCitation(citationText: string): string | undefined {
   return match ? match[0] : undefined;
 }
 
+/**
+ * Parse a summary written in the `json` format
+ * 
+ * Stored summaries are plain text; structured answers are stored as their
+ * JSON, so a summary starting with "{" that parses is one.
+ * 
+ * @param summary Summary text as generated or stored
+ * @returns The structured answer, or null for HTML and Markdown summaries
+ */
+export function parseStructuredSummary(summary: string): Record<string, any> | null {
+  if (!summary.trimStart().startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(summary);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Markup an HTML answer may contain: what the summary prompt asks the model
+// for, plus the citation links and list added around its text
+const ANSWER_HTML_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ['div', 'h2', 'h3', 'p', 'br', 'ul', 'ol', 'li', 'strong', 'em', 'code', 'pre', 'a'],
+  allowedAttributes: {
+    div: ['class'],
+    p: ['class'],
+    li: ['id'],
+    a: ['href', 'data-citation']
+  },
+  allowedSchemes: ['http', 'https', 'file'],
+  disallowedTagsMode: 'discard'
+};
+
+/**
+ * Sanitize an HTML answer before it is sent to or stored for the browser
+ * 
+ * Tags and attributes outside the answer allowlist are removed, along with
+ * the content of scripts and styles, and links to other schemes lose their
+ * `href`.
+ * 
+ * @param html Answer HTML, as generated by the model or stored
+ * @returns HTML safe to render
+ */
+export function sanitizeAnswerHtml(html: string): string {
+  return sanitizeHtml(html, ANSWER_HTML_OPTIONS);
+}
+
+/**
+ * Length of the text before a trailing tag or character reference that the
+ * next chunk may still complete
+ */
+function completeTextLength(text: string): number {
+  const tagStart = text.lastIndexOf('<');
+  const end = tagStart !== -1 && text.indexOf('>', tagStart) === -1 ? tagStart : text.length;
+  const reference = /&[#\w]*$/.exec(text.slice(0, end));
+  return reference ? reference.index : end;
+}
+
+/**
+ * Sanitize a streamed HTML answer one top-level element at a time
+ * 
+ * Text is held back until the elements it opens are closed, since an
+ * unfinished element can't be sanitized without closing it; the rest is
+ * sanitized once the stream ends. Text outside any element is sent as it
+ * arrives, up to a tag or character reference that may be unfinished.
+ * 
+ * @param chunks Answer HTML as the model streams it
+ * @returns Sanitized HTML, in complete top-level elements and text
+ */
+export async function* sanitizeHtmlStream(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = '';
+  // Parser indices count from the start of the stream, `pending` from `offset`
+  let offset = 0;
+  let boundary = 0;
+  let depth = 0;
+
+  const parser: Parser = new Parser({
+    onopentag() {
+      depth++;
+    },
+    onclosetag(_name, isImplied) {
+      depth = Math.max(0, depth - 1);
+      // Implied closes are found at the next tag; the element ends with the one that follows
+      if (depth === 0 && !isImplied) {
+        boundary = parser.endIndex + 1;
+      }
+    }
+  });
+
+  for await (const chunk of chunks) {
+    pending += chunk;
+    parser.write(chunk);
+
+    if (boundary > offset) {
+      const ready = pending.slice(0, boundary - offset);
+      pending = pending.slice(boundary - offset);
+      offset = boundary;
+      yield sanitizeAnswerHtml(ready);
+    }
+
+    if (depth === 0 && pending) {
+      const end = completeTextLength(pending);
+      if (end > 0) {
+        const ready = pending.slice(0, end);
+        pending = pending.slice(end);
+        offset += end;
+        yield sanitizeAnswerHtml(ready);
+      }
+    }
+  }
+
+  parser.end();
+  if (pending) {
+    yield sanitizeAnswerHtml(pending);
+  }
+}
+
 /**
  * Clean HTML content by removing scripts, styles, and unnecessary elements
  * 
@@ -8,7 +8,14 @@
 import { CodeInterpreter } from '@/lib/utils/e2b-adapter.mjs';
 import type { ScrapybaraClient } from 'scrapybara';
 import { EventEmitter } from 'events';
-import { EventStreamWriter } from './stream-events';
+import { EventStreamWriter, EventType } from './stream-events';
+import {
+  CrawlPolicyConfig,
+  CrawlSkippedError,
+  crawlPolicy,
+  resolveCrawlPolicyConfig,
+  resolveScrapingConfig
+} from '../scraping';
 
 /**
  * Interface for extracted content
@@ -83,14 +90,41 @@ export class ScrabybaraProcessor {
 
   /**
    * Extract content from a URL using Scrapybara
+   *
+   * The URL must be admitted by the crawl policy first; skipped URLs are
+   * reported with step_skipped and warning events and throw CrawlSkippedError.
    * @param url URL to extract content from
    * @param instructions Instructions for extraction
+   * @param options Search the page counts against, and crawl policy overrides
    * @returns Extracted content
    */
-  async extractContent(url: string, instructions: string): Promise<ExtractedContent> {
+  async extractContent(
+    url: string,
+    instructions: string,
+    options: { searchId?: string; crawlPolicyConfig?: Partial<CrawlPolicyConfig> } = {}
+  ): Promise<ExtractedContent> {
     if (!this.scrapybaraClient) {
       throw new Error('Scrapybara client not initialized');
     }
+
+    const decision = await crawlPolicy.admit(url, {
+      searchId: options.searchId,
+      config: resolveCrawlPolicyConfig(options.crawlPolicyConfig),
+      scraping: resolveScrapingConfig()
+    });
+    if (!decision.allowed) {
+      await this.events.emitCustom(EventType.STEP_SKIPPED, {
+        url,
+        reason: decision.reason,
+        message: decision.message
+      });
+      await this.events.emitCustom(EventType.WARNING, {
+        message: `Skipped ${url}: ${decision.message}`,
+        reason: decision.reason
+      });
+      throw new CrawlSkippedError(url, decision.reason, decision.message);
+    }
+    let bytes = 0;
     
     // Emit event for starting extraction
     await this.events.emitCustom('extraction_started', {
@@ -101,6 +135,7 @@ export class ScrabybaraProcessor {
     try {
       // Execute scraping with Scrapybara
       const response = await this.scrapybaraClient.act(url, instructions);
+      bytes = Buffer.byteLength(String(response));
       
       // Basic parsing of the response
       const title = this.extractTitle(response) || url;
@@ -130,6 +165,8 @@ export class ScrabybaraProcessor {
       });
       
       throw error;
+    } finally {
+      decision.release(bytes);
     }
   }
 
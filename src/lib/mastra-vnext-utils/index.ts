@@ -27,7 +27,8 @@ export const createStepEventHelpers = EventStreamWriter.createStepEventHelpers;
 // Export runtime context utilities
 export {
   createRuntimeContext,
-  createRuntimeContextFromSession
+  createRuntimeContextFromSession,
+  getRuntimeContextValues
 } from './runtime-context';
 
 // Export workflow creation utilities
@@ -44,6 +45,10 @@ export {
 export {
   extractThinkSections,
   extractCitations,
+  extractCitedSentences,
+  parseStructuredSummary,
+  sanitizeAnswerHtml,
+  sanitizeHtmlStream,
   cleanHTML,
   removeBannersAndAds
 } from './content-processing';
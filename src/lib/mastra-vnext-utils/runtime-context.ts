@@ -1,105 +1,22 @@
-import type { z } from 'zod';
+import { RuntimeContext } from '@mastra/core/di';
 
 /**
  * Runtime context for Mastra vNext workflow steps
+ *
+ * Workflows are started with Mastra's RuntimeContext, which the engine hands
+ * to every step, including those of nested workflows.
  */
 
-export interface RuntimeContextValue {
-  key: string;
-  value: any;
-  metadata?: Record<string, any>;
-}
-
-export class RuntimeContext {
-  private contextValues: Map<string, RuntimeContextValue>;
-
-  constructor(initialValues?: Record<string, any>) {
-    this.contextValues = new Map();
-    
-    if (initialValues) {
-      Object.entries(initialValues).forEach(([key, value]) => {
-        this.set(key, value);
-      });
-    }
-  }
-
-  /**
-   * Set a value in the context
-   */
-  set(key: string, value: any, metadata?: Record<string, any>): void {
-    this.contextValues.set(key, {
-      key,
-      value,
-      metadata
-    });
-  }
-
-  /**
-   * Get a value from the context
-   */
-  get(key: string): any {
-    return this.contextValues.get(key)?.value;
-  }
-
-  /**
-   * Get a value with its metadata
-   */
-  getWithMetadata(key: string): RuntimeContextValue | undefined {
-    return this.contextValues.get(key);
-  }
-
-  /**
-   * Check if a key exists in the context
-   */
-  has(key: string): boolean {
-    return this.contextValues.has(key);
-  }
+export { RuntimeContext };
 
-  /**
-   * Delete a key from the context
-   */
-  delete(key: string): boolean {
-    return this.contextValues.delete(key);
-  }
-
-  /**
-   * Get all keys in the context
-   */
-  keys(): string[] {
-    return Array.from(this.contextValues.keys());
-  }
-
-  /**
-   * Get all values in the context
-   */
-  values(): any[] {
-    return Array.from(this.contextValues.values()).map(v => v.value);
-  }
-
-  /**
-   * Get all entries in the context
-   */
-  entries(): [string, any][] {
-    return Array.from(this.contextValues.entries()).map(([k, v]) => [k, v.value]);
-  }
-
-  /**
-   * Convert context to serializable object
-   */
-  toJSON(): Record<string, any> {
-    const result: Record<string, any> = {};
-    this.contextValues.forEach((value, key) => {
-      result[key] = value.value;
-    });
-    return result;
-  }
-
-  /**
-   * Create context from serialized object
-   */
-  static fromJSON(json: Record<string, any>): RuntimeContext {
-    return new RuntimeContext(json);
-  }
+/**
+ * Read every value of a runtime context, for steps that need several
+ *
+ * @param runtimeContext The runtime context passed to the step
+ * @returns The context's values by key
+ */
+export function getRuntimeContextValues(runtimeContext: RuntimeContext): Record<string, any> {
+  return Object.fromEntries(runtimeContext.entries());
 }
 
 /**
@@ -0,0 +1,59 @@
+import test, { before } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.SEARCH_PROGRESS_STORE = 'memory';
+
+let streamEvents: typeof import('./stream-events');
+let searchProgress: typeof import('../search-progress');
+
+before(async () => {
+  streamEvents = await import('./stream-events');
+  searchProgress = await import('../search-progress');
+});
+
+function collectingStream(lines: string[]): WritableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  return new WritableStream({
+    write(chunk) {
+      lines.push(...decoder.decode(chunk).split('\n').filter(Boolean));
+    }
+  });
+}
+
+test('updates are streamed numbered and recorded in the event log by close', async () => {
+  const lines: string[] = [];
+  const writer = new streamEvents.EventStreamWriter(collectingStream(lines), 3, 'search-events-1');
+
+  await writer.sendWorkflowStarted('heat pumps', 'search-events-1');
+  await writer.sendManualUpdate(5, 'summary_delta', { delta: 'Heat pumps ', loading: true });
+  await writer.sendManualUpdate(5, 'summary_delta', { delta: 'move heat.', loading: true });
+  await writer.sendWorkflowCompleted('search-events-1');
+  await writer.close();
+
+  const streamed = lines.map(line => JSON.parse(line));
+  assert.deepEqual(streamed.map(event => [event.id, event.type]), [
+    [1, 'workflow_started'],
+    [2, 'summary_delta'],
+    [3, 'summary_delta'],
+    [4, 'workflow_completed']
+  ]);
+  assert.deepEqual(streamed[2].payload, { delta: 'move heat.', loading: true });
+
+  const recorded: number[] = [];
+  for await (const event of searchProgress.searchEventLog.follow('search-events-1', 0)) {
+    recorded.push(event.id);
+  }
+  assert.deepEqual(recorded, [1, 2, 3, 4]);
+});
+
+test('numbering continues after the events an earlier run recorded', async () => {
+  const first = new streamEvents.EventStreamWriter(undefined, 3, 'search-events-2');
+  await first.sendWorkflowStarted('heat pumps', 'search-events-2');
+  await first.close();
+
+  const second = new streamEvents.EventStreamWriter(undefined, 3, 'search-events-2');
+  await second.sendWorkflowStarted('heat pumps', 'search-events-2');
+  await second.close();
+
+  assert.equal(await searchProgress.searchEventLog.lastEventId('search-events-2'), 2);
+});
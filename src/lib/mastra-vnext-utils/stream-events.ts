@@ -1,46 +1,20 @@
 import { TextEncoder } from 'util';
-import { streamChunkOutput } from '../mastra-vnext-schemas';
-import type { z } from 'zod';
-import { EventEmitter } from 'events';
-
-/**
- * Event Types for vNext Events
- */
-export enum EventType {
-  // Workflow Events
-  WORKFLOW_STARTED = 'workflow_started',
-  WORKFLOW_COMPLETED = 'workflow_completed',
-  WORKFLOW_FAILED = 'workflow_failed',
-  WORKFLOW_SUSPENDED = 'workflow_suspended',
-  WORKFLOW_RESUMED = 'workflow_resumed',
-  WORKFLOW_AWAITING_USER_INPUT = 'workflow_awaiting_user_input',
-
-  // Step Events
-  STEP_RUNNING = 'step_running',
-  STEP_COMPLETED = 'step_completed',
-  STEP_FAILED = 'step_failed',
-  STEP_SKIPPED = 'step_skipped',
-
-  // Progress Events
-  PROGRESS_UPDATE = 'progress_update',
-  ENHANCING_QUERY = 'enhancing_query',
-  SEARCHING = 'searching',
-  READING = 'reading',
-  SYNTHESIZING = 'synthesizing',
-
-  // Error Events
-  ERROR = 'error',
-  WARNING = 'warning',
-
-  // Custom Events
-  LINK_SCRAPED = 'link_scraped',
-  RESULTS_FOUND = 'results_found',
-  BRANCH_SELECTED = 'branch_selected',
-  CITATION_ADDED = 'citation_added',
-
-  // Other
-  UNKNOWN = 'unknown'
-}
+import {
+  EVENT_PROTOCOL_VERSION,
+  EventProtocolError,
+  EventType,
+  StreamChunk,
+  encodeStreamEvent,
+  validateStreamEvent
+} from '../event-protocol';
+import { isFinalEvent, searchEventLog, type SearchProgressEvent } from '../search-progress';
+
+// Event types are defined by the stream protocol shared with the client
+export { EventType };
+
+// Events are recorded in batches of up to this many, or after this long
+const RECORD_BATCH_SIZE = 50;
+const RECORD_BATCH_MS = 250;
 
 /**
  * Client-side step mapping
@@ -52,11 +26,24 @@ export interface StepMap {
   description: string;
 }
 
+/**
+ * Emitter a step reports its events through: the one Mastra passes to steps
+ * under EMITTER_SYMBOL, or any EventEmitter
+ */
+export interface StepEventEmitter {
+  emit(event: string, data: any): unknown;
+}
+
 /**
  * EventStreamWriter
  *
  * A utility class for converting workflow events to client-friendly stream updates.
  * Handles transforming Mastra vNext events into standardized formats for client consumption.
+ * Updates are validated against the event protocol before they are written and
+ * encoded for the protocol version negotiated with the client. Given a search
+ * ID, updates are numbered and recorded in the search's event log, so clients
+ * can resume the stream after the last update they received. Recording
+ * happens in batches behind the stream, so a slow store never holds it up.
  */
 export class EventStreamWriter {
   private writable?: WritableStream;
@@ -65,12 +52,22 @@ export class EventStreamWriter {
   private lastUpdateTime: number = 0;
   private readonly UPDATE_THROTTLE_MS: number = 100; // Minimum ms between updates
   private stepMap: StepMap[];
+  private protocolVersion: number;
+  private searchId?: string;
+  private lastEventId?: Promise<number>;
+  private unrecorded: SearchProgressEvent[] = [];
+  private recordTimer?: ReturnType<typeof setTimeout>;
+  private recorded: Promise<void> = Promise.resolve();
 
   /**
    * Create a new EventStreamWriter
    * @param writable The WritableStream to write events to
+   * @param protocolVersion The event protocol version negotiated with the client
+   * @param searchId The search whose event log updates are recorded in
    */
-  constructor(writable?: WritableStream) {
+  constructor(writable?: WritableStream, protocolVersion: number = EVENT_PROTOCOL_VERSION, searchId?: string) {
+    this.protocolVersion = protocolVersion;
+    this.searchId = searchId;
     if (writable) {
       this.writable = writable;
       this.writer = writable.getWriter();
@@ -80,23 +77,32 @@ export class EventStreamWriter {
     // Define the step mapping for client-side rendering
     this.stepMap = [
       { id: 'planning-query-enhancement', clientStep: 1, clientType: 'enhancing', description: 'Enhancing your search term' },
+      { id: 'semantic-cache', clientStep: 1, clientType: 'enhancing', description: 'Checking for a recent answer' },
       { id: 'exa-search', clientStep: 2, clientType: 'searching', description: 'Searching Exa' },
       { id: 'jina-search', clientStep: 2, clientType: 'searching', description: 'Searching Jina AI' },
+      { id: 'local-corpus-search', clientStep: 2, clientType: 'searching', description: 'Searching local documents' },
       { id: 'deep-search', clientStep: 2, clientType: 'searching', description: 'Performing comprehensive search' },
       { id: 'aggregate-deduplicate', clientStep: 2, clientType: 'searching', description: 'Aggregating search results' },
       { id: 'scrape-webpage', clientStep: 3, clientType: 'reading', description: 'Reading sources' },
+      { id: 'deep-crawl', clientStep: 3, clientType: 'reading', description: 'Following relevant links' },
       { id: 'human-review', clientStep: 3, clientType: 'interactive', description: 'Awaiting your input' },
       { id: 'rag-step', clientStep: 4, clientType: 'reading', description: 'Analyzing content relevance' },
-      { id: 'summary-step', clientStep: 5, clientType: 'wrapping', description: 'Synthesizing information' }
+      { id: 'rerank-step', clientStep: 4, clientType: 'reading', description: 'Checking passages against your question' },
+      { id: 'summary-step', clientStep: 5, clientType: 'wrapping', description: 'Synthesizing information' },
+      { id: 'cached-answer', clientStep: 5, clientType: 'wrapping', description: 'Reusing a recent answer' }
     ];
   }
 
   /**
    * Get client step info from the step ID
+   *
+   * Events of nested workflows arrive with the workflow IDs as a prefix
+   * (`research-workflow.rag-step`), which is ignored.
    * @param stepId The vNext step ID
    * @returns The client step mapping info
    */
   private getStepInfo(stepId: string): StepMap {
+    stepId = stepId.split('.').pop() || stepId;
     return this.stepMap.find(step => step.id === stepId) || {
       id: stepId,
       clientStep: 0,
@@ -110,13 +116,13 @@ export class EventStreamWriter {
    * @param event The workflow event to convert
    * @returns A client update object
    */
-  convertEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  convertEventToUpdate(event: any): StreamChunk | null {
     // Handle different event types
     if (!event) return null;
 
     // Handle watch events (step events)
-    if (event.type === 'watch' && event.payload?.currentStep) {
-      return this.convertStepEventToUpdate(event);
+    if (event.type === 'watch') {
+      return event.payload?.currentStep ? this.convertStepEventToUpdate(event) : null;
     }
 
     // Handle workflow events
@@ -147,17 +153,41 @@ export class EventStreamWriter {
   /**
    * Convert a step event to a client update
    */
-  private convertStepEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  private convertStepEventToUpdate(event: any): StreamChunk | null {
     const { currentStep } = event.payload;
-    if (!currentStep || !currentStep.id) {
+    if (!currentStep || !currentStep.id || !currentStep.status) {
       return null;
     }
 
-    const stepId = currentStep.id;
-    const stepInfo = this.getStepInfo(stepId);
+    const stepInfo = this.getStepInfo(currentStep.id);
+    const stepId = stepInfo.clientStep ? stepInfo.id : currentStep.id;
+
+    // Data-shaping steps of a workflow (`.map`) are not shown
+    if (stepId.split('.').pop()!.startsWith('mapping_')) {
+      return null;
+    }
+
+    // The engine reports every step starting and finishing with the step's
+    // input as payload; steps send their own status events, so only the
+    // engine's failures are passed on
+    if (currentStep.startedAt !== undefined) {
+      if (currentStep.status !== 'failed') return null;
+      return {
+        step: stepInfo.clientStep,
+        type: `${stepInfo.clientType}_failed`,
+        payload: {
+          description: stepInfo.description,
+          status: 'failed',
+          stepId,
+          message: String(currentStep.error || 'An error occurred').split('\n')[0]
+        },
+        error: true,
+        errorType: 'step_failure'
+      };
+    }
 
     // Base update object
-    const update: z.infer<typeof streamChunkOutput> = {
+    const update: StreamChunk = {
       step: stepInfo.clientStep,
       type: `${stepInfo.clientType}_${currentStep.status}`,
       payload: {
@@ -188,12 +218,13 @@ export class EventStreamWriter {
 
       case 'exa-search':
       case 'jina-search':
+      case 'local-corpus-search':
       case 'deep-search':
         if (currentStep.status === 'completed' && currentStep.payload?.results) {
           update.step = 2; // Search step
           update.type = 'searching_completed';
           update.payload.resultCount = currentStep.payload.results.length;
-          update.payload.provider = stepId.split('-')[0]; // 'exa', 'jina', or 'deep'
+          update.payload.provider = stepId.split('-')[0]; // 'exa', 'jina', 'local', or 'deep'
         }
         break;
     }
@@ -211,13 +242,13 @@ export class EventStreamWriter {
   /**
    * Convert a workflow event to a client update
    */
-  private convertWorkflowEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  private convertWorkflowEventToUpdate(event: any): StreamChunk | null {
     if (!event.payload) return null;
 
     const { status, searchId, query, metadata, error, suspended } = event.payload;
 
     // Base workflow update
-    const update: z.infer<typeof streamChunkOutput> = {
+    const update: StreamChunk = {
       step: 0, // Workflow events are typically step 0 (global)
       type: `workflow_${status}`,
       payload: {
@@ -271,7 +302,7 @@ export class EventStreamWriter {
   /**
    * Convert a branch event to a client update
    */
-  private convertBranchEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  private convertBranchEventToUpdate(event: any): StreamChunk | null {
     if (!event.payload) return null;
 
     const { branchId, condition, result } = event.payload;
@@ -293,11 +324,15 @@ export class EventStreamWriter {
   /**
    * Convert a progress event to a client update
    */
-  private convertProgressEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  private convertProgressEventToUpdate(event: any): StreamChunk | null {
     if (!event.payload) return null;
 
-    const { step, progress, message } = event.payload;
-    const stepInfo = step ? this.getStepInfo(step) : { clientStep: 0, clientType: 'progress' };
+    // Step helpers send progress through the workflow's watch events
+    const { currentStep } = event.payload;
+    const { step, progress, message } = currentStep
+      ? { step: currentStep.id, ...currentStep.payload }
+      : event.payload;
+    const stepInfo = step ? this.getStepInfo(step) : { id: step, clientStep: 0, clientType: 'progress' };
 
     return {
       step: stepInfo.clientStep,
@@ -305,7 +340,7 @@ export class EventStreamWriter {
       payload: {
         progress: progress || 0,
         message: message || 'Processing',
-        stepId: step
+        stepId: stepInfo.clientStep ? stepInfo.id : step
       }
     };
   }
@@ -313,11 +348,15 @@ export class EventStreamWriter {
   /**
    * Convert a custom event to a client update
    */
-  private convertCustomEventToUpdate(event: any): z.infer<typeof streamChunkOutput> | null {
+  private convertCustomEventToUpdate(event: any): StreamChunk | null {
     if (!event.payload) return null;
 
-    // Map custom events to client-friendly format
-    const { eventType, data, step } = event.payload;
+    // Map custom events to client-friendly format; step helpers send them
+    // through the workflow's watch events
+    const { currentStep } = event.payload;
+    const { eventType, data, step } = currentStep
+      ? { step: currentStep.id, ...currentStep.payload }
+      : event.payload;
     const stepInfo = step ? this.getStepInfo(step) : { clientStep: 0, clientType: 'custom' };
 
     return {
@@ -341,9 +380,32 @@ export class EventStreamWriter {
 
   /**
    * Write a client update to the stream with throttling
+   *
+   * Updates that don't match the event protocol are not written.
    * @param update The client update to write
    */
-  async throttledWrite(update: z.infer<typeof streamChunkOutput>): Promise<boolean> {
+  async throttledWrite(update: StreamChunk): Promise<boolean> {
+    let event: StreamChunk;
+    try {
+      event = validateStreamEvent(update);
+    } catch (error) {
+      if (!(error instanceof EventProtocolError)) throw error;
+      console.error(`[EventStreamWriter] Not sending invalid update: ${error.message}`);
+      return false;
+    }
+
+    // Recorded even when the client is gone, so it can resume the stream
+    if (this.searchId) {
+      event = await this.recordEvent(this.searchId, event);
+    }
+
+    const encoded = encodeStreamEvent(event, this.protocolVersion);
+
+    // The client's protocol version has no equivalent of this update
+    if (!encoded) {
+      return true;
+    }
+
     const now = Date.now();
     const timeSinceLastUpdate = now - this.lastUpdateTime;
 
@@ -353,14 +415,14 @@ export class EventStreamWriter {
 
     // When used in test context, writer may not be available
     if (!this.writer) {
-      console.log(`[EventStreamWriter] Test mode - update: ${update.type} (step ${update.step})`);
+      console.log(`[EventStreamWriter] Test mode - update: ${encoded.type} (step ${encoded.step})`);
       this.lastUpdateTime = Date.now();
       return true;
     }
 
     try {
-      console.log(`[EventStreamWriter] Sending update: ${update.type} (step ${update.step})`);
-      await this.writer.write(this.encoder.encode(`${JSON.stringify(update)}\n`));
+      console.log(`[EventStreamWriter] Sending update: ${encoded.type} (step ${encoded.step})`);
+      await this.writer.write(this.encoder.encode(`${JSON.stringify(encoded)}\n`));
       this.lastUpdateTime = Date.now();
       return true;
     } catch (error) {
@@ -369,6 +431,47 @@ export class EventStreamWriter {
     }
   }
 
+  /**
+   * Number an update and queue it for the search's event log
+   *
+   * Numbering continues after the events of an earlier run of the search.
+   * Queued updates are recorded once a batch is full, after RECORD_BATCH_MS,
+   * or right away for a search's final update.
+   */
+  private async recordEvent(searchId: string, event: StreamChunk): Promise<StreamChunk> {
+    // Chained so updates are numbered in the order they were written
+    const id = (this.lastEventId ?? searchEventLog.lastEventId(searchId)).then(last => last + 1);
+    this.lastEventId = id;
+    const numbered = { ...event, id: await id };
+
+    this.unrecorded.push(numbered);
+    if (isFinalEvent(numbered) || this.unrecorded.length >= RECORD_BATCH_SIZE) {
+      this.flushRecords();
+    } else {
+      this.recordTimer ??= setTimeout(() => this.flushRecords(), RECORD_BATCH_MS);
+    }
+    return numbered;
+  }
+
+  /**
+   * Record the queued updates; batches are recorded one at a time, in order
+   */
+  private flushRecords(): Promise<void> {
+    clearTimeout(this.recordTimer);
+    this.recordTimer = undefined;
+
+    const batch = this.unrecorded.splice(0);
+    if (this.searchId && batch.length > 0) {
+      const searchId = this.searchId;
+      this.recorded = this.recorded
+        .then(() => searchEventLog.record(searchId, batch))
+        .catch(error => {
+          console.error(`[EventStreamWriter] Error recording events of search ${searchId}:`, error);
+        });
+    }
+    return this.recorded;
+  }
+
   /**
    * Send a manual update to the client
    * @param step The step number
@@ -384,7 +487,7 @@ export class EventStreamWriter {
     error: boolean = false,
     errorType?: string
   ): Promise<boolean> {
-    const update: z.infer<typeof streamChunkOutput> = {
+    const update: StreamChunk = {
       step,
       type,
       payload,
@@ -476,11 +579,15 @@ export class EventStreamWriter {
 
   /**
    * Create an event emitter helper for vNext steps
-   * @param emitter The vNext EventEmitter to wrap
+   *
+   * Every event is emitted as a `watch` event, the only kind a workflow run
+   * passes on to its watchers (and from nested workflows to their parent);
+   * progress and custom events keep their own `type`.
+   * @param emitter The vNext emitter to wrap
    * @param stepId The ID of the current step
    * @returns Helper functions for common events
    */
-  static createStepEventHelpers(emitter: EventEmitter, stepId: string) {
+  static createStepEventHelpers(emitter: StepEventEmitter, stepId: string) {
     return {
       /**
        * Emit a running event
@@ -546,12 +653,14 @@ export class EventStreamWriter {
        * @param message Progress message
        */
       emitProgress: async (progress: number, message: string) => {
-        await emitter.emit('progress', {
+        await emitter.emit('watch', {
           type: 'progress',
           payload: {
-            step: stepId,
-            progress,
-            message
+            currentStep: {
+              id: stepId,
+              status: 'running',
+              payload: { progress, message }
+            }
           },
           eventTimestamp: new Date()
         });
@@ -563,12 +672,14 @@ export class EventStreamWriter {
        * @param data Event data
        */
       emitCustom: async (eventType: string, data: any = {}) => {
-        await emitter.emit('custom', {
+        await emitter.emit('watch', {
           type: 'custom',
           payload: {
-            eventType,
-            data,
-            step: stepId
+            currentStep: {
+              id: stepId,
+              status: 'running',
+              payload: { eventType, data }
+            }
           },
           eventTimestamp: new Date()
         });
@@ -577,9 +688,11 @@ export class EventStreamWriter {
   }
   
   /**
-   * Close the stream writer
+   * Record the queued updates and close the stream writer
    */
   async close(): Promise<void> {
+    await this.flushRecords();
+
     // If there's no writer (test mode), just return
     if (!this.writer) {
       return;
@@ -24,6 +24,7 @@ import {
   aggregateAndDeduplicateSearchResultsStep,
   scrapeWebpageStep,
   ragStep,
+  rerankStep,
   deepSearchStep,
   summaryStep,
   contentProcessingStep,
@@ -59,7 +60,7 @@ function createErrorStream(errorMessage: string): ReadableStream {
  * 4. Branches between DeepSearch (for complex queries) or traditional search paths
  * 5. Scrapes content from relevant web pages
  * 6. Processes and analyzes content with E2B
- * 7. Uses RAG to find the most relevant content
+ * 7. Uses RAG to find the most relevant content, optionally reranked by a cross-encoder
  * 8. Generates a final summary with citations
  */
 export const enhancedSearchWorkflow = createWorkflow({
@@ -76,6 +77,7 @@ export const enhancedSearchWorkflow = createWorkflow({
     scrapeWebpageStep,
     contentProcessingStep,
     ragStep,
+    rerankStep,
     summaryStep,
     codeExecutionStep
   ],
@@ -240,37 +242,51 @@ enhancedSearchWorkflow
     };
   })
   .then(ragStep)
+  // Step 5b: Rerank the passages against the query and sub-questions
+  .map(async ({ inputData, getStepResult }) => {
+    const planningOutput = getStepResult(planningAndQueryEnhancementStep);
+
+    return {
+      ...inputData,
+      enhancedQuery: planningOutput.enhancedQuery,
+      subQuestions: planningOutput.subQuestions
+    };
+  })
+  .then(rerankStep)
   // Step 6: Generate the final summary
-  .then(ragOutput => {
+  .map(async ({ inputData, getStepResult }) => {
     // Get the planning step output
-    const planningOutput = enhancedSearchWorkflow.getStepResult(planningAndQueryEnhancementStep);
+    const planningOutput = getStepResult(planningAndQueryEnhancementStep);
     
     // Return the input for summary step
     return {
-      relevantTexts: ragOutput.relevantTexts,
+      relevantTexts: inputData.relevantTexts,
+      passages: inputData.passages,
       planningOutput: planningOutput
     };
   })
   .then(summaryStep)
   // Final output mapping
-  .map(summaryOutput => {
+  .map(async ({ inputData, getInitData, getStepResult }) => {
     // Get the original search ID
-    const { searchId } = enhancedSearchWorkflow.getInitData();
+    const { searchId } = getInitData();
     
     // Get the planning step output for metadata
-    const planningOutput = enhancedSearchWorkflow.getStepResult(planningAndQueryEnhancementStep);
+    const planningOutput = getStepResult(planningAndQueryEnhancementStep);
     
     // Determine which search path was taken
-    const isDeepSearch = !!enhancedSearchWorkflow.getStepResult(deepSearchStep);
+    const isDeepSearch = !!getStepResult(deepSearchStep);
     
     // Return the final workflow output
     return {
-      summary: summaryOutput.summary,
+      summary: inputData.summary,
       searchId,
       metadata: {
         enhancedQuery: planningOutput.enhancedQuery,
         searchPath: isDeepSearch ? 'complex' : 'standard',
-        generationComplete: summaryOutput.generationComplete
+        generationComplete: inputData.generationComplete,
+        // Resolves to the citation check once the summary stream has been read
+        grounding: inputData.grounding
       }
     };
   });
@@ -1,4 +1,4 @@
-import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { createStep, createWorkflow, type Workflow } from '@mastra/core/workflows';
 import { z } from 'zod';
 
 // Import vNext schemas
@@ -16,9 +16,13 @@ import {
   aggregateAndDeduplicateSearchResultsStep,
   humanReviewStep,
   ragStep,
+  rerankStep,
   summaryStep,
 } from '../mastra-vnext-steps';
 
+// Built untyped with `.map` steps shaping every input, like the search workflow
+type WorkflowBuilder = Workflow<any, any, any, any, any, any>;
+
 /**
  * Human Review Workflow
  * 
@@ -28,7 +32,7 @@ import {
  * 3. Executing searches across multiple providers
  * 4. Aggregating and deduplicating results
  * 5. Requesting human input on which search results to use
- * 6. Using RAG to process selected content
+ * 6. Using RAG to process selected content, optionally reranked by a cross-encoder
  * 7. Generating a final summary response
  */
 export const humanReviewWorkflow = createWorkflow({
@@ -43,6 +47,7 @@ export const humanReviewWorkflow = createWorkflow({
     aggregateAndDeduplicateSearchResultsStep,
     humanReviewStep,
     ragStep,
+    rerankStep,
     summaryStep,
   ],
   retryConfig: {
@@ -52,81 +57,107 @@ export const humanReviewWorkflow = createWorkflow({
 });
 
 // Define the workflow execution flow
-humanReviewWorkflow
+(humanReviewWorkflow as WorkflowBuilder)
+  // The planning step expects the raw user query as `originalQuery`
+  .map(async ({ inputData }) => ({
+    originalQuery: inputData.query
+  }))
+
   // Step 1: Planning and Query Enhancement
   .then(planningAndQueryEnhancementStep)
   
   // Step 2: Execute parallel search with Exa and Jina
+  .map(async ({ inputData }) => ({
+    enhancedQuery: inputData.enhancedQuery,
+    subQuestions: inputData.subQuestions
+  }))
   .parallel([exaSearchStep, jinaSearchStep])
   
   // Step 3: Aggregate and deduplicate search results
+  .map(async ({ inputData, getStepResult }) => ({
+    exaResults: inputData[exaSearchStep.id],
+    jinaResults: inputData[jinaSearchStep.id],
+    planningOutput: getStepResult(planningAndQueryEnhancementStep)
+  }))
   .then(aggregateAndDeduplicateSearchResultsStep)
   
   // Step 4: Human review of search results
-  .then(aggregateResults => {
+  .map(async ({ inputData, getInitData, getStepResult }) => {
     // Prepare input for human review step
     return {
-      searchResults: aggregateResults.aggregatedResults.slice(0, 10),
-      query: humanReviewWorkflow.getInitData().query,
-      enhancedQuery: humanReviewWorkflow.getStepResult(planningAndQueryEnhancementStep)?.enhancedQuery
+      searchResults: inputData.aggregatedResults.slice(0, 10),
+      query: getInitData().query,
+      enhancedQuery: getStepResult(planningAndQueryEnhancementStep)?.enhancedQuery
     };
   })
   .then(humanReviewStep)
   
   // Step 5: RAG on selected results
-  .then(humanReviewOutput => {
+  .map(async ({ inputData, getInitData, getStepResult }) => {
     // Get the planning step output
-    const planningResult = humanReviewWorkflow.getStepResult(planningAndQueryEnhancementStep);
+    const planningResult = getStepResult(planningAndQueryEnhancementStep);
     
     // Prepare for RAG with only selected results
     return {
-      scrapedContents: humanReviewOutput.selectedResults.map(result => ({
-        content: result.snippet || '',
-        metadata: {},
-        sourceInfo: {
-          url: result.url,
-          title: result.title
-        }
+      scrapedContents: inputData.selectedResults.map(result => ({
+        link: result.url,
+        content: [result.snippet || ''],
+        title: result.title
       })),
-      enhancedQuery: planningResult?.enhancedQuery || humanReviewWorkflow.getInitData().query,
-      subQuestions: planningResult?.subQuestions || [],
-      additionalInstructions: humanReviewOutput.additionalInstructions
+      enhancedQuery: planningResult?.enhancedQuery || getInitData().query,
+      subQuestions: planningResult?.subQuestions || []
     };
   })
   .then(ragStep)
+
+  // Step 5b: Rerank the passages against the query and sub-questions
+  .map(async ({ inputData, getInitData, getStepResult }) => {
+    const planningResult = getStepResult(planningAndQueryEnhancementStep);
+
+    return {
+      ...inputData,
+      enhancedQuery: planningResult?.enhancedQuery || getInitData().query,
+      subQuestions: planningResult?.subQuestions || []
+    };
+  })
+  .then(rerankStep)
   
   // Step 6: Generate final summary
-  .then(ragOutput => {
+  .map(async ({ inputData, getStepResult }) => {
     // Get the planning step output
-    const planningOutput = humanReviewWorkflow.getStepResult(planningAndQueryEnhancementStep);
+    const planningOutput = getStepResult(planningAndQueryEnhancementStep);
     
     // Prepare for summary generation
     return {
-      relevantTexts: ragOutput.relevantTexts,
+      relevantTexts: inputData.relevantTexts,
+      passages: inputData.passages,
       planningOutput: planningOutput,
       // Include additional instructions if provided during human review
-      additionalInstructions: humanReviewWorkflow.getStepResult(humanReviewStep)?.additionalInstructions
+      // (Mastra 0.10 can't type the result of a step with a resume schema)
+      additionalInstructions: getStepResult<any>(humanReviewStep)?.additionalInstructions
     };
   })
   .then(summaryStep)
   
   // Final output mapping
-  .map(summaryOutput => {
+  .map(async ({ inputData, getInitData, getStepResult }) => {
     // Get the original search ID
-    const { searchId } = humanReviewWorkflow.getInitData();
+    const { searchId } = getInitData();
     
     // Get the planning step output for metadata
-    const planningOutput = humanReviewWorkflow.getStepResult(planningAndQueryEnhancementStep);
-    const humanReviewOutput = humanReviewWorkflow.getStepResult(humanReviewStep);
+    const planningOutput = getStepResult(planningAndQueryEnhancementStep);
+    const humanReviewOutput = getStepResult<any>(humanReviewStep);
     
     // Return the final workflow output
     return {
-      summary: summaryOutput.summary,
+      summary: inputData.summary,
       searchId,
       metadata: {
         enhancedQuery: planningOutput?.enhancedQuery || '',
         searchPath: 'human_reviewed',
-        generationComplete: summaryOutput.generationComplete,
+        generationComplete: inputData.generationComplete,
+        // Resolves to the citation check once the summary stream has been read
+        grounding: inputData.grounding,
         userSelected: humanReviewOutput?.userSelection || false
       }
     };
@@ -0,0 +1,87 @@
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+// The search runs offline: only the local corpus is searched, pages are read
+// from disk and the fake chat model writes the answer
+const corpusDir = mkdtempSync(path.join(tmpdir(), 'sevensearch-corpus-'));
+Object.assign(process.env, {
+  LOCAL_CORPUS_DIR: corpusDir,
+  EXA_API_KEY: '',
+  JINA_API_KEY: '',
+  GEMINI_API_KEY: '',
+  SEARXNG_BASE_URL: '',
+  SNAPSHOT_STORE: 'memory',
+  SEARCH_PROGRESS_STORE: 'memory',
+  SEMANTIC_CACHE_ENABLED: 'false'
+});
+
+writeFileSync(path.join(corpusDir, 'heat-pumps.md'), [
+  '# Heat pump efficiency',
+  '',
+  'Heat pump efficiency is measured as the coefficient of performance, the heat delivered per unit of electricity.',
+  'Air source heat pumps typically reach a coefficient of performance between 2.5 and 4.',
+  '',
+  '## Cold weather',
+  '',
+  'Heat pump efficiency drops in cold weather because less heat can be extracted from the outside air.'
+].join('\n'));
+
+let workflows: typeof import('./search-workflow');
+let utils: typeof import('../mastra-vnext-utils');
+let streaming: typeof import('../utils/streaming');
+
+before(async () => {
+  workflows = await import('./search-workflow');
+  utils = await import('../mastra-vnext-utils');
+  streaming = await import('../utils/streaming');
+});
+
+after(() => {
+  rmSync(corpusDir, { recursive: true, force: true });
+});
+
+test('qSearchWorkflow answers from the local corpus with the fake chat model', async () => {
+  const writer = new utils.EventStreamWriter();
+  const updates: string[] = [];
+  const run = workflows.qSearchWorkflow.createRun();
+  run.watch(event => {
+    const update = writer.convertEventToUpdate(event);
+    if (update) updates.push(update.type);
+  });
+
+  const result = await run.start({
+    inputData: { query: 'heat pump efficiency', searchId: 'search-1', userId: 'user-1' },
+    runtimeContext: utils.createRuntimeContext({
+      searchId: 'search-1',
+      userId: 'user-1',
+      semanticCache: false,
+      modelName: 'fake',
+      summaryFormat: 'markdown'
+    })
+  });
+
+  assert.equal(result.status, 'success', result.status === 'failed' ? String(result.error) : undefined);
+  if (result.status !== 'success') return;
+
+  const { summary, searchId, metadata } = result.result;
+  assert.equal(searchId, 'search-1');
+  assert.equal(metadata?.searchPath, 'standard');
+  assert.ok(metadata?.sources.some((source: { url: string }) => source.url.startsWith('file://')));
+  assert.ok(metadata?.citations.length > 0);
+
+  // The answer is generated as its stream is read
+  const answer = await streaming.readStreamToText(summary);
+  assert.match(answer, /Heat pump efficiency/);
+  assert.match(answer, /\[1\]/);
+  assert.ok(await metadata?.grounding);
+
+  assert.ok(updates.includes('enhancing_completed'));
+  assert.ok(updates.includes('reading_update'));
+  assert.ok(updates.includes('summary_delta'));
+  assert.ok(updates.includes('answer_verified'));
+  assert.ok(updates.includes('wrapping_completed'));
+  assert.ok(updates.every(type => !type.startsWith('unknown_')), updates.join(', '));
+});
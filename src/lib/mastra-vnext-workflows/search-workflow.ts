@@ -1,65 +1,119 @@
-import { createStep, createWorkflow } from '@mastra/core/workflows';
-import { z } from 'zod';
+import { createWorkflow, type Workflow } from '@mastra/core/workflows';
 
 // Import vNext schemas
 import {
   userQueryInput,
   planningOutput,
-  webScrapingInput,
-  webScrapingOutput,
-  ragInput,
-  ragOutput,
-  summaryInput,
-  summaryOutput,
+  aggregationOutput,
+  researchInput,
+  researchOutput,
   workflowOutput
 } from '../mastra-vnext-schemas';
 
 // Import vNext steps
 import {
   planningAndQueryEnhancementStep,
+  semanticCacheStep,
+  cachedAnswerStep,
   exaSearchStep,
   jinaSearchStep,
+  localCorpusSearchStep,
   aggregateAndDeduplicateSearchResultsStep,
   scrapeWebpageStep,
+  deepCrawlStep,
   ragStep,
+  rerankStep,
   deepSearchStep,
   summaryStep,
 } from '../mastra-vnext-steps';
 
-// Note: We're now using the native vNext implementation of the DeepSearch step
+// Mastra 0.10 types `.map` as returning the workflow's input and checks each
+// step's input schema for identity with the previous output, so the chains
+// below are built on an untyped workflow; `.map` steps shape every input
+type WorkflowBuilder = Workflow<any, any, any, any, any, any>;
 
-// Note: We're now using the native vNext implementation of the Summary step
+// Pages read per search, to control costs
+const MAX_PAGES_TO_SCRAPE = 5;
+
+// Pages read at the same time
+const SCRAPE_CONCURRENCY = 5;
 
 /**
- * Helper function to create an error stream
+ * Standard search path: queries the search providers in parallel and merges
+ * their results
  */
-function createErrorStream(errorMessage: string): ReadableStream {
-  const encoder = new TextEncoder();
-  return new ReadableStream({
-    start(controller) {
-      controller.enqueue(encoder.encode(`
-        <div class="answer-container">
-          <h2 class="text-xl font-bold mb-4 text-red-600">Search Error</h2>
-          <p class="mb-2">We encountered an error during your search: ${errorMessage}</p>
-          <p class="mb-2">Please try again with a different query or contact support if the issue persists.</p>
-        </div>
-      `));
-      controller.close();
-    }
-  });
-}
+export const standardSearchWorkflow = createWorkflow({
+  id: 'standard-search-workflow',
+  description: 'Searches every provider and aggregates their results',
+  inputSchema: planningOutput,
+  outputSchema: aggregationOutput,
+  steps: [
+    exaSearchStep,
+    jinaSearchStep,
+    localCorpusSearchStep,
+    aggregateAndDeduplicateSearchResultsStep
+  ]
+});
+
+(standardSearchWorkflow as WorkflowBuilder)
+  .parallel([exaSearchStep, jinaSearchStep, localCorpusSearchStep])
+  // Parallel output is keyed by step ID; reshape it for the aggregation step
+  .map(async ({ inputData, getInitData }) => ({
+    exaResults: inputData[exaSearchStep.id],
+    jinaResults: inputData[jinaSearchStep.id],
+    additionalResults: [inputData[localCorpusSearchStep.id]],
+    planningOutput: getInitData()
+  }))
+  .then(aggregateAndDeduplicateSearchResultsStep);
+
+standardSearchWorkflow.commit();
+
+/**
+ * Research part of the Q Search Workflow
+ *
+ * Runs for every search the semantic cache cannot answer, starting from the
+ * planning output:
+ * 1. Branches between DeepSearch (for complex queries) or traditional search paths
+ * 2. Executes searches across multiple providers (Exa, Jina and the local document corpus)
+ * 3. Aggregates and deduplicates results
+ * 4. Scrapes content from relevant web pages and, for research queries,
+ *    from the relevant pages they link to
+ * 5. Uses RAG to find the most relevant content, optionally reranked by a cross-encoder
+ *
+ * Its output is what the summary step answers from, plus the sources found.
+ */
+export const researchWorkflow = createWorkflow({
+  id: 'research-workflow',
+  description: 'Searches and reads sources for a planned query',
+  inputSchema: researchInput,
+  outputSchema: researchOutput,
+  steps: [
+    deepSearchStep,
+    standardSearchWorkflow,
+    scrapeWebpageStep,
+    deepCrawlStep,
+    ragStep,
+    rerankStep
+  ],
+  retryConfig: {
+    attempts: 2,   // Retry failed steps up to 2 times
+    delay: 1000    // Wait 1 second between retries
+  }
+});
 
 /**
  * Q Search Workflow using vNext API
  *
  * Orchestrates a comprehensive search process:
  * 1. Enhances user queries with planning and sub-questions
- * 2. Executes searches across multiple providers (Exa and Jina)
- * 3. Aggregates and deduplicates results
- * 4. Branches between DeepSearch (for complex queries) or traditional search paths
- * 5. Scrapes content from relevant web pages
- * 6. Uses RAG to find the most relevant content
- * 7. Generates a final summary with citations
+ * 2. Reuses the answer of a recent search with a matching query (semantic cache)
+ * 3. Otherwise runs the research workflow: multi-provider search or
+ *    DeepSearch, aggregation, scraping and RAG
+ * 4. Generates a final summary with citations
+ *
+ * The summary step runs in this workflow rather than a nested one: its
+ * answer is generated, and its events emitted, while the caller reads the
+ * summary stream, after the run has finished.
  */
 export const qSearchWorkflow = createWorkflow({
   id: 'q-search-workflow',
@@ -68,12 +122,9 @@ export const qSearchWorkflow = createWorkflow({
   outputSchema: workflowOutput,
   steps: [
     planningAndQueryEnhancementStep,
-    exaSearchStep,
-    jinaSearchStep,
-    deepSearchStep,
-    aggregateAndDeduplicateSearchResultsStep,
-    scrapeWebpageStep,
-    ragStep,
+    semanticCacheStep,
+    researchWorkflow,
+    cachedAnswerStep,
     summaryStep
   ],
   retryConfig: {
@@ -82,144 +133,174 @@ export const qSearchWorkflow = createWorkflow({
   }
 });
 
-// Define the complex query branch condition
-const isComplexQueryCondition = async ({ getStepResult }) => {
-  const planningResult = getStepResult(planningAndQueryEnhancementStep);
-  if (!planningResult) return false;
-  
-  const { enhancedQuery } = planningResult;
-  
+/**
+ * Whether a query is complex enough for DeepSearch
+ */
+export function isComplexQuery(enhancedQuery: string): boolean {
   // Check for indicators of a complex query
   const complexIndicators = [
-    /why/i, /how/i, /explain/i, /what is/i, /what are/i, 
+    /why/i, /how/i, /explain/i, /what is/i, /what are/i,
     /research/i, /compare/i, /difference/i, /analyze/i, /analysis/i,
-    /comprehensive/i, /detailed/i, /thorough/i, /history of/i, /impact of/i, 
+    /comprehensive/i, /detailed/i, /thorough/i, /history of/i, /impact of/i,
     /relationship between/i, /implications/i
   ];
-  
+
   // Check for query length (longer queries tend to be more complex)
   const isLongQuery = enhancedQuery.split(' ').length > 7;
-  
+
   // Check if any complex indicators are present
   const hasComplexIndicator = complexIndicators.some(pattern => pattern.test(enhancedQuery));
-  
+
   // Return true if it's a long query or has complex indicators
   return isLongQuery || hasComplexIndicator;
-};
+}
 
-// Define the workflow execution flow
-qSearchWorkflow
-  // Step 1: Planning and Query Enhancement (always executed first)
-  .then(planningAndQueryEnhancementStep)
+(researchWorkflow as WorkflowBuilder)
+  // DeepSearch takes the query as `query`, the search providers as `enhancedQuery`
+  .map(async ({ inputData }) => ({
+    ...inputData,
+    query: inputData.enhancedQuery
+  }))
   // Branch based on query complexity
   .branch([
-    // Complex query path: DeepSearch + Scraping
-    [isComplexQueryCondition, deepSearchStep],
+    // Complex query path: DeepSearch
+    [async ({ inputData }) => isComplexQuery(inputData.enhancedQuery), deepSearchStep],
     // Standard query path: Parallel search providers + Aggregation
-    [
-      async ({ getStepResult }) => !await isComplexQueryCondition({ getStepResult }),
-      qSearchWorkflow
-        .parallel([exaSearchStep, jinaSearchStep])
-        .then(aggregateAndDeduplicateSearchResultsStep)
-    ]
+    [async ({ inputData }) => !isComplexQuery(inputData.enhancedQuery), standardSearchWorkflow]
   ])
-  // The rest of the workflow depends on which branch was taken
-  .map(async ({ getStepResult }) => {
-    // Check which branch was executed
-    const deepSearchOutput = getStepResult(deepSearchStep);
-    const aggregationOutput = getStepResult(aggregateAndDeduplicateSearchResultsStep);
-    
-    if (deepSearchOutput) {
-      // DeepSearch path was taken
-      return { 
-        results: deepSearchOutput.results,
-        isDeepSearch: true
-      };
-    } else if (aggregationOutput) {
-      // Standard search path was taken
-      return { 
-        results: aggregationOutput.aggregatedResults,
-        isDeepSearch: false
-      };
-    }
-    
-    // Fallback (should never happen)
-    return {
-      results: [],
-      isDeepSearch: false
-    };
+  // Branch output is keyed by the ID of the branch that ran; scrape the top results
+  .map(async ({ inputData, getInitData }) => {
+    const deepSearchOutput = inputData[deepSearchStep.id];
+    const results = deepSearchOutput
+      ? deepSearchOutput.results
+      : inputData[standardSearchWorkflow.id]?.aggregatedResults || [];
+
+    return results.slice(0, MAX_PAGES_TO_SCRAPE).map(result => ({
+      targetUrl: result.url,
+      originalQuery: getInitData().enhancedQuery
+    }));
   })
   // Step 4: Scrape relevant web pages
-  .map(async ({ inputData }) => {
-    const { results } = inputData;
-    
-    // Limit to top 5 results to control costs
-    const topResults = results.slice(0, 5);
-    
-    // Return the results for parallel scraping
+  .foreach(scrapeWebpageStep, { concurrency: SCRAPE_CONCURRENCY })
+  // Step 4b: Follow relevant links from the scraped pages (research queries)
+  .map(async ({ inputData, getInitData }) => {
+    const { enhancedQuery, subQuestions, originalQuery } = getInitData();
+
     return {
-      urlsToScrape: topResults.map(result => ({ 
-        url: result.url,
-        title: result.title || ''
-      }))
+      scrapedContents: inputData,
+      enhancedQuery,
+      subQuestions,
+      originalQuery
     };
   })
-  .then(input => {
-    // Create parallel scraping tasks
-    return qSearchWorkflow.parallel(
-      input.urlsToScrape.map(item => ({
-        step: scrapeWebpageStep,
-        input: {
-          targetUrl: item.url,
-          originalQuery: qSearchWorkflow.getInitData().query
-        }
-      }))
-    );
-  })
-  // Step 5: Perform RAG on scraped content
-  .then(scrapedResults => {
-    // Get the planning step output
-    const planningOutput = qSearchWorkflow.getStepResult(planningAndQueryEnhancementStep);
-    
-    // Return the input for RAG step
+  .then(deepCrawlStep)
+  // Step 5: Perform RAG on the scraped and crawled content
+  .then(ragStep)
+  // Step 5b: Rerank the passages against the query and sub-questions
+  .map(async ({ inputData, getInitData }) => {
+    const { enhancedQuery, subQuestions } = getInitData();
+
     return {
-      scrapedContents: Object.values(scrapedResults),
-      enhancedQuery: planningOutput.enhancedQuery,
-      subQuestions: planningOutput.subQuestions
+      ...inputData,
+      enhancedQuery,
+      subQuestions
     };
   })
-  .then(ragStep)
-  // Step 6: Generate the final summary
-  .then(ragOutput => {
-    // Get the planning step output
-    const planningOutput = qSearchWorkflow.getStepResult(planningAndQueryEnhancementStep);
-    
-    // Return the input for summary step
+  .then(rerankStep)
+  // Keep the search results the passages were read from
+  .map(async ({ inputData, getStepResult }) => {
+    const deepSearchOutput = getStepResult(deepSearchStep);
+
+    const sources = deepSearchOutput
+      ? deepSearchOutput.results.map(result => ({
+        url: result.url,
+        title: result.title,
+        snippet: result.snippet,
+        provider: result.source || 'deep-search'
+      }))
+      : getStepResult(standardSearchWorkflow)?.aggregatedResults || [];
+
     return {
-      relevantTexts: ragOutput.relevantTexts,
-      planningOutput: planningOutput
+      ...inputData,
+      searchPath: deepSearchOutput ? 'complex' as const : 'standard' as const,
+      sources
     };
+  });
+
+researchWorkflow.commit();
+
+// Define the workflow execution flow
+(qSearchWorkflow as WorkflowBuilder)
+  // The planning step expects the raw user query as `originalQuery`
+  .map(async ({ inputData }) => ({
+    originalQuery: inputData.query
+  }))
+  // Step 1: Planning and Query Enhancement (always executed first)
+  .then(planningAndQueryEnhancementStep)
+  // Step 2: Look for a recent answer to a paraphrase of this query
+  .then(semanticCacheStep)
+  // Step 3: Search and read sources unless the cache answered
+  .map(async ({ inputData, getInitData }) => ({
+    ...inputData,
+    originalQuery: getInitData().query
+  }))
+  .branch([
+    [async ({ getStepResult }) => !getStepResult(semanticCacheStep).cachedAnswer, researchWorkflow]
+  ])
+  // Step 4: Answer from the sources, or return the cached answer
+  .map(async ({ inputData, getStepResult }) => {
+    const { enhancedQuery, researchPlan, subQuestions, cachedAnswer } = getStepResult(semanticCacheStep);
+    const research = inputData[researchWorkflow.id];
+
+    return research
+      ? {
+        relevantTexts: research.relevantTexts,
+        passages: research.passages,
+        planningOutput: { enhancedQuery, researchPlan, subQuestions }
+      }
+      : { enhancedQuery, researchPlan, subQuestions, cachedAnswer };
   })
-  .then(summaryStep)
+  .branch([
+    [async ({ getStepResult }) => !!getStepResult(semanticCacheStep).cachedAnswer, cachedAnswerStep],
+    [async ({ getStepResult }) => !getStepResult(semanticCacheStep).cachedAnswer, summaryStep]
+  ])
   // Final output mapping
-  .map(summaryOutput => {
-    // Get the original search ID
-    const { searchId } = qSearchWorkflow.getInitData();
-    
-    // Get the planning step output for metadata
-    const planningOutput = qSearchWorkflow.getStepResult(planningAndQueryEnhancementStep);
-    
-    // Determine which search path was taken
-    const isDeepSearch = !!qSearchWorkflow.getStepResult(deepSearchStep);
-    
-    // Return the final workflow output
+  .map(async ({ inputData, getInitData, getStepResult }) => {
+    if (inputData[cachedAnswerStep.id]) {
+      return inputData[cachedAnswerStep.id];
+    }
+
+    const summaryOutput = inputData[summaryStep.id];
+    const research = getStepResult(researchWorkflow);
+
     return {
       summary: summaryOutput.summary,
-      searchId,
+      searchId: getInitData().searchId,
       metadata: {
-        enhancedQuery: planningOutput.enhancedQuery,
-        searchPath: isDeepSearch ? 'complex' : 'standard',
-        generationComplete: summaryOutput.generationComplete
+        enhancedQuery: getStepResult(semanticCacheStep).enhancedQuery,
+        searchPath: research.searchPath,
+        generationComplete: summaryOutput.generationComplete,
+        // Resolves to the citation check once the summary stream has been read
+        grounding: summaryOutput.grounding,
+        // The sources that fed the answer, so callers can persist them
+        sources: research.sources.map(result => ({
+          url: result.url,
+          title: result.title || '',
+          snippet: result.snippet || '',
+          provider: result.provider
+        })),
+        // Numbered like the summary's citations: the page and section each passage came from
+        citations: (research.passages || []).slice(0, 10).map((passage, index) => ({
+          id: index + 1,
+          url: passage.url,
+          title: passage.title,
+          headingPath: passage.headingPath,
+          kind: passage.kind,
+          chunkIndex: passage.chunkIndex,
+          page: passage.page,
+          snapshotId: passage.snapshotId,
+          rerankScore: passage.rerankScore
+        }))
       }
     };
   });
@@ -227,4 +308,4 @@ qSearchWorkflow
 // Finalize the workflow definition
 qSearchWorkflow.commit();
 
-export default qSearchWorkflow;
\ No newline at end of file
+export default qSearchWorkflow;
@@ -1,6 +1,9 @@
+import type { RankingExplanation } from '../aggregation/ranking';
+
 export interface SearchResult {
   title: string;
   url: string;
   snippet: string;
   source: string;
+  rankingExplanation?: RankingExplanation;
 }
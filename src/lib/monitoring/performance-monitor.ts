@@ -35,6 +35,15 @@ export const SystemHealthSchema = z.object({
 export type PerformanceMetric = z.infer<typeof PerformanceMetricSchema>
 export type SystemHealth = z.infer<typeof SystemHealthSchema>
 
+export type CacheOutcome = 'hit' | 'stale' | 'miss'
+
+export interface CacheStats {
+  hits: number
+  staleHits: number
+  misses: number
+  hitRate: number
+}
+
 interface AlertThresholds {
   responseTime: number // ms
   errorRate: number // percentage
@@ -63,6 +72,7 @@ export class PerformanceMonitor {
     timestamp: string
     resolved: boolean
   }> = []
+  private cacheCounts: Record<string, Record<CacheOutcome, number>> = {}
 
   /**
    * Record a performance metric
@@ -84,6 +94,35 @@ export class PerformanceMonitor {
     this.checkPerformanceAlerts(timestampedMetric)
   }
 
+  /**
+   * Count a cache lookup in a namespace
+   */
+  recordCacheEvent(namespace: string, outcome: CacheOutcome): void {
+    if (!this.cacheCounts[namespace]) {
+      this.cacheCounts[namespace] = { hit: 0, stale: 0, miss: 0 }
+    }
+    this.cacheCounts[namespace][outcome]++
+  }
+
+  /**
+   * Cache lookups per namespace since startup; stale hits count as hits in hitRate
+   */
+  getCacheStats(): Record<string, CacheStats> {
+    const stats: Record<string, CacheStats> = {}
+
+    for (const [namespace, counts] of Object.entries(this.cacheCounts)) {
+      const total = counts.hit + counts.stale + counts.miss
+      stats[namespace] = {
+        hits: counts.hit,
+        staleHits: counts.stale,
+        misses: counts.miss,
+        hitRate: total > 0 ? (counts.hit + counts.stale) / total : 0
+      }
+    }
+
+    return stats
+  }
+
   /**
    * Record system health metrics
    */
@@ -257,6 +296,7 @@ export class PerformanceMonitor {
       timestamp: new Date().toISOString(),
       performance: summary,
       health,
+      cache: this.getCacheStats(),
       alerts,
       recommendations: this.getPerformanceRecommendations()
     }, null, 2)
@@ -371,6 +411,19 @@ export class PerformanceMonitor {
       output += `# TYPE sevensearch_cpu_usage gauge\n`
       output += `sevensearch_cpu_usage ${health.cpu}\n\n`
     }
+
+    // Cache lookup counters
+    const cacheStats = this.getCacheStats()
+    if (Object.keys(cacheStats).length > 0) {
+      output += `# HELP sevensearch_cache_requests_total Cache lookups by namespace and outcome\n`
+      output += `# TYPE sevensearch_cache_requests_total counter\n`
+      for (const [namespace, stats] of Object.entries(cacheStats)) {
+        output += `sevensearch_cache_requests_total{namespace="${namespace}",outcome="hit"} ${stats.hits}\n`
+        output += `sevensearch_cache_requests_total{namespace="${namespace}",outcome="stale"} ${stats.staleHits}\n`
+        output += `sevensearch_cache_requests_total{namespace="${namespace}",outcome="miss"} ${stats.misses}\n`
+      }
+      output += `\n`
+    }
     
     return output
   }
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+Object.assign(process.env, { SEARXNG_BASE_URL: '', LOCAL_CORPUS_DIR: '' });
+
+test('getSystemStatus reports the health probes of engines with a health check', async () => {
+  const { HALOSearchOrchestrator } = await import('./halo-search-framework');
+  const { searchProviderRegistry } = await import('../search-providers');
+
+  let probes = 0;
+  searchProviderRegistry.register({
+    name: 'probed',
+    capabilities: { freshness: false, domains: false, costPerQuery: 0, maxResults: 10 },
+    isConfigured: () => true,
+    search: async () => [],
+    checkHealth: async () => {
+      probes++;
+      return false;
+    }
+  });
+
+  try {
+    const orchestrator = new HALOSearchOrchestrator();
+    const status = await orchestrator.getSystemStatus();
+
+    assert.equal(status.engines.probed?.health, false);
+    assert.ok(status.healthCheckedAt);
+
+    // A recent probe is reused
+    await orchestrator.getSystemStatus();
+    assert.equal(probes, 1);
+  } finally {
+    searchProviderRegistry.unregister('probed');
+  }
+});
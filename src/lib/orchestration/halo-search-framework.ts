@@ -6,6 +6,10 @@
  */
 
 import { z } from 'zod'
+import { cachedEngineSearch, searchProviderRegistry } from '../search-providers'
+
+// Engines with a health check are probed at most this often
+const HEALTH_CHECK_INTERVAL_MS = 60000
 
 // Core types for HALO orchestration
 export const SearchPlanSchema = z.object({
@@ -103,14 +107,20 @@ export class SearchPlanner {
 
   private selectOptimalEngines(intent: SearchPlan['intent'], _query: string): string[] {
     const engineMap = {
-      research: ['exa', 'jina', 'firecrawl'],
+      research: ['exa', 'jina', 'firecrawl', 'searxng'],
       quick_lookup: ['exa'],
-      real_time: ['firecrawl', 'jina'],
+      real_time: ['firecrawl', 'jina', 'searxng'],
       academic: ['exa', 'academic_sources'],
       code: ['github_search', 'exa', 'stackoverflow']
     }
-    
-    return engineMap[intent] || ['exa', 'jina']
+
+    const preferred = engineMap[intent] || ['exa', 'jina']
+    const available = preferred.filter(engine => searchProviderRegistry.get(engine)?.isConfigured())
+    if (available.length > 0) return available
+
+    // Fall back to configured general-purpose engines; code, Q&A and paper
+    // engines would answer other intents with off-topic results
+    return searchProviderRegistry.listGeneral().slice(0, 2).map(engine => engine.name)
   }
 
   private determineStrategy(intent: SearchPlan['intent'], engineCount: number): SearchPlan['strategy'] {
@@ -157,6 +167,8 @@ export class ProviderCoordinator {
   private engineHealth = new Map<string, boolean>()
   private engineLatency = new Map<string, number>()
   private requestCounts = new Map<string, number>()
+  private lastHealthCheckAt: number | null = null
+  private healthCheck: Promise<void> | null = null
 
   async executeSearchPlan(plan: SearchPlan): Promise<AsyncGenerator<SearchResult[], void, unknown>> {
     if (plan.strategy === 'parallel') {
@@ -205,7 +217,6 @@ export class ProviderCoordinator {
     const startTime = Date.now()
     
     try {
-      // Simulate engine-specific search logic
       const results = await this.performEngineSearch(engine, query, timeout)
       
       // Track performance
@@ -220,22 +231,8 @@ export class ProviderCoordinator {
     }
   }
 
-  private async performEngineSearch(engine: string, query: string, _timeout: number): Promise<SearchResult[]> {
-    // This would integrate with actual search engines
-    // For now, return mock results
-    return [
-      {
-        id: `${engine}-${Date.now()}`,
-        title: `Result from ${engine}`,
-        content: `Search result for "${query}" from ${engine}`,
-        url: `https://${engine}.com/result`,
-        source: engine,
-        relevanceScore: Math.random() * 0.4 + 0.6, // 0.6-1.0
-        credibilityScore: Math.random() * 0.3 + 0.7, // 0.7-1.0
-        freshnessScore: Math.random() * 0.5 + 0.5, // 0.5-1.0
-        timestamp: new Date().toISOString()
-      }
-    ]
+  private async performEngineSearch(engine: string, query: string, timeout: number): Promise<SearchResult[]> {
+    return cachedEngineSearch(engine, query, { timeout })
   }
 
   private enhanceQueryWithContext(originalQuery: string, previousResults: SearchResult[]): string {
@@ -250,6 +247,47 @@ export class ProviderCoordinator {
       : originalQuery
   }
 
+  /**
+   * Probe every configured engine that exposes a health check and record the
+   * outcome alongside the health observed from real searches
+   */
+  async checkEngineHealth(): Promise<Record<string, { health: boolean; latency: number; requests: number }>> {
+    const engines = searchProviderRegistry.listConfigured().filter(engine => engine.checkHealth)
+
+    await Promise.all(engines.map(async engine => {
+      const startTime = Date.now()
+      const healthy = await engine.checkHealth!().catch(() => false)
+
+      this.engineHealth.set(engine.name, healthy)
+      this.engineLatency.set(engine.name, Date.now() - startTime)
+    }))
+
+    this.lastHealthCheckAt = Date.now()
+    return this.getEnginePerformance()
+  }
+
+  /**
+   * Probe engine health unless the last probe is more recent than
+   * `maxAgeMs`; concurrent callers share one probe
+   */
+  async refreshEngineHealth(maxAgeMs: number = HEALTH_CHECK_INTERVAL_MS): Promise<Record<string, { health: boolean; latency: number; requests: number }>> {
+    const stale = this.lastHealthCheckAt === null || Date.now() - this.lastHealthCheckAt >= maxAgeMs
+    if (!this.healthCheck && stale) {
+      this.healthCheck = this.checkEngineHealth()
+        .then(() => undefined)
+        .finally(() => {
+          this.healthCheck = null
+        })
+    }
+
+    await this.healthCheck
+    return this.getEnginePerformance()
+  }
+
+  getLastHealthCheck(): string | null {
+    return this.lastHealthCheckAt === null ? null : new Date(this.lastHealthCheckAt).toISOString()
+  }
+
   getEnginePerformance(): Record<string, { health: boolean; latency: number; requests: number }> {
     const performance: Record<string, { health: boolean; latency: number; requests: number }> = {}
     
@@ -529,6 +567,11 @@ export class HALOSearchOrchestrator {
     plan: SearchPlan
   }> {
     const startTime = Date.now()
+
+    // Keep probed engine health (e.g. SearXNG /healthz) current without delaying the search
+    this.coordinator.refreshEngineHealth().catch(error => {
+      console.warn('⚠️  Engine health check failed:', error)
+    })
     
     // Layer 1: Planning
     const planStart = Date.now()
@@ -582,13 +625,22 @@ export class HALOSearchOrchestrator {
     }
   }
 
-  getSystemStatus() {
+  async checkEngineHealth() {
+    return this.coordinator.checkEngineHealth()
+  }
+
+  /**
+   * Learning insights and per-engine health, probing engines that expose a
+   * health check when the last probe is stale
+   */
+  async getSystemStatus() {
     const insights = this.optimizer.getPerformanceInsights()
-    const enginePerformance = this.coordinator.getEnginePerformance()
+    const enginePerformance = await this.coordinator.refreshEngineHealth()
 
     return {
       performance: insights,
       engines: enginePerformance,
+      healthCheckedAt: this.coordinator.getLastHealthCheck(),
       timestamp: new Date().toISOString()
     }
   }
@@ -1,4 +1,8 @@
-import { Step } from '../mastra';
+import { Step, WorkflowContext } from '../mastra';
+import { SearchResult } from '../mastra/types';
+import { CacheProvider, NamespacedCache, SEARCH_CACHE_OPTIONS, searchCache } from '../cache';
+import { RateLimitExceededError, RateLimitManager, rateLimitManager } from '../rate-limiter';
+import { searchCacheKey, searchProviderRegistry, SearchResult as EngineSearchResult } from '../search-providers';
 
 export interface SearchProviderFactory {
   createStep(config: Record<string, any>): Step;
@@ -6,6 +10,93 @@ export interface SearchProviderFactory {
   getDefaultConfig(): Record<string, any>;
 }
 
+/**
+ * Searches one engine from the shared search provider registry. Results are
+ * written to `${engine}Results` and merged into the `engineResults` record
+ * that AggregationStep reads. Responses are cached in the shared `search`
+ * namespace unless a cache backend is passed in. Requests share the
+ * per-provider quotas of the shared rate limiter unless one is passed in.
+ */
+class EngineSearchStep implements Step {
+  private engine: string
+  private cache: NamespacedCache
+  private rateLimiter: RateLimitManager
+  private limit: number
+
+  constructor(
+    engine: string,
+    cache?: CacheProvider,
+    rateLimiter?: RateLimitManager,
+    limit: number = 10
+  ) {
+    this.engine = engine
+    this.cache = cache ? new NamespacedCache(cache, 'search', SEARCH_CACHE_OPTIONS) : searchCache
+    this.rateLimiter = rateLimiter || rateLimitManager
+    this.limit = limit
+  }
+
+  getName(): string {
+    return `${this.engine}-search`;
+  }
+
+  async execute(context: WorkflowContext): Promise<void> {
+    const query = context.get('query')
+    const cacheKey = searchCacheKey(this.engine, query, { limit: this.limit })
+    let results: EngineSearchResult[]
+
+    try {
+      results = await this.cache.getOrFetch(cacheKey, () =>
+        this.rateLimiter.schedule(this.engine, () =>
+          searchProviderRegistry.search(this.engine, query, { limit: this.limit })
+        )
+      )
+    } catch (error) {
+      if (!(error instanceof RateLimitExceededError)) throw error
+      console.log(`${error.message}. Skipping for now.`)
+      return
+    }
+
+    const searchResults: SearchResult[] = results.map(result => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content,
+      source: result.source,
+    }))
+
+    this.setResults(context, searchResults);
+  }
+
+  private setResults(context: WorkflowContext, results: SearchResult[]): void {
+    context.set(`${this.engine}Results`, results)
+    context.set('engineResults', {
+      ...(context.get('engineResults') || {}),
+      [this.engine]: results,
+    })
+  }
+}
+
+class RegisteredEngineFactory implements SearchProviderFactory {
+  constructor(private engine: string) {}
+
+  createStep(config: Record<string, any>): Step {
+    return new EngineSearchStep(this.engine, undefined, undefined, config.limit);
+  }
+
+  getName(): string {
+    return this.engine;
+  }
+
+  getDefaultConfig(): Record<string, any> {
+    return { limit: 10 };
+  }
+}
+
+/**
+ * Legacy Workflow view of the search engines. Every configured
+ * general-purpose engine in the shared registry gets a factory automatically
+ * (specialized engines only by name); factories registered here take
+ * precedence over the derived ones.
+ */
 export class ProviderRegistry {
   private providers: Map<string, SearchProviderFactory> = new Map();
 
@@ -14,11 +105,26 @@ export class ProviderRegistry {
   }
 
   getProvider(name: string): SearchProviderFactory | undefined {
-    return this.providers.get(name);
+    const provider = this.providers.get(name);
+    if (provider) {
+      return provider;
+    }
+
+    const engine = searchProviderRegistry.get(name);
+    return engine?.isConfigured() ? new RegisteredEngineFactory(engine.name) : undefined;
   }
 
   getAllProviders(): SearchProviderFactory[] {
-    return Array.from(this.providers.values());
+    const factories = new Map<string, SearchProviderFactory>();
+
+    for (const engine of searchProviderRegistry.listGeneral()) {
+      factories.set(engine.name, new RegisteredEngineFactory(engine.name));
+    }
+    for (const [name, factory] of this.providers) {
+      factories.set(name, factory);
+    }
+
+    return Array.from(factories.values());
   }
 }
 
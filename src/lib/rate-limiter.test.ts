@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRetryAfter, RateLimitExceededError, RateLimitManager } from './rate-limiter';
+
+test('a bucket serves its capacity back to back, then waits for refills', async () => {
+  // A slow refill, so a busy machine cannot refill a token between the calls
+  const limiter = new RateLimitManager({ api: { capacity: 2, refillPerSecond: 2, maxWaitMs: 0 } });
+
+  assert.equal(await limiter.acquire('api'), true);
+  assert.equal(await limiter.acquire('api'), true);
+  assert.equal(await limiter.acquire('api'), false);
+  const waitTime = limiter.getWaitTime('api');
+  assert.ok(waitTime > 0 && waitTime <= 500);
+
+  // Waiting callers reserve their token and get it once it is refilled
+  const started = Date.now();
+  assert.equal(await limiter.acquire('api', 1000), true);
+  assert.ok(Date.now() - started >= waitTime - 100);
+});
+
+test('schedule rejects requests that would wait longer than allowed', async () => {
+  const limiter = new RateLimitManager({ api: { capacity: 1, refillPerSecond: 0.1, maxWaitMs: 10 } });
+
+  assert.equal(await limiter.schedule('api', async () => 'first'), 'first');
+  await assert.rejects(limiter.schedule('api', async () => 'second'), RateLimitExceededError);
+});
+
+test('a 429 empties the bucket for the Retry-After period', async () => {
+  const limiter = new RateLimitManager({ api: { capacity: 5, refillPerSecond: 100, maxWaitMs: 0 } });
+  const rateLimited = Object.assign(new Error('Too Many Requests'), { status: 429, retryAfter: '2' });
+
+  await assert.rejects(limiter.schedule('api', async () => { throw rateLimited; }), /Too Many Requests/);
+
+  const wait = limiter.getWaitTime('api');
+  assert.ok(wait > 1900 && wait <= 2010, String(wait));
+  assert.equal(limiter.getStatus().api.consecutiveRateLimits, 1);
+});
+
+test('parseRetryAfter reads delta seconds and HTTP dates', () => {
+  assert.equal(parseRetryAfter('3'), 3000);
+  assert.equal(parseRetryAfter(''), undefined);
+  assert.equal(parseRetryAfter('soon'), undefined);
+  assert.equal(parseRetryAfter(new Date(Date.now() - 1000).toUTCString()), 0);
+});
@@ -1,21 +1,242 @@
+/**
+ * Per-provider token-bucket rate limiting
+ *
+ * Each provider has a bucket of `capacity` tokens refilled at
+ * `refillPerSecond`. A request takes one token; when none is left the caller
+ * waits for the next one, up to the provider's `maxWaitMs`, instead of being
+ * dropped. Waiting callers reserve their tokens up front, so they are served
+ * in arrival order. A 429 response empties the bucket and pauses refilling
+ * for the Retry-After period, or for an exponential backoff without one.
+ */
+
+export interface ProviderQuota {
+  /** Requests that may be made back to back */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+  /** Longest a request waits for a token before it is rejected */
+  maxWaitMs: number;
+}
+
+export const DEFAULT_QUOTA: ProviderQuota = {
+  capacity: 10,
+  refillPerSecond: 1,
+  maxWaitMs: 500
+};
+
+export const DEFAULT_PROVIDER_QUOTAS: Record<string, Partial<ProviderQuota>> = {
+  exa: { capacity: 5, refillPerSecond: 5, maxWaitMs: 1000 },
+  jina: { capacity: 10, refillPerSecond: 2, maxWaitMs: 1000 },
+  firecrawl: { capacity: 5, refillPerSecond: 1, maxWaitMs: 1000 },
+  github_search: { capacity: 10, refillPerSecond: 0.5, maxWaitMs: 2000 },
+  stackoverflow: { capacity: 10, refillPerSecond: 1 },
+  academic_sources: { capacity: 10, refillPerSecond: 5 }
+};
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * Thrown when a provider has no token available within the allowed wait
+ */
+export class RateLimitExceededError extends Error {
+  constructor(public provider: string, public waitMs: number) {
+    super(`${provider} rate limit exceeded (next slot in ${Math.ceil(waitMs)}ms)`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Provider quotas from defaults plus RATE_LIMIT_QUOTAS, a JSON object such as
+ * {"exa": {"capacity": 5, "refillPerSecond": 5, "maxWaitMs": 300}}
+ */
+export function resolveProviderQuotas(): Record<string, Partial<ProviderQuota>> {
+  let envQuotas: Record<string, Partial<ProviderQuota>> = {};
+  if (process.env.RATE_LIMIT_QUOTAS) {
+    try {
+      envQuotas = JSON.parse(process.env.RATE_LIMIT_QUOTAS);
+    } catch {
+      console.warn('⚠️  RATE_LIMIT_QUOTAS is not valid JSON, ignoring it');
+    }
+  }
+
+  const quotas: Record<string, Partial<ProviderQuota>> = {};
+  for (const [provider, quota] of Object.entries({ ...DEFAULT_PROVIDER_QUOTAS, ...envQuotas })) {
+    quotas[provider.toLowerCase()] = { ...DEFAULT_PROVIDER_QUOTAS[provider.toLowerCase()], ...quota };
+  }
+  return quotas;
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header: delta seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = new Date(String(value)).getTime();
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Status code and Retry-After of a failed request, from fetch-based engine
+ * errors (`status`, `retryAfter`) or axios errors (`response`)
+ */
+function getRateLimitResponse(error: any): { status?: number; retryAfter?: string } {
+  return {
+    status: error?.status ?? error?.response?.status,
+    retryAfter: error?.retryAfter ?? error?.response?.headers?.['retry-after']
+  };
+}
+
+interface BucketState {
+  tokens: number;
+  /** Time of the last refill; in the future while backing off */
+  updatedAt: number;
+  consecutiveRateLimits: number;
+}
+
 export class RateLimitManager {
-  private limits: Map<string, { count: number; resetTime: number }> = new Map();
+  private quotas: Map<string, ProviderQuota> = new Map();
+  private buckets: Map<string, BucketState> = new Map();
 
-  async checkLimit(provider: string, limit: number, windowMs: number): Promise<boolean> {
+  constructor(quotas: Record<string, Partial<ProviderQuota>> = resolveProviderQuotas()) {
+    for (const [provider, quota] of Object.entries(quotas)) {
+      this.setQuota(provider, quota);
+    }
+  }
+
+  setQuota(provider: string, quota: Partial<ProviderQuota>): void {
+    this.quotas.set(provider.toLowerCase(), { ...DEFAULT_QUOTA, ...this.quotas.get(provider.toLowerCase()), ...quota });
+  }
+
+  getQuota(provider: string): ProviderQuota {
+    return this.quotas.get(provider.toLowerCase()) || DEFAULT_QUOTA;
+  }
+
+  private getBucket(provider: string): BucketState {
+    const key = provider.toLowerCase();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.getQuota(key).capacity, updatedAt: Date.now(), consecutiveRateLimits: 0 };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: BucketState, quota: ProviderQuota, now: number): void {
+    if (now <= bucket.updatedAt) return;
+    bucket.tokens = Math.min(quota.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * quota.refillPerSecond);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until the provider's next token is available
+   */
+  getWaitTime(provider: string): number {
     const now = Date.now();
-    const state = this.limits.get(provider) || { count: 0, resetTime: now + windowMs };
+    const quota = this.getQuota(provider);
+    const bucket = this.getBucket(provider);
+    this.refill(bucket, quota, now);
+
+    const backoff = Math.max(0, bucket.updatedAt - now);
+    const deficit = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / quota.refillPerSecond) * 1000;
+    return backoff + deficit;
+  }
+
+  /**
+   * Take a token, waiting up to `maxWaitMs` (the provider's quota by default).
+   * Resolves false without waiting when no token would be free in time.
+   */
+  async acquire(provider: string, maxWaitMs: number = this.getQuota(provider).maxWaitMs): Promise<boolean> {
+    const wait = this.getWaitTime(provider);
+    if (wait > maxWaitMs) {
+      return false;
+    }
+
+    // Reserve the token now so later callers queue behind this one
+    this.getBucket(provider).tokens -= 1;
+
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    return true;
+  }
+
+  /**
+   * Back off after a 429: pause refilling for Retry-After, or for an
+   * exponential backoff when the provider does not say how long
+   */
+  reportRateLimited(provider: string, retryAfter?: string | number | null): void {
+    const bucket = this.getBucket(provider);
+    bucket.consecutiveRateLimits++;
 
-    if (state.resetTime < now) {
-      state.count = 0;
-      state.resetTime = now + windowMs;
+    const backoff = parseRetryAfter(retryAfter)
+      ?? Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** (bucket.consecutiveRateLimits - 1));
+
+    bucket.tokens = 0;
+    bucket.updatedAt = Math.max(bucket.updatedAt, Date.now() + backoff);
+
+    console.warn(`⚠️  ${provider} returned 429, backing off for ${Math.round(backoff)}ms`);
+  }
+
+  reportSuccess(provider: string): void {
+    this.getBucket(provider).consecutiveRateLimits = 0;
+  }
+
+  /**
+   * Run a provider request under the provider's quota
+   *
+   * Waits for a token (up to the quota's maxWaitMs), records 429 responses
+   * for backoff and throws RateLimitExceededError when no token is free in time.
+   */
+  async schedule<T>(provider: string, request: () => Promise<T>, maxWaitMs?: number): Promise<T> {
+    if (!(await this.acquire(provider, maxWaitMs))) {
+      throw new RateLimitExceededError(provider, this.getWaitTime(provider));
     }
 
-    if (state.count >= limit) {
-      return false; // Rate limit exceeded
+    try {
+      const result = await request();
+      this.reportSuccess(provider);
+      return result;
+    } catch (error) {
+      const { status, retryAfter } = getRateLimitResponse(error);
+      if (status === 429) {
+        this.reportRateLimited(provider, retryAfter);
+      }
+      throw error;
     }
+  }
 
-    state.count++;
-    this.limits.set(provider, state);
-    return true; // Request allowed
+  /**
+   * Non-blocking check for callers of the old fixed-window API. Providers
+   * without a configured quota get one of `limit` requests per `windowMs`.
+   */
+  async checkLimit(provider: string, limit: number, windowMs: number): Promise<boolean> {
+    if (!this.quotas.has(provider.toLowerCase())) {
+      this.setQuota(provider, { capacity: limit, refillPerSecond: limit / (windowMs / 1000) });
+    }
+    return this.acquire(provider, 0);
+  }
+
+  getStatus(): Record<string, { tokens: number; capacity: number; waitMs: number; consecutiveRateLimits: number }> {
+    const status: Record<string, { tokens: number; capacity: number; waitMs: number; consecutiveRateLimits: number }> = {};
+
+    for (const [provider, bucket] of this.buckets) {
+      const waitMs = this.getWaitTime(provider);
+      status[provider] = {
+        tokens: Math.max(0, Math.floor(bucket.tokens)),
+        capacity: this.getQuota(provider).capacity,
+        waitMs,
+        consecutiveRateLimits: bucket.consecutiveRateLimits
+      };
+    }
+
+    return status;
   }
 }
+
+// Export singleton instance
+export const rateLimitManager = new RateLimitManager();
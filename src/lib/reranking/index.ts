@@ -0,0 +1,118 @@
+import { JinaReranker } from './jina';
+import { LocalCrossEncoderReranker } from './local';
+
+export { JinaReranker, LocalCrossEncoderReranker };
+export type { LocalCrossEncoderOptions } from './local';
+
+/**
+ * Cross-encoder scoring of (query, passage) pairs
+ */
+export interface Reranker {
+  readonly id: string;
+  isConfigured(): boolean;
+  /** Relevance of each document to the query in [0, 1], in input order */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+export type RerankerBackend = 'jina' | 'local' | 'none';
+
+export interface RerankConfig {
+  /** Passages kept after reranking */
+  topN: number;
+  /** Passages scoring below this for every query are dropped (the best passage is always kept) */
+  minScore: number;
+  /** Sub-questions each passage is scored against, besides the main query */
+  maxSubQuestions: number;
+}
+
+export const DEFAULT_RERANK_CONFIG: RerankConfig = {
+  topN: 6,
+  minScore: 0,
+  maxSubQuestions: 3
+};
+
+/**
+ * Rerank configuration from environment defaults plus per-call overrides
+ *
+ * Reads RERANK_TOP_N and RERANK_MIN_SCORE.
+ */
+export function resolveRerankConfig(overrides: Partial<RerankConfig> = {}): RerankConfig {
+  const envTopN = Number(process.env.RERANK_TOP_N);
+  const envMinScore = Number(process.env.RERANK_MIN_SCORE);
+
+  return {
+    topN: overrides.topN ?? (envTopN > 0 ? envTopN : DEFAULT_RERANK_CONFIG.topN),
+    minScore: overrides.minScore
+      ?? (process.env.RERANK_MIN_SCORE && envMinScore >= 0 && envMinScore <= 1 ? envMinScore : DEFAULT_RERANK_CONFIG.minScore),
+    maxSubQuestions: overrides.maxSubQuestions ?? DEFAULT_RERANK_CONFIG.maxSubQuestions
+  };
+}
+
+/**
+ * Create the reranker selected by RERANKER (default: none, which disables reranking)
+ */
+export function createReranker(backend: string = process.env.RERANKER || 'none'): Reranker | null {
+  switch (backend as RerankerBackend) {
+    case 'jina':
+      return new JinaReranker();
+    case 'local':
+      return new LocalCrossEncoderReranker();
+    case 'none':
+      return null;
+    default:
+      console.warn(`⚠️  Unknown RERANKER "${backend}", reranking disabled`);
+      return null;
+  }
+}
+
+const rerankers = new Map<string, Reranker | null>();
+
+/**
+ * Shared reranker for a backend name, or the configured default without one
+ *
+ * Every search using a backend shares one instance, so the local model is loaded once.
+ */
+export function getReranker(backend?: string): Reranker | null {
+  const name = backend || process.env.RERANKER || 'none';
+  if (!rerankers.has(name)) {
+    rerankers.set(name, createReranker(name));
+  }
+  return rerankers.get(name)!;
+}
+
+export interface RerankedItem<T> {
+  item: T;
+  /** Best score over all queries */
+  score: number;
+  /** Index of the query that gave the best score (0 is the main query) */
+  bestQuery: number;
+  /** Position before reranking */
+  originalRank: number;
+}
+
+/**
+ * Score every item against each query, keep its best score and order the
+ * items by it. Returns all items; trimming is left to the caller.
+ */
+export async function rerankItems<T extends { text: string }>(
+  reranker: Reranker,
+  queries: string[],
+  items: T[]
+): Promise<RerankedItem<T>[]> {
+  const documents = items.map(item => item.text);
+  const scoresPerQuery = await Promise.all(queries.map(query => reranker.score(query, documents)));
+
+  return items
+    .map((item, index) => {
+      let score = -Infinity;
+      let bestQuery = 0;
+      scoresPerQuery.forEach((scores, queryIndex) => {
+        if (scores[index] > score) {
+          score = scores[index];
+          bestQuery = queryIndex;
+        }
+      });
+      return { item, score, bestQuery, originalRank: index };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,64 @@
+import type { Reranker } from './index';
+
+const JINA_RERANK_API = 'https://api.jina.ai/v1/rerank';
+
+/**
+ * Jina AI reranker (jina-reranker-v2-base-multilingual by default)
+ *
+ * Also works with self-hosted servers implementing the same `/rerank` API
+ * (e.g. Text Embeddings Inference behind a compatible proxy) through `endpoint`.
+ */
+export class JinaReranker implements Reranker {
+  readonly id: string;
+
+  constructor(
+    private apiKey: string | undefined = process.env.JINA_API_KEY,
+    private model: string = process.env.RERANKER_MODEL || 'jina-reranker-v2-base-multilingual',
+    private endpoint: string = process.env.RERANKER_URL || JINA_RERANK_API
+  ) {
+    this.id = `jina:${model}`;
+  }
+
+  /**
+   * Configured with an API key, or with a custom endpoint (self-hosted servers often need none)
+   */
+  isConfigured(): boolean {
+    return !!this.apiKey || this.endpoint !== JINA_RERANK_API;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents,
+        top_n: documents.length,
+        return_documents: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Jina rerank API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data?.results)) {
+      throw new Error('Invalid response from Jina rerank API');
+    }
+
+    // Results come sorted by relevance; put the scores back in input order
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const result of data.results) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+}
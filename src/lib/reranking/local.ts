@@ -0,0 +1,84 @@
+import type { Reranker } from './index';
+
+export interface LocalCrossEncoderOptions {
+  /** Hugging Face cross-encoder with ONNX weights */
+  model?: string;
+  /** Directory holding pre-downloaded models; remote downloads are disabled when set */
+  modelPath?: string;
+  batchSize?: number;
+}
+
+/**
+ * Cross-encoder reranking computed in-process on the CPU with an ONNX model
+ * through @huggingface/transformers (ms-marco-MiniLM-L-6-v2 by default).
+ * Needs no API key.
+ *
+ * The model's relevance logit is squashed with a sigmoid so scores fall in
+ * [0, 1] like the Jina reranker's. Defaults come from LOCAL_RERANKER_MODEL
+ * and LOCAL_RERANKER_MODEL_PATH.
+ */
+export class LocalCrossEncoderReranker implements Reranker {
+  readonly id: string;
+  private model: string;
+  private modelPath: string | undefined;
+  private batchSize: number;
+  private loaded: Promise<{ tokenizer: any; model: any }> | null = null;
+
+  constructor(options: LocalCrossEncoderOptions = {}) {
+    this.model = options.model || process.env.LOCAL_RERANKER_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2';
+    this.modelPath = options.modelPath || process.env.LOCAL_RERANKER_MODEL_PATH;
+    this.batchSize = options.batchSize || 16;
+    this.id = `local:${this.model}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Load the tokenizer and model once; concurrent callers share the load
+   */
+  private load(): Promise<{ tokenizer: any; model: any }> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const transformers = await import('@huggingface/transformers');
+        if (this.modelPath) {
+          transformers.env.localModelPath = this.modelPath;
+          transformers.env.allowRemoteModels = false;
+        }
+        const [tokenizer, model] = await Promise.all([
+          transformers.AutoTokenizer.from_pretrained(this.model),
+          transformers.AutoModelForSequenceClassification.from_pretrained(this.model, { dtype: 'fp32' })
+        ]);
+        return { tokenizer, model };
+      })();
+
+      // Let a failed load be retried on the next call
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const { tokenizer, model } = await this.load();
+    const scores: number[] = [];
+
+    for (let start = 0; start < documents.length; start += this.batchSize) {
+      const batch = documents.slice(start, start + this.batchSize);
+      const inputs = tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true
+      });
+      const { logits } = await model(inputs);
+      const rows = logits.tolist() as number[][];
+      scores.push(...rows.map(row => 1 / (1 + Math.exp(-row[0]))));
+    }
+
+    return scores;
+  }
+}
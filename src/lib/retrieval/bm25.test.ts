@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { BM25Index, tokenize } from './bm25';
+
+test('tokenize lowercases and drops stopwords and single characters', () => {
+  assert.deepEqual(tokenize('What is the COP of a Heat-Pump in 2024?'), ['cop', 'heat', 'pump', '2024']);
+});
+
+test('BM25 ranks passages by term rarity and frequency', () => {
+  const index = new BM25Index([
+    'Heat pumps move heat with a refrigerant cycle.',
+    'Gas boilers burn fuel to heat water.',
+    'The coefficient of performance measures heat pump efficiency.'
+  ]);
+
+  const scores = index.score('heat pump efficiency');
+  assert.equal(scores.length, 3);
+  assert.ok(scores[2] > scores[0] && scores[0] > scores[1], scores.join(', '));
+});
+
+test('BM25 scores passages without query terms as zero', () => {
+  const index = new BM25Index(['Heat pumps', 'Solar panels']);
+
+  assert.deepEqual(index.score('wind turbines'), [0, 0]);
+  assert.equal(index.score('solar')[0], 0);
+});
+
+test('BM25 favours shorter passages for the same term frequency', () => {
+  const index = new BM25Index([
+    'Solar panels.',
+    'Solar panels convert sunlight into electricity using photovoltaic cells on rooftops.',
+    'Wind turbines.'
+  ]);
+
+  const [short, long] = index.score('solar');
+  assert.ok(short > long);
+});
@@ -0,0 +1,74 @@
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with'
+]);
+
+/**
+ * Lowercased word and number tokens without stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Okapi BM25 index over a fixed set of passages
+ */
+export class BM25Index {
+  private termFrequencies: Array<Map<string, number>>;
+  private lengths: number[];
+  private averageLength: number;
+  private documentFrequencies: Map<string, number> = new Map();
+
+  constructor(documents: string[], private k1: number = 1.2, private b: number = 0.75) {
+    this.termFrequencies = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokenize(document)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies =>
+      [...frequencies.values()].reduce((sum, count) => sum + count, 0)
+    );
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, documents.length);
+
+    for (const frequencies of this.termFrequencies) {
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Number of distinct terms in the indexed passages
+   */
+  get termCount(): number {
+    return this.documentFrequencies.size;
+  }
+
+  private idf(term: string): number {
+    const documentCount = this.termFrequencies.length;
+    const frequency = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  /**
+   * BM25 score of every passage for the query, in passage order
+   */
+  score(query: string): number[] {
+    const terms = [...new Set(tokenize(query))].filter(term => this.documentFrequencies.has(term));
+
+    return this.termFrequencies.map((frequencies, index) => {
+      const lengthNorm = 1 - this.b + this.b * (this.lengths[index] / (this.averageLength || 1));
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        score += this.idf(term) * (frequency * (this.k1 + 1)) / (frequency + this.k1 * lengthNorm);
+      }
+      return score;
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument, DEFAULT_CHUNKING_CONFIG, splitSentences } from './chunking';
+
+test('splitSentences keeps closing punctuation and quotes', () => {
+  assert.deepEqual(splitSentences('It works. Does it? "Yes!" Done'), ['It works.', 'Does it?', '"Yes!"', 'Done']);
+});
+
+test('chunkDocument records the heading path of every chunk', () => {
+  const chunks = chunkDocument([
+    '# Heat pumps',
+    'Heat pumps move heat from outside air into a house.',
+    '## Efficiency',
+    'Their coefficient of performance is usually between 2.5 and 4.',
+    '# Boilers',
+    'Gas boilers burn fuel to heat water for radiators.'
+  ].join('\n\n'), DEFAULT_CHUNKING_CONFIG);
+
+  assert.deepEqual(chunks.map(chunk => chunk.metadata.headingPath), [
+    ['Heat pumps'],
+    ['Heat pumps', 'Efficiency'],
+    ['Boilers']
+  ]);
+  assert.deepEqual(chunks.map(chunk => chunk.metadata.chunkIndex), [0, 1, 2]);
+});
+
+test('chunkDocument keeps tables and code blocks whole', () => {
+  const chunks = chunkDocument([
+    'Compare the running costs of both systems below.',
+    '| System | Cost |\n| --- | --- |\n| Heat pump | 800 |\n| Boiler | 1200 |',
+    '```sh\nheatpump --status\n\nheatpump --mode eco\n```'
+  ].join('\n\n'), DEFAULT_CHUNKING_CONFIG);
+
+  assert.deepEqual(chunks.map(chunk => chunk.metadata.kind), ['text', 'table', 'code']);
+  assert.match(chunks[1].text, /Boiler \| 1200/);
+  assert.match(chunks[2].text, /--mode eco\n```$/);
+});
+
+test('chunkDocument packs paragraphs up to the target size with sentence overlap', () => {
+  const paragraphs = Array.from({ length: 6 }, (_, index) =>
+    `Paragraph ${index} opens with a sentence. It closes with sentence number ${index}.`
+  );
+  const config = { targetTokens: 40, maxTokens: 80, overlapTokens: 12, minTokens: 5 };
+
+  const chunks = chunkDocument(paragraphs.join('\n\n'), config);
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.metadata.tokenCount <= config.targetTokens + config.overlapTokens, chunk.text);
+  }
+  // Each chunk after the first starts with the last sentence of the one before
+  for (let i = 1; i < chunks.length; i++) {
+    const previous = splitSentences(chunks[i - 1].text);
+    assert.ok(chunks[i].text.startsWith(previous[previous.length - 1]), chunks[i].text);
+  }
+});
+
+test('chunkDocument keeps the page of paged documents and never spans pages', () => {
+  const chunks = chunkDocument(
+    ['Page one talks about heat pumps.', 'Page two talks about boilers.'],
+    DEFAULT_CHUNKING_CONFIG,
+    [1, 2]
+  );
+
+  assert.deepEqual(chunks.map(chunk => chunk.metadata.page), [1, 2]);
+});
@@ -0,0 +1,283 @@
+/**
+ * Structure-aware chunking of scraped page content
+ *
+ * Pages are split on headings first, then on paragraphs, and paragraphs that
+ * are too long are split on sentence boundaries. Neighbouring paragraphs of
+ * one section are packed into chunks of about `targetTokens`; consecutive
+ * chunks of a section share up to `overlapTokens` of trailing sentences.
+ * Tables and code blocks are never split or packed with other content.
+ * Every chunk records the path of headings it sits under, and for paged
+ * documents the page it was taken from; chunks never span pages.
+ */
+
+export interface ChunkingConfig {
+  /** Size chunks are packed up to */
+  targetTokens: number;
+  /** Paragraphs above this size are split into sentences */
+  maxTokens: number;
+  /** Trailing sentences of a chunk repeated at the start of the next one */
+  overlapTokens: number;
+  /** Text chunks below this size (stray links, labels) are dropped */
+  minTokens: number;
+}
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  targetTokens: 256,
+  maxTokens: 512,
+  overlapTokens: 40,
+  minTokens: 5
+};
+
+export type ChunkKind = 'text' | 'table' | 'code';
+
+export interface ChunkMetadata {
+  /** Headings the chunk sits under, outermost first */
+  headingPath: string[];
+  kind: ChunkKind;
+  /** Position of the chunk within its document */
+  chunkIndex: number;
+  tokenCount: number;
+  /** Page of a paged document (PDF, DOCX) the chunk was taken from */
+  page?: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  metadata: ChunkMetadata;
+}
+
+interface ContentUnit {
+  text: string;
+  kind: ChunkKind;
+  headingPath: string[];
+  page?: number;
+}
+
+/**
+ * Chunking configuration from environment defaults plus per-call overrides
+ *
+ * Reads RAG_CHUNK_TOKENS (target size; the maximum is twice that) and RAG_CHUNK_OVERLAP.
+ */
+export function resolveChunkingConfig(overrides: Partial<ChunkingConfig> = {}): ChunkingConfig {
+  const envTarget = Number(process.env.RAG_CHUNK_TOKENS);
+  const envOverlap = Number(process.env.RAG_CHUNK_OVERLAP);
+
+  const targetTokens = overrides.targetTokens
+    ?? (envTarget > 0 ? envTarget : DEFAULT_CHUNKING_CONFIG.targetTokens);
+
+  return {
+    targetTokens,
+    maxTokens: overrides.maxTokens ?? Math.max(targetTokens * 2, DEFAULT_CHUNKING_CONFIG.minTokens),
+    overlapTokens: overrides.overlapTokens
+      ?? (process.env.RAG_CHUNK_OVERLAP && envOverlap >= 0 ? envOverlap : DEFAULT_CHUNKING_CONFIG.overlapTokens),
+    minTokens: overrides.minTokens ?? DEFAULT_CHUNKING_CONFIG.minTokens
+  };
+}
+
+/**
+ * Approximate token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split text into sentences, keeping closing punctuation and quotes
+ */
+export function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const HTML_BLOCK = /^\s*<(table|pre)\b/i;
+
+/**
+ * Split markdown into headings-aware units: paragraphs, tables and code blocks
+ *
+ * `headings` holds the open headings; passing the same array for
+ * consecutive blocks carries the heading path from one block to the next.
+ */
+function parseUnits(markdown: string, headings: Array<{ level: number; text: string }> = []): ContentUnit[] {
+  const lines = markdown.split(/\r?\n/);
+  const units: ContentUnit[] = [];
+  let paragraph: string[] = [];
+
+  const headingPath = () => headings.map(heading => heading.text);
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) units.push({ text, kind: 'text', headingPath: headingPath() });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const block = [line];
+      while (++i < lines.length) {
+        block.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) break;
+      }
+      units.push({ text: block.join('\n'), kind: 'code', headingPath: headingPath() });
+      continue;
+    }
+
+    const html = line.match(HTML_BLOCK);
+    if (html) {
+      flushParagraph();
+      const closing = new RegExp(`</${html[1]}>`, 'i');
+      const block = [line];
+      while (!closing.test(block[block.length - 1]) && ++i < lines.length) {
+        block.push(lines[i]);
+      }
+      units.push({ text: block.join('\n'), kind: html[1].toLowerCase() === 'pre' ? 'code' : 'table', headingPath: headingPath() });
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      flushParagraph();
+      const block = [line];
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+        block.push(lines[++i]);
+      }
+      units.push({ text: block.join('\n'), kind: 'table', headingPath: headingPath() });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2] });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return units;
+}
+
+/**
+ * Pieces of a paragraph no larger than `maxTokens`: the paragraph itself,
+ * its sentences, or for run-on sentences, runs of words
+ */
+function splitParagraph(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  return splitSentences(text).flatMap(sentence => {
+    if (estimateTokens(sentence) <= maxTokens) return [sentence];
+
+    const pieces: string[] = [];
+    let piece = '';
+    for (const word of sentence.split(/\s+/)) {
+      if (piece && estimateTokens(`${piece} ${word}`) > maxTokens) {
+        pieces.push(piece);
+        piece = word;
+      } else {
+        piece = piece ? `${piece} ${word}` : word;
+      }
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+  });
+}
+
+/**
+ * Trailing sentences of a chunk that fit within the overlap budget
+ */
+function overlapTail(text: string, overlapTokens: number): string {
+  if (overlapTokens <= 0) return '';
+
+  const tail: string[] = [];
+  let tokens = 0;
+  for (const sentence of splitSentences(text).reverse()) {
+    tokens += estimateTokens(sentence);
+    if (tokens > overlapTokens) break;
+    tail.unshift(sentence);
+  }
+  return tail.join(' ');
+}
+
+/**
+ * Chunk a page given as scraped content blocks or as one markdown string
+ *
+ * `pages` gives the page each content block was taken from, for paged documents.
+ */
+export function chunkDocument(
+  content: string | string[],
+  config: ChunkingConfig = resolveChunkingConfig(),
+  pages?: number[]
+): DocumentChunk[] {
+  const blocks = Array.isArray(content) ? content : [content];
+  const chunks: DocumentChunk[] = [];
+
+  // Blocks of paged documents are parsed one by one to keep their page
+  const headings: Array<{ level: number; text: string }> = [];
+  const units = pages
+    ? blocks.flatMap((block, index) => parseUnits(block, headings).map(unit => ({ ...unit, page: pages[index] })))
+    : parseUnits(blocks.join('\n\n'), headings);
+
+  const pushChunk = (text: string, kind: ChunkKind, headingPath: string[], page?: number) => {
+    const tokenCount = estimateTokens(text);
+    if (kind === 'text' && tokenCount < config.minTokens) return;
+    chunks.push({
+      text,
+      metadata: { headingPath, kind, chunkIndex: chunks.length, tokenCount, ...(page !== undefined ? { page } : {}) }
+    });
+  };
+
+  let current = '';
+  let currentPath: string[] = [];
+  let currentPage: number | undefined;
+  // Whether `current` holds more than the overlap carried over from the previous chunk
+  let hasNewContent = false;
+
+  const flush = (carryOverlap: boolean) => {
+    if (current && hasNewContent) pushChunk(current, 'text', currentPath, currentPage);
+    current = carryOverlap && hasNewContent ? overlapTail(current, config.overlapTokens) : '';
+    hasNewContent = false;
+  };
+
+  for (const unit of units) {
+    if (unit.headingPath.join('\u0000') !== currentPath.join('\u0000') || unit.page !== currentPage) {
+      flush(false);
+      currentPath = unit.headingPath;
+      currentPage = unit.page;
+    }
+
+    if (unit.kind !== 'text') {
+      flush(false);
+      pushChunk(unit.text, unit.kind, unit.headingPath, unit.page);
+      continue;
+    }
+
+    const pieces = splitParagraph(unit.text, config.maxTokens);
+    pieces.forEach((piece, index) => {
+      // Whole paragraphs are separated by blank lines, sentences of one paragraph by spaces
+      const separator = index === 0 ? '\n\n' : ' ';
+      if (hasNewContent && estimateTokens(current + separator + piece) > config.targetTokens) {
+        flush(true);
+      }
+      current = current ? current + (hasNewContent ? separator : ' ') + piece : piece;
+      hasNewContent = true;
+    });
+  }
+
+  flush(false);
+  return chunks;
+}
@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_HYBRID_RETRIEVAL_CONFIG, fuseScores, selectByMMR, type RetrievalCandidate } from './hybrid';
+
+const candidate = (text: string, url: string, lexical: number, dense?: number, embedding?: number[]): RetrievalCandidate =>
+  ({ text, url, lexical, dense, embedding });
+
+test('fuseScores weighs normalized dense and lexical scores', () => {
+  const scored = fuseScores([
+    candidate('a', 'https://a.example', 10, 0.2),
+    candidate('b', 'https://b.example', 0, 0.9),
+    candidate('c', 'https://c.example', 5)
+  ], DEFAULT_HYBRID_RETRIEVAL_CONFIG, 'hybrid');
+
+  assert.deepEqual(scored.map(passage => [passage.text, Number(passage.score.toFixed(3))]), [
+    ['b', 0.6],
+    ['a', 0.533],
+    ['c', 0.2]
+  ]);
+});
+
+test('fuseScores ranks on BM25 alone in lexical mode', () => {
+  const scored = fuseScores([
+    candidate('a', 'https://a.example', 1, 0.9),
+    candidate('b', 'https://b.example', 3, 0.1)
+  ], DEFAULT_HYBRID_RETRIEVAL_CONFIG, 'lexical');
+
+  assert.deepEqual(scored.map(passage => [passage.text, passage.score]), [['b', 1], ['a', 0]]);
+});
+
+test('selectByMMR skips passages too similar to those already picked', () => {
+  const passages = [
+    { ...candidate('first', 'https://a.example', 0, undefined, [1, 0]), score: 1 },
+    { ...candidate('copy', 'https://b.example', 0, undefined, [1, 0]), score: 0.95 },
+    { ...candidate('other', 'https://c.example', 0, undefined, [0, 1]), score: 0.8 }
+  ];
+
+  const selected = selectByMMR(passages, { ...DEFAULT_HYBRID_RETRIEVAL_CONFIG, topK: 2 });
+  assert.deepEqual(selected.map(passage => passage.text), ['first', 'other']);
+
+  const byRelevance = selectByMMR(passages, { ...DEFAULT_HYBRID_RETRIEVAL_CONFIG, topK: 2, mmrLambda: 1 });
+  assert.deepEqual(byRelevance.map(passage => passage.text), ['first', 'copy']);
+});
+
+test('selectByMMR spreads picks across pages', () => {
+  const passages = [
+    { ...candidate('heat pumps save energy', 'https://a.example', 0), score: 1 },
+    { ...candidate('solar panels make power', 'https://a.example', 0), score: 0.9 },
+    { ...candidate('wind turbines spin', 'https://b.example', 0), score: 0.8 }
+  ];
+
+  const selected = selectByMMR(passages, { ...DEFAULT_HYBRID_RETRIEVAL_CONFIG, topK: 2 });
+  assert.deepEqual(selected.map(passage => passage.url), ['https://a.example', 'https://b.example']);
+});
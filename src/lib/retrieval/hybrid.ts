@@ -0,0 +1,152 @@
+import { tokenize } from './bm25';
+import { cosineSimilarity } from './similarity';
+
+export interface HybridRetrievalConfig {
+  /** Weight of the normalized dense (embedding) score */
+  denseWeight: number;
+  /** Weight of the normalized BM25 score */
+  lexicalWeight: number;
+  /** MMR trade-off: 1 ranks by relevance only, lower values favour diversity */
+  mmrLambda: number;
+  /** Similarity assumed between passages from the same page, so one page cannot fill the top */
+  sameSourceSimilarity: number;
+  /** Passages returned */
+  topK: number;
+}
+
+export const DEFAULT_HYBRID_RETRIEVAL_CONFIG: HybridRetrievalConfig = {
+  denseWeight: 0.6,
+  lexicalWeight: 0.4,
+  mmrLambda: 0.7,
+  sameSourceSimilarity: 0.5,
+  topK: 10
+};
+
+export type RetrievalMode = 'hybrid' | 'lexical';
+
+/**
+ * A passage considered for retrieval
+ */
+export interface RetrievalCandidate {
+  text: string;
+  url: string;
+  embedding?: number[];
+  /** Chunk metadata (heading path, kind, position) carried through to citations */
+  metadata?: Record<string, any>;
+  /** Best cosine similarity to any query; absent when the passage or the queries have no embedding */
+  dense?: number;
+  /** Best BM25 score for any query */
+  lexical: number;
+}
+
+export interface ScoredPassage extends RetrievalCandidate {
+  score: number;
+}
+
+/**
+ * Hybrid retrieval configuration from environment defaults plus per-call overrides
+ *
+ * Reads RAG_DENSE_WEIGHT (the lexical weight is the remainder), RAG_MMR_LAMBDA and RAG_TOP_K.
+ */
+export function resolveHybridRetrievalConfig(overrides: Partial<HybridRetrievalConfig> = {}): HybridRetrievalConfig {
+  const envDenseWeight = Number(process.env.RAG_DENSE_WEIGHT);
+  const envMmrLambda = Number(process.env.RAG_MMR_LAMBDA);
+  const envTopK = Number(process.env.RAG_TOP_K);
+
+  const denseWeight = overrides.denseWeight
+    ?? (process.env.RAG_DENSE_WEIGHT && envDenseWeight >= 0 && envDenseWeight <= 1
+      ? envDenseWeight
+      : DEFAULT_HYBRID_RETRIEVAL_CONFIG.denseWeight);
+
+  return {
+    denseWeight,
+    lexicalWeight: overrides.lexicalWeight ?? 1 - denseWeight,
+    mmrLambda: overrides.mmrLambda
+      ?? (envMmrLambda > 0 && envMmrLambda <= 1 ? envMmrLambda : DEFAULT_HYBRID_RETRIEVAL_CONFIG.mmrLambda),
+    sameSourceSimilarity: overrides.sameSourceSimilarity ?? DEFAULT_HYBRID_RETRIEVAL_CONFIG.sameSourceSimilarity,
+    topK: overrides.topK ?? (envTopK > 0 ? envTopK : DEFAULT_HYBRID_RETRIEVAL_CONFIG.topK)
+  };
+}
+
+function minMaxNormalize(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(value => (max > min ? (value - min) / (max - min) : value > 0 ? 1 : 0));
+}
+
+/**
+ * Combine dense and BM25 scores after scaling each to 0..1 across the candidates
+ *
+ * In `lexical` mode only BM25 counts. In `hybrid` mode a passage without an
+ * embedding scores on its lexical part alone.
+ */
+export function fuseScores(
+  candidates: RetrievalCandidate[],
+  config: HybridRetrievalConfig,
+  mode: RetrievalMode
+): ScoredPassage[] {
+  if (candidates.length === 0) return [];
+
+  const lexical = minMaxNormalize(candidates.map(candidate => candidate.lexical));
+  const dense = minMaxNormalize(candidates.map(candidate => candidate.dense ?? 0));
+
+  return candidates
+    .map((candidate, index) => ({
+      ...candidate,
+      score: mode === 'lexical'
+        ? lexical[index]
+        : config.denseWeight * (candidate.dense === undefined ? 0 : dense[index]) + config.lexicalWeight * lexical[index]
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Pick `topK` passages by maximal marginal relevance
+ *
+ * Each pick maximizes `lambda * score - (1 - lambda) * similarity` to the
+ * passages already picked. Similarity is the cosine of the embeddings, or
+ * token overlap when either passage has none, and at least
+ * `sameSourceSimilarity` for passages from the same page.
+ */
+export function selectByMMR(passages: ScoredPassage[], config: HybridRetrievalConfig): ScoredPassage[] {
+  const tokens = passages.map(passage => new Set(tokenize(passage.text)));
+  const similarity = (i: number, j: number): number => {
+    const a = passages[i];
+    const b = passages[j];
+    const content = a.embedding && b.embedding
+      ? cosineSimilarity(a.embedding, b.embedding)
+      : jaccard(tokens[i], tokens[j]);
+    return a.url === b.url ? Math.max(content, config.sameSourceSimilarity) : content;
+  };
+
+  const selected: number[] = [];
+  const remaining = new Set(passages.map((_, index) => index));
+
+  while (selected.length < config.topK && remaining.size > 0) {
+    let best = -1;
+    let bestValue = -Infinity;
+
+    for (const index of remaining) {
+      const redundancy = selected.length > 0 ? Math.max(...selected.map(chosen => similarity(index, chosen))) : 0;
+      const value = config.mmrLambda * passages[index].score - (1 - config.mmrLambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        best = index;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+  }
+
+  return selected.map(index => passages[index]);
+}
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { InMemoryVectorStore } from './memory';
+import { PgVectorStore } from './pgvector';
+
+export { cosineSimilarity } from './similarity';
+export { BM25Index, tokenize } from './bm25';
+export {
+  DEFAULT_HYBRID_RETRIEVAL_CONFIG,
+  fuseScores,
+  resolveHybridRetrievalConfig,
+  selectByMMR
+} from './hybrid';
+export type { HybridRetrievalConfig, RetrievalCandidate, RetrievalMode, ScoredPassage } from './hybrid';
+export {
+  chunkDocument,
+  DEFAULT_CHUNKING_CONFIG,
+  estimateTokens,
+  resolveChunkingConfig,
+  splitSentences
+} from './chunking';
+export type { ChunkingConfig, ChunkKind, ChunkMetadata, DocumentChunk } from './chunking';
+export { InMemoryVectorStore, PgVectorStore };
+
+/**
+ * Identifies one chunk of a page: the same text at the same URL is embedded once
+ */
+export interface ChunkKey {
+  url: string;
+  contentHash: string;
+}
+
+export interface ChunkEmbedding extends ChunkKey {
+  text: string;
+  embedding: number[];
+  /** Embedding model; vectors from different models are never compared */
+  model: string;
+  metadata?: Record<string, any>;
+}
+
+export type VectorMatch = Omit<ChunkEmbedding, 'embedding'> & { similarity: number };
+
+export interface VectorQueryOptions {
+  model: string;
+  topK: number;
+  minSimilarity?: number;
+  /** Pages to leave out, e.g. the ones already retrieved for this search */
+  excludeUrls?: string[];
+}
+
+/**
+ * Store of chunk embeddings shared across searches
+ */
+export interface VectorStore {
+  /** Stored embeddings for the given chunks; chunks not stored yet are left out */
+  getMany(keys: ChunkKey[], model: string): Promise<ChunkEmbedding[]>;
+  upsert(chunks: ChunkEmbedding[]): Promise<void>;
+  /** Nearest chunks by cosine similarity, most similar first */
+  query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+}
+
+/**
+ * Hash of a chunk's text, ignoring surrounding whitespace
+ */
+export function hashChunkContent(text: string): string {
+  return createHash('sha256').update(text.trim()).digest('hex');
+}
+
+export type VectorStoreBackend = 'memory' | 'pgvector';
+
+/**
+ * Create the vector store selected by VECTOR_STORE (default: memory)
+ *
+ * `pgvector` needs migrations/09_create_chunk_embeddings_table.sql; `memory`
+ * keeps at most VECTOR_STORE_MAX_CHUNKS chunks per server process.
+ */
+export function createVectorStore(backend: string = process.env.VECTOR_STORE || 'memory'): VectorStore {
+  switch (backend as VectorStoreBackend) {
+    case 'pgvector':
+      return new PgVectorStore();
+    case 'memory':
+      return new InMemoryVectorStore(Number(process.env.VECTOR_STORE_MAX_CHUNKS) || 20000);
+    default:
+      console.warn(`⚠️  Unknown VECTOR_STORE "${backend}", using memory`);
+      return new InMemoryVectorStore(Number(process.env.VECTOR_STORE_MAX_CHUNKS) || 20000);
+  }
+}
+
+// Export singleton instance
+export const vectorStore = createVectorStore();
@@ -0,0 +1,58 @@
+import type { ChunkEmbedding, ChunkKey, VectorMatch, VectorQueryOptions, VectorStore } from './index';
+import { cosineSimilarity } from './similarity';
+
+/**
+ * Vector store held in process memory, used when no database is configured
+ * and in tests. Embeddings are reused across searches handled by the same
+ * server process; the oldest chunks are evicted beyond `maxChunks`.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private chunks: Map<string, ChunkEmbedding> = new Map();
+
+  constructor(private maxChunks: number = 20000) {}
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  private key(chunk: ChunkKey, model: string): string {
+    return `${model}:${chunk.url}#${chunk.contentHash}`;
+  }
+
+  async getMany(keys: ChunkKey[], model: string): Promise<ChunkEmbedding[]> {
+    return keys
+      .map(key => this.chunks.get(this.key(key, model)))
+      .filter((chunk): chunk is ChunkEmbedding => !!chunk);
+  }
+
+  async upsert(chunks: ChunkEmbedding[]): Promise<void> {
+    for (const chunk of chunks) {
+      const key = this.key(chunk, chunk.model);
+      this.chunks.delete(key);
+      this.chunks.set(key, chunk);
+    }
+
+    while (this.chunks.size > this.maxChunks) {
+      const oldestKey = this.chunks.keys().next().value as string;
+      this.chunks.delete(oldestKey);
+    }
+  }
+
+  async query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const excluded = new Set(options.excludeUrls || []);
+    const minSimilarity = options.minSimilarity ?? 0;
+    const matches: VectorMatch[] = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (chunk.model !== options.model || excluded.has(chunk.url)) continue;
+
+      const similarity = cosineSimilarity(embedding, chunk.embedding);
+      if (similarity < minSimilarity) continue;
+
+      const { embedding: _embedding, ...rest } = chunk;
+      matches.push({ ...rest, similarity });
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.topK);
+  }
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { ChunkEmbedding, ChunkKey, VectorMatch, VectorQueryOptions, VectorStore } from './index';
+
+/**
+ * pgvector returns vectors in their text form, e.g. "[0.1,0.2]"
+ */
+function parseVector(value: number[] | string): number[] {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Vector store in Postgres with the pgvector extension, shared by every
+ * server instance. See migrations/09_create_chunk_embeddings_table.sql and
+ * 10_alter_chunk_embeddings_any_dimension.sql (per-model indexes);
+ * nearest-neighbour queries run in the match_chunk_embeddings function.
+ *
+ * Database errors are logged: reads return nothing and writes are dropped,
+ * so an unavailable store only costs re-embedding.
+ */
+export class PgVectorStore implements VectorStore {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private table: string = 'chunk_embeddings'
+  ) {}
+
+  async getMany(keys: ChunkKey[], model: string): Promise<ChunkEmbedding[]> {
+    if (keys.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('url, content_hash, model, content, embedding, metadata')
+      .eq('model', model)
+      .in('url', [...new Set(keys.map(key => key.url))]);
+
+    if (error) {
+      console.warn('⚠️  Vector store read failed:', error.message);
+      return [];
+    }
+
+    // Pages are looked up whole; keep only the requested chunks
+    const wanted = new Set(keys.map(key => `${key.url}#${key.contentHash}`));
+    return (data || [])
+      .filter(row => wanted.has(`${row.url}#${row.content_hash}`))
+      .map(row => ({
+        url: row.url,
+        contentHash: row.content_hash,
+        model: row.model,
+        text: row.content,
+        embedding: parseVector(row.embedding),
+        metadata: row.metadata || {}
+      }));
+  }
+
+  async upsert(chunks: ChunkEmbedding[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const { error } = await this.client
+      .from(this.table)
+      .upsert(chunks.map(chunk => ({
+        url: chunk.url,
+        content_hash: chunk.contentHash,
+        model: chunk.model,
+        content: chunk.text,
+        embedding: chunk.embedding,
+        metadata: chunk.metadata || {}
+      })));
+
+    if (error) {
+      console.warn(`⚠️  Vector store write failed for ${chunks.length} chunks:`, error.message);
+    }
+  }
+
+  async query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const { data, error } = await this.client.rpc('match_chunk_embeddings', {
+      query_embedding: embedding,
+      match_model: options.model,
+      match_count: options.topK,
+      min_similarity: options.minSimilarity ?? 0,
+      exclude_urls: options.excludeUrls || []
+    });
+
+    if (error) {
+      console.warn('⚠️  Vector store query failed:', error.message);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      url: row.url,
+      contentHash: row.content_hash,
+      model: row.model,
+      text: row.content,
+      metadata: row.metadata || {},
+      similarity: row.similarity
+    }));
+  }
+}
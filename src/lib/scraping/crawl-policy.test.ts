@@ -0,0 +1,81 @@
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { CrawlPolicy, isAllowedByRobots, parseRobotsTxt, robotsCrawlDelay } from './crawl-policy';
+import { DEFAULT_CRAWL_POLICY_CONFIG, DEFAULT_SCRAPING_CONFIG } from './index';
+
+const ROBOTS = [
+  'User-agent: *',
+  'Disallow: /private',
+  'Allow: /private/open',
+  'Disallow: /*.pdf$',
+  'Crawl-delay: 2',
+  '',
+  'User-agent: SevenSearch',
+  'User-agent: OtherBot',
+  'Disallow: /search',
+  '',
+  'Sitemap: https://example.com/sitemap.xml'
+].join('\n');
+
+test('parseRobotsTxt groups consecutive user-agents and collects sitemaps', () => {
+  const rules = parseRobotsTxt(ROBOTS);
+
+  assert.equal(rules.groups.length, 2);
+  assert.deepEqual(rules.groups[1].agents, ['sevensearch', 'otherbot']);
+  assert.deepEqual(rules.sitemaps, ['https://example.com/sitemap.xml']);
+  assert.equal(robotsCrawlDelay(rules, 'AnyBot/1.0'), 2000);
+});
+
+test('isAllowedByRobots picks the longest matching rule and honors wildcards', () => {
+  const rules = parseRobotsTxt(ROBOTS);
+  const allowed = (url: string, agent = 'AnyBot/1.0') => isAllowedByRobots(rules, new URL(url), agent).allowed;
+
+  assert.equal(allowed('https://example.com/private/page'), false);
+  assert.equal(allowed('https://example.com/private/open/page'), true);
+  assert.equal(allowed('https://example.com/paper.pdf'), false);
+  assert.equal(allowed('https://example.com/paper.pdf?download=1'), true);
+  assert.equal(allowed('https://example.com/robots.txt'), true);
+  // A group naming the agent replaces the `*` group
+  assert.equal(allowed('https://example.com/private/page', 'SevenSearch/1.0'), true);
+  assert.equal(allowed('https://example.com/search?q=x', 'SevenSearch/1.0'), false);
+});
+
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/robots.txt') {
+      // Rules first, then comments past the 500 KiB parsing limit
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end(`User-agent: *\nDisallow: /private\n${'# padding\n'.repeat(60_000)}Disallow: /late\n`);
+    } else {
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('page');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('CrawlPolicy applies the rules at the start of an oversized robots.txt', async () => {
+  const policy = new CrawlPolicy();
+  const options = {
+    config: { ...DEFAULT_CRAWL_POLICY_CONFIG, hostDelayMs: 0 },
+    scraping: { ...DEFAULT_SCRAPING_CONFIG, allowPrivateNetworks: true }
+  };
+
+  const blocked = await policy.admit(`${origin}/private/page`, options);
+  assert.equal(blocked.allowed, false);
+  assert.equal(!blocked.allowed && blocked.reason, 'robots');
+
+  // Rules past the limit are not parsed
+  const late = await policy.admit(`${origin}/late`, options);
+  assert.equal(late.allowed, true);
+  if (late.allowed) late.release();
+});
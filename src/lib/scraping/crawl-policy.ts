@@ -0,0 +1,382 @@
+/**
+ * Crawl policy for pages fetched on behalf of a search: robots.txt rules,
+ * per-host politeness and a per-search page and byte budget
+ */
+
+import { fetchPage, PageFetchError } from './local-fetch';
+import { normalizeCrawlUrl } from './links';
+import type { CrawlPolicyConfig, ScrapingConfig } from './index';
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern, with `*` wildcards and an optional `$` end anchor */
+  path: string;
+}
+
+export interface RobotsGroup {
+  /** Lowercased user-agent tokens the group applies to */
+  agents: string[];
+  rules: RobotsRule[];
+  /** Crawl-delay in milliseconds */
+  crawlDelayMs?: number;
+}
+
+export interface RobotsRules {
+  /** Why robots.txt could not be used as served, when it couldn't */
+  status?: string;
+  /** Every path is disallowed (robots.txt unavailable with a server error) */
+  disallowAll?: boolean;
+  /** Stand-in for a robots.txt that could not be fetched, refetched sooner */
+  temporary?: boolean;
+  groups: RobotsGroup[];
+  /** Sitemap URLs listed in robots.txt */
+  sitemaps?: string[];
+}
+
+export type CrawlSkipReason = 'robots' | 'page_budget' | 'byte_budget' | 'invalid_url';
+
+/**
+ * A URL may be fetched: `release` must be called once the page is done,
+ * with the bytes it took, to free its host slot
+ */
+export interface CrawlPermit {
+  allowed: true;
+  /** Bytes left in the search's budget when admitted */
+  remainingBytes: number;
+  release: (bytes?: number) => void;
+}
+
+export interface CrawlSkip {
+  allowed: false;
+  reason: CrawlSkipReason;
+  message: string;
+}
+
+export type CrawlDecision = CrawlPermit | CrawlSkip;
+
+/**
+ * URL was skipped by the crawl policy
+ */
+export class CrawlSkippedError extends Error {
+  constructor(public url: string, public reason: CrawlSkipReason, message: string) {
+    super(message);
+    this.name = 'CrawlSkippedError';
+  }
+}
+
+// RFC 9309 asks crawlers to parse at least the first 500 KiB
+const ROBOTS_MAX_BYTES = 500 * 1024;
+const ROBOTS_TIMEOUT_MS = 5000;
+// Robots.txt that could not be fetched is retried after this long
+const ROBOTS_RETRY_MS = 10 * 60 * 1000;
+// Budgets of searches older than this are forgotten
+const BUDGET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Parse robots.txt into its user-agent groups
+ *
+ * Consecutive User-agent lines share the rules that follow them. Sitemap
+ * lines apply to the whole file. Unknown lines and rules outside any group
+ * are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (seconds >= 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  return { groups, ...(sitemaps.length > 0 ? { sitemaps } : {}) };
+}
+
+/**
+ * Groups applying to the agent: those naming its token, or else the `*` groups
+ */
+function groupsFor(rules: RobotsRules, agent: string): RobotsGroup[] {
+  const token = agent.toLowerCase();
+  const named = rules.groups.filter(group => group.agents.some(name => name !== '*' && token.includes(name)));
+  return named.length > 0 ? named : rules.groups.filter(group => group.agents.includes('*'));
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether robots rules let the agent fetch the URL, and the rule deciding it
+ *
+ * The longest matching rule wins, Allow winning ties; without a match the
+ * URL is allowed. /robots.txt itself is always allowed.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: URL, agent: string): { allowed: boolean; rule?: RobotsRule } {
+  const path = `${url.pathname}${url.search}`;
+  if (url.pathname === '/robots.txt') return { allowed: true };
+  if (rules.disallowAll) return { allowed: false };
+
+  let decisive: RobotsRule | undefined;
+  for (const group of groupsFor(rules, agent)) {
+    for (const rule of group.rules) {
+      if (!patternMatches(rule.path, path)) continue;
+      const longer = !decisive || rule.path.length > decisive.path.length;
+      const tieAllows = decisive && rule.path.length === decisive.path.length && rule.allow;
+      if (longer || tieAllows) decisive = rule;
+    }
+  }
+
+  return { allowed: decisive ? decisive.allow : true, rule: decisive };
+}
+
+/**
+ * Crawl-delay robots rules ask of the agent, if any
+ */
+export function robotsCrawlDelay(rules: RobotsRules, agent: string): number | undefined {
+  const delays = groupsFor(rules, agent)
+    .map(group => group.crawlDelayMs)
+    .filter((delay): delay is number => delay !== undefined);
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
+
+interface SearchBudget {
+  pages: number;
+  bytes: number;
+  startedAt: number;
+}
+
+function budgetSkip(budget: SearchBudget, config: CrawlPolicyConfig): CrawlSkip | null {
+  if (budget.pages >= config.maxPagesPerSearch) {
+    return { allowed: false, reason: 'page_budget', message: `Page budget of ${config.maxPagesPerSearch} pages for this search is spent` };
+  }
+  if (budget.bytes >= config.maxBytesPerSearch) {
+    return { allowed: false, reason: 'byte_budget', message: `Byte budget of ${config.maxBytesPerSearch} bytes for this search is spent` };
+  }
+  return null;
+}
+
+interface HostState {
+  active: number;
+  /** Earliest time the next request to the host may start */
+  nextStart: number;
+  waiting: Array<() => void>;
+}
+
+/**
+ * Admits URLs for fetching under the crawl policy
+ *
+ * Robots rules are fetched once per origin and cached. Requests to a host
+ * are limited to `hostConcurrency` at a time and spaced by `hostDelayMs`, or
+ * by the host's Crawl-delay when longer (up to `maxCrawlDelayMs`). Each
+ * search may fetch up to `maxPagesPerSearch` pages and `maxBytesPerSearch`
+ * bytes; scrapes running in parallel share their search's budget.
+ */
+export class CrawlPolicy {
+  private robots = new Map<string, { rules: Promise<RobotsRules>; expiresAt: number }>();
+  private hosts = new Map<string, HostState>();
+  private budgets = new Map<string, SearchBudget>();
+
+  /**
+   * Decide whether a URL may be fetched and, if so, wait for a slot on its host
+   *
+   * Searches without an ID are not budgeted.
+   */
+  async admit(url: string, options: { searchId?: string; config: CrawlPolicyConfig; scraping: ScrapingConfig }): Promise<CrawlDecision> {
+    const { searchId, config, scraping } = options;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false, reason: 'invalid_url', message: `Invalid URL: ${url}` };
+    }
+
+    const budget = searchId ? this.budgetFor(searchId) : null;
+    const spent = budget && budgetSkip(budget, config);
+    if (spent) return spent;
+
+    let crawlDelayMs: number | undefined;
+    if (config.respectRobots) {
+      const rules = await this.robotsFor(parsed, config, scraping);
+      const { allowed, rule } = isAllowedByRobots(rules, parsed, config.robotsAgent);
+      if (!allowed) {
+        const because = rule ? `rule "Disallow: ${rule.path}"` : rules.status || 'robots.txt';
+        return { allowed: false, reason: 'robots', message: `Disallowed by ${parsed.origin}/robots.txt (${because})` };
+      }
+      crawlDelayMs = robotsCrawlDelay(rules, config.robotsAgent);
+    }
+
+    // Parallel scrapes may have spent the budget while robots.txt was fetched;
+    // reserve the page before waiting for the host so they can't overspend
+    if (budget) {
+      const spentMeanwhile = budgetSkip(budget, config);
+      if (spentMeanwhile) return spentMeanwhile;
+      budget.pages++;
+    }
+
+    const delayMs = Math.max(config.hostDelayMs, Math.min(crawlDelayMs ?? 0, config.maxCrawlDelayMs));
+    const release = await this.acquireHost(parsed.host, config.hostConcurrency, delayMs);
+    let released = false;
+
+    return {
+      allowed: true,
+      remainingBytes: budget ? Math.max(0, config.maxBytesPerSearch - budget.bytes) : config.maxBytesPerSearch,
+      release: (bytes = 0) => {
+        if (released) return;
+        released = true;
+        if (budget) budget.bytes += bytes;
+        release();
+      }
+    };
+  }
+
+  /**
+   * Sitemaps of the URL's site: those listed in its robots.txt, or /sitemap.xml
+   */
+  async sitemaps(url: string, config: CrawlPolicyConfig, scraping: ScrapingConfig): Promise<string[]> {
+    const parsed = new URL(url);
+    const rules = await this.robotsFor(parsed, config, scraping);
+    const listed = (rules.sitemaps || [])
+      .map(sitemap => normalizeCrawlUrl(sitemap, parsed.origin))
+      .filter((sitemap): sitemap is string => !!sitemap);
+    return listed.length > 0 ? listed : [`${parsed.origin}/sitemap.xml`];
+  }
+
+  /**
+   * Pages and bytes a search has used so far
+   */
+  usage(searchId: string): { pages: number; bytes: number } {
+    const budget = this.budgets.get(searchId);
+    return { pages: budget?.pages ?? 0, bytes: budget?.bytes ?? 0 };
+  }
+
+  private budgetFor(searchId: string): SearchBudget {
+    const now = Date.now();
+    for (const [id, budget] of this.budgets) {
+      if (now - budget.startedAt > BUDGET_TTL_MS) this.budgets.delete(id);
+    }
+
+    let budget = this.budgets.get(searchId);
+    if (!budget) {
+      budget = { pages: 0, bytes: 0, startedAt: now };
+      this.budgets.set(searchId, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Cached robots rules of the URL's origin, fetching them when missing or stale
+   */
+  private robotsFor(url: URL, config: CrawlPolicyConfig, scraping: ScrapingConfig): Promise<RobotsRules> {
+    const cached = this.robots.get(url.origin);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.rules;
+    }
+
+    const entry = { rules: fetchRobotsTxt(url.origin, scraping), expiresAt: Date.now() + config.robotsCacheTtlMs };
+    this.robots.set(url.origin, entry);
+    entry.rules.then(rules => {
+      if (rules.temporary) entry.expiresAt = Date.now() + ROBOTS_RETRY_MS;
+    });
+    return entry.rules;
+  }
+
+  /**
+   * Wait for a free slot on the host and its turn after the previous request
+   */
+  private async acquireHost(host: string, concurrency: number, delayMs: number): Promise<() => void> {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStart: 0, waiting: [] };
+      this.hosts.set(host, state);
+    }
+
+    while (state.active >= Math.max(1, concurrency)) {
+      await new Promise<void>(resolve => state!.waiting.push(resolve));
+    }
+    state.active++;
+
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + delayMs;
+    if (start > now) {
+      await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+
+    return () => {
+      state!.active--;
+      state!.waiting.shift()?.();
+    };
+  }
+}
+
+/**
+ * Fetch and parse an origin's robots.txt
+ *
+ * Only the first 500 KiB are parsed, as RFC 9309 allows. A missing
+ * robots.txt (4xx) allows everything, a server error disallows everything
+ * as RFC 9309 asks, and an unreachable one allows everything so a slow
+ * host doesn't block the search.
+ */
+async function fetchRobotsTxt(origin: string, scraping: ScrapingConfig): Promise<RobotsRules> {
+  try {
+    const page = await fetchPage(`${origin}/robots.txt`, {
+      ...scraping,
+      timeoutMs: Math.min(scraping.timeoutMs, ROBOTS_TIMEOUT_MS),
+      maxBytes: ROBOTS_MAX_BYTES
+    }, { truncate: true });
+    const text = page.body.toString('utf8');
+    // Rules past the limit are ignored, as is the line it cuts through
+    return parseRobotsTxt(page.truncated ? text.slice(0, text.lastIndexOf('\n') + 1) : text);
+  } catch (error) {
+    if (error instanceof PageFetchError && error.status && error.status >= 400 && error.status < 500) {
+      return { status: `no robots.txt (HTTP ${error.status})`, groups: [] };
+    }
+    if (error instanceof PageFetchError && error.status && error.status >= 500) {
+      return { status: `robots.txt unavailable (HTTP ${error.status})`, disallowAll: true, temporary: true, groups: [] };
+    }
+    console.warn(`⚠️  Could not fetch ${origin}/robots.txt, crawling it unrestricted:`, error instanceof Error ? error.message : error);
+    return { status: 'robots.txt unreachable', temporary: true, groups: [] };
+  }
+}
+
+/**
+ * Crawl policy shared by every scrape in the process
+ */
+export const crawlPolicy = new CrawlPolicy();
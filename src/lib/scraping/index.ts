@@ -0,0 +1,282 @@
+import { extractReadableContent, looksJavaScriptRendered } from './readability';
+import { fetchPage, scrapeLocally, isPublicAddress, PageFetchError } from './local-fetch';
+import { CrawlPolicy, CrawlSkippedError, crawlPolicy, isAllowedByRobots, parseRobotsTxt } from './crawl-policy';
+import { extractLinks, extractMarkdownLinks, isSameSite, normalizeCrawlUrl, parseSitemap, scoreLink } from './links';
+import { detectFormatFromPath } from '../utils/document-text';
+
+export { extractReadableContent, looksJavaScriptRendered, fetchPage, scrapeLocally, isPublicAddress, PageFetchError };
+export { CrawlPolicy, CrawlSkippedError, crawlPolicy, isAllowedByRobots, parseRobotsTxt };
+export { extractLinks, extractMarkdownLinks, isSameSite, normalizeCrawlUrl, parseSitemap, scoreLink };
+export type { ReadableContent } from './readability';
+export type { FetchedPage, LocalScrapeResult } from './local-fetch';
+export type { CrawlDecision, CrawlPermit, CrawlSkip, CrawlSkipReason, RobotsRules } from './crawl-policy';
+export type { PageLink } from './links';
+
+/**
+ * How pages are scraped: `auto` fetches them directly and only sends pages
+ * that need a browser to Scrapybara, `local` never uses Scrapybara and
+ * `scrapybara` tries it first
+ */
+export type ScraperBackend = 'auto' | 'local' | 'scrapybara';
+
+export type Scraper = 'local' | 'scrapybara';
+
+export interface ScrapingConfig {
+  backend: ScraperBackend;
+  /** Domains (and their subdomains) always sent to Scrapybara first */
+  scrapybaraDomains: string[];
+  /** Domains never sent to Scrapybara */
+  localDomains: string[];
+  /** Direct fetches give up after this long */
+  timeoutMs: number;
+  /** Direct fetches give up on bodies larger than this */
+  maxBytes: number;
+  /** Pages extracting less text than this are retried with Scrapybara in `auto` mode */
+  minTextLength: number;
+  userAgent: string;
+  /** Fetch hosts on loopback, private and link-local addresses, for deployments scraping their own network */
+  allowPrivateNetworks: boolean;
+}
+
+export const DEFAULT_SCRAPING_CONFIG: ScrapingConfig = {
+  backend: 'auto',
+  scrapybaraDomains: [],
+  localDomains: [],
+  timeoutMs: 15000,
+  maxBytes: 5 * 1024 * 1024,
+  minTextLength: 500,
+  userAgent: 'Mozilla/5.0 (compatible; SevenSearchBot/1.0; +https://github.com/OpulentiaAI/SevenSearch)',
+  allowPrivateNetworks: false
+};
+
+const SCRAPER_BACKENDS: ScraperBackend[] = ['auto', 'local', 'scrapybara'];
+
+function domainList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(domain => domain.trim().toLowerCase().replace(/^\*?\./, '')).filter(Boolean);
+}
+
+/**
+ * Scraping configuration from environment defaults plus per-call overrides
+ *
+ * Reads SCRAPER_BACKEND, SCRAPYBARA_DOMAINS, LOCAL_SCRAPE_DOMAINS (comma
+ * separated), SCRAPE_TIMEOUT_MS, SCRAPE_MAX_BYTES, SCRAPE_USER_AGENT and
+ * SCRAPE_ALLOW_PRIVATE_NETWORKS (`true` to fetch private addresses).
+ */
+export function resolveScrapingConfig(overrides: Partial<ScrapingConfig> = {}): ScrapingConfig {
+  const envBackend = process.env.SCRAPER_BACKEND as ScraperBackend | undefined;
+  if (envBackend && !SCRAPER_BACKENDS.includes(envBackend)) {
+    console.warn(`⚠️  Unknown SCRAPER_BACKEND "${envBackend}", using auto`);
+  }
+  const envTimeout = Number(process.env.SCRAPE_TIMEOUT_MS);
+  const envMaxBytes = Number(process.env.SCRAPE_MAX_BYTES);
+
+  return {
+    backend: overrides.backend
+      ?? (envBackend && SCRAPER_BACKENDS.includes(envBackend) ? envBackend : DEFAULT_SCRAPING_CONFIG.backend),
+    scrapybaraDomains: overrides.scrapybaraDomains
+      ?? domainList(process.env.SCRAPYBARA_DOMAINS) ?? DEFAULT_SCRAPING_CONFIG.scrapybaraDomains,
+    localDomains: overrides.localDomains
+      ?? domainList(process.env.LOCAL_SCRAPE_DOMAINS) ?? DEFAULT_SCRAPING_CONFIG.localDomains,
+    timeoutMs: overrides.timeoutMs ?? (envTimeout > 0 ? envTimeout : DEFAULT_SCRAPING_CONFIG.timeoutMs),
+    maxBytes: overrides.maxBytes ?? (envMaxBytes > 0 ? envMaxBytes : DEFAULT_SCRAPING_CONFIG.maxBytes),
+    minTextLength: overrides.minTextLength ?? DEFAULT_SCRAPING_CONFIG.minTextLength,
+    userAgent: overrides.userAgent ?? (process.env.SCRAPE_USER_AGENT || DEFAULT_SCRAPING_CONFIG.userAgent),
+    allowPrivateNetworks: overrides.allowPrivateNetworks
+      ?? (process.env.SCRAPE_ALLOW_PRIVATE_NETWORKS ? process.env.SCRAPE_ALLOW_PRIVATE_NETWORKS === 'true' : DEFAULT_SCRAPING_CONFIG.allowPrivateNetworks)
+  };
+}
+
+export interface CrawlPolicyConfig {
+  /** Skip URLs disallowed by their site's robots.txt */
+  respectRobots: boolean;
+  /** Product token matched against robots.txt User-agent lines */
+  robotsAgent: string;
+  /** How long fetched robots rules are reused */
+  robotsCacheTtlMs: number;
+  /** Minimum gap between requests to the same host */
+  hostDelayMs: number;
+  /** Longest robots.txt Crawl-delay honoured, so one host can't stall a search */
+  maxCrawlDelayMs: number;
+  /** Requests in flight to the same host at once */
+  hostConcurrency: number;
+  /** Pages one search may fetch */
+  maxPagesPerSearch: number;
+  /** Bytes one search may download */
+  maxBytesPerSearch: number;
+}
+
+export const DEFAULT_CRAWL_POLICY_CONFIG: CrawlPolicyConfig = {
+  respectRobots: true,
+  robotsAgent: 'SevenSearchBot',
+  robotsCacheTtlMs: 24 * 60 * 60 * 1000,
+  hostDelayMs: 1000,
+  maxCrawlDelayMs: 10000,
+  hostConcurrency: 2,
+  maxPagesPerSearch: 30,
+  maxBytesPerSearch: 50 * 1024 * 1024
+};
+
+function positiveNumber(value: string | undefined): number | undefined {
+  const number = Number(value);
+  return value && number > 0 ? number : undefined;
+}
+
+/**
+ * Crawl policy configuration from environment defaults plus per-call overrides
+ *
+ * Reads CRAWL_RESPECT_ROBOTS (`false` to ignore robots.txt),
+ * CRAWL_ROBOTS_AGENT, CRAWL_HOST_DELAY_MS, CRAWL_MAX_CRAWL_DELAY_MS,
+ * CRAWL_HOST_CONCURRENCY, CRAWL_MAX_PAGES and CRAWL_MAX_BYTES.
+ */
+export function resolveCrawlPolicyConfig(overrides: Partial<CrawlPolicyConfig> = {}): CrawlPolicyConfig {
+  const envHostDelay = Number(process.env.CRAWL_HOST_DELAY_MS);
+
+  return {
+    respectRobots: overrides.respectRobots
+      ?? (process.env.CRAWL_RESPECT_ROBOTS ? process.env.CRAWL_RESPECT_ROBOTS !== 'false' : DEFAULT_CRAWL_POLICY_CONFIG.respectRobots),
+    robotsAgent: overrides.robotsAgent ?? (process.env.CRAWL_ROBOTS_AGENT || DEFAULT_CRAWL_POLICY_CONFIG.robotsAgent),
+    robotsCacheTtlMs: overrides.robotsCacheTtlMs ?? DEFAULT_CRAWL_POLICY_CONFIG.robotsCacheTtlMs,
+    // A zero delay is allowed, for hosts the deployment owns
+    hostDelayMs: overrides.hostDelayMs
+      ?? (process.env.CRAWL_HOST_DELAY_MS && envHostDelay >= 0 ? envHostDelay : DEFAULT_CRAWL_POLICY_CONFIG.hostDelayMs),
+    maxCrawlDelayMs: overrides.maxCrawlDelayMs
+      ?? positiveNumber(process.env.CRAWL_MAX_CRAWL_DELAY_MS) ?? DEFAULT_CRAWL_POLICY_CONFIG.maxCrawlDelayMs,
+    hostConcurrency: overrides.hostConcurrency
+      ?? positiveNumber(process.env.CRAWL_HOST_CONCURRENCY) ?? DEFAULT_CRAWL_POLICY_CONFIG.hostConcurrency,
+    maxPagesPerSearch: overrides.maxPagesPerSearch
+      ?? positiveNumber(process.env.CRAWL_MAX_PAGES) ?? DEFAULT_CRAWL_POLICY_CONFIG.maxPagesPerSearch,
+    maxBytesPerSearch: overrides.maxBytesPerSearch
+      ?? positiveNumber(process.env.CRAWL_MAX_BYTES) ?? DEFAULT_CRAWL_POLICY_CONFIG.maxBytesPerSearch
+  };
+}
+
+/**
+ * When search results are crawled further: never, for research queries only,
+ * or for every search
+ */
+export type DeepCrawlMode = 'off' | 'research' | 'always';
+
+export interface DeepCrawlConfig {
+  mode: DeepCrawlMode;
+  /** Links followed away from a search result at most */
+  maxDepth: number;
+  /** Extra pages crawled per search */
+  maxPages: number;
+  /** Only follow links to the site of the result they were found on */
+  sameSite: boolean;
+  /** Share of a query's or sub-question's terms a link must mention to be followed */
+  minRelevance: number;
+  /** Also consider the sitemap entries of the results' sites */
+  useSitemaps: boolean;
+  /** Pages crawled at once */
+  concurrency: number;
+}
+
+export const DEFAULT_DEEP_CRAWL_CONFIG: DeepCrawlConfig = {
+  mode: 'research',
+  maxDepth: 2,
+  maxPages: 8,
+  sameSite: true,
+  minRelevance: 0.25,
+  useSitemaps: true,
+  concurrency: 3
+};
+
+const DEEP_CRAWL_MODES: DeepCrawlMode[] = ['off', 'research', 'always'];
+
+/**
+ * Deep crawl configuration from environment defaults plus per-call overrides
+ *
+ * Reads DEEP_CRAWL (`off`, `research` or `always`), DEEP_CRAWL_MAX_DEPTH,
+ * DEEP_CRAWL_MAX_PAGES, DEEP_CRAWL_SAME_SITE, DEEP_CRAWL_MIN_RELEVANCE and
+ * DEEP_CRAWL_SITEMAPS.
+ */
+export function resolveDeepCrawlConfig(overrides: Partial<DeepCrawlConfig> = {}): DeepCrawlConfig {
+  const envMode = process.env.DEEP_CRAWL as DeepCrawlMode | undefined;
+  if (envMode && !DEEP_CRAWL_MODES.includes(envMode)) {
+    console.warn(`⚠️  Unknown DEEP_CRAWL "${envMode}", using ${DEFAULT_DEEP_CRAWL_CONFIG.mode}`);
+  }
+  const envMinRelevance = Number(process.env.DEEP_CRAWL_MIN_RELEVANCE);
+
+  return {
+    mode: overrides.mode
+      ?? (envMode && DEEP_CRAWL_MODES.includes(envMode) ? envMode : DEFAULT_DEEP_CRAWL_CONFIG.mode),
+    maxDepth: overrides.maxDepth ?? positiveNumber(process.env.DEEP_CRAWL_MAX_DEPTH) ?? DEFAULT_DEEP_CRAWL_CONFIG.maxDepth,
+    maxPages: overrides.maxPages ?? positiveNumber(process.env.DEEP_CRAWL_MAX_PAGES) ?? DEFAULT_DEEP_CRAWL_CONFIG.maxPages,
+    sameSite: overrides.sameSite
+      ?? (process.env.DEEP_CRAWL_SAME_SITE ? process.env.DEEP_CRAWL_SAME_SITE !== 'false' : DEFAULT_DEEP_CRAWL_CONFIG.sameSite),
+    minRelevance: overrides.minRelevance
+      ?? (envMinRelevance > 0 && envMinRelevance <= 1 ? envMinRelevance : DEFAULT_DEEP_CRAWL_CONFIG.minRelevance),
+    useSitemaps: overrides.useSitemaps
+      ?? (process.env.DEEP_CRAWL_SITEMAPS ? process.env.DEEP_CRAWL_SITEMAPS !== 'false' : DEFAULT_DEEP_CRAWL_CONFIG.useSitemaps),
+    concurrency: overrides.concurrency ?? DEFAULT_DEEP_CRAWL_CONFIG.concurrency
+  };
+}
+
+// Wording of queries asking for research rather than a quick fact
+const RESEARCH_QUERY = /\b(research|stud(y|ies)|analy[sz](is|e)|investigat\w*|explor\w*|examin\w*|compar\w*|review|literature|survey|in-depth|comprehensive|thorough|history of|evidence)\b/i;
+
+/**
+ * Whether the search's results should be crawled further
+ *
+ * Only the query decides the intent: generated sub-questions mention
+ * studies and comparisons for most queries.
+ */
+export function shouldDeepCrawl(config: DeepCrawlConfig, query: string): boolean {
+  if (config.mode === 'off') return false;
+  if (config.mode === 'always') return true;
+  return RESEARCH_QUERY.test(query);
+}
+
+/**
+ * Whether the URL's host is one of the domains or a subdomain of one
+ */
+export function matchesDomain(url: string, domains: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Whether the URL's path names a PDF, Word or text document
+ */
+export function isDocumentUrl(url: string): boolean {
+  try {
+    const format = detectFormatFromPath(new URL(url).pathname);
+    return format === 'pdf' || format === 'docx' || format === 'text';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scrapers to try for a URL, in order, and why
+ *
+ * Scrapybara is only planned with an API key. In `auto` mode it is planned
+ * after the direct fetch, which falls back to it when the page turns out to
+ * need JavaScript. Documents (PDF, DOCX, text) are always fetched directly
+ * first, as Scrapybara extracts rendered pages.
+ */
+export function planScrape(url: string, config: ScrapingConfig, hasScrapybaraKey: boolean): { scrapers: Scraper[]; reason: string } {
+  if (!hasScrapybaraKey) {
+    return { scrapers: ['local'], reason: 'no Scrapybara API key' };
+  }
+  if (isDocumentUrl(url)) {
+    return { scrapers: ['local', 'scrapybara'], reason: 'document URL' };
+  }
+  if (config.backend === 'local' || matchesDomain(url, config.localDomains)) {
+    return { scrapers: ['local'], reason: config.backend === 'local' ? 'SCRAPER_BACKEND=local' : 'domain set to local scraping' };
+  }
+  if (config.backend === 'scrapybara' || matchesDomain(url, config.scrapybaraDomains)) {
+    return {
+      scrapers: ['scrapybara', 'local'],
+      reason: config.backend === 'scrapybara' ? 'SCRAPER_BACKEND=scrapybara' : 'domain set to Scrapybara'
+    };
+  }
+  return { scrapers: ['local', 'scrapybara'], reason: 'direct fetch first' };
+}
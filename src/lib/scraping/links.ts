@@ -0,0 +1,137 @@
+/**
+ * Links and sitemap entries of scraped pages, and their relevance to a query
+ */
+
+import { decodeEntities } from '../utils/document-text';
+import { tokenize } from '../retrieval/bm25';
+
+export interface PageLink {
+  /** Absolute URL without its fragment */
+  url: string;
+  /** Anchor text, or empty for sitemap entries */
+  text: string;
+}
+
+// Most links kept per page
+const MAX_LINKS = 200;
+
+// Paths of files that never hold readable content
+const NON_CONTENT_PATH = /\.(?:jpe?g|png|gif|webp|svg|ico|css|js|mjs|json|xml|rss|atom|zip|gz|tar|rar|7z|exe|dmg|mp3|mp4|mov|avi|webm|woff2?|ttf)$/i;
+
+/**
+ * Canonical form of a URL for crawling: http(s) only, without fragment
+ */
+export function normalizeCrawlUrl(url: string, base?: string): string | null {
+  try {
+    const parsed = new URL(url, base);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+function linkText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function collectLinks(anchors: Array<{ href: string; text: string }>, baseUrl: string): PageLink[] {
+  const links = new Map<string, PageLink>();
+
+  for (const { href, text } of anchors) {
+    if (links.size >= MAX_LINKS) break;
+    const url = normalizeCrawlUrl(href, baseUrl);
+    if (!url || NON_CONTENT_PATH.test(new URL(url).pathname)) continue;
+    // Links back to the page itself, e.g. in-page anchors, lead nowhere new
+    if (url === normalizeCrawlUrl(baseUrl)) continue;
+
+    const existing = links.get(url);
+    if (!existing) {
+      links.set(url, { url, text });
+    } else if (text.length > existing.text.length) {
+      existing.text = text;
+    }
+  }
+
+  return [...links.values()];
+}
+
+/**
+ * Links of an HTML fragment, resolved against the page URL (or its <base href>)
+ */
+export function extractLinks(html: string, baseUrl: string): PageLink[] {
+  const base = html.match(/<base\b[^>]+href\s*=\s*["']([^"']+)["']/i)?.[1];
+  const resolvedBase = (base && normalizeCrawlUrl(decodeEntities(base), baseUrl)) || baseUrl;
+
+  const anchors = [...html.matchAll(/<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>([\s\S]*?)<\/a>/gi)]
+    .map(match => ({ href: decodeEntities((match[1] ?? match[2]).trim()), text: linkText(match[3]) }))
+    .filter(({ href }) => href && !/^(?:#|javascript:|mailto:|tel:|data:)/i.test(href));
+
+  return collectLinks(anchors, resolvedBase);
+}
+
+/**
+ * Links of Markdown content, e.g. pages extracted by Scrapybara
+ */
+export function extractMarkdownLinks(markdown: string, baseUrl: string): PageLink[] {
+  const anchors = [...markdown.matchAll(/(?<!!)\[([^\]]*)\]\((\S+?)(?:\s+"[^"]*")?\)/g)]
+    .map(match => ({ href: match[2], text: match[1].trim() }))
+    .filter(({ href }) => !href.startsWith('#'));
+
+  return collectLinks(anchors, baseUrl);
+}
+
+/**
+ * Page URLs of a sitemap, or the child sitemaps of a sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locations = (block: string) => [...block.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)]
+    .map(match => decodeEntities(match[1].replace(/^<!\[CDATA\[|\]\]>$/g, '')).trim())
+    .filter(Boolean);
+
+  if (/<sitemapindex\b/i.test(xml)) {
+    return { urls: [], sitemaps: locations(xml) };
+  }
+  return { urls: locations(xml), sitemaps: [] };
+}
+
+function siteHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether two URLs are on the same site: the same host, ignoring `www.`,
+ * or one a subdomain of the other
+ */
+export function isSameSite(url: string, siteUrl: string): boolean {
+  const host = siteHost(url);
+  const site = siteHost(siteUrl);
+  if (!host || !site) return false;
+  return host === site || host.endsWith(`.${site}`) || site.endsWith(`.${host}`);
+}
+
+/**
+ * Relevance of a link to the queries (0-1): the largest share of a query's
+ * terms found in the link's text or URL path
+ */
+export function scoreLink(link: PageLink, queries: string[]): number {
+  let path = '';
+  try {
+    path = decodeURIComponent(new URL(link.url).pathname);
+  } catch {
+    path = link.url;
+  }
+  const linkTerms = new Set(tokenize(`${link.text} ${path.replace(/[-_/.]+/g, ' ')}`));
+
+  return queries.reduce((best, query) => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return best;
+    const found = terms.filter(term => linkTerms.has(term)).length;
+    return Math.max(best, found / terms.length);
+  }, 0);
+}
@@ -0,0 +1,58 @@
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fetchPage, isPublicAddress, PageFetchError } from './local-fetch';
+import { DEFAULT_SCRAPING_CONFIG } from './index';
+
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/redirect') {
+      response.writeHead(302, { Location: '/page' }).end();
+    } else if (request.url === '/redirect-file') {
+      response.writeHead(302, { Location: 'file:///etc/passwd' }).end();
+    } else {
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('internal');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('isPublicAddress rejects loopback, private, link-local and mapped addresses', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test('fetchPage refuses hosts that resolve to private addresses', async () => {
+  for (const url of [`${origin}/page`, 'http://localhost/', 'http://169.254.169.254/latest/meta-data/']) {
+    await assert.rejects(fetchPage(url, DEFAULT_SCRAPING_CONFIG), (error: unknown) =>
+      error instanceof PageFetchError && /non-public address/.test(error.message)
+    );
+  }
+});
+
+test('fetchPage follows redirects when private networks are allowed', async () => {
+  const page = await fetchPage(`${origin}/redirect`, { ...DEFAULT_SCRAPING_CONFIG, allowPrivateNetworks: true });
+
+  assert.equal(page.url, `${origin}/page`);
+  assert.equal(page.body.toString('utf8'), 'internal');
+});
+
+test('fetchPage checks every redirect target', async () => {
+  await assert.rejects(
+    fetchPage(`${origin}/redirect-file`, { ...DEFAULT_SCRAPING_CONFIG, allowPrivateNetworks: true }),
+    /Unsupported protocol file:/
+  );
+});
@@ -0,0 +1,226 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { extractReadableContent, ReadableContent } from './readability';
+import { DocumentFormat, DocumentPage, detectDocumentFormat, extractDocumentText } from '../utils/document-text';
+import type { ScrapingConfig } from './index';
+
+/**
+ * Non-2xx response or unusable body from a page fetched directly
+ */
+export class PageFetchError extends Error {
+  constructor(public url: string, message: string, public status?: number) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+export interface FetchedPage {
+  /** URL after redirects */
+  url: string;
+  status: number;
+  contentType: string;
+  body: Buffer;
+  /** The body was cut off at the size limit (see `truncate`) */
+  truncated?: boolean;
+}
+
+export interface LocalScrapeResult extends ReadableContent {
+  url: string;
+  format: DocumentFormat;
+  /** Size of the fetched body */
+  bytes: number;
+  /** Text of each page of a paged document (PDF, DOCX with recorded page breaks, text with form feeds) */
+  pages?: DocumentPage[];
+}
+
+/**
+ * Read a response body, giving up once it exceeds `maxBytes`, or keeping
+ * its first `maxBytes` when `truncate` is set
+ */
+async function readBody(response: Response, url: string, maxBytes: number, truncate = false): Promise<{ body: Buffer; truncated: boolean }> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes && !truncate) {
+    throw new PageFetchError(url, `Page is too large (${declared} bytes, limit ${maxBytes})`);
+  }
+
+  if (!response.body) {
+    const body = Buffer.from(await response.arrayBuffer());
+    return { body: body.subarray(0, maxBytes), truncated: body.length > maxBytes };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      await reader.cancel();
+      if (!truncate) {
+        throw new PageFetchError(url, `Page is too large (over ${maxBytes} bytes)`);
+      }
+      chunks.push(value.subarray(0, maxBytes - size));
+      return { body: Buffer.concat(chunks), truncated: true };
+    }
+    size += value.byteLength;
+    chunks.push(value);
+  }
+
+  return { body: Buffer.concat(chunks), truncated: false };
+}
+
+// Redirects followed per fetch, each one checked like the URL itself
+const MAX_REDIRECTS = 5;
+
+// Addresses pages may not be fetched from: unspecified, loopback, private
+// (RFC 1918, unique local), shared (CGNAT), link-local (where cloud metadata
+// services such as 169.254.169.254 live), benchmarking, multicast and reserved
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet
+ *
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return !PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Refuse URLs that aren't HTTP(S) or whose host resolves to a non-public
+ * address, unless the configuration allows private networks
+ */
+async function checkFetchable(url: string, config: ScrapingConfig): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PageFetchError(url, `Invalid URL ${url}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new PageFetchError(url, `Unsupported protocol ${parsed.protocol} in ${url}`);
+  }
+  if (config.allowPrivateNetworks) return;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch (error) {
+    throw new PageFetchError(url, `Could not resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) {
+    throw new PageFetchError(url, `Refusing to fetch ${url}: ${hostname} resolves to the non-public address ${blocked}`);
+  }
+}
+
+/**
+ * GET a page directly, following redirects, within the configured timeout and size limit
+ *
+ * The URL and every redirect target must resolve to public addresses (see
+ * `allowPrivateNetworks`), so search results can't reach internal services.
+ * Bodies over `maxBytes` are an error, unless `truncate` asks for their
+ * first `maxBytes`.
+ */
+export async function fetchPage(url: string, config: ScrapingConfig, options: { truncate?: boolean } = {}): Promise<FetchedPage> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    let currentUrl = url;
+
+    for (let redirects = 0; ; redirects++) {
+      await checkFetchable(currentUrl, config);
+
+      const response = await fetch(currentUrl, {
+        headers: {
+          'User-Agent': config.userAgent,
+          'Accept': 'text/html,application/xhtml+xml,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain;q=0.9,*/*;q=0.5',
+          'Accept-Language': 'en;q=0.9,*;q=0.5'
+        },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new PageFetchError(url, `Too many redirects fetching ${url}`);
+        }
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new PageFetchError(url, `HTTP error ${response.status} fetching ${currentUrl}`, response.status);
+      }
+
+      const { body, truncated } = await readBody(response, url, config.maxBytes, options.truncate);
+      return {
+        url: currentUrl,
+        status: response.status,
+        contentType: response.headers.get('content-type') || '',
+        body,
+        ...(truncated ? { truncated } : {})
+      };
+    }
+  } catch (error) {
+    if (error instanceof PageFetchError) throw error;
+    if (controller.signal.aborted) {
+      throw new PageFetchError(url, `Fetching ${url} timed out after ${config.timeoutMs}ms`);
+    }
+    throw new PageFetchError(url, `Network error fetching ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch a page directly and extract its content
+ *
+ * The format is detected from the body's signature, the Content-Type header
+ * and the URL. HTML pages are reduced to their main content; PDF, DOCX and
+ * text documents are extracted whole, keeping their pages where known.
+ */
+export async function scrapeLocally(url: string, config: ScrapingConfig): Promise<LocalScrapeResult> {
+  const page = await fetchPage(url, config);
+  const format = detectDocumentFormat({ contentType: page.contentType, url: page.url, data: page.body });
+
+  if (!format) {
+    throw new PageFetchError(url, `Unsupported content type ${page.contentType.split(';')[0] || 'unknown'}`);
+  }
+
+  if (format === 'html') {
+    return { url: page.url, format, bytes: page.body.length, ...extractReadableContent(page.body.toString('utf8'), page.url) };
+  }
+
+  const document = await extractDocumentText(page.body, format);
+  return {
+    url: page.url,
+    format,
+    bytes: page.body.length,
+    title: document.title,
+    text: document.text,
+    textLength: document.text.length,
+    linkDensity: 0,
+    needsJavaScript: false,
+    links: [],
+    ...(document.pages ? { pages: document.pages } : {})
+  };
+}
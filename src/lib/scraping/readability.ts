@@ -0,0 +1,200 @@
+/**
+ * Readability-style main-content extraction for fetched HTML pages
+ */
+
+import { cleanHTML, removeBannersAndAds } from '../mastra-vnext-utils/content-processing';
+import { decodeEntities, htmlToText } from '../utils/document-text';
+import { extractLinks, PageLink } from './links';
+
+export interface ReadableContent {
+  title?: string;
+  /** Main content as text, headings kept as Markdown `#` lines */
+  text: string;
+  textLength: number;
+  /** Share of the content's text inside links */
+  linkDensity: number;
+  /** The page looks rendered in the browser, so its HTML holds little of what readers see */
+  needsJavaScript: boolean;
+  /** Links inside the main content, when the page URL is known */
+  links: PageLink[];
+}
+
+// Class and id words of containers that usually hold (or never hold) the main content
+const POSITIVE_HINTS = /article|content|entry|main|post|story|text|blog/i;
+const NEGATIVE_HINTS = /comment|sidebar|footer|masthead|nav|menu|share|social|related|promo|widget|breadcrumb|sponsor|banner|subscribe|cookie|popup|modal/i;
+
+// Minimum text of a candidate container before it can be chosen over the whole body
+const MIN_CANDIDATE_TEXT = 200;
+
+interface Element {
+  start: number;
+  end: number;
+  attributes: string;
+  html: string;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/&[#\w]+;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The element opening at `start`, up to its matching closing tag (or the end
+ * of the document for unclosed elements)
+ */
+function balancedElement(html: string, start: number, tag: string): Element {
+  const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  tagRegex.lastIndex = start;
+  const opening = tagRegex.exec(html);
+  let depth = 0;
+  let match: RegExpExecArray | null = opening;
+
+  while (match) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      const end = match.index + match[0].length;
+      return { start, end, attributes: opening![0], html: html.slice(start, end) };
+    }
+    match = tagRegex.exec(html);
+  }
+
+  return { start, end: html.length, attributes: opening?.[0] || '', html: html.slice(start) };
+}
+
+/**
+ * Elements of the given tags whose opening tag matches `filter`
+ */
+function findElements(html: string, tags: string[], filter: (openingTag: string) => boolean): Element[] {
+  const openingRegex = new RegExp(`<(${tags.join('|')})\\b[^>]*>`, 'gi');
+  const elements: Element[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = openingRegex.exec(html))) {
+    if (filter(match[0])) {
+      elements.push(balancedElement(html, match.index, match[1].toLowerCase()));
+    }
+  }
+
+  return elements;
+}
+
+function classAndId(openingTag: string): string {
+  return [...openingTag.matchAll(/\b(?:class|id)\s*=\s*["']([^"']*)["']/gi)].map(match => match[1]).join(' ');
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function linkDensity(html: string, textLength: number): number {
+  if (textLength === 0) return 0;
+  const linkText = [...html.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)]
+    .reduce((length, match) => length + stripTags(match[1]).length, 0);
+  return Math.min(1, linkText / textLength);
+}
+
+/**
+ * Content score of a candidate container: its text outside links, plus a
+ * bonus per paragraph and for hinting class names
+ */
+function scoreCandidate(element: Element): number {
+  const textLength = stripTags(element.html).length;
+  if (textLength < MIN_CANDIDATE_TEXT) return 0;
+
+  const hints = classAndId(element.attributes);
+  let score = textLength * (1 - linkDensity(element.html, textLength));
+  score += (element.html.match(/<p\b/gi)?.length || 0) * 50;
+  if (/^<(article|main)\b/i.test(element.attributes) || /role\s*=\s*["']main["']/i.test(element.attributes)) score += 500;
+  if (POSITIVE_HINTS.test(hints)) score += 250;
+  if (NEGATIVE_HINTS.test(hints)) score -= 1000;
+  return score;
+}
+
+/**
+ * Drop boilerplate inside the chosen container: blocks whose class or id
+ * marks them as navigation, comments or promotions, and lists that are
+ * mostly links
+ */
+function removeBoilerplate(html: string): string {
+  const removals = [
+    ...findElements(html, ['div', 'section', 'aside', 'ul', 'ol', 'nav', 'form'], tag => NEGATIVE_HINTS.test(classAndId(tag))),
+    ...findElements(html, ['ul', 'ol'], () => true).filter(list => {
+      const textLength = stripTags(list.html).length;
+      return textLength > 0 && linkDensity(list.html, textLength) > 0.6;
+    })
+  ].sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let position = 0;
+  for (const element of removals) {
+    // Skip elements inside one already removed
+    if (element.start < position) continue;
+    result += html.slice(position, element.start);
+    position = element.end;
+  }
+  return result + html.slice(position);
+}
+
+/**
+ * Signs that the page is rendered by JavaScript: an empty application root
+ * or a <noscript> notice, with almost no text in the served HTML
+ */
+export function looksJavaScriptRendered(html: string, textLength: number): boolean {
+  const emptyRoot = /<div[^>]+id\s*=\s*["'](root|app|__next|__nuxt|svelte)["'][^>]*>\s*<\/div>/i.test(html);
+  const noscriptNotice = /<noscript[^>]*>[\s\S]{0,500}?(enable|requires?|turn on)\s+javascript/i.test(html);
+  const scriptCount = html.match(/<script\b/gi)?.length || 0;
+
+  if (emptyRoot && textLength < 1000) return true;
+  return textLength < 250 && (noscriptNotice || scriptCount >= 3);
+}
+
+/**
+ * Extract the main content of an HTML page
+ *
+ * Scripts, styles and ad blocks are removed with cleanHTML and
+ * removeBannersAndAds. The container scoring highest for text outside links
+ * (with <article>, <main> and content-like class names favoured) is kept,
+ * stripped of navigation-like blocks, and converted to text with Markdown
+ * headings. Without a convincing container the whole body is used.
+ *
+ * With the page URL, the main content's links are returned resolved.
+ */
+export function extractReadableContent(html: string, url?: string): ReadableContent {
+  const cleaned = removeBannersAndAds(cleanHTML(html))
+    .replace(/<(head|header|footer|nav|aside|noscript|svg|iframe|template)\b[\s\S]*?<\/\1>/gi, '');
+
+  const candidates = findElements(cleaned, ['article', 'main', 'section', 'div'], tag =>
+    /^<(article|main)\b/i.test(tag) || /role\s*=\s*["']main["']/i.test(tag) || POSITIVE_HINTS.test(classAndId(tag))
+  );
+
+  const scored = candidates.map(element => ({ element, score: scoreCandidate(element) }));
+  let best = scored.reduce<{ element: Element; score: number } | null>(
+    (top, candidate) => candidate.score > (top?.score ?? 0) ? candidate : top,
+    null
+  );
+
+  // Page wrappers score high for holding everything; prefer the innermost
+  // container that keeps most of the best score
+  if (best) {
+    const outer = best;
+    best = scored
+      .filter(({ element, score }) => element.start >= outer.element.start && element.end <= outer.element.end && score >= outer.score * 0.75)
+      .reduce((inner, candidate) => candidate.element.html.length < inner.element.html.length ? candidate : inner, outer);
+  }
+
+  const bodyMatch = cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  const content = removeBoilerplate(best ? best.element.html : bodyMatch ? bodyMatch[1] : cleaned);
+  const { text } = htmlToText(content);
+
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    || html.match(/<meta[^>]+property\s*=\s*["']og:title["'][^>]+content\s*=\s*["']([^"']*)["']/i)?.[1]
+    || text.match(/^#\s+(.+)$/m)?.[1];
+
+  return {
+    title: title ? decodeEntities(title).trim() || undefined : undefined,
+    text,
+    textLength: text.length,
+    linkDensity: linkDensity(content, stripTags(content).length),
+    needsJavaScript: looksJavaScriptRendered(html, text.length),
+    // <base href> sits in the head, which the content no longer has
+    links: url ? extractLinks(`${html.match(/<base\b[^>]*>/i)?.[0] || ''}${content}`, url) : []
+  };
+}
@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { EventType } from '../event-protocol';
+import type { StreamChunk } from '../event-protocol';
+import { InMemorySearchProgressStore } from './memory';
+import { PostgresSearchProgressStore } from './postgres';
+
+export { InMemorySearchProgressStore, PostgresSearchProgressStore };
+
+/**
+ * An event streamed for a search, numbered by `id` in the order it was sent
+ */
+export type SearchProgressEvent = StreamChunk & { id: number };
+
+/**
+ * Record of the events streamed for each search
+ */
+export interface SearchProgressStore {
+  /** Record a batch of events; IDs already recorded for the search are ignored */
+  append(searchId: string, events: SearchProgressEvent[]): Promise<void>;
+  /** Events of a search after an event ID, in order */
+  after(searchId: string, lastEventId: number, limit?: number): Promise<SearchProgressEvent[]>;
+  /** ID of the last event recorded for a search, 0 when there is none */
+  lastEventId(searchId: string): Promise<number>;
+}
+
+// A search sends nothing after these
+const FINAL_EVENT_TYPES = new Set<string>([
+  EventType.WORKFLOW_COMPLETED,
+  EventType.WORKFLOW_FAILED,
+  EventType.ERROR
+]);
+
+export function isFinalEvent(event: StreamChunk): boolean {
+  return FINAL_EVENT_TYPES.has(event.type);
+}
+
+export interface FollowOptions {
+  /** How often the store is read for events recorded by other server instances */
+  pollMs?: number;
+  /** Stop following a search that sent nothing for this long */
+  idleMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * The events streamed for each search, recorded in a SearchProgressStore and
+ * published to the clients following the search on this server instance
+ */
+export class SearchEventLog {
+  private live = new EventEmitter();
+
+  constructor(private store: SearchProgressStore) {
+    // One listener per client following a search
+    this.live.setMaxListeners(0);
+  }
+
+  lastEventId(searchId: string): Promise<number> {
+    return this.store.lastEventId(searchId);
+  }
+
+  /**
+   * Record a batch of events and publish them to the search's followers
+   */
+  async record(searchId: string, events: SearchProgressEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await this.store.append(searchId, events);
+    for (const event of events) {
+      this.live.emit(searchId, event);
+    }
+  }
+
+  /**
+   * The events of a search after `lastEventId`: first those already
+   * recorded, then new ones as they are recorded, until the search's final
+   * event, `idleMs` without events or the signal aborts
+   *
+   * Events published on this instance are passed on directly; the store is
+   * read again every `pollMs`, and whenever published events skip an ID, for
+   * events recorded elsewhere.
+   */
+  async *follow(searchId: string, lastEventId: number, options: FollowOptions = {}): AsyncGenerator<SearchProgressEvent> {
+    const { pollMs = 1000, idleMs = 5 * 60 * 1000, signal } = options;
+
+    let published: SearchProgressEvent[] = [];
+    let wake: (() => void) | null = null;
+    const onEvent = (event: SearchProgressEvent) => {
+      published.push(event);
+      wake?.();
+    };
+    const onAbort = () => wake?.();
+
+    // Subscribe before reading the store so no event falls in between
+    this.live.on(searchId, onEvent);
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      let last = lastEventId;
+      let lastActivity = Date.now();
+      let pending = await this.store.after(searchId, last);
+
+      while (!signal?.aborted) {
+        for (const event of pending) {
+          if (event.id <= last) continue;
+          last = event.id;
+          lastActivity = Date.now();
+          yield event;
+          if (isFinalEvent(event)) return;
+        }
+
+        if (Date.now() - lastActivity >= idleMs) return;
+
+        if (published.length === 0) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, pollMs);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+        }
+
+        const fresh = published.filter(event => event.id > last).sort((a, b) => a.id - b.id);
+        published = [];
+        const continuous = fresh.length > 0 && fresh.every((event, index) => event.id === last + 1 + index);
+        pending = continuous ? fresh : await this.store.after(searchId, last);
+      }
+    } finally {
+      this.live.off(searchId, onEvent);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+export type SearchProgressStoreBackend = 'memory' | 'postgres';
+
+/**
+ * Create the search progress store selected by SEARCH_PROGRESS_STORE
+ * (default: postgres)
+ *
+ * `postgres` records events in the search_progress table and needs
+ * migrations/12_add_search_progress_event_ids.sql; `memory` keeps the events
+ * of at most SEARCH_PROGRESS_MAX_SEARCHES searches per server process, so
+ * streams only resume on the instance running the search.
+ */
+export function createSearchProgressStore(backend: string = process.env.SEARCH_PROGRESS_STORE || 'postgres'): SearchProgressStore {
+  switch (backend as SearchProgressStoreBackend) {
+    case 'postgres':
+      return new PostgresSearchProgressStore();
+    case 'memory':
+      return new InMemorySearchProgressStore(Number(process.env.SEARCH_PROGRESS_MAX_SEARCHES) || 500);
+    default:
+      console.warn(`⚠️  Unknown SEARCH_PROGRESS_STORE "${backend}", using postgres`);
+      return new PostgresSearchProgressStore();
+  }
+}
+
+// Export singleton instance
+export const searchEventLog = new SearchEventLog(createSearchProgressStore());
@@ -0,0 +1,46 @@
+import type { SearchProgressEvent, SearchProgressStore } from './index';
+
+/**
+ * Search events held in process memory, used when no database is configured
+ * and in tests. The searches that recorded an event longest ago are evicted
+ * beyond `maxSearches`.
+ */
+export class InMemorySearchProgressStore implements SearchProgressStore {
+  private events: Map<string, SearchProgressEvent[]> = new Map();
+
+  constructor(private maxSearches: number = 500) {}
+
+  async append(searchId: string, batch: SearchProgressEvent[]): Promise<void> {
+    const events = this.events.get(searchId) || [];
+    for (const event of batch) {
+      if (events.some(existing => existing.id === event.id)) continue;
+
+      const index = events.findIndex(existing => existing.id > event.id);
+      if (index === -1) {
+        events.push(event);
+      } else {
+        events.splice(index, 0, event);
+      }
+    }
+
+    // Re-insert so the map stays ordered by the latest event
+    this.events.delete(searchId);
+    this.events.set(searchId, events);
+
+    while (this.events.size > this.maxSearches) {
+      const oldestSearchId = this.events.keys().next().value as string;
+      this.events.delete(oldestSearchId);
+    }
+  }
+
+  async after(searchId: string, lastEventId: number, limit = 1000): Promise<SearchProgressEvent[]> {
+    return (this.events.get(searchId) || [])
+      .filter(event => event.id > lastEventId)
+      .slice(0, limit);
+  }
+
+  async lastEventId(searchId: string): Promise<number> {
+    const events = this.events.get(searchId);
+    return events && events.length > 0 ? events[events.length - 1].id : 0;
+  }
+}
@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { SearchProgressEvent, SearchProgressStore } from './index';
+
+function toEvent(row: any): SearchProgressEvent {
+  return {
+    id: Number(row.event_id),
+    step: row.step,
+    type: row.type,
+    payload: row.payload || {},
+    ...(row.error ? { error: true } : {}),
+    ...(row.error_type ? { errorType: row.error_type } : {})
+  };
+}
+
+/**
+ * Search events in the search_progress table through Supabase, shared by
+ * every server instance. See migrations/12_add_search_progress_event_ids.sql.
+ *
+ * Rows without an event ID, such as those posted to the progress webhook,
+ * are not streamed. Database errors are logged: reads return nothing and
+ * writes are dropped, so an unavailable table never fails a search.
+ */
+export class PostgresSearchProgressStore implements SearchProgressStore {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private table: string = 'search_progress'
+  ) {}
+
+  async append(searchId: string, events: SearchProgressEvent[]): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const { error } = await this.client
+      .from(this.table)
+      .upsert(events.map(event => ({
+        search_id: searchId,
+        event_id: event.id,
+        step: event.step,
+        type: event.type,
+        payload: event.payload,
+        error: event.error || false,
+        error_type: event.errorType,
+        timestamp
+      })), { onConflict: 'search_id,event_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.warn(`⚠️  Progress write failed for search ${searchId}:`, error.message);
+    }
+  }
+
+  async after(searchId: string, lastEventId: number, limit = 1000): Promise<SearchProgressEvent[]> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('event_id, step, type, payload, error, error_type')
+      .eq('search_id', searchId)
+      .gt('event_id', lastEventId)
+      .order('event_id', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.warn(`⚠️  Progress read failed for search ${searchId}:`, error.message);
+      return [];
+    }
+    return (data || []).map(toEvent);
+  }
+
+  async lastEventId(searchId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('event_id')
+      .eq('search_id', searchId)
+      .gt('event_id', 0)
+      .order('event_id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️  Progress read failed for search ${searchId}:`, error.message);
+      return 0;
+    }
+    return data ? Number(data.event_id) : 0;
+  }
+}
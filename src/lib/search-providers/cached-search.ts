@@ -0,0 +1,43 @@
+/**
+ * Registry searches through the shared search cache
+ *
+ * Every pipeline keys provider responses the same way, so a query answered
+ * for the vNext workflow is not paid for again by HALO or the legacy Workflow.
+ */
+
+import { NamespacedCache, searchCache } from '../cache'
+import { RateLimitManager, rateLimitManager } from '../rate-limiter'
+import { searchProviderRegistry, EngineSearchOptions, SearchResult } from './registry'
+
+/**
+ * Cache key for one engine request; options that change the results are part of the key
+ */
+export function searchCacheKey(engine: string, query: string, options: EngineSearchOptions = {}): string {
+  const parts = [
+    engine.toLowerCase(),
+    options.limit ?? 'default',
+    options.recency ?? '',
+    (options.includeDomains || []).join(','),
+    (options.excludeDomains || []).join(','),
+    query.trim().toLowerCase()
+  ]
+  return parts.join(':')
+}
+
+/**
+ * Search a registered engine, serving repeated queries from the cache
+ *
+ * Cache misses go through the engine's rate limit quota: the request waits
+ * briefly for a free slot and rejects with RateLimitExceededError otherwise.
+ */
+export function cachedEngineSearch(
+  engine: string,
+  query: string,
+  options: EngineSearchOptions = {},
+  cache: NamespacedCache = searchCache,
+  rateLimiter: RateLimitManager = rateLimitManager
+): Promise<SearchResult[]> {
+  return cache.getOrFetch(searchCacheKey(engine, query, options), () =>
+    rateLimiter.schedule(engine, () => searchProviderRegistry.search(engine, query, options))
+  )
+}
@@ -4,28 +4,20 @@
  * This module exports all available search providers for Project Gargantua.
  */
 
-export { exaSearchProvider } from './exa-provider';
-export { 
-  jinaSearchProvider,
-  searchWithJina,
-  searchWithJinaDeepSearch
-} from './jina-provider';
+// Shared engine registry; importing the real implementation registers its engines
+export {
+  SearchProviderRegistry,
+  searchProviderRegistry
+} from './registry';
+export type {
+  CapabilityRequirements,
+  EngineSearchOptions,
+  SearchEngine,
+  SearchEngineCapabilities,
+  SearchResult
+} from './registry';
+export { searchEngineManager } from './real-search-implementation';
+export { cachedEngineSearch, searchCacheKey } from './cached-search';
+export { localCorpusIndex, isLocalDocumentUrl } from './local-corpus';
+export type { LocalCorpusStatus } from './local-corpus';
 
-// Common provider interface
-export interface SearchProvider {
-  search: (
-    query: string, 
-    options?: Record<string, any>
-  ) => Promise<{
-    title: string;
-    url: string;
-    snippet?: string;
-    source: string;
-    confidence?: number;
-    relevance?: number;
-    metadata?: Record<string, any>;
-  }[]>;
-}
-
-// Provider factory type
-export type SearchProviderFactory = (apiKey: string) => SearchProvider;
\ No newline at end of file
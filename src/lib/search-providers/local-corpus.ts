@@ -0,0 +1,457 @@
+/**
+ * Local Document Corpus
+ *
+ * Indexes a configured directory of Markdown, HTML, text, PDF and Word files into an
+ * in-memory BM25 index, plus embeddings from the configured
+ * embedding provider (EMBEDDING_PROVIDER) when it is available. Documents are
+ * addressed by file:// URLs so the scrape step can read them straight from
+ * disk. Re-indexing is incremental: only files whose size or modification
+ * time changed are read again.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DocumentFormat, DocumentPage, ExtractedDocument, detectFormatFromPath, extractDocumentText } from '../utils/document-text';
+import { EmbeddingProvider, getEmbeddingProvider } from '../embeddings';
+import { BM25Index, chunkDocument, cosineSimilarity } from '../retrieval';
+import { EngineSearchOptions, SearchEngine, SearchEngineCapabilities, SearchResult } from './registry';
+
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+interface IndexedDocument {
+  path: string;
+  url: string;
+  title: string;
+  size: number;
+  mtimeMs: number;
+  chunkIds: string[];
+}
+
+interface IndexedChunk {
+  id: string;
+  documentPath: string;
+  text: string;
+  embedding?: number[];
+}
+
+export interface LocalCorpusStatus {
+  configured: boolean;
+  directory: string | null;
+  documentCount: number;
+  chunkCount: number;
+  termCount: number;
+  embeddedChunkCount: number;
+  embeddingsEnabled: boolean;
+  indexing: boolean;
+  lastIndexedAt: string | null;
+  lastIndexDurationMs: number | null;
+  lastIndexChanges: { added: number; updated: number; removed: number } | null;
+  errors: { path: string; message: string }[];
+}
+
+export interface LocalCorpusMatch {
+  url: string;
+  title: string;
+  text: string;
+  score: number;
+  modifiedAt: string;
+}
+
+export class LocalCorpusIndex {
+  private rootDir: string;
+  private embedder: EmbeddingProvider | null;
+  private refreshIntervalMs: number;
+
+  private documents: Map<string, IndexedDocument> = new Map();
+  private chunks: Map<string, IndexedChunk> = new Map();
+  // Rebuilt over every chunk, in `chunks` order, after a re-index that changed files
+  private lexicalIndex: BM25Index = new BM25Index([]);
+
+  private indexing: Promise<void> | null = null;
+  private lastScanAt = 0;
+  private lastIndexedAt: string | null = null;
+  private lastIndexDurationMs: number | null = null;
+  private lastIndexChanges: LocalCorpusStatus['lastIndexChanges'] = null;
+  private errors: { path: string; message: string }[] = [];
+
+  constructor(rootDir: string, options: { embedder?: EmbeddingProvider; refreshIntervalMs?: number } = {}) {
+    this.rootDir = rootDir ? path.resolve(rootDir) : '';
+    this.embedder = options.embedder?.isConfigured() ? options.embedder : null;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 60000;
+  }
+
+  isConfigured(): boolean {
+    return this.rootDir.length > 0;
+  }
+
+  /**
+   * Re-index changed files. Concurrent callers share the same run.
+   */
+  reindex(): Promise<void> {
+    if (!this.isConfigured()) {
+      return Promise.reject(new Error('Local corpus directory not configured'));
+    }
+
+    if (!this.indexing) {
+      this.indexing = this.runReindex().finally(() => {
+        this.indexing = null;
+      });
+    }
+
+    return this.indexing;
+  }
+
+  /**
+   * Re-index when the corpus has never been scanned or the last scan is stale
+   */
+  async ensureFresh(): Promise<void> {
+    if (this.indexing || Date.now() - this.lastScanAt >= this.refreshIntervalMs) {
+      await this.reindex();
+    }
+  }
+
+  /**
+   * Rank indexed chunks against a query and return the best chunk per document
+   */
+  async search(query: string, limit: number = 10, modifiedAfter?: Date): Promise<LocalCorpusMatch[]> {
+    await this.ensureFresh();
+
+    const chunks = Array.from(this.chunks.values());
+    const lexicalScores = this.lexicalIndex.score(query);
+    const denseScores = await this.scoreDense(query);
+
+    const maxLexical = Math.max(...lexicalScores, 0);
+    const bestByDocument = new Map<string, { chunk: IndexedChunk; score: number }>();
+
+    chunks.forEach((chunk, index) => {
+      const lexical = maxLexical > 0 ? (lexicalScores[index] || 0) / maxLexical : 0;
+      const dense = denseScores?.get(chunk.id);
+
+      // Blend lexical and dense evidence when both exist, otherwise rely on BM25 alone
+      const score = dense !== undefined ? 0.5 * lexical + 0.5 * Math.max(dense, 0) : lexical;
+      if (score <= 0) return;
+
+      const document = this.documents.get(chunk.documentPath);
+      if (!document) return;
+      if (modifiedAfter && document.mtimeMs < modifiedAfter.getTime()) return;
+
+      const best = bestByDocument.get(chunk.documentPath);
+      if (!best || score > best.score) {
+        bestByDocument.set(chunk.documentPath, { chunk, score });
+      }
+    });
+
+    return Array.from(bestByDocument.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => {
+        const document = this.documents.get(chunk.documentPath)!;
+        return {
+          url: document.url,
+          title: document.title,
+          text: chunk.text,
+          score,
+          modifiedAt: new Date(document.mtimeMs).toISOString()
+        };
+      });
+  }
+
+  /**
+   * Read the full text of an indexed file:// URL. Paths outside the corpus
+   * directory are rejected so arbitrary files cannot be read.
+   */
+  async readDocument(url: string): Promise<{ title: string; text: string; format: DocumentFormat; pages?: DocumentPage[] }> {
+    const filePath = await this.resolveCorpusPath(url);
+    const format = detectFormatFromPath(filePath);
+    if (!format) {
+      throw new Error(`Unsupported local document type: ${path.basename(filePath)}`);
+    }
+
+    const extracted = await extractDocumentText(await fs.readFile(filePath), format);
+    return {
+      title: extracted.title || path.basename(filePath),
+      text: extracted.text,
+      format,
+      ...(extracted.pages ? { pages: extracted.pages } : {})
+    };
+  }
+
+  getStatus(): LocalCorpusStatus {
+    let embeddedChunkCount = 0;
+    for (const chunk of this.chunks.values()) {
+      if (chunk.embedding) embeddedChunkCount++;
+    }
+
+    return {
+      configured: this.isConfigured(),
+      directory: this.rootDir || null,
+      documentCount: this.documents.size,
+      chunkCount: this.chunks.size,
+      termCount: this.lexicalIndex.termCount,
+      embeddedChunkCount,
+      embeddingsEnabled: this.embedder !== null,
+      indexing: this.indexing !== null,
+      lastIndexedAt: this.lastIndexedAt,
+      lastIndexDurationMs: this.lastIndexDurationMs,
+      lastIndexChanges: this.lastIndexChanges,
+      errors: this.errors
+    };
+  }
+
+  private async resolveCorpusPath(url: string): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('Local corpus directory not configured');
+    }
+
+    const [root, filePath] = await Promise.all([
+      fs.realpath(this.rootDir),
+      fs.realpath(fileURLToPath(url))
+    ]);
+    const relative = path.relative(root, filePath);
+
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the local corpus: ${url}`);
+    }
+
+    return filePath;
+  }
+
+  private async runReindex(): Promise<void> {
+    const startTime = Date.now();
+    const errors: { path: string; message: string }[] = [];
+    const seen = new Set<string>();
+    const changes = { added: 0, updated: 0, removed: 0 };
+    const newChunks: IndexedChunk[] = [];
+
+    for (const filePath of await this.listFiles(this.rootDir, errors)) {
+      seen.add(filePath);
+
+      try {
+        const stats = await fs.stat(filePath);
+        const existing = this.documents.get(filePath);
+        if (existing && existing.size === stats.size && existing.mtimeMs === stats.mtimeMs) {
+          continue;
+        }
+        if (stats.size > MAX_FILE_BYTES) {
+          throw new Error(`File exceeds ${MAX_FILE_BYTES} bytes`);
+        }
+
+        const extracted = await extractDocumentText(await fs.readFile(filePath), detectFormatFromPath(filePath)!);
+
+        if (existing) {
+          this.removeDocument(filePath);
+          changes.updated++;
+        } else {
+          changes.added++;
+        }
+
+        newChunks.push(...this.addDocument(filePath, extracted, stats));
+      } catch (error) {
+        errors.push({ path: filePath, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    for (const filePath of Array.from(this.documents.keys())) {
+      if (!seen.has(filePath)) {
+        this.removeDocument(filePath);
+        changes.removed++;
+      }
+    }
+
+    if (changes.added || changes.updated || changes.removed) {
+      this.lexicalIndex = new BM25Index(Array.from(this.chunks.values(), chunk => chunk.text));
+    }
+
+    await this.embedChunks(newChunks, errors);
+
+    this.errors = errors;
+    this.lastScanAt = Date.now();
+    this.lastIndexedAt = new Date().toISOString();
+    this.lastIndexDurationMs = Date.now() - startTime;
+    this.lastIndexChanges = changes;
+  }
+
+  private async listFiles(dir: string, errors: { path: string; message: string }[]): Promise<string[]> {
+    const files: string[] = [];
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      errors.push({ path: dir, message: error instanceof Error ? error.message : String(error) });
+      return files;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(entryPath, errors));
+      } else if (entry.isFile() && detectFormatFromPath(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  private addDocument(filePath: string, extracted: ExtractedDocument, stats: { size: number; mtimeMs: number }): IndexedChunk[] {
+    const document: IndexedDocument = {
+      path: filePath,
+      url: pathToFileURL(filePath).href,
+      title: extracted.title || path.basename(filePath),
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      chunkIds: []
+    };
+    const added: IndexedChunk[] = [];
+
+    // Chunked like scraped pages: along headings and paragraphs, never across pages
+    const chunks = extracted.pages
+      ? chunkDocument(extracted.pages.map(page => page.text), undefined, extracted.pages.map(page => page.pageNumber))
+      : chunkDocument(extracted.text);
+
+    chunks.forEach(({ text }, index) => {
+      const chunk: IndexedChunk = {
+        id: `${document.url}#${index}`,
+        documentPath: filePath,
+        text
+      };
+
+      this.chunks.set(chunk.id, chunk);
+      document.chunkIds.push(chunk.id);
+      added.push(chunk);
+    });
+
+    this.documents.set(filePath, document);
+    return added;
+  }
+
+  private removeDocument(filePath: string): void {
+    const document = this.documents.get(filePath);
+    if (!document) return;
+
+    for (const chunkId of document.chunkIds) {
+      this.chunks.delete(chunkId);
+    }
+
+    this.documents.delete(filePath);
+  }
+
+  private async scoreDense(query: string): Promise<Map<string, number> | null> {
+    if (!this.embedder) return null;
+
+    try {
+      const [queryEmbedding] = await this.embedder.embed([query], 'query');
+      const scores = new Map<string, number>();
+
+      for (const chunk of this.chunks.values()) {
+        if (chunk.embedding) {
+          scores.set(chunk.id, cosineSimilarity(queryEmbedding, chunk.embedding));
+        }
+      }
+
+      return scores;
+    } catch (error) {
+      console.error('❌ Local corpus query embedding failed, using lexical ranking only:', error);
+      return null;
+    }
+  }
+
+  private async embedChunks(chunks: IndexedChunk[], errors: { path: string; message: string }[]): Promise<void> {
+    if (!this.embedder || chunks.length === 0) return;
+
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+      try {
+        const embeddings = await this.embedder.embed(batch.map(chunk => chunk.text), 'passage');
+        batch.forEach((chunk, index) => {
+          chunk.embedding = embeddings[index];
+        });
+      } catch (error) {
+        // Chunks without embeddings are still searchable through the BM25 index
+        errors.push({
+          path: batch[0].documentPath,
+          message: `Embedding failed: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Search engine adapter exposing the local corpus through the shared registry
+ */
+export class LocalCorpusSearchProvider implements SearchEngine {
+  readonly name = 'local_corpus';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: false,
+    costPerQuery: 0,
+    maxResults: 50
+  };
+
+  constructor(private index: LocalCorpusIndex) {}
+
+  isConfigured(): boolean {
+    return this.index.isConfigured();
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    const recencyDays = { day: 1, week: 7, month: 30, year: 365 };
+    const modifiedAfter = options.recency
+      ? new Date(Date.now() - recencyDays[options.recency] * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const matches = await this.index.search(query, options.limit ?? 10, modifiedAfter);
+
+    return matches.map((match, index) => ({
+      id: `local_corpus-${Date.now()}-${index}`,
+      title: match.title,
+      content: match.text,
+      url: match.url,
+      source: 'local_corpus',
+      relevanceScore: match.score,
+      // Internal documents are curated by the team that configured the corpus
+      credibilityScore: 0.85,
+      freshnessScore: this.calculateFreshnessScore(match.modifiedAt),
+      timestamp: new Date().toISOString(),
+      publishedDate: match.modifiedAt
+    }));
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await fs.access(this.index.getStatus().directory || '');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private calculateFreshnessScore(modifiedAt: string): number {
+    const daysSinceModified = (Date.now() - new Date(modifiedAt).getTime()) / (1000 * 60 * 60 * 24);
+
+    if (daysSinceModified < 7) return 1.0;
+    if (daysSinceModified < 30) return 0.8;
+    if (daysSinceModified < 90) return 0.6;
+    return 0.4;
+  }
+}
+
+/**
+ * Whether a URL points at a local corpus document rather than the web
+ */
+export function isLocalDocumentUrl(url: string): boolean {
+  return url.startsWith('file:');
+}
+
+// Export singleton instance
+export const localCorpusIndex = new LocalCorpusIndex(process.env.LOCAL_CORPUS_DIR || '', {
+  embedder: getEmbeddingProvider(),
+  refreshIntervalMs: Number(process.env.LOCAL_CORPUS_REFRESH_MS) || 60000
+});
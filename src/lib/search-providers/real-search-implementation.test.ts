@@ -0,0 +1,274 @@
+import test, { after, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  AcademicSearchProvider,
+  GithubSearchProvider,
+  SearxngSearchProvider,
+  StackOverflowSearchProvider
+} from './real-search-implementation';
+
+let server: Server;
+let origin: string;
+let lastRequest: URL | undefined;
+let lastAuthorization: string | undefined;
+
+const SEARXNG_RESPONSE = {
+  query: 'vector search',
+  results: [
+    {
+      title: 'Vector search explained',
+      content: 'How approximate nearest-neighbour indexes work',
+      url: 'https://example.com/vector-search',
+      score: 4,
+      engines: ['duckduckgo', 'bing', 'brave'],
+      publishedDate: '2024-03-01T00:00:00',
+      author: 'A. Writer'
+    },
+    {
+      title: 'HNSW paper',
+      content: '',
+      url: 'https://cs.example.edu/hnsw',
+      score: 2,
+      engines: ['google scholar']
+    }
+  ]
+};
+
+const GITHUB_RESPONSE = {
+  total_count: 2,
+  items: [
+    {
+      id: 101,
+      name: 'pgvector',
+      full_name: 'pgvector/pgvector',
+      description: 'Open-source vector similarity search for Postgres',
+      topics: ['postgres', 'vector-search'],
+      html_url: 'https://github.com/pgvector/pgvector',
+      score: 10,
+      stargazers_count: 9999,
+      archived: false,
+      owner: { login: 'pgvector' },
+      created_at: '2021-04-20T00:00:00Z',
+      pushed_at: '2024-05-01T00:00:00Z'
+    },
+    {
+      id: 102,
+      name: 'old-vectors',
+      full_name: 'someone/old-vectors',
+      html_url: 'https://github.com/someone/old-vectors',
+      score: 5,
+      stargazers_count: 0,
+      archived: true,
+      owner: { login: 'someone' }
+    }
+  ]
+};
+
+const STACKOVERFLOW_RESPONSE = {
+  items: [
+    {
+      question_id: 2001,
+      title: 'How do I index &quot;vector&quot; columns?',
+      body: '<p>I tried <code>CREATE INDEX</code> &amp; it was slow.</p>',
+      link: 'https://stackoverflow.com/questions/2001',
+      score: 99,
+      is_answered: true,
+      accepted_answer_id: 2002,
+      owner: { display_name: 'O&#39;Neil', reputation: 9999 },
+      creation_date: 1700000000,
+      last_activity_date: 1700000000
+    },
+    {
+      question_id: 2003,
+      title: 'Unanswered question',
+      link: 'https://stackoverflow.com/questions/2003',
+      score: 0,
+      is_answered: false,
+      owner: {}
+    }
+  ]
+};
+
+const CROSSREF_RESPONSE = {
+  status: 'ok',
+  message: {
+    items: [
+      {
+        DOI: '10.1000/hnsw',
+        URL: 'https://doi.org/10.1000/hnsw',
+        title: ['Efficient <i>approximate</i> nearest neighbour search'],
+        abstract: '<jats:p>Graph-based indexes.</jats:p>',
+        author: [{ given: 'Yury', family: 'Malkov' }, { family: 'Yashunin' }],
+        published: { 'date-parts': [[2018, 12]] },
+        type: 'journal-article',
+        'container-title': ['IEEE TPAMI'],
+        'is-referenced-by-count': 999,
+        score: 20
+      },
+      {
+        DOI: '10.1000/no-url',
+        title: ['Only a DOI'],
+        'container-title': ['Proceedings'],
+        author: [{ given: 'Ada', family: 'Lovelace' }],
+        score: 10
+      },
+      {
+        title: ['Neither DOI nor URL'],
+        score: 30
+      }
+    ]
+  }
+};
+
+function sendJson(response: ServerResponse, body: unknown): void {
+  response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+before(async () => {
+  // The adapters log every query and failure; keep the test output readable
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+
+  server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', origin);
+    lastRequest = url;
+    lastAuthorization = request.headers.authorization;
+    if (url.pathname === '/searxng/search') {
+      sendJson(response, SEARXNG_RESPONSE);
+    } else if (url.pathname === '/searxng/healthz') {
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('OK');
+    } else if (url.pathname === '/github/search/repositories') {
+      sendJson(response, GITHUB_RESPONSE);
+    } else if (url.pathname === '/stackexchange/search/advanced') {
+      sendJson(response, STACKOVERFLOW_RESPONSE);
+    } else if (url.pathname === '/crossref/works') {
+      sendJson(response, CROSSREF_RESPONSE);
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  mock.restoreAll();
+  server.close();
+});
+
+test('SearxngSearchProvider maps SearXNG JSON results', async () => {
+  const provider = new SearxngSearchProvider(`${origin}/searxng/`);
+  const results = await provider.search('vector search', { recency: 'month' });
+
+  assert.equal(lastRequest?.searchParams.get('q'), 'vector search');
+  assert.equal(lastRequest?.searchParams.get('format'), 'json');
+  assert.equal(lastRequest?.searchParams.get('time_range'), 'month');
+
+  assert.equal(results.length, 2);
+  assert.equal(results[0].title, 'Vector search explained');
+  assert.equal(results[0].url, 'https://example.com/vector-search');
+  assert.equal(results[0].source, 'searxng');
+  assert.equal(results[0].relevanceScore, 1);
+  assert.equal(results[0].credibilityScore, 0.75);
+  assert.equal(results[0].author, 'A. Writer');
+  assert.equal(results[0].publishedDate, '2024-03-01T00:00:00');
+
+  assert.equal(results[1].content, 'No content available');
+  assert.equal(results[1].relevanceScore, 0.5);
+  assert.equal(results[1].credibilityScore, 0.9);
+  assert.equal(results[1].author, undefined);
+});
+
+test('SearxngSearchProvider surfaces HTTP errors', async () => {
+  const provider = new SearxngSearchProvider(`${origin}/missing`);
+
+  await assert.rejects(provider.search('vector search'), /SearXNG API error: 404/);
+});
+
+test('SearxngSearchProvider checkHealth probes the health endpoint', async () => {
+  assert.equal(await new SearxngSearchProvider(`${origin}/searxng`).checkHealth(), true);
+  assert.equal(await new SearxngSearchProvider(`${origin}/missing`).checkHealth(), false);
+  assert.equal(await new SearxngSearchProvider('').checkHealth(), false);
+});
+
+test('GithubSearchProvider maps repository search results', async () => {
+  const provider = new GithubSearchProvider('gh-token', `${origin}/github`);
+  const results = await provider.search('vector search', { limit: 5, recency: 'year' });
+
+  assert.match(lastRequest?.searchParams.get('q') ?? '', /^vector search pushed:>=\d{4}-\d{2}-\d{2}$/);
+  assert.equal(lastRequest?.searchParams.get('per_page'), '5');
+  assert.equal(lastAuthorization, 'Bearer gh-token');
+
+  assert.equal(results.length, 2);
+  assert.equal(results[0].id, 'github_search-101');
+  assert.equal(results[0].title, 'pgvector/pgvector');
+  assert.equal(results[0].content, 'Open-source vector similarity search for Postgres\nTopics: postgres, vector-search');
+  assert.equal(results[0].url, 'https://github.com/pgvector/pgvector');
+  assert.equal(results[0].source, 'github_search');
+  assert.equal(results[0].relevanceScore, 1);
+  assert.equal(results[0].author, 'pgvector');
+  assert.equal(results[0].publishedDate, '2021-04-20T00:00:00Z');
+
+  assert.equal(results[1].content, 'No description available');
+  assert.equal(results[1].relevanceScore, 0.5);
+  assert.equal(results[1].credibilityScore, 0.3);
+  assert.ok(results[0].credibilityScore > results[1].credibilityScore);
+});
+
+test('GithubSearchProvider sends no authorization without a token', async () => {
+  await new GithubSearchProvider('', `${origin}/github`).search('vector search');
+
+  assert.equal(lastAuthorization, undefined);
+  assert.equal(lastRequest?.searchParams.get('q'), 'vector search');
+});
+
+test('StackOverflowSearchProvider maps question search results', async () => {
+  const provider = new StackOverflowSearchProvider('se-key', `${origin}/stackexchange/`);
+  const results = await provider.search('vector index', { recency: 'week' });
+
+  assert.equal(lastRequest?.searchParams.get('q'), 'vector index');
+  assert.equal(lastRequest?.searchParams.get('site'), 'stackoverflow');
+  assert.equal(lastRequest?.searchParams.get('key'), 'se-key');
+  assert.match(lastRequest?.searchParams.get('fromdate') ?? '', /^\d+$/);
+
+  assert.equal(results.length, 2);
+  assert.equal(results[0].id, 'stackoverflow-2001');
+  assert.equal(results[0].title, 'How do I index "vector" columns?');
+  assert.equal(results[0].content, 'I tried CREATE INDEX & it was slow.');
+  assert.equal(results[0].url, 'https://stackoverflow.com/questions/2001');
+  assert.equal(results[0].relevanceScore, 1);
+  assert.equal(results[0].author, "O'Neil");
+  assert.equal(results[0].publishedDate, new Date(1700000000 * 1000).toISOString());
+
+  assert.equal(results[1].content, 'No content available');
+  assert.equal(results[1].relevanceScore, 0.5);
+  assert.equal(results[1].credibilityScore, 0.45);
+  assert.equal(results[1].author, undefined);
+});
+
+test('AcademicSearchProvider maps Crossref works and skips ones without a link', async () => {
+  const provider = new AcademicSearchProvider(`${origin}/crossref`, 'team@example.com');
+  const results = await provider.search('nearest neighbour', { limit: 3 });
+
+  assert.equal(lastRequest?.searchParams.get('query'), 'nearest neighbour');
+  assert.equal(lastRequest?.searchParams.get('rows'), '3');
+  assert.equal(lastRequest?.searchParams.get('mailto'), 'team@example.com');
+
+  assert.deepEqual(results.map(result => result.url), [
+    'https://doi.org/10.1000/hnsw',
+    'https://doi.org/10.1000/no-url'
+  ]);
+  assert.equal(results[0].id, 'academic_sources-10.1000/hnsw');
+  assert.equal(results[0].title, 'Efficient approximate nearest neighbour search');
+  assert.equal(results[0].content, 'Graph-based indexes.');
+  assert.equal(results[0].author, 'Yury Malkov, Yashunin');
+  assert.equal(results[0].publishedDate, '2018-12-01T00:00:00.000Z');
+  assert.equal(results[0].relevanceScore, 1);
+
+  assert.equal(results[1].content, 'Proceedings — Ada Lovelace');
+  assert.equal(results[1].relevanceScore, 0.5);
+  assert.equal(results[1].publishedDate, undefined);
+  assert.ok(results[0].credibilityScore > results[1].credibilityScore);
+});
@@ -1,30 +1,108 @@
 /**
  * Real Search Engine Implementation
- * Replaces mock data with actual search engine API calls
+ * Search engine adapters backed by the actual search APIs. Each adapter is
+ * registered with the shared search provider registry at the bottom of this file.
  */
 
+import {
+  EngineSearchOptions,
+  SearchEngine,
+  SearchEngineCapabilities,
+  SearchResult,
+  searchProviderRegistry
+} from './registry';
+import { LocalCorpusSearchProvider, localCorpusIndex } from './local-corpus';
+
+export type { SearchResult } from './registry';
+
 export interface SearchEngineConfig {
   apiKey: string;
   baseUrl: string;
   enabled: boolean;
 }
 
-export interface SearchResult {
-  id: string;
-  title: string;
-  content: string;
-  url: string;
-  source: string;
-  relevanceScore: number;
-  credibilityScore: number;
-  freshnessScore: number;
-  timestamp: string;
+const DEFAULT_TIMEOUT = 5000;
+
+const RECENCY_DAYS: Record<NonNullable<EngineSearchOptions['recency']>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+/**
+ * Non-2xx engine response; status and Retry-After let the rate limiter back off
+ */
+class EngineHttpError extends Error {
+  constructor(engine: string, public status: number, statusText: string, public retryAfter?: string) {
+    super(`${engine} API error: ${status} ${statusText}`);
+    this.name = 'EngineHttpError';
+  }
+}
+
+/**
+ * Fetch and parse a JSON response, aborting the request once the timeout elapses
+ */
+async function fetchJson(url: string, init: RequestInit, timeout: number, engine: string): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+
+    if (!response.ok) {
+      throw new EngineHttpError(engine, response.status, response.statusText, response.headers.get('retry-after') ?? undefined);
+    }
+
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * POST a JSON body with bearer authentication
+ */
+async function postJson(url: string, apiKey: string, body: unknown, timeout: number, engine: string): Promise<any> {
+  return fetchJson(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify(body)
+  }, timeout, engine);
+}
+
+/**
+ * Score how recent a result is from its publication date
+ */
+function calculateFreshnessScore(publishedDate?: string): number {
+  if (!publishedDate) return 0.5;
+
+  const published = new Date(publishedDate).getTime();
+  if (Number.isNaN(published)) return 0.5;
+
+  const daysSincePublished = (Date.now() - published) / (1000 * 60 * 60 * 24);
+
+  // More recent = higher score
+  if (daysSincePublished < 7) return 1.0;
+  if (daysSincePublished < 30) return 0.8;
+  if (daysSincePublished < 90) return 0.6;
+  return 0.4;
 }
 
 /**
  * Exa Search Implementation
  */
-export class ExaSearchProvider {
+export class ExaSearchProvider implements SearchEngine {
+  readonly name = 'exa';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: true,
+    costPerQuery: 0.005,
+    maxResults: 25
+  };
   private config: SearchEngineConfig;
 
   constructor(apiKey: string) {
@@ -35,42 +113,35 @@ export class ExaSearchProvider {
     };
   }
 
-  async search(query: string, timeout: number = 5000): Promise<SearchResult[]> {
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
     if (!this.config.enabled) {
-      console.warn('⚠️  Exa API key not configured, returning mock data');
-      return this.getMockResults('exa', query);
+      throw new Error('Exa API key not configured');
     }
 
     try {
       console.log(`🔍 Searching Exa for: "${query}"`);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(`${this.config.baseUrl}/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`
-        },
-        body: JSON.stringify({
-          query,
-          numResults: 5,
-          includeDomains: [],
-          excludeDomains: [],
-          useAutoprompt: true
-        }),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
 
-      if (!response.ok) {
-        throw new Error(`Exa API error: ${response.status} ${response.statusText}`);
-      }
+      const startPublishedDate = options.recency
+        ? new Date(Date.now() - RECENCY_DAYS[options.recency] * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+
+      const data = await postJson(`${this.config.baseUrl}/search`, this.config.apiKey, {
+        query,
+        numResults: options.limit ?? 5,
+        includeDomains: options.includeDomains ?? [],
+        excludeDomains: options.excludeDomains ?? [],
+        startPublishedDate,
+        useAutoprompt: true,
+        contents: {
+          text: { maxCharacters: 2000 },
+          highlights: { numSentences: 3, highlightsPerUrl: 2 }
+        }
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'Exa');
 
-      const data = await response.json();
-      
       return data.results?.map((result: any, index: number) => ({
         id: `exa-${Date.now()}-${index}`,
         title: result.title || 'No title',
@@ -79,15 +150,16 @@ export class ExaSearchProvider {
         source: 'exa',
         relevanceScore: result.score || 0.8,
         credibilityScore: this.calculateCredibilityScore(result),
-        freshnessScore: this.calculateFreshnessScore(result.publishedDate),
-        timestamp: new Date().toISOString()
+        freshnessScore: calculateFreshnessScore(result.publishedDate),
+        timestamp: new Date().toISOString(),
+        author: result.author || undefined,
+        publishedDate: result.publishedDate || undefined,
+        highlights: Array.isArray(result.highlights) ? result.highlights : undefined
       })) || [];
 
     } catch (error) {
       console.error('❌ Exa search error:', error);
-      
-      // Fallback to mock data
-      return this.getMockResults('exa', query);
+      throw error;
     }
   }
 
@@ -99,40 +171,19 @@ export class ExaSearchProvider {
     
     return hasTrustedTLD ? 0.9 : 0.7 + Math.random() * 0.2;
   }
-
-  private calculateFreshnessScore(publishedDate?: string): number {
-    if (!publishedDate) return 0.5;
-    
-    const now = Date.now();
-    const published = new Date(publishedDate).getTime();
-    const daysSincePublished = (now - published) / (1000 * 60 * 60 * 24);
-    
-    // More recent = higher score
-    if (daysSincePublished < 7) return 1.0;
-    if (daysSincePublished < 30) return 0.8;
-    if (daysSincePublished < 90) return 0.6;
-    return 0.4;
-  }
-
-  private getMockResults(source: string, query: string): SearchResult[] {
-    return [{
-      id: `${source}-${Date.now()}`,
-      title: `[MOCK] Result from ${source}`,
-      content: `Mock search result for "${query}" from ${source}. Configure API key for real results.`,
-      url: `https://${source}.com/result`,
-      source,
-      relevanceScore: 0.6 + Math.random() * 0.4,
-      credibilityScore: 0.7 + Math.random() * 0.3,
-      freshnessScore: 0.5 + Math.random() * 0.5,
-      timestamp: new Date().toISOString()
-    }];
-  }
 }
 
 /**
  * Jina Search Implementation  
  */
-export class JinaSearchProvider {
+export class JinaSearchProvider implements SearchEngine {
+  readonly name = 'jina';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: false,
+    domains: false,
+    costPerQuery: 0.002,
+    maxResults: 10
+  };
   private config: SearchEngineConfig;
 
   constructor(apiKey: string) {
@@ -143,76 +194,59 @@ export class JinaSearchProvider {
     };
   }
 
-  async search(query: string, timeout: number = 5000): Promise<SearchResult[]> {
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
     if (!this.config.enabled) {
-      console.warn('⚠️  Jina API key not configured, returning mock data');
-      return this.getMockResults('jina', query);
+      throw new Error('Jina API key not configured');
     }
 
     try {
       console.log(`🔍 Searching Jina for: "${query}"`);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(this.config.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`
-        },
-        body: JSON.stringify({
-          query,
-          limit: 5
-        }),
-        signal: controller.signal
-      });
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`Jina API error: ${response.status} ${response.statusText}`);
-      }
+      const data = await postJson(this.config.baseUrl, this.config.apiKey, {
+        query,
+        limit: options.limit ?? 5,
+        type: 'web',
+        include_content: true,
+        safe_search: true
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'Jina');
 
-      const data = await response.json();
-      
       return data.results?.map((result: any, index: number) => ({
         id: `jina-${Date.now()}-${index}`,
         title: result.title || 'No title',
-        content: result.snippet || result.description || 'No content available',
+        content: result.content || result.snippet || result.description || 'No content available',
         url: result.url,
         source: 'jina',
-        relevanceScore: result.relevance || 0.8,
+        relevanceScore: result.relevance || result.score || 0.8,
         credibilityScore: 0.7 + Math.random() * 0.3,
         freshnessScore: 0.6 + Math.random() * 0.4,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        author: result.author || undefined,
+        publishedDate: result.published_date || undefined,
+        highlights: Array.isArray(result.highlights) ? result.highlights : undefined
       })) || [];
 
     } catch (error) {
       console.error('❌ Jina search error:', error);
-      return this.getMockResults('jina', query);
+      throw error;
     }
   }
-
-  private getMockResults(source: string, query: string): SearchResult[] {
-    return [{
-      id: `${source}-${Date.now()}`,
-      title: `[MOCK] Result from ${source}`,
-      content: `Mock search result for "${query}" from ${source}. Configure API key for real results.`,
-      url: `https://${source}.com/result`,
-      source,
-      relevanceScore: 0.6 + Math.random() * 0.4,
-      credibilityScore: 0.7 + Math.random() * 0.3,
-      freshnessScore: 0.5 + Math.random() * 0.5,
-      timestamp: new Date().toISOString()
-    }];
-  }
 }
 
 /**
  * Firecrawl Search Implementation
  */
-export class FirecrawlSearchProvider {
+export class FirecrawlSearchProvider implements SearchEngine {
+  readonly name = 'firecrawl';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: false,
+    domains: false,
+    costPerQuery: 0.01,
+    maxResults: 10
+  };
   private config: SearchEngineConfig;
 
   constructor(apiKey: string) {
@@ -223,39 +257,23 @@ export class FirecrawlSearchProvider {
     };
   }
 
-  async search(query: string, timeout: number = 5000): Promise<SearchResult[]> {
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
     if (!this.config.enabled) {
-      console.warn('⚠️  Firecrawl API key not configured, returning mock data');
-      return this.getMockResults('firecrawl', query);
+      throw new Error('Firecrawl API key not configured');
     }
 
     try {
       console.log(`🔍 Searching Firecrawl for: "${query}"`);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(`${this.config.baseUrl}/v0/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`
-        },
-        body: JSON.stringify({
-          query,
-          limit: 5
-        }),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
 
-      if (!response.ok) {
-        throw new Error(`Firecrawl API error: ${response.status} ${response.statusText}`);
-      }
+      const data = await postJson(`${this.config.baseUrl}/v0/search`, this.config.apiKey, {
+        query,
+        limit: options.limit ?? 5
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'Firecrawl');
 
-      const data = await response.json();
-      
       return data.data?.map((result: any, index: number) => ({
         id: `firecrawl-${Date.now()}-${index}`,
         title: result.metadata?.title || result.title || 'No title',
@@ -270,71 +288,432 @@ export class FirecrawlSearchProvider {
 
     } catch (error) {
       console.error('❌ Firecrawl search error:', error);
-      return this.getMockResults('firecrawl', query);
+      throw error;
+    }
+  }
+}
+
+/**
+ * SearXNG Search Implementation
+ * Queries a SearXNG-compatible JSON endpoint. Needs no API key, so it works
+ * in air-gapped environments and against a local stand-in during tests.
+ */
+export class SearxngSearchProvider implements SearchEngine {
+  readonly name = 'searxng';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: false,
+    costPerQuery: 0,
+    maxResults: 20
+  };
+  private config: SearchEngineConfig;
+
+  constructor(baseUrl: string) {
+    this.config = {
+      apiKey: '',
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      enabled: baseUrl.length > 0
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    if (!this.config.enabled) {
+      throw new Error('SearXNG base URL not configured');
+    }
+
+    try {
+      console.log(`🔍 Searching SearXNG for: "${query}"`);
+
+      const params = new URLSearchParams({ q: query, format: 'json' });
+      if (options.recency) {
+        // SearXNG time ranges use the same names as our recency windows
+        params.set('time_range', options.recency);
+      }
+
+      const data = await fetchJson(`${this.config.baseUrl}/search?${params}`, {
+        headers: { 'Accept': 'application/json' }
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'SearXNG');
+
+      const results: any[] = (data.results || []).slice(0, options.limit ?? 10);
+      const maxScore = Math.max(...results.map(result => result.score || 0), 0);
+
+      return results.map((result: any, index: number) => ({
+        id: `searxng-${Date.now()}-${index}`,
+        title: result.title || 'No title',
+        content: result.content || 'No content available',
+        url: result.url,
+        source: 'searxng',
+        // SearXNG scores are unbounded, so normalize against the best result and fall back to rank order
+        relevanceScore: maxScore > 0 ? (result.score || 0) / maxScore : 1 - index / results.length,
+        credibilityScore: this.calculateCredibilityScore(result),
+        freshnessScore: calculateFreshnessScore(result.publishedDate),
+        timestamp: new Date().toISOString(),
+        author: result.author || undefined,
+        publishedDate: result.publishedDate || undefined
+      }));
+
+    } catch (error) {
+      console.error('❌ SearXNG search error:', error);
+      throw error;
     }
   }
 
-  private getMockResults(source: string, query: string): SearchResult[] {
-    return [{
-      id: `${source}-${Date.now()}`,
-      title: `[MOCK] Result from ${source}`,
-      content: `Mock search result for "${query}" from ${source}. Configure API key for real results.`,
-      url: `https://${source}.com/result`,
-      source,
-      relevanceScore: 0.6 + Math.random() * 0.4,
-      credibilityScore: 0.7 + Math.random() * 0.3,
-      freshnessScore: 0.5 + Math.random() * 0.5,
-      timestamp: new Date().toISOString()
-    }];
+  /**
+   * Probe the instance's health endpoint
+   */
+  async checkHealth(timeout: number = DEFAULT_TIMEOUT): Promise<boolean> {
+    if (!this.config.enabled) return false;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/healthz`, { signal: controller.signal });
+      return response.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private calculateCredibilityScore(result: any): number {
+    // Trusted TLDs score highest; otherwise credit agreement between the upstream engines
+    const trustedDomains = ['edu', 'gov', 'org'];
+    const domain = new URL(result.url).hostname;
+    if (trustedDomains.some(tld => domain.endsWith(`.${tld}`))) return 0.9;
+
+    const engineCount = Array.isArray(result.engines) ? result.engines.length : 1;
+    return Math.min(0.85, 0.6 + engineCount * 0.05);
   }
 }
 
 /**
- * Search Engine Manager
- * Coordinates multiple search engines
+ * Days ago as an ISO date (YYYY-MM-DD) for recency filters
  */
-export class SearchEngineManager {
-  private exaProvider: ExaSearchProvider;
-  private jinaProvider: JinaSearchProvider;
-  private firecrawlProvider: FirecrawlSearchProvider;
+function recencyStartDate(recency: NonNullable<EngineSearchOptions['recency']>): string {
+  return new Date(Date.now() - RECENCY_DAYS[recency] * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Strip markup and decode the common entities APIs leave in titles and bodies
+ */
+function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * GitHub Search Implementation
+ * Repository search on a GitHub-compatible code hosting API. Works without a
+ * token at the unauthenticated rate limit.
+ */
+export class GithubSearchProvider implements SearchEngine {
+  readonly name = 'github_search';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: false,
+    costPerQuery: 0,
+    maxResults: 50,
+    specialized: true
+  };
+  private config: SearchEngineConfig;
 
-  constructor() {
-    this.exaProvider = new ExaSearchProvider(process.env.EXA_API_KEY || '');
-    this.jinaProvider = new JinaSearchProvider(process.env.JINA_API_KEY || '');
-    this.firecrawlProvider = new FirecrawlSearchProvider(process.env.FIRECRAWL_API_KEY || '');
+  constructor(apiKey: string, baseUrl: string) {
+    this.config = {
+      apiKey,
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      enabled: baseUrl.length > 0
+    };
   }
 
-  async searchEngine(engine: string, query: string, timeout: number): Promise<SearchResult[]> {
-    switch (engine.toLowerCase()) {
-      case 'exa':
-        return await this.exaProvider.search(query, timeout);
-      case 'jina':
-        return await this.jinaProvider.search(query, timeout);
-      case 'firecrawl':
-        return await this.firecrawlProvider.search(query, timeout);
-      default:
-        console.warn(`⚠️  Unknown search engine: ${engine}`);
-        return [];
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    try {
+      console.log(`🔍 Searching GitHub for: "${query}"`);
+
+      const q = options.recency ? `${query} pushed:>=${recencyStartDate(options.recency)}` : query;
+      const params = new URLSearchParams({ q, per_page: String(options.limit ?? 10) });
+      const headers: Record<string, string> = { 'Accept': 'application/vnd.github+json' };
+      if (this.config.apiKey) {
+        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+      }
+
+      const data = await fetchJson(`${this.config.baseUrl}/search/repositories?${params}`, {
+        headers
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'GitHub');
+
+      const items: any[] = data.items || [];
+      const maxScore = Math.max(...items.map(item => item.score || 0), 0);
+
+      return items.map((item: any, index: number) => ({
+        id: `github_search-${item.id ?? `${Date.now()}-${index}`}`,
+        title: item.full_name || item.name || 'No title',
+        content: [item.description, item.topics?.length ? `Topics: ${item.topics.join(', ')}` : '']
+          .filter(Boolean)
+          .join('\n') || 'No description available',
+        url: item.html_url,
+        source: 'github_search',
+        relevanceScore: maxScore > 0 ? (item.score || 0) / maxScore : 1 - index / items.length,
+        credibilityScore: this.calculateCredibilityScore(item),
+        freshnessScore: calculateFreshnessScore(item.pushed_at || item.updated_at),
+        timestamp: new Date().toISOString(),
+        author: item.owner?.login,
+        publishedDate: item.created_at || undefined
+      }));
+
+    } catch (error) {
+      console.error('❌ GitHub search error:', error);
+      throw error;
     }
   }
 
-  getEngineStatus(): Record<string, { enabled: boolean; configured: boolean }> {
-    return {
-      exa: {
-        enabled: Boolean(process.env.EXA_API_KEY),
-        configured: process.env.EXA_API_KEY !== 'your_exa_api_key_here'
-      },
-      jina: {
-        enabled: Boolean(process.env.JINA_API_KEY),
-        configured: process.env.JINA_API_KEY !== 'your_jina_api_key_here'
-      },
-      firecrawl: {
-        enabled: Boolean(process.env.FIRECRAWL_API_KEY),
-        configured: process.env.FIRECRAWL_API_KEY !== 'your_firecrawl_api_key_here'
+  private calculateCredibilityScore(item: any): number {
+    // Stars on a log scale; archived repositories are no longer maintained
+    const stars = Math.max(item.stargazers_count || 0, 0);
+    const score = 0.5 + Math.min(0.45, Math.log10(stars + 1) * 0.1);
+    return item.archived ? Math.max(0.3, score - 0.2) : score;
+  }
+}
+
+/**
+ * Stack Overflow Search Implementation
+ * Question search on a Stack Exchange-compatible Q&A API
+ */
+export class StackOverflowSearchProvider implements SearchEngine {
+  readonly name = 'stackoverflow';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: false,
+    costPerQuery: 0,
+    maxResults: 50,
+    specialized: true
+  };
+  private config: SearchEngineConfig;
+
+  constructor(apiKey: string, baseUrl: string) {
+    this.config = {
+      apiKey,
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      enabled: baseUrl.length > 0
+    };
+  }
+
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    try {
+      console.log(`🔍 Searching Stack Overflow for: "${query}"`);
+
+      const params = new URLSearchParams({
+        q: query,
+        site: 'stackoverflow',
+        order: 'desc',
+        sort: 'relevance',
+        filter: 'withbody',
+        pagesize: String(options.limit ?? 10)
+      });
+      if (options.recency) {
+        params.set('fromdate', String(Math.floor(new Date(recencyStartDate(options.recency)).getTime() / 1000)));
+      }
+      if (this.config.apiKey) {
+        params.set('key', this.config.apiKey);
       }
+
+      const data = await fetchJson(`${this.config.baseUrl}/search/advanced?${params}`, {
+        headers: { 'Accept': 'application/json' }
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'Stack Overflow');
+
+      const items: any[] = data.items || [];
+
+      return items.map((item: any, index: number) => ({
+        id: `stackoverflow-${item.question_id ?? `${Date.now()}-${index}`}`,
+        title: toPlainText(item.title || 'No title'),
+        content: item.body ? toPlainText(item.body).substring(0, 2000) : 'No content available',
+        url: item.link,
+        source: 'stackoverflow',
+        // Results arrive sorted by relevance without a score, so rank order stands in
+        relevanceScore: 1 - index / Math.max(items.length, 1),
+        credibilityScore: this.calculateCredibilityScore(item),
+        freshnessScore: calculateFreshnessScore(
+          item.last_activity_date ? new Date(item.last_activity_date * 1000).toISOString() : undefined
+        ),
+        timestamp: new Date().toISOString(),
+        author: item.owner?.display_name ? toPlainText(item.owner.display_name) : undefined,
+        publishedDate: item.creation_date ? new Date(item.creation_date * 1000).toISOString() : undefined
+      }));
+
+    } catch (error) {
+      console.error('❌ Stack Overflow search error:', error);
+      throw error;
+    }
+  }
+
+  private calculateCredibilityScore(item: any): number {
+    // Accepted answers count most, then community votes and the asker's reputation
+    let score = item.accepted_answer_id ? 0.7 : item.is_answered ? 0.6 : 0.45;
+    score += Math.min(0.15, Math.log10(Math.max(item.score || 0, 0) + 1) * 0.05);
+    score += Math.min(0.1, Math.log10(Math.max(item.owner?.reputation || 0, 0) + 1) * 0.02);
+    return Math.min(0.95, score);
+  }
+}
+
+/**
+ * Academic Sources Search Implementation
+ * Scholarly work search on a Crossref-compatible metadata API
+ */
+export class AcademicSearchProvider implements SearchEngine {
+  readonly name = 'academic_sources';
+  readonly capabilities: SearchEngineCapabilities = {
+    freshness: true,
+    domains: false,
+    costPerQuery: 0,
+    maxResults: 50,
+    specialized: true
+  };
+  private config: SearchEngineConfig;
+  private mailto: string;
+
+  constructor(baseUrl: string, mailto: string = '') {
+    this.config = {
+      apiKey: '',
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      enabled: baseUrl.length > 0
     };
+    this.mailto = mailto;
+  }
+
+  isConfigured(): boolean {
+    return this.config.enabled;
+  }
+
+  async search(query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    try {
+      console.log(`🔍 Searching academic sources for: "${query}"`);
+
+      const params = new URLSearchParams({
+        query,
+        rows: String(options.limit ?? 10),
+        select: 'DOI,URL,title,abstract,author,published,type,container-title,is-referenced-by-count,score'
+      });
+      if (options.recency) {
+        params.set('filter', `from-pub-date:${recencyStartDate(options.recency)}`);
+      }
+      if (this.mailto) {
+        // Identifies us for the polite request pool
+        params.set('mailto', this.mailto);
+      }
+
+      const data = await fetchJson(`${this.config.baseUrl}/works?${params}`, {
+        headers: { 'Accept': 'application/json' }
+      }, options.timeout ?? DEFAULT_TIMEOUT, 'Academic sources');
+
+      // Works without a DOI or landing page have nothing to link to
+      const items: any[] = (data.message?.items || []).filter((item: any) => item.URL || item.DOI);
+      const maxScore = Math.max(...items.map(item => item.score || 0), 0);
+
+      return items.map((item: any, index: number) => {
+        const publishedDate = this.toPublishedDate(item.published?.['date-parts']?.[0]);
+        const authors: string[] = (item.author || [])
+          .map((author: any) => [author.given, author.family].filter(Boolean).join(' '))
+          .filter(Boolean);
+
+        return {
+          id: `academic_sources-${item.DOI ?? `${Date.now()}-${index}`}`,
+          title: toPlainText(item.title?.[0] || 'No title'),
+          content: item.abstract
+            ? toPlainText(item.abstract)
+            : [item['container-title']?.[0], authors.join(', ')].filter(Boolean).join(' — ') || 'No abstract available',
+          url: item.URL || `https://doi.org/${item.DOI}`,
+          source: 'academic_sources',
+          relevanceScore: maxScore > 0 ? (item.score || 0) / maxScore : 1 - index / items.length,
+          credibilityScore: this.calculateCredibilityScore(item),
+          freshnessScore: calculateFreshnessScore(publishedDate),
+          timestamp: new Date().toISOString(),
+          author: authors.length > 0 ? authors.join(', ') : undefined,
+          publishedDate
+        };
+      });
+
+    } catch (error) {
+      console.error('❌ Academic sources search error:', error);
+      throw error;
+    }
+  }
+
+  private toPublishedDate(dateParts?: number[]): string | undefined {
+    if (!dateParts || dateParts.length === 0) return undefined;
+
+    const [year, month = 1, day = 1] = dateParts;
+    return new Date(Date.UTC(year, month - 1, day)).toISOString();
+  }
+
+  private calculateCredibilityScore(item: any): number {
+    // Peer-reviewed venues score higher, then citations on a log scale
+    const citations = Math.max(item['is-referenced-by-count'] || 0, 0);
+    const venueBonus = item.type === 'journal-article' && item['container-title']?.length ? 0.1 : 0;
+    return Math.min(0.95, 0.6 + venueBonus + Math.log10(citations + 1) * 0.1);
+  }
+}
+
+/**
+ * Search Engine Manager
+ * Thin facade over the shared search provider registry
+ */
+export class SearchEngineManager {
+  async searchEngine(engine: string, query: string, timeout: number): Promise<SearchResult[]> {
+    if (!searchProviderRegistry.has(engine)) {
+      console.warn(`⚠️  Unknown search engine: ${engine}`);
+      return [];
+    }
+
+    return await searchProviderRegistry.search(engine, query, { timeout });
+  }
+
+  getEngineStatus(): Record<string, { enabled: boolean; configured: boolean }> {
+    const status: Record<string, { enabled: boolean; configured: boolean }> = {};
+
+    for (const [engine, { enabled, configured }] of Object.entries(searchProviderRegistry.getStatus())) {
+      status[engine] = { enabled, configured };
+    }
+
+    return status;
   }
 }
 
+searchProviderRegistry.register(new ExaSearchProvider(process.env.EXA_API_KEY || ''));
+searchProviderRegistry.register(new JinaSearchProvider(process.env.JINA_API_KEY || ''));
+searchProviderRegistry.register(new FirecrawlSearchProvider(process.env.FIRECRAWL_API_KEY || ''));
+searchProviderRegistry.register(new SearxngSearchProvider(process.env.SEARXNG_BASE_URL || ''));
+searchProviderRegistry.register(new GithubSearchProvider(
+  process.env.GITHUB_TOKEN || '',
+  process.env.GITHUB_API_BASE_URL || 'https://api.github.com'
+));
+searchProviderRegistry.register(new StackOverflowSearchProvider(
+  process.env.STACKEXCHANGE_API_KEY || '',
+  process.env.STACKEXCHANGE_API_BASE_URL || 'https://api.stackexchange.com/2.3'
+));
+searchProviderRegistry.register(new LocalCorpusSearchProvider(localCorpusIndex));
+searchProviderRegistry.register(new AcademicSearchProvider(
+  process.env.CROSSREF_API_BASE_URL || 'https://api.crossref.org',
+  process.env.CROSSREF_MAILTO || ''
+));
+
 // Export singleton instance
-export const searchEngineManager = new SearchEngineManager();
\ No newline at end of file
+export const searchEngineManager = new SearchEngineManager();
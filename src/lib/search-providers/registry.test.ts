@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchEngine, SearchEngineCapabilities, SearchProviderRegistry } from './registry';
+
+function engine(name: string, configured: boolean, capabilities: Partial<SearchEngineCapabilities> = {}): SearchEngine {
+  return {
+    name,
+    capabilities: { freshness: false, domains: false, costPerQuery: 0, maxResults: 10, ...capabilities },
+    isConfigured: () => configured,
+    search: async () => []
+  };
+}
+
+test('listGeneral leaves out unconfigured and specialized engines', () => {
+  const registry = new SearchProviderRegistry();
+  registry.register(engine('web', true));
+  registry.register(engine('offline', false));
+  registry.register(engine('code', true, { specialized: true }));
+
+  assert.deepEqual(registry.listConfigured().map(({ name }) => name), ['web', 'code']);
+  assert.deepEqual(registry.listGeneral().map(({ name }) => name), ['web']);
+  // Specialized engines still run when asked for by name
+  assert.equal(registry.get('code')?.isConfigured(), true);
+});
+
+test('search clamps the limit and drops options the engine cannot honour', async () => {
+  const registry = new SearchProviderRegistry();
+  let received: unknown;
+  registry.register({
+    ...engine('web', true, { maxResults: 5 }),
+    search: async (_query, options) => {
+      received = options;
+      return [];
+    }
+  });
+
+  await registry.search('WEB', 'query', { limit: 20, recency: 'week', includeDomains: ['example.com'] });
+  assert.deepEqual(received, { limit: 5, recency: undefined, includeDomains: undefined, excludeDomains: undefined });
+});
@@ -0,0 +1,164 @@
+/**
+ * Search Provider Registry
+ *
+ * One registry of search engines shared by every pipeline: the vNext steps,
+ * the legacy Workflow, HALO orchestration and /api/search. An engine is
+ * registered once, together with its capabilities, and any pipeline can then
+ * resolve it by name.
+ */
+
+/**
+ * Shared search result shape returned by every registered engine
+ */
+export interface SearchResult {
+  id: string;
+  title: string;
+  content: string;
+  url: string;
+  source: string;
+  relevanceScore: number;
+  credibilityScore: number;
+  freshnessScore: number;
+  timestamp: string;
+  author?: string;
+  publishedDate?: string;
+  highlights?: string[];
+}
+
+/**
+ * What an engine can do, used to pick engines and to clamp requests
+ */
+export interface SearchEngineCapabilities {
+  /** Engine can restrict results to a recency window */
+  freshness: boolean;
+  /** Engine can include or exclude specific domains */
+  domains: boolean;
+  /** Approximate cost in USD per query (0 for free or self-hosted engines) */
+  costPerQuery: number;
+  /** Largest number of results a single request can return */
+  maxResults: number;
+  /**
+   * Engine covers one kind of content (code, Q&A, papers) and only runs when
+   * a search asks for it by name, never as a general fallback
+   */
+  specialized?: boolean;
+}
+
+export interface EngineSearchOptions {
+  limit?: number;
+  timeout?: number;
+  recency?: 'day' | 'week' | 'month' | 'year';
+  includeDomains?: string[];
+  excludeDomains?: string[];
+}
+
+export interface SearchEngine {
+  readonly name: string;
+  readonly capabilities: SearchEngineCapabilities;
+  isConfigured(): boolean;
+  search(query: string, options?: EngineSearchOptions): Promise<SearchResult[]>;
+  /** Optional liveness probe for engines that expose one */
+  checkHealth?(timeout?: number): Promise<boolean>;
+}
+
+export interface CapabilityRequirements {
+  freshness?: boolean;
+  domains?: boolean;
+  maxCostPerQuery?: number;
+  minResults?: number;
+}
+
+export class SearchProviderRegistry {
+  private engines: Map<string, SearchEngine> = new Map();
+
+  /**
+   * Register an engine, replacing any engine already registered under the same name
+   */
+  register(engine: SearchEngine): void {
+    this.engines.set(engine.name.toLowerCase(), engine);
+  }
+
+  unregister(name: string): boolean {
+    return this.engines.delete(name.toLowerCase());
+  }
+
+  get(name: string): SearchEngine | undefined {
+    return this.engines.get(name.toLowerCase());
+  }
+
+  has(name: string): boolean {
+    return this.engines.has(name.toLowerCase());
+  }
+
+  list(): SearchEngine[] {
+    return Array.from(this.engines.values());
+  }
+
+  /**
+   * Engines that have the credentials or endpoints they need to run
+   */
+  listConfigured(): SearchEngine[] {
+    return this.list().filter(engine => engine.isConfigured());
+  }
+
+  /**
+   * Configured engines suited to any query, i.e. not specialized
+   */
+  listGeneral(): SearchEngine[] {
+    return this.listConfigured().filter(engine => !engine.capabilities.specialized);
+  }
+
+  /**
+   * Configured engines that satisfy every given capability requirement
+   */
+  findByCapabilities(requirements: CapabilityRequirements): SearchEngine[] {
+    return this.listConfigured().filter(({ capabilities }) => {
+      if (requirements.freshness && !capabilities.freshness) return false;
+      if (requirements.domains && !capabilities.domains) return false;
+      if (requirements.maxCostPerQuery !== undefined && capabilities.costPerQuery > requirements.maxCostPerQuery) return false;
+      if (requirements.minResults !== undefined && capabilities.maxResults < requirements.minResults) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Search a registered engine by name. Options the engine cannot honour are
+   * dropped and the result limit is clamped to the engine's maximum.
+   */
+  async search(name: string, query: string, options: EngineSearchOptions = {}): Promise<SearchResult[]> {
+    const engine = this.get(name);
+    if (!engine) {
+      throw new Error(`Unknown search engine: ${name}`);
+    }
+    if (!engine.isConfigured()) {
+      throw new Error(`Search engine ${engine.name} is not configured`);
+    }
+
+    const { capabilities } = engine;
+    return engine.search(query, {
+      ...options,
+      limit: Math.min(options.limit ?? capabilities.maxResults, capabilities.maxResults),
+      recency: capabilities.freshness ? options.recency : undefined,
+      includeDomains: capabilities.domains ? options.includeDomains : undefined,
+      excludeDomains: capabilities.domains ? options.excludeDomains : undefined
+    });
+  }
+
+  getStatus(): Record<string, { enabled: boolean; configured: boolean; capabilities: SearchEngineCapabilities }> {
+    const status: Record<string, { enabled: boolean; configured: boolean; capabilities: SearchEngineCapabilities }> = {};
+
+    for (const engine of this.list()) {
+      const configured = engine.isConfigured();
+      status[engine.name] = {
+        enabled: configured,
+        configured,
+        capabilities: engine.capabilities
+      };
+    }
+
+    return status;
+  }
+}
+
+// Export singleton instance
+export const searchProviderRegistry = new SearchProviderRegistry();
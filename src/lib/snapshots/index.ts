@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { InMemorySnapshotStore } from './memory';
+import { PostgresSnapshotStore } from './postgres';
+
+export { InMemorySnapshotStore, PostgresSnapshotStore };
+
+/**
+ * What a page said when it was scraped: its extracted content blocks,
+ * identified by URL plus content hash
+ */
+export interface PageSnapshot {
+  id: string;
+  url: string;
+  /** sha256 of the content blocks */
+  contentHash: string;
+  /** When the page was first scraped with this content */
+  fetchedAt: string;
+  /** When the page was last scraped with this content */
+  lastSeenAt: string;
+  title?: string;
+  format?: string;
+  /** Scraper that extracted the content, e.g. local, scrapybara or local-corpus */
+  scraper?: string;
+  blocks: string[];
+  /** Page of each block, for paged documents */
+  pages?: number[];
+}
+
+export type NewPageSnapshot = Omit<PageSnapshot, 'id' | 'contentHash' | 'fetchedAt' | 'lastSeenAt'>;
+
+/**
+ * Snapshot listed without its content
+ */
+export type SnapshotSummary = Omit<PageSnapshot, 'blocks' | 'pages'> & { blockCount: number };
+
+/**
+ * A numbered citation of a search's answer and the snapshot it cited
+ */
+export interface SnapshotCitation {
+  searchId: string;
+  /** Number the answer cites the source by */
+  citationId: number;
+  snapshotId: string;
+  url: string;
+}
+
+/**
+ * Archive of scraped page snapshots and of the snapshots each answer cited
+ */
+export interface SnapshotStore {
+  /** Store a scrape; content already archived for the URL only updates its lastSeenAt */
+  save(snapshot: NewPageSnapshot): Promise<PageSnapshot>;
+  get(id: string): Promise<PageSnapshot | null>;
+  /** Most recently seen snapshot of a URL */
+  latest(url: string): Promise<PageSnapshot | null>;
+  /** Snapshots of a URL, most recently seen first */
+  history(url: string, limit?: number): Promise<SnapshotSummary[]>;
+  recordCitations(citations: SnapshotCitation[]): Promise<void>;
+  citations(searchId: string): Promise<SnapshotCitation[]>;
+  /** IDs of the searches whose answers cited the snapshot, or else any snapshot of the URL */
+  citingSearches(cited: { snapshotId?: string; url?: string }): Promise<string[]>;
+}
+
+/**
+ * Hash of a page's content blocks, ignoring whitespace around each block
+ */
+export function hashSnapshotContent(blocks: string[]): string {
+  return createHash('sha256').update(blocks.map(block => block.trim()).join('\n\n')).digest('hex');
+}
+
+/**
+ * Snapshot ID: the same content at the same URL always gets the same ID
+ */
+export function snapshotId(url: string, contentHash: string): string {
+  return createHash('sha256').update(`${url}\n${contentHash}`).digest('hex').slice(0, 32);
+}
+
+export function summarizeSnapshot({ blocks, pages: _pages, ...snapshot }: PageSnapshot): SnapshotSummary {
+  return { ...snapshot, blockCount: blocks.length };
+}
+
+export interface SnapshotChange {
+  snapshotId: string;
+  url: string;
+  /** `changed` when the page has been scraped with different content since */
+  status: 'unchanged' | 'changed' | 'unknown';
+  snapshot: SnapshotSummary | null;
+  latest: SnapshotSummary | null;
+  /** Blocks of the latest snapshot missing from the cited one, and the reverse */
+  addedBlocks?: number;
+  removedBlocks?: number;
+}
+
+/**
+ * Whether a page changed after a snapshot was taken: compares the snapshot
+ * with the latest one archived for its URL
+ *
+ * Unknown snapshots (e.g. pruned from the in-memory store) are reported as
+ * `unknown`.
+ */
+export async function detectSnapshotChange(store: SnapshotStore, id: string): Promise<SnapshotChange> {
+  const snapshot = await store.get(id);
+  if (!snapshot) {
+    return { snapshotId: id, url: '', status: 'unknown', snapshot: null, latest: null };
+  }
+
+  const latest = await store.latest(snapshot.url);
+  if (!latest || latest.contentHash === snapshot.contentHash) {
+    return {
+      snapshotId: id,
+      url: snapshot.url,
+      status: 'unchanged',
+      snapshot: summarizeSnapshot(snapshot),
+      latest: summarizeSnapshot(latest || snapshot)
+    };
+  }
+
+  const cited = new Set(snapshot.blocks.map(block => block.trim()));
+  const current = new Set(latest.blocks.map(block => block.trim()));
+  return {
+    snapshotId: id,
+    url: snapshot.url,
+    status: 'changed',
+    snapshot: summarizeSnapshot(snapshot),
+    latest: summarizeSnapshot(latest),
+    addedBlocks: [...current].filter(block => !cited.has(block)).length,
+    removedBlocks: [...cited].filter(block => !current.has(block)).length
+  };
+}
+
+export type SnapshotStoreBackend = 'memory' | 'postgres';
+
+/**
+ * Create the snapshot store selected by SNAPSHOT_STORE (default: memory)
+ *
+ * `postgres` needs migrations/11_create_page_snapshots_table.sql; `memory`
+ * keeps at most SNAPSHOT_STORE_MAX_SNAPSHOTS snapshots per server process.
+ */
+export function createSnapshotStore(backend: string = process.env.SNAPSHOT_STORE || 'memory'): SnapshotStore {
+  switch (backend as SnapshotStoreBackend) {
+    case 'postgres':
+      return new PostgresSnapshotStore();
+    case 'memory':
+      return new InMemorySnapshotStore(Number(process.env.SNAPSHOT_STORE_MAX_SNAPSHOTS) || 2000);
+    default:
+      console.warn(`⚠️  Unknown SNAPSHOT_STORE "${backend}", using memory`);
+      return new InMemorySnapshotStore(Number(process.env.SNAPSHOT_STORE_MAX_SNAPSHOTS) || 2000);
+  }
+}
+
+// Export singleton instance
+export const snapshotStore = createSnapshotStore();
@@ -0,0 +1,84 @@
+import {
+  hashSnapshotContent,
+  snapshotId,
+  summarizeSnapshot
+} from './index';
+import type { NewPageSnapshot, PageSnapshot, SnapshotCitation, SnapshotStore, SnapshotSummary } from './index';
+
+/**
+ * Snapshot archive held in process memory, used when no database is
+ * configured and in tests. The least recently seen snapshots are evicted
+ * beyond `maxSnapshots`; citations are kept for the snapshots' lifetime.
+ */
+export class InMemorySnapshotStore implements SnapshotStore {
+  private snapshots: Map<string, PageSnapshot> = new Map();
+  private citationsBySearch: Map<string, SnapshotCitation[]> = new Map();
+
+  constructor(private maxSnapshots: number = 2000) {}
+
+  get size(): number {
+    return this.snapshots.size;
+  }
+
+  async save(snapshot: NewPageSnapshot): Promise<PageSnapshot> {
+    const contentHash = hashSnapshotContent(snapshot.blocks);
+    const id = snapshotId(snapshot.url, contentHash);
+    const now = new Date().toISOString();
+
+    const existing = this.snapshots.get(id);
+    const saved: PageSnapshot = existing
+      ? { ...existing, lastSeenAt: now }
+      : { ...snapshot, id, contentHash, fetchedAt: now, lastSeenAt: now };
+
+    // Re-insert so the map stays ordered by lastSeenAt
+    this.snapshots.delete(id);
+    this.snapshots.set(id, saved);
+
+    while (this.snapshots.size > this.maxSnapshots) {
+      const oldestId = this.snapshots.keys().next().value as string;
+      this.snapshots.delete(oldestId);
+    }
+
+    return saved;
+  }
+
+  async get(id: string): Promise<PageSnapshot | null> {
+    return this.snapshots.get(id) || null;
+  }
+
+  async latest(url: string): Promise<PageSnapshot | null> {
+    let latest: PageSnapshot | null = null;
+    for (const snapshot of this.snapshots.values()) {
+      if (snapshot.url === url) latest = snapshot;
+    }
+    return latest;
+  }
+
+  async history(url: string, limit = 20): Promise<SnapshotSummary[]> {
+    return [...this.snapshots.values()]
+      .filter(snapshot => snapshot.url === url)
+      .reverse()
+      .slice(0, limit)
+      .map(summarizeSnapshot);
+  }
+
+  async recordCitations(citations: SnapshotCitation[]): Promise<void> {
+    for (const citation of citations) {
+      const recorded = (this.citationsBySearch.get(citation.searchId) || [])
+        .filter(existing => existing.citationId !== citation.citationId);
+      this.citationsBySearch.set(citation.searchId, [...recorded, citation].sort((a, b) => a.citationId - b.citationId));
+    }
+  }
+
+  async citations(searchId: string): Promise<SnapshotCitation[]> {
+    return this.citationsBySearch.get(searchId) || [];
+  }
+
+  async citingSearches(cited: { snapshotId?: string; url?: string }): Promise<string[]> {
+    return Array.from(this.citationsBySearch)
+      .filter(([, citations]) => citations.some(citation =>
+        cited.snapshotId ? citation.snapshotId === cited.snapshotId : citation.url === cited.url
+      ))
+      .map(([searchId]) => searchId);
+  }
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { hashSnapshotContent, snapshotId } from './index';
+import type { NewPageSnapshot, PageSnapshot, SnapshotCitation, SnapshotStore, SnapshotSummary } from './index';
+
+const SUMMARY_COLUMNS = 'id, url, content_hash, fetched_at, last_seen_at, title, format, scraper, block_count';
+
+function toSnapshot(row: any): PageSnapshot {
+  return {
+    id: row.id,
+    url: row.url,
+    contentHash: row.content_hash,
+    fetchedAt: row.fetched_at,
+    lastSeenAt: row.last_seen_at,
+    ...(row.title ? { title: row.title } : {}),
+    ...(row.format ? { format: row.format } : {}),
+    ...(row.scraper ? { scraper: row.scraper } : {}),
+    blocks: row.blocks || [],
+    ...(row.pages ? { pages: row.pages } : {})
+  };
+}
+
+function toSummary(row: any): SnapshotSummary {
+  const { blocks: _blocks, pages: _pages, ...snapshot } = toSnapshot({ ...row, blocks: [] });
+  return { ...snapshot, blockCount: row.block_count };
+}
+
+/**
+ * Snapshot archive in Postgres through Supabase, shared by every server
+ * instance. See migrations/11_create_page_snapshots_table.sql.
+ *
+ * Database errors are logged: reads return nothing and writes are dropped,
+ * so an unavailable archive never fails a search.
+ */
+export class PostgresSnapshotStore implements SnapshotStore {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private table: string = 'page_snapshots',
+    private citationsTable: string = 'snapshot_citations'
+  ) {}
+
+  async save(snapshot: NewPageSnapshot): Promise<PageSnapshot> {
+    const contentHash = hashSnapshotContent(snapshot.blocks);
+    const id = snapshotId(snapshot.url, contentHash);
+    const now = new Date().toISOString();
+    const saved: PageSnapshot = { ...snapshot, id, contentHash, fetchedAt: now, lastSeenAt: now };
+
+    const { data: existing, error: readError } = await this.client
+      .from(this.table)
+      .select('fetched_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (readError) {
+      console.warn(`⚠️  Snapshot read failed for ${snapshot.url}:`, readError.message);
+      return saved;
+    }
+
+    // The same content was archived before: keep when it was first seen
+    if (existing) {
+      const { error } = await this.client.from(this.table).update({ last_seen_at: now }).eq('id', id);
+      if (error) {
+        console.warn(`⚠️  Snapshot update failed for ${snapshot.url}:`, error.message);
+      }
+      return { ...saved, fetchedAt: existing.fetched_at };
+    }
+
+    const { error } = await this.client
+      .from(this.table)
+      .insert({
+        id,
+        url: snapshot.url,
+        content_hash: contentHash,
+        fetched_at: now,
+        last_seen_at: now,
+        title: snapshot.title,
+        format: snapshot.format,
+        scraper: snapshot.scraper,
+        blocks: snapshot.blocks,
+        pages: snapshot.pages,
+        block_count: snapshot.blocks.length
+      });
+
+    if (error) {
+      console.warn(`⚠️  Snapshot write failed for ${snapshot.url}:`, error.message);
+    }
+    return saved;
+  }
+
+  async get(id: string): Promise<PageSnapshot | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️  Snapshot read failed for ${id}:`, error.message);
+      return null;
+    }
+    return data ? toSnapshot(data) : null;
+  }
+
+  async latest(url: string): Promise<PageSnapshot | null> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('url', url)
+      .order('last_seen_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️  Snapshot read failed for ${url}:`, error.message);
+      return null;
+    }
+    return data ? toSnapshot(data) : null;
+  }
+
+  async history(url: string, limit = 20): Promise<SnapshotSummary[]> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select(SUMMARY_COLUMNS)
+      .eq('url', url)
+      .order('last_seen_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.warn(`⚠️  Snapshot history read failed for ${url}:`, error.message);
+      return [];
+    }
+    return (data || []).map(toSummary);
+  }
+
+  async recordCitations(citations: SnapshotCitation[]): Promise<void> {
+    if (citations.length === 0) return;
+
+    const { error } = await this.client
+      .from(this.citationsTable)
+      .upsert(citations.map(citation => ({
+        search_id: citation.searchId,
+        citation_id: citation.citationId,
+        snapshot_id: citation.snapshotId,
+        url: citation.url
+      })));
+
+    if (error) {
+      console.warn(`⚠️  Citation write failed for search ${citations[0].searchId}:`, error.message);
+    }
+  }
+
+  async citations(searchId: string): Promise<SnapshotCitation[]> {
+    const { data, error } = await this.client
+      .from(this.citationsTable)
+      .select('search_id, citation_id, snapshot_id, url')
+      .eq('search_id', searchId)
+      .order('citation_id', { ascending: true });
+
+    if (error) {
+      console.warn(`⚠️  Citation read failed for search ${searchId}:`, error.message);
+      return [];
+    }
+    return (data || []).map(row => ({
+      searchId: row.search_id,
+      citationId: row.citation_id,
+      snapshotId: row.snapshot_id,
+      url: row.url
+    }));
+  }
+
+  async citingSearches(cited: { snapshotId?: string; url?: string }): Promise<string[]> {
+    const query = this.client.from(this.citationsTable).select('search_id');
+    const { data, error } = await (cited.snapshotId
+      ? query.eq('snapshot_id', cited.snapshotId)
+      : query.eq('url', cited.url));
+
+    if (error) {
+      console.warn(`⚠️  Citation read failed for ${cited.snapshotId || cited.url}:`, error.message);
+      return [];
+    }
+    return [...new Set((data || []).map(row => row.search_id as string))];
+  }
+}
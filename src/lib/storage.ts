@@ -110,3 +110,51 @@ export async function getAllSearches(): Promise<Search[]> {
   return Object.values(searches).sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
 }
 
+
+/**
+ * ID of the user who started a search, or null when it isn't recorded or
+ * can't be read
+ */
+export async function getSearchOwner(searchId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from("searches")
+      .select("user_id")
+      .eq("searchId", searchId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error looking up search owner:", error.message);
+      return null;
+    }
+    return data?.user_id ?? null;
+  } catch (err) {
+    console.error("Exception in getSearchOwner:", err);
+    return null;
+  }
+}
+
+/**
+ * Whether the user started any of the searches
+ */
+export async function ownsAnySearch(userId: string, searchIds: string[]): Promise<boolean> {
+  if (searchIds.length === 0) return false;
+
+  try {
+    const { data, error } = await supabase
+      .from("searches")
+      .select("searchId")
+      .in("searchId", searchIds)
+      .eq("user_id", userId)
+      .limit(1);
+
+    if (error) {
+      console.error("Error looking up search owners:", error.message);
+      return false;
+    }
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error("Exception in ownsAnySearch:", err);
+    return false;
+  }
+}
@@ -34,6 +34,24 @@ export async function getAuthenticatedUserId(): Promise<string> {
   return MOCK_USER_ID;
 }
 
+/**
+ * ID of the signed-in user, or null without a session; the mock user ID
+ * when auth bypass is enabled
+ */
+export async function getSignedInUserId(): Promise<string | null> {
+  if (isAuthBypassEnabled) {
+    return MOCK_USER_ID;
+  }
+
+  try {
+    const session = await auth();
+    return session?.user?.id || null;
+  } catch (error) {
+    console.error("Authentication error:", error);
+    return null;
+  }
+}
+
 /**
  * Wraps an API route handler with authentication handling
  */
@@ -0,0 +1,143 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'node:zlib';
+import { MAX_EXTRACTED_TEXT_LENGTH, extractDocumentText } from './document-text';
+
+/**
+ * A PDF with one content stream per page, set in Helvetica
+ */
+function buildPdf(pages: string[], title: string): Buffer {
+  const objects: string[] = [];
+  const fontId = 3 + pages.length * 2;
+  const infoId = fontId + 1;
+  const pageIds = pages.map((_, index) => 3 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  pages.forEach((content, index) => {
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+  objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  objects[infoId] = `<< /Title (${title}) >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * A ZIP archive of deflated entries
+ */
+function buildZip(entries: Record<string, Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const paragraph = (text: string, properties = '') =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+function buildDocx(body: string): Buffer {
+  return buildZip({
+    'word/document.xml': Buffer.from(`<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`),
+    'docProps/core.xml': Buffer.from('<cp:coreProperties><dc:title>Pump guide</dc:title></cp:coreProperties>')
+  });
+}
+
+test('PDF text is read page by page, with larger lines as headings', async () => {
+  const pdf = buildPdf([
+    'BT /F1 24 Tf 72 700 Td (Heat pumps) Tj ET\nBT /F1 12 Tf 72 660 Td (Heat pumps move heat from outside air.) Tj 0 -16 Td (They work in cold weather too.) Tj ET',
+    'BT /F1 12 Tf 72 700 Td (The second page explains sizing.) Tj ET'
+  ], 'Pump guide');
+
+  const document = await extractDocumentText(pdf, 'pdf');
+
+  assert.equal(document.title, 'Pump guide');
+  assert.deepEqual(document.pages, [
+    { pageNumber: 1, text: '# Heat pumps\n\nHeat pumps move heat from outside air.\nThey work in cold weather too.' },
+    { pageNumber: 2, text: 'The second page explains sizing.' }
+  ]);
+  assert.equal(document.text, document.pages!.map(page => page.text).join('\n\n'));
+});
+
+test('an unreadable PDF is an error', async () => {
+  await assert.rejects(extractDocumentText(Buffer.from('not a pdf'), 'pdf'), /Not a readable PDF/);
+});
+
+test('DOCX headings, list items, tables and page breaks are kept', async () => {
+  const docx = buildDocx([
+    paragraph('Heat pumps', '<w:pStyle w:val="Heading1"/>'),
+    paragraph('Efficient heating.'),
+    paragraph('Air source', '<w:numPr><w:ilvl w:val="0"/></w:numPr>'),
+    '<w:tbl><w:tr><w:tc>' + paragraph('Type') + '</w:tc><w:tc>' + paragraph('COP') + '</w:tc></w:tr>' +
+      '<w:tr><w:tc>' + paragraph('Air') + '</w:tc><w:tc>' + paragraph('3') + '</w:tc></w:tr></w:tbl>',
+    '<w:p><w:r><w:br w:type="page"/><w:t>Sizing comes next.</w:t></w:r></w:p>'
+  ].join(''));
+
+  const document = await extractDocumentText(docx, 'docx');
+
+  assert.equal(document.title, 'Pump guide');
+  assert.deepEqual(document.pages, [
+    { pageNumber: 1, text: '# Heat pumps\n\nEfficient heating.\n\n- Air source\n\n| Type | COP |\n| --- | --- |\n| Air | 3 |' },
+    { pageNumber: 2, text: 'Sizing comes next.' }
+  ]);
+});
+
+test('a DOCX part inflating beyond the limit is refused', async () => {
+  const bomb = buildZip({ 'word/document.xml': Buffer.alloc(65 * 1024 * 1024, 0x20) });
+
+  await assert.rejects(extractDocumentText(bomb, 'docx'), /inflates to more than/);
+});
+
+test('extracted text is cut off at the limit, pages included', async () => {
+  const page = 'a'.repeat(MAX_EXTRACTED_TEXT_LENGTH / 2 + 10);
+  const document = await extractDocumentText(Buffer.from(`${page}\f${page}\f${page}`), 'text');
+
+  assert.equal(document.text.length, MAX_EXTRACTED_TEXT_LENGTH);
+  assert.equal(document.pages?.length, 2);
+  assert.ok(document.pages!.every(({ text }) => text.length <= page.length));
+});
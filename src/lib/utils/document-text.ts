@@ -0,0 +1,487 @@
+/**
+ * Plain-text extraction for documents read from disk or fetched as raw bytes
+ */
+
+import { inflateRawSync } from 'zlib';
+import { cleanHTML, removeBannersAndAds } from '../mastra-vnext-utils/content-processing';
+
+export type DocumentFormat = 'markdown' | 'html' | 'text' | 'pdf' | 'docx';
+
+export interface DocumentPage {
+  /** 1-based page number */
+  pageNumber: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  title?: string;
+  text: string;
+  /** Text of each page, for paged formats whose page breaks are known */
+  pages?: DocumentPage[];
+}
+
+// Text kept per document; larger documents are cut off, keeping their first pages
+export const MAX_EXTRACTED_TEXT_LENGTH = 2_000_000;
+
+// Size a compressed DOCX part may inflate to, so a small archive can't exhaust memory
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+  '.text': 'text',
+  '.pdf': 'pdf',
+  '.docx': 'docx'
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, DocumentFormat> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+  'application/pdf': 'pdf',
+  'application/x-pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+};
+
+/**
+ * Document format from a file name, or undefined for unsupported files
+ */
+export function detectFormatFromPath(filePath: string): DocumentFormat | undefined {
+  const extension = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+  return EXTENSION_FORMATS[extension];
+}
+
+/**
+ * Document format of fetched bytes
+ *
+ * File signatures win over the Content-Type header, which servers often get
+ * wrong for documents (application/octet-stream, or text/html for a PDF
+ * behind a download link); the URL's extension is the last resort. Returns
+ * undefined for formats that cannot be extracted.
+ */
+export function detectDocumentFormat(options: { contentType?: string; url?: string; data?: Buffer }): DocumentFormat | undefined {
+  const { contentType, url, data } = options;
+
+  if (data) {
+    const head = data.subarray(0, 1024).toString('latin1');
+    if (head.startsWith('%PDF-')) return 'pdf';
+    if (head.startsWith('PK\x03\x04')) {
+      return data.includes('word/document.xml') ? 'docx' : undefined;
+    }
+  }
+
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType && CONTENT_TYPE_FORMATS[mimeType]) {
+    return CONTENT_TYPE_FORMATS[mimeType];
+  }
+
+  if (url) {
+    try {
+      const format = detectFormatFromPath(new URL(url).pathname);
+      if (format) return format;
+    } catch {
+      // Not a URL; fall through to sniffing
+    }
+  }
+
+  if (data && /^\s*(<!doctype html|<html)/i.test(data.subarray(0, 1024).toString('utf8'))) {
+    return 'html';
+  }
+
+  // Untyped bodies that are not binary are read as text
+  const binary = data ? data.subarray(0, 1024).includes(0) : false;
+  return !binary && (!mimeType || mimeType === 'application/octet-stream') ? 'text' : undefined;
+}
+
+function fromCodePoint(code: number): string {
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+}
+
+/**
+ * Decode the handful of HTML entities that survive tag stripping
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert an HTML page to readable text, keeping block boundaries as blank lines
+ */
+export function htmlToText(html: string): ExtractedDocument {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  const text = decodeEntities(
+    removeBannersAndAds(cleanHTML(html))
+      .replace(/<(head|nav|header|footer|aside|noscript|svg)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, heading) => `\n\n${'#'.repeat(Number(level))} ${heading}\n\n`)
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/(p|div|section|article|li|tr|table|blockquote|pre)>|<br\s*\/?>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    title: titleMatch ? decodeEntities(titleMatch[1]).trim() : undefined,
+    text
+  };
+}
+
+interface PdfTextLine {
+  text: string;
+  /** Rendered font size, used to tell headings from body text */
+  size: number;
+}
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+
+// pdf.js is an ES module, loaded on the first PDF
+let pdfjs: Promise<PdfJs> | null = null;
+
+function loadPdfJs(): Promise<PdfJs> {
+  pdfjs ??= import('pdfjs-dist/legacy/build/pdf.mjs');
+  return pdfjs;
+}
+
+/**
+ * Lines of text of a page, from the text items pdf.js lays out
+ *
+ * An item ending its line, or set on a different baseline, ends a line.
+ */
+async function pdfPageLines(page: { getTextContent(): Promise<{ items: Array<object> }> }): Promise<PdfTextLine[]> {
+  const { items } = await page.getTextContent();
+  const lines: PdfTextLine[] = [];
+  let line = '';
+  let lineSize = 0;
+  let baseline: number | undefined;
+
+  const endLine = () => {
+    if (line.trim()) {
+      lines.push({ text: line.replace(/\s+/g, ' ').trim(), size: lineSize });
+    }
+    line = '';
+    lineSize = 0;
+    baseline = undefined;
+  };
+
+  for (const item of items) {
+    // Marked content items carry no text
+    if (!('str' in item)) continue;
+    const { str, transform, hasEOL } = item as { str: string; transform: number[]; hasEOL: boolean };
+    // The vertical scale of the text matrix is the rendered font size
+    const size = Math.hypot(transform[2], transform[3]);
+    const y = transform[5];
+
+    if (baseline !== undefined && str.trim() && Math.abs(y - baseline) > Math.max(size, lineSize) / 2) {
+      endLine();
+    }
+    if (str.trim()) {
+      baseline ??= y;
+      lineSize = Math.max(lineSize, size);
+    }
+    line += str;
+    if (hasEOL) endLine();
+  }
+
+  endLine();
+  return lines;
+}
+
+/**
+ * Text of each page, marking lines set well above the body size as headings
+ */
+function composePdfPages(pageLines: PdfTextLine[][]): string[] {
+  // The body size is the one most characters are set in
+  const sizeWeights = new Map<number, number>();
+  for (const line of pageLines.flat()) {
+    const size = Math.round(line.size * 10) / 10;
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
+  }
+  const bodySize = [...sizeWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+  return pageLines.map(lines => lines.map(line => {
+    const ratio = bodySize > 0 ? line.size / bodySize : 1;
+    if (ratio >= 1.15 && line.text.length <= 120 && /\p{L}/u.test(line.text)) {
+      return `\n${ratio >= 1.6 ? '#' : '##'} ${line.text}\n`;
+    }
+    return line.text;
+  }).join('\n').replace(/\n{3,}/g, '\n\n').trim());
+}
+
+/**
+ * Extract text from a PDF with pdf.js
+ *
+ * Pages are read in order, so each page's text is kept with its number;
+ * lines set in a larger font than the body text become Markdown headings.
+ * Reading stops at MAX_EXTRACTED_TEXT_LENGTH characters. Documents that
+ * need a password yield no text.
+ */
+export async function extractPdfText(data: Buffer): Promise<ExtractedDocument> {
+  const { getDocument } = await loadPdfJs();
+  const loadingTask = getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0
+  });
+
+  try {
+    const document = await loadingTask.promise;
+    const { info } = await document.getMetadata().catch(() => ({ info: undefined }));
+    const rawTitle = (info as { Title?: unknown } | undefined)?.Title;
+    const title = typeof rawTitle === 'string' ? rawTitle.trim() || undefined : undefined;
+
+    const pageLines: PdfTextLine[][] = [];
+    let length = 0;
+    for (let pageNumber = 1; pageNumber <= document.numPages && length < MAX_EXTRACTED_TEXT_LENGTH; pageNumber++) {
+      const lines = await pdfPageLines(await document.getPage(pageNumber));
+      pageLines.push(lines);
+      length += lines.reduce((sum, line) => sum + line.text.length + 1, 0);
+    }
+
+    const pages = composePdfPages(pageLines)
+      .map((text, index) => ({ pageNumber: index + 1, text }))
+      .filter(page => page.text);
+
+    return { title, text: pages.map(page => page.text).join('\n\n'), ...(pages.length > 0 ? { pages } : {}) };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      return { text: '' };
+    }
+    throw new Error(`Not a readable PDF: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+/**
+ * Read one file from a ZIP archive (stored or deflated entries)
+ */
+function readZipEntry(data: Buffer, name: string): Buffer | undefined {
+  // The end of central directory record sits in the last 64 KiB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return undefined;
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entryCount && offset + 46 <= data.length; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const compressed = data.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return compressed;
+      if (method === 8) {
+        try {
+          return inflateRawSync(compressed, { maxOutputLength: MAX_INFLATED_BYTES });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new Error(`${name} inflates to more than ${MAX_INFLATED_BYTES} bytes`);
+          }
+          throw error;
+        }
+      }
+      return undefined;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return undefined;
+}
+
+/**
+ * Text of a WordprocessingML fragment: runs, tabs and line breaks
+ */
+function docxRunText(xml: string): string {
+  return decodeEntities(
+    xml.replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>|<[^>]+>/g, (tag, text) => {
+      if (text !== undefined) return text;
+      if (tag === '<w:tab/>') return '\t';
+      if (tag.startsWith('<w:br') || tag === '<w:cr/>') return '\n';
+      return '';
+    })
+  );
+}
+
+/**
+ * Extract text from a Word (.docx) document
+ *
+ * Heading and Title styles become Markdown headings, numbered and bulleted
+ * paragraphs list items, and tables Markdown tables. Word records where
+ * pages broke when the document was last saved; when it did, the text of
+ * each page is kept with its number.
+ */
+export function extractDocxText(data: Buffer): ExtractedDocument {
+  const documentXml = readZipEntry(data, 'word/document.xml')?.toString('utf8');
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const coreXml = readZipEntry(data, 'docProps/core.xml')?.toString('utf8');
+  const title = coreXml?.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1];
+
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || documentXml;
+  const pageBlocks: string[][] = [[]];
+  let pageBreaks = 0;
+
+  const blockRegex = /<w:tbl\b[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockRegex.exec(body))) {
+    const block = match[0];
+
+    if (block.startsWith('<w:tbl')) {
+      const rows = [...block.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)].map(row =>
+        [...row[0].matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)]
+          .map(cell => docxRunText(cell[0].replace(/<\/w:p>/g, ' ')).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'))
+      );
+      if (rows.length > 0) {
+        const lines = rows.map(cells => `| ${cells.join(' | ')} |`);
+        lines.splice(1, 0, `| ${rows[0].map(() => '---').join(' | ')} |`);
+        pageBlocks[pageBlocks.length - 1].push(lines.join('\n'));
+      }
+      continue;
+    }
+
+    // A break before the paragraph's first text starts it on the next page
+    const breaks = [...block.matchAll(/<w:lastRenderedPageBreak\/>|<w:br\b[^>]*w:type="page"[^>]*\/>/g)];
+    const firstText = block.search(/<w:t(?:\s[^>]*)?>[^<]/);
+    for (const pageBreak of breaks) {
+      if (firstText === -1 || pageBreak.index! < firstText) {
+        pageBlocks.push([]);
+        pageBreaks++;
+      }
+    }
+
+    const text = docxRunText(block.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/, '')).trim();
+    if (text) {
+      const style = block.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+      const outlineLevel = block.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+      const headingLevel = /^title$/i.test(style) ? 1
+        : /heading\s*(\d)/i.test(style) ? Number(style.match(/heading\s*(\d)/i)![1])
+        : outlineLevel !== undefined ? Number(outlineLevel) + 1
+        : 0;
+
+      if (headingLevel > 0) {
+        pageBlocks[pageBlocks.length - 1].push(`${'#'.repeat(Math.min(headingLevel, 6))} ${text.replace(/\s+/g, ' ')}`);
+      } else if (/<w:numPr>/.test(block)) {
+        pageBlocks[pageBlocks.length - 1].push(`- ${text}`);
+      } else {
+        pageBlocks[pageBlocks.length - 1].push(text);
+      }
+    }
+
+    // Breaks after the first text start the next paragraph on a new page
+    for (const pageBreak of breaks) {
+      if (firstText !== -1 && pageBreak.index! > firstText) {
+        pageBlocks.push([]);
+        pageBreaks++;
+      }
+    }
+  }
+
+  const pages = pageBlocks
+    .map((blocks, index) => ({ pageNumber: index + 1, text: blocks.join('\n\n') }))
+    .filter(page => page.text);
+
+  return {
+    title: title ? decodeEntities(title).trim() || undefined : undefined,
+    text: pages.map(page => page.text).join('\n\n'),
+    ...(pageBreaks > 0 ? { pages } : {})
+  };
+}
+
+/**
+ * Plain text, split into pages at form feeds (as written by pdftotext and
+ * line printers)
+ */
+export function extractPlainText(data: Buffer): ExtractedDocument {
+  const text = data.toString('utf8').replace(/^\uFEFF/, '');
+  const pageTexts = text.split('\f');
+  if (pageTexts.length <= 1) {
+    return { text };
+  }
+
+  const pages = pageTexts
+    .map((pageText, index) => ({ pageNumber: index + 1, text: pageText.trim() }))
+    .filter(page => page.text);
+  return { text: pages.map(page => page.text).join('\n\n'), pages };
+}
+
+/**
+ * Cut a document's text, and its pages, to MAX_EXTRACTED_TEXT_LENGTH characters
+ */
+function limitDocumentText(document: ExtractedDocument): ExtractedDocument {
+  if (document.text.length <= MAX_EXTRACTED_TEXT_LENGTH) {
+    return document;
+  }
+
+  let remaining = MAX_EXTRACTED_TEXT_LENGTH;
+  const pages = document.pages?.flatMap(page => {
+    if (remaining <= 0) return [];
+    const text = page.text.slice(0, remaining);
+    remaining -= page.text.length + 2;
+    return [{ ...page, text }];
+  });
+
+  return {
+    ...document,
+    text: document.text.slice(0, MAX_EXTRACTED_TEXT_LENGTH),
+    ...(pages ? { pages } : {})
+  };
+}
+
+/**
+ * Extract plain text from raw document bytes in a known format
+ *
+ * At most MAX_EXTRACTED_TEXT_LENGTH characters of text are returned.
+ */
+export async function extractDocumentText(data: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return limitDocumentText(await extractPdfText(data));
+    case 'docx':
+      return limitDocumentText(extractDocxText(data));
+    case 'html':
+      return limitDocumentText(htmlToText(data.toString('utf8')));
+    case 'markdown': {
+      const text = data.toString('utf8');
+      const headingMatch = text.match(/^#\s+(.+)$/m);
+      return limitDocumentText({ title: headingMatch?.[1].trim(), text });
+    }
+    default:
+      return limitDocumentText(extractPlainText(data));
+  }
+}
@@ -2,25 +2,30 @@
  * Server-Sent Events utility for real-time search updates
  */
 
-export interface SSEMessage {
-  step: number;
-  type: string;
-  payload: any;
-  error?: boolean;
-  errorType?: string;
-}
+import { EVENT_PROTOCOL_VERSION, StreamChunk, parseStreamEvent } from '@/lib/event-protocol';
+
+// Messages are events of the stream protocol shared with the server
+export type SSEMessage = StreamChunk;
 
 export interface SSEOptions {
   onMessage?: (message: SSEMessage) => void;
   onError?: (error: Event) => void;
   onOpen?: (event: Event) => void;
   onClose?: () => void;
+  /** Called when the server ended the stream for good; it is not reconnected */
+  onEnd?: () => void;
+  /** ID of the last event already received, to resume the stream after */
+  lastEventId?: number;
   retry?: number;
   timeout?: number;
 }
 
 /**
  * SSE Client for consuming search progress updates
+ *
+ * Remembers the ID of the last event received; when the connection is lost
+ * for good, a new one is opened with `lastEventId` in the URL so the stream
+ * resumes after it. An `end` event from the server stops reconnecting.
  */
 export class SSEClient {
   private eventSource: EventSource | null = null;
@@ -29,6 +34,8 @@ export class SSEClient {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private lastEventId: number;
+  private stopped = false;
 
   constructor(url: string, options: SSEOptions = {}) {
     this.url = url;
@@ -37,6 +44,16 @@ export class SSEClient {
       timeout: 30000,
       ...options
     };
+    this.lastEventId = options.lastEventId || 0;
+  }
+
+  /**
+   * The endpoint URL, resuming after the last event received
+   */
+  private resumeUrl(): string {
+    if (!this.lastEventId) return this.url;
+    const separator = this.url.includes('?') ? '&' : '?';
+    return `${this.url}${separator}lastEventId=${this.lastEventId}`;
   }
 
   /**
@@ -46,9 +63,10 @@ export class SSEClient {
     if (this.eventSource) {
       this.disconnect();
     }
+    this.stopped = false;
 
     try {
-      this.eventSource = new EventSource(this.url);
+      this.eventSource = new EventSource(this.resumeUrl());
 
       this.eventSource.onopen = (event) => {
         console.log('[SSE] Connection opened');
@@ -57,15 +75,26 @@ export class SSEClient {
       };
 
       this.eventSource.onmessage = (event) => {
-        try {
-          const message: SSEMessage = JSON.parse(event.data);
+        const eventId = Number(event.lastEventId);
+        if (eventId) {
+          // Already received before the connection was replaced
+          if (eventId <= this.lastEventId) return;
+          this.lastEventId = eventId;
+        }
+
+        const message = parseStreamEvent(event.data);
+        if (message) {
           console.log('[SSE] Message received:', message);
           this.options.onMessage?.(message);
-        } catch (parseError) {
-          console.error('[SSE] Error parsing message:', parseError);
         }
       };
 
+      this.eventSource.addEventListener('end', () => {
+        console.log('[SSE] Stream ended by the server');
+        this.disconnect();
+        this.options.onEnd?.();
+      });
+
       this.eventSource.onerror = (event) => {
         console.error('[SSE] Connection error:', event);
         this.options.onError?.(event);
@@ -95,6 +124,7 @@ export class SSEClient {
    * Disconnect from SSE endpoint
    */
   disconnect(): void {
+    this.stopped = true;
     if (this.eventSource) {
       this.eventSource.close();
       this.eventSource = null;
@@ -107,6 +137,10 @@ export class SSEClient {
    * Handle reconnection logic
    */
   private handleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('[SSE] Max reconnection attempts reached');
       return;
@@ -118,10 +152,19 @@ export class SSEClient {
     console.log(`[SSE] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
     
     setTimeout(() => {
-      this.connect();
+      if (!this.stopped) {
+        this.connect();
+      }
     }, delay);
   }
 
+  /**
+   * ID of the last event received, 0 before any
+   */
+  getLastEventId(): number {
+    return this.lastEventId;
+  }
+
   /**
    * Check if connected
    */
@@ -186,10 +229,11 @@ export function useSSE(url: string, options: SSEOptions = {}) {
 import { useState, useEffect } from 'react';
 
 /**
- * Create a streaming search client that connects to the enhance-search endpoint
+ * Create a streaming search client that follows a running search's events
+ * from the search-stream endpoint
  */
 export function createSearchStreamClient(query: string, searchId: string): SSEClient {
-  const url = `/api/enhance-search`;
+  const url = `/api/search-stream?searchId=${encodeURIComponent(searchId)}&protocol=${EVENT_PROTOCOL_VERSION}`;
   
   return new SSEClient(url, {
     onMessage: (message) => {
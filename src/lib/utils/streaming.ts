@@ -61,4 +61,25 @@ export function createReadableStreamFromAsyncGenerator<T>(
       }
     }
   });
-}
\ No newline at end of file
+}
+/**
+ * Drain a byte stream (e.g. a workflow summary stream) into a string
+ */
+export async function readStreamToText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += typeof value === 'string' ? value : decoder.decode(value, { stream: true });
+    }
+    text += decoder.decode();
+  } finally {
+    reader.releaseLock();
+  }
+
+  return text;
+}